@@ -3,6 +3,7 @@ import cors from 'cors';
 import helmet from 'helmet';
 import { prisma } from '@kbase/database';
 import { errorHandler, notFoundHandler } from './middleware/error';
+import { rateLimit } from './middleware/rate-limit';
 import authRoutes from './routes/auth';
 import articleRoutes from './routes/articles';
 import commentRoutes from './routes/comments';
@@ -11,15 +12,87 @@ import documentRoutes from './routes/documents';
 import categoryRoutes from './routes/categories';
 import tagRoutes from './routes/tags';
 import adminRoutes from './routes/admin';
+import searchRoutes from './routes/search';
+import reviewRoutes from './routes/reviews';
+import tokenRoutes from './routes/tokens';
+import groupRoutes from './routes/groups';
+import userRoutes from './routes/users';
+import templateRoutes from './routes/templates';
+import { startScheduler } from './lib/scheduler';
+import { seedRolePermissions } from './lib/permissions';
 
 const app = express();
 const PORT = process.env.API_PORT || 3001;
 
+const MINUTE = 60 * 1000;
+const HOUR = 60 * MINUTE;
+
+// Behind a load balancer req.ip is the proxy's address unless Express trusts it.
+// Set TRUST_PROXY to the number of proxy hops in front of the API.
+if (process.env.TRUST_PROXY) {
+  app.set('trust proxy', Number(process.env.TRUST_PROXY) || process.env.TRUST_PROXY);
+}
+
 // Middleware
 app.use(helmet());
-app.use(cors({ origin: 'http://localhost:3000', credentials: true }));
+app.use(
+  cors({
+    origin: 'http://localhost:3000',
+    credentials: true,
+    exposedHeaders: [
+      'RateLimit-Policy',
+      'RateLimit-Limit',
+      'RateLimit-Remaining',
+      'RateLimit-Reset',
+      'Retry-After',
+    ],
+  })
+);
 app.use(express.json());
 
+// Rate limits. Paths match as prefixes, so /api/auth/login covers /login/2fa too.
+// Login also has a per-account lockout; these limits stop spraying many accounts.
+app.use('/api/auth/login', rateLimit({ name: 'login', windowMs: 15 * MINUTE, max: 20 }));
+app.use('/api/auth/oidc', rateLimit({ name: 'oidc', windowMs: 15 * MINUTE, max: 30 }));
+app.use('/api/auth/register', rateLimit({ name: 'register', windowMs: HOUR, max: 5 }));
+// Each of these sends an email or redeems a token from one
+for (const path of [
+  '/api/auth/forgot-password',
+  '/api/auth/reset-password',
+  '/api/auth/resend-verification',
+  '/api/auth/verify-email',
+  '/api/auth/accept-invitation',
+  '/api/auth/confirm-email-change',
+]) {
+  app.use(path, rateLimit({ name: 'auth-email', windowMs: HOUR, max: 20 }));
+}
+app.use('/api/auth/refresh', rateLimit({ name: 'refresh', windowMs: MINUTE, max: 30 }));
+app.use(
+  '/api/comments',
+  rateLimit({ name: 'comments', windowMs: MINUTE, max: 10, by: 'user', methods: ['POST', 'PUT'] })
+);
+app.use(
+  '/api/reactions',
+  rateLimit({
+    name: 'reactions',
+    windowMs: MINUTE,
+    max: 30,
+    by: 'user',
+    methods: ['POST', 'DELETE'],
+  })
+);
+app.use(
+  '/api/documents',
+  rateLimit({ name: 'uploads', windowMs: HOUR, max: 60, by: 'user', methods: ['POST'] })
+);
+// Exports render every article they contain, PDFs especially
+app.use(
+  ['/api/articles/:idOrSlug/export', '/api/categories/:idOrSlug/export'],
+  rateLimit({ name: 'exports', windowMs: HOUR, max: 120, by: 'user' })
+);
+// A ceiling for everything else
+app.use('/api', rateLimit({ name: 'api', windowMs: MINUTE, max: 300, by: 'user' }));
+
 // Health check
 app.get('/health', (_req, res) => {
   res.json({ status: 'ok', timestamp: new Date().toISOString() });
@@ -54,6 +127,24 @@ app.use('/api/tags', tagRoutes);
 // Admin routes
 app.use('/api/admin', adminRoutes);
 
+// Search routes
+app.use('/api/search', searchRoutes);
+
+// Review routes
+app.use('/api/reviews', reviewRoutes);
+
+// Personal access token routes
+app.use('/api/tokens', tokenRoutes);
+
+// Group routes
+app.use('/api/groups', groupRoutes);
+
+// Public profile routes
+app.use('/api/users', userRoutes);
+
+// Article template routes
+app.use('/api/templates', templateRoutes);
+
 // Error handling
 app.use(notFoundHandler);
 app.use(errorHandler);
@@ -64,9 +155,14 @@ async function main() {
     await prisma.$connect();
     console.log('✅ Database connected');
 
+    await seedRolePermissions();
+
     app.listen(PORT, () => {
       console.log(`🚀 API server running on http://localhost:${PORT}`);
     });
+
+    // Publish and archive content whose scheduled time has come
+    startScheduler();
   } catch (error) {
     console.error('❌ Failed to start server:', error);
     process.exit(1);
@@ -0,0 +1,95 @@
+import crypto from 'crypto';
+import { prisma } from '@kbase/database';
+import type { TokenPayload } from './auth';
+import { needsTwoFactorSetup } from './two-factor';
+
+// Lets requireAuth tell a personal token apart from a JWT without decoding it
+export const API_TOKEN_PREFIX = 'kb_pat_';
+export const API_TOKEN_SCOPES = ['read', 'write', 'admin'] as const;
+export type ApiTokenScope = (typeof API_TOKEN_SCOPES)[number];
+
+// Only write lastUsedAt when it is this stale, so busy scripts do not update the row on every call
+const LAST_USED_RESOLUTION_MS = 60 * 1000;
+
+export function isApiToken(token: string): boolean {
+  return token.startsWith(API_TOKEN_PREFIX);
+}
+
+export function hashApiToken(token: string): string {
+  return crypto.createHash('sha256').update(token).digest('hex');
+}
+
+export function generateApiToken() {
+  const token = `${API_TOKEN_PREFIX}${crypto.randomBytes(32).toString('base64url')}`;
+  return {
+    token,
+    tokenHash: hashApiToken(token),
+    tokenPrefix: token.slice(0, API_TOKEN_PREFIX.length + 6),
+  };
+}
+
+// GET and HEAD only need read access; everything else changes data
+export function requiredScope(method: string): ApiTokenScope {
+  return method === 'GET' || method === 'HEAD' ? 'read' : 'write';
+}
+
+// The owner of a token that would be accepted, without counting it as used; for rate limiting
+export async function findApiTokenOwnerId(token: string): Promise<string | null> {
+  const apiToken = await prisma.apiToken.findUnique({
+    where: { tokenHash: hashApiToken(token) },
+    select: { userId: true, expiresAt: true, user: { select: { deactivatedAt: true } } },
+  });
+
+  if (!apiToken || apiToken.user.deactivatedAt) return null;
+  if (apiToken.expiresAt && apiToken.expiresAt < new Date()) return null;
+  return apiToken.userId;
+}
+
+/**
+ * Resolve a personal access token to the same payload a JWT carries. Tokens
+ * without the admin scope act with at most editor rights, so every existing
+ * role check limits them without knowing about tokens. Like a session, a token
+ * is held back while the owner's role requires 2FA they have not set up.
+ */
+export async function authenticateApiToken(token: string): Promise<TokenPayload | null> {
+  const apiToken = await prisma.apiToken.findUnique({
+    where: { tokenHash: hashApiToken(token) },
+    include: {
+      user: {
+        select: {
+          id: true,
+          email: true,
+          role: true,
+          deactivatedAt: true,
+          twoFactorEnabledAt: true,
+        },
+      },
+    },
+  });
+
+  if (!apiToken) return null;
+  // Tokens are kept while an account is deactivated and work again if it is reactivated
+  if (apiToken.user.deactivatedAt) return null;
+  if (apiToken.expiresAt && apiToken.expiresAt < new Date()) return null;
+
+  const now = Date.now();
+  if (!apiToken.lastUsedAt || now - apiToken.lastUsedAt.getTime() > LAST_USED_RESOLUTION_MS) {
+    await prisma.apiToken.update({
+      where: { id: apiToken.id },
+      data: { lastUsedAt: new Date(now) },
+    });
+  }
+
+  const { user } = apiToken;
+  const role = user.role === 'ADMIN' && !apiToken.scopes.includes('admin') ? 'EDITOR' : user.role;
+
+  return {
+    userId: user.id,
+    email: user.email,
+    role,
+    apiTokenId: apiToken.id,
+    scopes: apiToken.scopes,
+    // Checked against the account's own role, not the one the token is limited to
+    twoFactorSetupRequired: await needsTwoFactorSetup(user),
+  };
+}
@@ -0,0 +1,59 @@
+import { prisma } from '@kbase/database';
+import type { TokenPayload } from './auth';
+
+// Placeholders a template may use, with the help text the template editor shows for each
+export const TEMPLATE_PLACEHOLDERS = {
+  date: 'The day the article is created, e.g. 2024-03-01 (UTC)',
+  time: 'The time the article is created, e.g. 14:30 (UTC)',
+  author: 'The name of the person creating the article',
+} as const;
+
+export type TemplatePlaceholder = keyof typeof TEMPLATE_PLACEHOLDERS;
+
+export type PlaceholderValues = Record<TemplatePlaceholder, string>;
+
+const PLACEHOLDER_PATTERN = /\{\{\s*([a-z]+)\s*\}\}/gi;
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+export async function getPlaceholderValues(
+  user: Pick<TokenPayload, 'userId' | 'email'>,
+  now: Date = new Date()
+): Promise<PlaceholderValues> {
+  const author = await prisma.user.findUnique({
+    where: { id: user.userId },
+    select: { name: true },
+  });
+  const iso = now.toISOString();
+
+  return {
+    date: iso.slice(0, 10),
+    time: iso.slice(11, 16),
+    author: author?.name || user.email,
+  };
+}
+
+/**
+ * Replace {{placeholder}} markers with their values. Unknown names are left as
+ * written so a typo shows up in the article instead of silently vanishing.
+ * Pass `html` for article content, where the values must not become markup.
+ */
+export function fillPlaceholders(
+  text: string,
+  values: PlaceholderValues,
+  options: { html?: boolean } = {}
+): string {
+  return text.replace(PLACEHOLDER_PATTERN, (marker, name: string) => {
+    const key = name.toLowerCase();
+    if (!(key in values)) return marker;
+    const value = values[key as TemplatePlaceholder];
+    return options.html ? escapeHtml(value) : value;
+  });
+}
@@ -0,0 +1,132 @@
+import type { Request } from 'express';
+import { prisma, Prisma, AuditEvent } from '@kbase/database';
+import type { TokenPayload } from './auth';
+
+export const AUDIT_ACTIONS = [
+  'auth.login',
+  'auth.login_failed',
+  'auth.lockout',
+  'auth.password_reset_requested',
+  'auth.password_reset',
+  'auth.password_changed',
+  'auth.two_factor_enabled',
+  'auth.two_factor_disabled',
+  'auth.invitation_accepted',
+  'auth.email_change_requested',
+  'auth.email_changed',
+  'user.invited',
+  'user.role_changed',
+  'user.deactivated',
+  'user.reactivated',
+  'user.unlocked',
+  'user.password_reset_forced',
+  'user.deleted',
+  'role.permissions_changed',
+  'role.policy_changed',
+  'group.created',
+  'group.updated',
+  'group.deleted',
+  'group.member_added',
+  'group.member_role_changed',
+  'group.member_removed',
+  'category.grant_added',
+  'category.grant_removed',
+  'article.imported',
+  'article.deleted',
+  'document.deleted',
+  'category.deleted',
+  'template.created',
+  'template.updated',
+  'template.deleted',
+  'system.backup_created',
+] as const;
+
+export type AuditAction = (typeof AUDIT_ACTIONS)[number];
+
+export interface AuditEntry {
+  action: AuditAction;
+  // Defaults to the signed-in user; pass it for logins, where nobody is signed in yet
+  actor?: { id: string; email: string } | null;
+  targetType?: string;
+  targetId?: string;
+  before?: Prisma.InputJsonValue;
+  after?: Prisma.InputJsonValue;
+}
+
+/**
+ * Append an entry to the audit log. A failure is logged rather than thrown so
+ * the action being audited still goes through.
+ */
+export async function recordAudit(req: Request, entry: AuditEntry): Promise<void> {
+  const user = (req as Request & { user?: TokenPayload }).user;
+  const actor =
+    entry.actor !== undefined ? entry.actor : user ? { id: user.userId, email: user.email } : null;
+
+  try {
+    await prisma.auditEvent.create({
+      data: {
+        actorId: actor?.id,
+        actorEmail: actor?.email,
+        action: entry.action,
+        targetType: entry.targetType,
+        targetId: entry.targetId,
+        ipAddress: req.ip,
+        userAgent: req.headers['user-agent'],
+        before: entry.before,
+        after: entry.after,
+      },
+    });
+  } catch (error) {
+    console.error('Audit log error:', error);
+  }
+}
+
+export interface AuditFilters {
+  action?: string;
+  actorId?: string;
+  targetType?: string;
+  targetId?: string;
+  from?: Date;
+  to?: Date;
+}
+
+export function auditWhere(filters: AuditFilters): Prisma.AuditEventWhereInput {
+  return {
+    action: filters.action,
+    actorId: filters.actorId,
+    targetType: filters.targetType,
+    targetId: filters.targetId,
+    createdAt: filters.from || filters.to ? { gte: filters.from, lte: filters.to } : undefined,
+  };
+}
+
+const CSV_COLUMNS = [
+  'createdAt',
+  'action',
+  'actorId',
+  'actorEmail',
+  'targetType',
+  'targetId',
+  'ipAddress',
+  'userAgent',
+  'before',
+  'after',
+] as const;
+
+function csvCell(value: unknown): string {
+  if (value === null || value === undefined) return '';
+  let text =
+    value instanceof Date
+      ? value.toISOString()
+      : typeof value === 'object'
+        ? JSON.stringify(value)
+        : String(value);
+  // Spreadsheets run cells starting with these as formulas
+  if (/^[=+\-@]/.test(text)) text = `'${text}`;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function auditEventsToCsv(events: Pick<AuditEvent, (typeof CSV_COLUMNS)[number]>[]): string {
+  const rows = events.map((event) => CSV_COLUMNS.map((column) => csvCell(event[column])).join(','));
+  return [CSV_COLUMNS.join(','), ...rows].join('\r\n') + '\r\n';
+}
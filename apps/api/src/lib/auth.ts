@@ -4,9 +4,13 @@ import crypto from 'crypto';
 
 const JWT_SECRET = process.env.AUTH_SECRET || 'dev-secret-change-in-production';
 const ACCESS_TOKEN_EXPIRES_IN = '15m';
+const TWO_FACTOR_CHALLENGE_EXPIRES_IN = '5m';
+// A separate key so a login challenge can never pass as an access token
+const TWO_FACTOR_CHALLENGE_SECRET = `${JWT_SECRET}:two-factor-challenge`;
 const REFRESH_TOKEN_EXPIRES_DAYS = 7;
 const PASSWORD_RESET_EXPIRES_HOURS = 1;
 const EMAIL_VERIFICATION_EXPIRES_HOURS = 24;
+const INVITATION_EXPIRES_DAYS = 7;
 const MAX_LOGIN_ATTEMPTS = 5;
 const LOCKOUT_DURATION_MINUTES = 15;
 
@@ -14,6 +18,11 @@ export interface TokenPayload {
   userId: string;
   email: string;
   role: string;
+  // Set when the user's role requires 2FA and they have not enrolled yet
+  twoFactorSetupRequired?: boolean;
+  // Set when the request was authenticated with a personal access token
+  apiTokenId?: string;
+  scopes?: string[];
 }
 
 export async function hashPassword(password: string): Promise<string> {
@@ -44,6 +53,21 @@ export function verifyAccessToken(token: string): TokenPayload | null {
   }
 }
 
+// Issued after a correct password when the account has 2FA enabled
+export function generateTwoFactorChallenge(userId: string): string {
+  return jwt.sign({ userId }, TWO_FACTOR_CHALLENGE_SECRET, {
+    expiresIn: TWO_FACTOR_CHALLENGE_EXPIRES_IN,
+  });
+}
+
+export function verifyTwoFactorChallenge(token: string): string | null {
+  try {
+    return (jwt.verify(token, TWO_FACTOR_CHALLENGE_SECRET) as { userId: string }).userId;
+  } catch {
+    return null;
+  }
+}
+
 export function extractTokenFromHeader(authHeader?: string): string | null {
   if (!authHeader || !authHeader.startsWith('Bearer ')) {
     return null;
@@ -69,6 +93,12 @@ export function getEmailVerificationExpiry(): Date {
   return expiry;
 }
 
+export function getInvitationExpiry(): Date {
+  const expiry = new Date();
+  expiry.setDate(expiry.getDate() + INVITATION_EXPIRES_DAYS);
+  return expiry;
+}
+
 export function isAccountLocked(lockedUntil: Date | null): boolean {
   if (!lockedUntil) return false;
   return new Date() < lockedUntil;
@@ -86,4 +116,5 @@ export const AUTH_CONFIG = {
   REFRESH_TOKEN_EXPIRES_DAYS,
   PASSWORD_RESET_EXPIRES_HOURS,
   EMAIL_VERIFICATION_EXPIRES_HOURS,
+  INVITATION_EXPIRES_DAYS,
 };
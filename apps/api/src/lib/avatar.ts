@@ -0,0 +1,38 @@
+import sharp from 'sharp';
+import { AVATAR_SIZES, avatarUrlForSize } from '@kbase/utils';
+import { uploadFile, deleteFile, getFileKeyFromUrl } from './storage';
+
+export const AVATAR_MIME_TYPES = ['image/jpeg', 'image/png', 'image/webp', 'image/gif'];
+
+export const MAX_AVATAR_SIZE = 5 * 1024 * 1024; // 5MB
+
+// One file per size; the URL stored on the user is the largest
+function avatarKey(userId: string, version: number, size: number): string {
+  return `avatars/${userId}/${version}-${size}.webp`;
+}
+
+/**
+ * Crop an uploaded image to a centred square and store it at every size in
+ * AVATAR_SIZES. Throws when sharp cannot decode the upload.
+ */
+export async function storeAvatar(userId: string, image: Buffer): Promise<string> {
+  const version = Date.now();
+  const urls: string[] = [];
+
+  for (const size of AVATAR_SIZES) {
+    const data = await sharp(image)
+      .rotate() // Honour EXIF orientation from phone cameras
+      .resize(size, size, { fit: 'cover', position: 'centre' })
+      .webp({ quality: 85 })
+      .toBuffer();
+    urls.push(await uploadFile(avatarKey(userId, version, size), data, 'image/webp'));
+  }
+
+  return urls[0];
+}
+
+export async function deleteAvatar(avatarUrl: string): Promise<void> {
+  for (const size of AVATAR_SIZES) {
+    await deleteFile(getFileKeyFromUrl(avatarUrlForSize(avatarUrl, size)));
+  }
+}
@@ -0,0 +1,139 @@
+import { Readable, pipeline } from 'stream';
+import { createGzip } from 'zlib';
+import tar from 'tar-stream';
+import { prisma, Prisma } from '@kbase/database';
+import { AVATAR_SIZES, avatarUrlForSize } from '@kbase/utils';
+import { getFileKeyFromUrl, getFileStream } from '../storage';
+import {
+  BACKUP_FORMAT,
+  BACKUP_VERSION,
+  BackupFile,
+  BackupManifest,
+  BackupTable,
+  BackupTables,
+  FILES_DIR,
+  MANIFEST_FILE,
+} from './manifest';
+
+export interface BackupOptions {
+  includeSecrets: boolean;
+}
+
+// Read in one repeatable-read transaction so rows written mid-backup cannot leave dangling references
+async function loadTables(includeSecrets: boolean): Promise<BackupTables> {
+  const oldestFirst = { orderBy: { createdAt: 'asc' as const } };
+
+  return prisma.$transaction(
+    async (tx) => {
+      const users = await tx.user.findMany(oldestFirst);
+
+      return {
+        users: includeSecrets
+          ? users
+          : users.map((user) => ({
+              ...user,
+              passwordHash: null,
+              twoFactorSecret: null,
+              twoFactorEnabledAt: null,
+            })),
+        rolePermissions: await tx.rolePermission.findMany(),
+        rolePolicies: await tx.rolePolicy.findMany(),
+        groups: await tx.group.findMany(oldestFirst),
+        groupMemberships: await tx.groupMembership.findMany(oldestFirst),
+        categories: await tx.category.findMany(oldestFirst),
+        categoryGrants: await tx.categoryGrant.findMany(oldestFirst),
+        tags: await tx.tag.findMany(oldestFirst),
+        articles: await tx.article.findMany(oldestFirst),
+        articleTags: await tx.articleTag.findMany(),
+        articleRevisions: await tx.articleRevision.findMany(oldestFirst),
+        articleTemplates: await tx.articleTemplate.findMany(oldestFirst),
+        documents: await tx.document.findMany(oldestFirst),
+        documentTags: await tx.documentTag.findMany(),
+        documentVersions: await tx.documentVersion.findMany(oldestFirst),
+        comments: await tx.comment.findMany(oldestFirst),
+        reactions: await tx.reaction.findMany(oldestFirst),
+      };
+    },
+    { isolationLevel: Prisma.TransactionIsolationLevel.RepeatableRead, timeout: 5 * 60 * 1000 }
+  );
+}
+
+// Every stored object the tables point at, keyed by storage key
+function collectFiles(tables: BackupTables): BackupFile[] {
+  const files = new Map<string, string>();
+  const add = (url: string | null, contentType: string) => {
+    if (url) files.set(getFileKeyFromUrl(url), contentType);
+  };
+
+  for (const document of tables.documents) {
+    add(document.fileUrl, document.mimeType);
+    add(document.thumbnailUrl, 'image/png');
+  }
+  for (const version of tables.documentVersions) {
+    add(version.fileUrl, version.mimeType);
+  }
+  for (const user of tables.users) {
+    if (!user.avatarUrl) continue;
+    for (const size of AVATAR_SIZES) {
+      add(avatarUrlForSize(user.avatarUrl, size), 'image/webp');
+    }
+  }
+
+  return Array.from(files, ([key, contentType]) => ({ key, contentType }));
+}
+
+async function packFiles(pack: tar.Pack, files: BackupFile[]): Promise<void> {
+  for (const file of files) {
+    let object;
+    try {
+      object = await getFileStream(file.key);
+    } catch (error) {
+      // A row pointing at a deleted object should not sink the whole backup
+      if ((error as Error).name !== 'NoSuchKey') throw error;
+      console.warn(`Backup: ${file.key} is missing from storage, skipping it`);
+      continue;
+    }
+
+    await new Promise<void>((resolve, reject) => {
+      const entry = pack.entry({ name: `${FILES_DIR}/${file.key}`, size: object.size }, (error) =>
+        error ? reject(error) : resolve()
+      );
+      object.body.on('error', reject);
+      object.body.pipe(entry);
+    });
+  }
+}
+
+/**
+ * A gzipped tar of the knowledge base: manifest.json with every table the
+ * restore needs, then each stored file under files/. Objects are copied one at
+ * a time, so memory use does not grow with the size of the bucket.
+ */
+export async function createBackup(options: BackupOptions): Promise<Readable> {
+  const tables = await loadTables(options.includeSecrets);
+  const files = collectFiles(tables);
+
+  const manifest: BackupManifest = {
+    format: BACKUP_FORMAT,
+    version: BACKUP_VERSION,
+    createdAt: new Date().toISOString(),
+    includesSecrets: options.includeSecrets,
+    counts: Object.fromEntries(
+      Object.entries(tables).map(([table, rows]) => [table, rows.length])
+    ) as Record<BackupTable, number>,
+    files,
+    data: tables,
+  };
+
+  const pack = tar.pack();
+  const gzip = createGzip();
+  // Any failure part way through ends the output stream with an error instead of a truncated archive
+  pipeline(pack, gzip, () => {});
+
+  pack.entry({ name: MANIFEST_FILE }, JSON.stringify(manifest));
+  packFiles(pack, files)
+    .then(() => pack.finalize())
+    .catch((error) => pack.destroy(error));
+
+  return gzip;
+}
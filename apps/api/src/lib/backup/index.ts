@@ -0,0 +1,3 @@
+export * from './manifest';
+export * from './create';
+export * from './restore';
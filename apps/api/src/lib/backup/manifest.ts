@@ -0,0 +1,80 @@
+import type {
+  Article,
+  ArticleRevision,
+  ArticleTag,
+  ArticleTemplate,
+  Category,
+  CategoryGrant,
+  Comment,
+  Document,
+  DocumentTag,
+  DocumentVersion,
+  Group,
+  GroupMembership,
+  Reaction,
+  RolePermission,
+  RolePolicy,
+  Tag,
+  User,
+} from '@kbase/database';
+
+export const BACKUP_FORMAT = 'kbase-backup';
+
+// Bump when the manifest changes shape; restore refuses versions newer than it knows
+export const BACKUP_VERSION = 1;
+
+// The manifest is always the archive's first entry, followed by files/<storage key>
+export const MANIFEST_FILE = 'manifest.json';
+export const FILES_DIR = 'files';
+
+// Without secrets, passwords and TOTP secrets are left out and restored users must reset their password
+export type BackupUser = Omit<User, 'passwordHash' | 'twoFactorSecret'> & {
+  passwordHash: string | null;
+  twoFactorSecret: string | null;
+};
+
+export interface BackupTables {
+  users: BackupUser[];
+  rolePermissions: RolePermission[];
+  rolePolicies: RolePolicy[];
+  groups: Group[];
+  groupMemberships: GroupMembership[];
+  categories: Category[];
+  categoryGrants: CategoryGrant[];
+  tags: Tag[];
+  articles: Article[];
+  articleTags: ArticleTag[];
+  articleRevisions: ArticleRevision[];
+  articleTemplates: ArticleTemplate[];
+  documents: Document[];
+  documentTags: DocumentTag[];
+  documentVersions: DocumentVersion[];
+  comments: Comment[];
+  reactions: Reaction[];
+}
+
+export type BackupTable = keyof BackupTables;
+
+// A row after a round trip through JSON: dates come back as ISO strings, which Prisma accepts
+type Serialized<T> = {
+  [K in keyof T]: T[K] extends Date ? string : T[K] extends Date | null ? string | null : T[K];
+};
+
+export type SerializedTables = {
+  [K in BackupTable]: Serialized<BackupTables[K][number]>[];
+};
+
+export interface BackupFile {
+  key: string;
+  contentType: string;
+}
+
+export interface BackupManifest<Tables = BackupTables> {
+  format: typeof BACKUP_FORMAT;
+  version: number;
+  createdAt: string;
+  includesSecrets: boolean;
+  counts: Record<BackupTable, number>;
+  files: BackupFile[];
+  data: Tables;
+}
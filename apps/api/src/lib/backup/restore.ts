@@ -0,0 +1,417 @@
+import crypto from 'crypto';
+import { Readable, pipeline } from 'stream';
+import { createGunzip } from 'zlib';
+import tar from 'tar-stream';
+import { prisma } from '@kbase/database';
+import { generateId } from '@kbase/utils';
+import { hashPassword } from '../auth';
+import { getFileKeyFromUrl, getFileUrl, uploadFile } from '../storage';
+import {
+  BACKUP_FORMAT,
+  BACKUP_VERSION,
+  BackupManifest,
+  BackupTable,
+  FILES_DIR,
+  MANIFEST_FILE,
+  SerializedTables,
+} from './manifest';
+
+export interface RestoreSummary {
+  created: Partial<Record<BackupTable, number>>;
+  // Users, groups, categories and tags that already existed are reused, not duplicated
+  matched: { users: number; groups: number; categories: number; tags: number };
+  files: number;
+  missingFiles: string[];
+}
+
+// Old ID from the backup to the ID the row has on this instance
+type IdMap = Map<string, string>;
+
+function remap(ids: IdMap, id: string, kind: string): string {
+  const mapped = ids.get(id);
+  if (!mapped) throw new Error(`Backup refers to a ${kind} it does not contain: ${id}`);
+  return mapped;
+}
+
+function remapOptional(ids: IdMap, id: string | null, kind: string): string | null {
+  return id ? remap(ids, id, kind) : null;
+}
+
+// Stored URLs embed the endpoint and bucket, which may differ on this instance
+function rewriteUrl(url: string | null): string | null {
+  return url ? getFileUrl(getFileKeyFromUrl(url)) : null;
+}
+
+// Parents before children, so a batch insert never points at a row it has not written yet
+function parentsFirst<T extends { id: string }>(rows: T[], parentOf: (row: T) => string | null) {
+  const byId = new Map(rows.map((row) => [row.id, row]));
+  const depth = (row: T): number => {
+    let level = 0;
+    for (let parent = parentOf(row); parent && byId.has(parent); level++) {
+      parent = parentOf(byId.get(parent)!);
+      if (level > rows.length) throw new Error('Backup contains a cycle of parent references');
+    }
+    return level;
+  };
+  return [...rows].sort((a, b) => depth(a) - depth(b));
+}
+
+function parseManifest(data: Buffer): BackupManifest<SerializedTables> {
+  let manifest: BackupManifest<SerializedTables>;
+  try {
+    manifest = JSON.parse(data.toString('utf8'));
+  } catch {
+    throw new Error(`${MANIFEST_FILE} is not valid JSON`);
+  }
+
+  if (manifest.format !== BACKUP_FORMAT || !manifest.data) {
+    throw new Error('This archive is not a knowledge base backup');
+  }
+  if (manifest.version > BACKUP_VERSION) {
+    throw new Error(
+      `Backup version ${manifest.version} is newer than this release understands (${BACKUP_VERSION})`
+    );
+  }
+  return manifest;
+}
+
+async function assertFreshInstance(): Promise<void> {
+  const [articles, documents] = await Promise.all([
+    prisma.article.count(),
+    prisma.document.count(),
+  ]);
+  if (articles > 0 || documents > 0) {
+    throw new Error('Restore needs an instance without any articles or documents');
+  }
+}
+
+async function readEntry(entry: AsyncIterable<unknown>): Promise<Buffer> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of entry) chunks.push(chunk as Buffer);
+  return Buffer.concat(chunks);
+}
+
+/**
+ * Write the backed-up tables into this database. Every row gets a new ID and
+ * references are rewritten to match. Users are matched by email, groups,
+ * categories and tags by slug, so the admin account and any seeded taxonomy
+ * on the fresh instance are reused rather than duplicated.
+ */
+async function restoreTables(tables: SerializedTables, summary: RestoreSummary): Promise<void> {
+  // Users restored without secrets get a password nobody knows and must reset it
+  const placeholderHash = await hashPassword(crypto.randomBytes(32).toString('hex'));
+
+  await prisma.$transaction(
+    async (tx) => {
+      const created = summary.created;
+
+      // Users
+      const userIds: IdMap = new Map();
+      const existingUsers = await tx.user.findMany({
+        where: { email: { in: tables.users.map((user) => user.email) } },
+        select: { id: true, email: true },
+      });
+      const usersByEmail = new Map(existingUsers.map((user) => [user.email, user.id]));
+      const newUsers = [];
+      for (const user of tables.users) {
+        const existing = usersByEmail.get(user.email);
+        if (existing) {
+          userIds.set(user.id, existing);
+          summary.matched.users++;
+          continue;
+        }
+        const id = generateId();
+        userIds.set(user.id, id);
+        newUsers.push({
+          ...user,
+          id,
+          passwordHash: user.passwordHash ?? placeholderHash,
+          twoFactorEnabledAt: user.twoFactorSecret ? user.twoFactorEnabledAt : null,
+          avatarUrl: rewriteUrl(user.avatarUrl),
+        });
+      }
+      created.users = (await tx.user.createMany({ data: newUsers })).count;
+
+      // Role settings replace the defaults seeded on first start
+      if (tables.rolePermissions.length > 0) {
+        await tx.rolePermission.deleteMany();
+        created.rolePermissions = (
+          await tx.rolePermission.createMany({ data: tables.rolePermissions })
+        ).count;
+      }
+      for (const policy of tables.rolePolicies) {
+        await tx.rolePolicy.upsert({
+          where: { role: policy.role },
+          update: { requireTwoFactor: policy.requireTwoFactor },
+          create: { role: policy.role, requireTwoFactor: policy.requireTwoFactor },
+        });
+      }
+      created.rolePolicies = tables.rolePolicies.length;
+
+      // Groups
+      const groupIds: IdMap = new Map();
+      const existingGroups = await tx.group.findMany({
+        select: { id: true, slug: true, name: true },
+      });
+      const newGroups = [];
+      for (const group of tables.groups) {
+        const existing = existingGroups.find((g) => g.slug === group.slug || g.name === group.name);
+        if (existing) {
+          groupIds.set(group.id, existing.id);
+          summary.matched.groups++;
+          continue;
+        }
+        const id = generateId();
+        groupIds.set(group.id, id);
+        newGroups.push({ ...group, id });
+      }
+      created.groups = (await tx.group.createMany({ data: newGroups })).count;
+
+      created.groupMemberships = (
+        await tx.groupMembership.createMany({
+          data: tables.groupMemberships.map((membership) => ({
+            ...membership,
+            id: generateId(),
+            groupId: remap(groupIds, membership.groupId, 'group'),
+            userId: remap(userIds, membership.userId, 'user'),
+          })),
+          skipDuplicates: true,
+        })
+      ).count;
+
+      // Categories
+      const categoryIds: IdMap = new Map();
+      const existingCategories = await tx.category.findMany({
+        where: { slug: { in: tables.categories.map((category) => category.slug) } },
+        select: { id: true, slug: true },
+      });
+      const categoriesBySlug = new Map(existingCategories.map((c) => [c.slug, c.id]));
+      const newCategories = [];
+      for (const category of tables.categories) {
+        const existing = categoriesBySlug.get(category.slug);
+        if (existing) {
+          categoryIds.set(category.id, existing);
+          summary.matched.categories++;
+        } else {
+          categoryIds.set(category.id, generateId());
+          newCategories.push(category);
+        }
+      }
+      created.categories = (
+        await tx.category.createMany({
+          data: parentsFirst(newCategories, (category) => category.parentId).map((category) => ({
+            ...category,
+            id: remap(categoryIds, category.id, 'category'),
+            parentId: remapOptional(categoryIds, category.parentId, 'category'),
+          })),
+        })
+      ).count;
+
+      created.categoryGrants = (
+        await tx.categoryGrant.createMany({
+          data: tables.categoryGrants.map((grant) => ({
+            ...grant,
+            id: generateId(),
+            categoryId: remap(categoryIds, grant.categoryId, 'category'),
+            userId: remapOptional(userIds, grant.userId, 'user'),
+            groupId: remapOptional(groupIds, grant.groupId, 'group'),
+          })),
+          skipDuplicates: true,
+        })
+      ).count;
+
+      // Tags
+      const tagIds: IdMap = new Map();
+      const existingTags = await tx.tag.findMany({ select: { id: true, slug: true, name: true } });
+      const newTags = [];
+      for (const tag of tables.tags) {
+        const existing = existingTags.find((t) => t.slug === tag.slug || t.name === tag.name);
+        if (existing) {
+          tagIds.set(tag.id, existing.id);
+          summary.matched.tags++;
+          continue;
+        }
+        const id = generateId();
+        tagIds.set(tag.id, id);
+        newTags.push({ ...tag, id });
+      }
+      created.tags = (await tx.tag.createMany({ data: newTags })).count;
+
+      // Articles and their history
+      const articleIds: IdMap = new Map(
+        tables.articles.map((article) => [article.id, generateId()])
+      );
+      created.articles = (
+        await tx.article.createMany({
+          data: tables.articles.map((article) => ({
+            ...article,
+            id: remap(articleIds, article.id, 'article'),
+            authorId: remap(userIds, article.authorId, 'user'),
+            categoryId: remapOptional(categoryIds, article.categoryId, 'category'),
+          })),
+        })
+      ).count;
+
+      created.articleTags = (
+        await tx.articleTag.createMany({
+          data: tables.articleTags.map((articleTag) => ({
+            articleId: remap(articleIds, articleTag.articleId, 'article'),
+            tagId: remap(tagIds, articleTag.tagId, 'tag'),
+          })),
+          skipDuplicates: true,
+        })
+      ).count;
+
+      const revisionIds: IdMap = new Map(
+        tables.articleRevisions.map((revision) => [revision.id, generateId()])
+      );
+      created.articleRevisions = (
+        await tx.articleRevision.createMany({
+          data: parentsFirst(tables.articleRevisions, (revision) => revision.restoredFromId).map(
+            (revision) => ({
+              ...revision,
+              id: remap(revisionIds, revision.id, 'revision'),
+              articleId: remap(articleIds, revision.articleId, 'article'),
+              editorId: remapOptional(userIds, revision.editorId, 'user'),
+              restoredFromId: remapOptional(revisionIds, revision.restoredFromId, 'revision'),
+            })
+          ),
+        })
+      ).count;
+
+      // Backups made before templates existed have no such table
+      created.articleTemplates = (
+        await tx.articleTemplate.createMany({
+          data: (tables.articleTemplates ?? []).map((template) => ({
+            ...template,
+            id: generateId(),
+            categoryId: remapOptional(categoryIds, template.categoryId, 'category'),
+            createdById: remapOptional(userIds, template.createdById, 'user'),
+          })),
+          skipDuplicates: true,
+        })
+      ).count;
+
+      // Documents and their versions
+      const documentIds: IdMap = new Map(
+        tables.documents.map((document) => [document.id, generateId()])
+      );
+      created.documents = (
+        await tx.document.createMany({
+          data: tables.documents.map((document) => ({
+            ...document,
+            id: remap(documentIds, document.id, 'document'),
+            authorId: remap(userIds, document.authorId, 'user'),
+            categoryId: remapOptional(categoryIds, document.categoryId, 'category'),
+            fileUrl: rewriteUrl(document.fileUrl)!,
+            thumbnailUrl: rewriteUrl(document.thumbnailUrl),
+          })),
+        })
+      ).count;
+
+      created.documentTags = (
+        await tx.documentTag.createMany({
+          data: tables.documentTags.map((documentTag) => ({
+            documentId: remap(documentIds, documentTag.documentId, 'document'),
+            tagId: remap(tagIds, documentTag.tagId, 'tag'),
+          })),
+          skipDuplicates: true,
+        })
+      ).count;
+
+      created.documentVersions = (
+        await tx.documentVersion.createMany({
+          data: tables.documentVersions.map((version) => ({
+            ...version,
+            id: generateId(),
+            documentId: remap(documentIds, version.documentId, 'document'),
+            uploadedById: remapOptional(userIds, version.uploadedById, 'user'),
+            fileUrl: rewriteUrl(version.fileUrl)!,
+          })),
+        })
+      ).count;
+
+      // Comments and reactions
+      const commentIds: IdMap = new Map(
+        tables.comments.map((comment) => [comment.id, generateId()])
+      );
+      created.comments = (
+        await tx.comment.createMany({
+          data: parentsFirst(tables.comments, (comment) => comment.parentId).map((comment) => ({
+            ...comment,
+            id: remap(commentIds, comment.id, 'comment'),
+            authorId: remap(userIds, comment.authorId, 'user'),
+            articleId: remapOptional(articleIds, comment.articleId, 'article'),
+            documentId: remapOptional(documentIds, comment.documentId, 'document'),
+            parentId: remapOptional(commentIds, comment.parentId, 'comment'),
+          })),
+        })
+      ).count;
+
+      created.reactions = (
+        await tx.reaction.createMany({
+          data: tables.reactions.map((reaction) => ({
+            ...reaction,
+            id: generateId(),
+            userId: remap(userIds, reaction.userId, 'user'),
+            articleId: remapOptional(articleIds, reaction.articleId, 'article'),
+            documentId: remapOptional(documentIds, reaction.documentId, 'document'),
+          })),
+          skipDuplicates: true,
+        })
+      ).count;
+    },
+    // A large knowledge base takes a while to write; nothing else should be using a fresh instance
+    { timeout: 30 * 60 * 1000, maxWait: 60 * 1000 }
+  );
+}
+
+/**
+ * Rebuild a knowledge base from a backup made by createBackup. Files are
+ * uploaded as the archive streams past, then every table is written in a
+ * single transaction, so a failed restore leaves the database untouched.
+ * Uploaded files are not removed on failure; restoring again overwrites them.
+ */
+export async function restoreBackup(input: Readable): Promise<RestoreSummary> {
+  const extract = tar.extract();
+  pipeline(input, createGunzip(), extract, (error) => {
+    if (error) extract.destroy(error);
+  });
+
+  let manifest: BackupManifest<SerializedTables> | null = null;
+  let contentTypes = new Map<string, string>();
+  const uploaded = new Set<string>();
+
+  for await (const entry of extract) {
+    const data = await readEntry(entry);
+
+    if (!manifest) {
+      if (entry.header.name !== MANIFEST_FILE) {
+        throw new Error(`This archive is not a knowledge base backup: no ${MANIFEST_FILE}`);
+      }
+      manifest = parseManifest(data);
+      await assertFreshInstance();
+      contentTypes = new Map(manifest.files.map((file) => [file.key, file.contentType]));
+      continue;
+    }
+
+    const key = entry.header.name.slice(FILES_DIR.length + 1);
+    const contentType = contentTypes.get(key);
+    if (!entry.header.name.startsWith(`${FILES_DIR}/`) || !contentType) continue;
+
+    await uploadFile(key, data, contentType);
+    uploaded.add(key);
+  }
+
+  if (!manifest) throw new Error('The archive is empty');
+
+  const summary: RestoreSummary = {
+    created: {},
+    matched: { users: 0, groups: 0, categories: 0, tags: 0 },
+    files: uploaded.size,
+    missingFiles: manifest.files.map((file) => file.key).filter((key) => !uploaded.has(key)),
+  };
+  await restoreTables(manifest.data, summary);
+
+  return summary;
+}
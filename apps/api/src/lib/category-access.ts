@@ -0,0 +1,133 @@
+import { prisma, CategoryVisibility, ContentType } from '@kbase/database';
+import type { TokenPayload } from './auth';
+import { hasPermission } from './permissions';
+
+type Viewer = Pick<TokenPayload, 'userId' | 'role'> | undefined;
+
+interface CategoryNode {
+  id: string;
+  parentId: string | null;
+  visibility: CategoryVisibility;
+}
+
+export interface CategoryAccess {
+  // Every category the viewer may not see, including those hidden by an ancestor
+  hiddenCategoryIds: string[];
+  canAccess(categoryId: string | null | undefined): boolean;
+}
+
+// The category itself first, then its parent and so on. Stops on a cycle
+// because PUT /categories/:id does not stop one from being created.
+function ancestry(id: string, byId: Map<string, CategoryNode>): CategoryNode[] {
+  const chain: CategoryNode[] = [];
+  const seen = new Set<string>();
+  let node = byId.get(id);
+
+  while (node && !seen.has(node.id)) {
+    chain.push(node);
+    seen.add(node.id);
+    node = node.parentId ? byId.get(node.parentId) : undefined;
+  }
+
+  return chain;
+}
+
+/**
+ * Works out which categories a viewer (or an anonymous visitor) can see.
+ *
+ * Every category on the path to the root must let the viewer in: PUBLIC lets
+ * anyone in, AUTHENTICATED any signed-in user, and RESTRICTED only users
+ * granted that category or one of its ancestors, directly or through a
+ * group. Users with `category:view-restricted` see everything.
+ */
+export async function getCategoryAccess(user: Viewer): Promise<CategoryAccess> {
+  if (user && (await hasPermission(user, 'category:view-restricted'))) {
+    return { hiddenCategoryIds: [], canAccess: () => true };
+  }
+
+  const [categories, grants] = await Promise.all([
+    prisma.category.findMany({ select: { id: true, parentId: true, visibility: true } }),
+    user
+      ? prisma.categoryGrant.findMany({
+          where: {
+            OR: [
+              { userId: user.userId },
+              { group: { memberships: { some: { userId: user.userId } } } },
+            ],
+          },
+          select: { categoryId: true },
+        })
+      : Promise.resolve([]),
+  ]);
+
+  const byId = new Map(categories.map((category) => [category.id, category]));
+  const granted = new Set(grants.map((grant) => grant.categoryId));
+
+  const isVisible = (id: string) => {
+    const chain = ancestry(id, byId);
+    return chain.every((node, index) => {
+      if (node.visibility === 'PUBLIC') return true;
+      if (!user) return false;
+      if (node.visibility === 'AUTHENTICATED') return true;
+      return chain.slice(index).some((ancestor) => granted.has(ancestor.id));
+    });
+  };
+
+  const hidden = new Set(categories.filter((c) => !isVisible(c.id)).map((c) => c.id));
+
+  return {
+    hiddenCategoryIds: Array.from(hidden),
+    canAccess: (categoryId) => !categoryId || !hidden.has(categoryId),
+  };
+}
+
+const VISIBILITY_RANK: Record<CategoryVisibility, number> = {
+  PUBLIC: 0,
+  AUTHENTICATED: 1,
+  RESTRICTED: 2,
+};
+
+/**
+ * The visibility a category's content really has: the most restrictive one on
+ * the path to the root, so a PUBLIC subcategory of a RESTRICTED one is RESTRICTED.
+ */
+export async function getEffectiveVisibility(categoryId: string): Promise<CategoryVisibility> {
+  const categories = await prisma.category.findMany({
+    select: { id: true, parentId: true, visibility: true },
+  });
+  const byId = new Map(categories.map((category) => [category.id, category]));
+
+  return ancestry(categoryId, byId).reduce<CategoryVisibility>(
+    (strictest, node) =>
+      VISIBILITY_RANK[node.visibility] > VISIBILITY_RANK[strictest] ? node.visibility : strictest,
+    'PUBLIC'
+  );
+}
+
+// Prisma filter for articles and documents that leaves out hidden categories.
+// Uncategorised content stays visible.
+export function categoryAccessWhere(access: CategoryAccess) {
+  if (access.hiddenCategoryIds.length === 0) return {};
+  return {
+    OR: [{ categoryId: null }, { categoryId: { notIn: access.hiddenCategoryIds } }],
+  };
+}
+
+// True when the article or document exists but sits in a category the viewer
+// cannot see. Routes answer with the same 404 they use for missing content.
+export async function isContentHidden(
+  user: Viewer,
+  contentType: ContentType,
+  contentId: string
+): Promise<boolean> {
+  const content =
+    contentType === 'ARTICLE'
+      ? await prisma.article.findUnique({ where: { id: contentId }, select: { categoryId: true } })
+      : await prisma.document.findUnique({
+          where: { id: contentId },
+          select: { categoryId: true },
+        });
+
+  if (!content?.categoryId) return false;
+  return !(await getCategoryAccess(user)).canAccess(content.categoryId);
+}
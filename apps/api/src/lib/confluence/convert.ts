@@ -0,0 +1,357 @@
+import { ChildNode, Element, isTag, isText } from 'domhandler';
+import { byClass, findFirst, hasClass, textContent } from './dom';
+
+export interface ConvertContext {
+  // The URL a link or image source should point at from now on, or null to drop the link
+  resolveLink(href: string): string | null;
+}
+
+export interface ConvertedPage {
+  html: string;
+  // One entry per unmapped macro on the page
+  unmappedMacros: string[];
+}
+
+// Never carried over, content and all
+const DROPPED_TAGS = new Set([
+  'script',
+  'style',
+  'noscript',
+  'iframe',
+  'object',
+  'embed',
+  'form',
+  'input',
+  'button',
+  'select',
+  'textarea',
+  'svg',
+  'map',
+]);
+
+// Elements that hold blocks of their own; their children are converted in their place
+const CONTAINER_TAGS = new Set([
+  'div',
+  'section',
+  'article',
+  'main',
+  'header',
+  'footer',
+  'aside',
+  'nav',
+  'center',
+  'figure',
+  'dl',
+  'dd',
+  'dt',
+]);
+
+const BLOCK_TAGS = new Set([
+  ...CONTAINER_TAGS,
+  'p',
+  'h1',
+  'h2',
+  'h3',
+  'h4',
+  'h5',
+  'h6',
+  'ul',
+  'ol',
+  'li',
+  'blockquote',
+  'pre',
+  'hr',
+  'table',
+]);
+
+const INLINE_TAGS: Record<string, string> = {
+  strong: 'strong',
+  b: 'strong',
+  em: 'em',
+  i: 'em',
+  s: 's',
+  del: 's',
+  strike: 's',
+  code: 'code',
+  tt: 'code',
+};
+
+const CALLOUT_MACROS = new Set(['info', 'note', 'warning', 'tip']);
+const CODE_MACROS = new Set(['code', 'noformat']);
+const MAPPED_MACROS = new Set([...CALLOUT_MACROS, ...CODE_MACROS, 'expand', 'panel']);
+// Layout and wrapper macros: what they wrap is kept, the wrapper is not
+const TRANSPARENT_MACROS = new Set([
+  'section',
+  'column',
+  'excerpt',
+  'excerpt-include',
+  'include',
+  'details',
+  'children',
+  'status',
+  'span',
+  'div',
+]);
+// Navigation that only made sense inside Confluence
+const DROPPED_MACROS = new Set(['toc', 'toc-zone', 'anchor', 'pagetree', 'livesearch']);
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+// Older exports drop data-macro-name, so the common macros are also recognised by their markup
+function macroName(element: Element): string | null {
+  const name = element.attribs['data-macro-name'];
+  if (name) return name.toLowerCase();
+
+  if (hasClass(element, 'confluence-information-macro')) return 'info';
+  if (hasClass(element, 'panel') && hasClass(element, 'code')) return 'code';
+  if (hasClass(element, 'panel') && hasClass(element, 'preformatted')) return 'noformat';
+  if (hasClass(element, 'expand-container')) return 'expand';
+  if (hasClass(element, 'toc-macro')) return 'toc';
+  if (hasClass(element, 'panel')) return 'panel';
+  return null;
+}
+
+function isBlock(node: ChildNode): boolean {
+  if (!isTag(node)) return false;
+  const macro = macroName(node);
+  return BLOCK_TAGS.has(node.name) || (macro !== null && MAPPED_MACROS.has(macro));
+}
+
+function collapse(text: string): string {
+  return text.replace(/\s+/g, ' ').trim();
+}
+
+function hasText(html: string): boolean {
+  return html.replace(/<[^>]*>/g, '').replace(/&nbsp;|\s/g, '') !== '';
+}
+
+/**
+ * Convert a Confluence page body into the HTML the article editor works with:
+ * paragraphs, three heading levels, lists, quotes, code and links. Anything
+ * else is reduced to its text, and only http(s), mailto and rewritten links
+ * survive. Callouts become quotes, code macros code blocks, and expand and
+ * panel macros a bold title followed by their content.
+ */
+export function convertConfluenceContent(content: Element, context: ConvertContext): ConvertedPage {
+  const unmappedMacros: string[] = [];
+
+  const inline = (nodes: ChildNode[], inLink = false): string => {
+    let html = '';
+    for (const node of nodes) {
+      if (isText(node)) {
+        html += escapeHtml(node.data.replace(/\s+/g, ' '));
+        continue;
+      }
+      if (!isTag(node) || DROPPED_TAGS.has(node.name)) continue;
+
+      const macro = macroName(node);
+      if (macro && DROPPED_MACROS.has(macro)) continue;
+      if (macro && !TRANSPARENT_MACROS.has(macro)) {
+        // Inside a line, even a macro we know keeps only its text
+        if (!MAPPED_MACROS.has(macro)) unmappedMacros.push(macro);
+        html += escapeHtml(textContent(node).replace(/\s+/g, ' '));
+        continue;
+      }
+
+      const tag = INLINE_TAGS[node.name];
+      if (tag) {
+        const inner = inline(node.children, inLink);
+        html += inner.trim() ? `<${tag}>${inner}</${tag}>` : inner;
+      } else if (node.name === 'br') {
+        html += '<br>';
+      } else if (node.name === 'a') {
+        const href = !inLink && node.attribs.href ? context.resolveLink(node.attribs.href) : null;
+        const inner = inline(node.children, inLink || !!href);
+        html += href && inner.trim() ? `<a href="${escapeHtml(href)}">${inner}</a>` : inner;
+      } else if (node.name === 'img') {
+        html += image(node, inLink);
+      } else if (BLOCK_TAGS.has(node.name)) {
+        // Blocks inside a table cell or heading run together, so keep them apart
+        html += ` ${inline(node.children, inLink)} `;
+      } else {
+        html += inline(node.children, inLink);
+      }
+    }
+    return html;
+  };
+
+  // The editor has no image node, so images become links to the file, like the Markdown import
+  const image = (element: Element, inLink: boolean): string => {
+    const alt = (element.attribs.alt || '').trim();
+    if (hasClass(element, 'emoticon') || inLink) return escapeHtml(alt);
+
+    const source = element.attribs['data-image-src'] || element.attribs.src || '';
+    // Icons and placeholders Confluence draws itself
+    if (source.startsWith('images/')) return '';
+
+    const href = source ? context.resolveLink(source) : null;
+    if (!href) return escapeHtml(alt);
+    const label = element.attribs['data-linked-resource-default-alias'] || alt || href;
+    return `<a href="${escapeHtml(href)}">${escapeHtml(label)}</a>`;
+  };
+
+  // Inline content with the whitespace Confluence indents its markup with taken out
+  const line = (nodes: ChildNode[]): string => {
+    const html = inline(nodes)
+      .replace(/^(\s|<br>)+|(\s|<br>)+$/g, '')
+      .replace(/ {2,}/g, ' ');
+    return hasText(html) ? html : '';
+  };
+
+  const paragraph = (nodes: ChildNode[]): string => {
+    const html = line(nodes);
+    return html ? `<p>${html}</p>` : '';
+  };
+
+  const titled = (title: Element | null, body: ChildNode[]): string => {
+    const heading = title ? collapse(textContent(title)) : '';
+    return (heading ? `<p><strong>${escapeHtml(heading)}</strong></p>` : '') + blocks(body);
+  };
+
+  const macroBlock = (element: Element, macro: string): string => {
+    if (CALLOUT_MACROS.has(macro)) {
+      const body = findFirst([element], byClass('confluence-information-macro-body'));
+      const title =
+        findFirst([element], byClass('confluence-information-macro-title')) ??
+        findFirst([element], byClass('title'));
+      const html = titled(title, body ? body.children : element.children);
+      return html ? `<blockquote>${html}</blockquote>` : '';
+    }
+
+    if (CODE_MACROS.has(macro)) {
+      const pre = findFirst([element], (el) => el.name === 'pre');
+      const code = textContent(pre ?? element).replace(/^\n+|\s+$/g, '');
+      const language = /brush:\s*([\w+#-]+)/.exec(
+        pre?.attribs['data-syntaxhighlighter-params'] || ''
+      )?.[1];
+      const attribute = language ? ` class="language-${escapeHtml(language)}"` : '';
+      return code ? `<pre><code${attribute}>${escapeHtml(code)}</code></pre>` : '';
+    }
+
+    if (macro === 'expand') {
+      const body = findFirst([element], byClass('expand-content'));
+      return titled(
+        findFirst([element], byClass('expand-control-text')),
+        body ? body.children : element.children
+      );
+    }
+
+    if (macro === 'panel') {
+      const body = findFirst([element], byClass('panelContent'));
+      return titled(
+        findFirst([element], byClass('panelHeader')),
+        body ? body.children : element.children
+      );
+    }
+
+    if (!TRANSPARENT_MACROS.has(macro)) unmappedMacros.push(macro);
+    return blocks(element.children);
+  };
+
+  // No tables in the editor: each row becomes a line, cells separated by a bar
+  const table = (element: Element): string => {
+    const rows: string[] = [];
+    const visitRows = (nodes: ChildNode[]) => {
+      for (const node of nodes) {
+        if (!isTag(node) || DROPPED_TAGS.has(node.name)) continue;
+        if (node.name !== 'tr') {
+          visitRows(node.children);
+          continue;
+        }
+        const cells = node.children.filter(
+          (cell): cell is Element => isTag(cell) && (cell.name === 'td' || cell.name === 'th')
+        );
+        const row = cells
+          .map((cell) => {
+            const html = line(cell.children);
+            return cell.name === 'th' && html ? `<strong>${html}</strong>` : html;
+          })
+          .filter(Boolean)
+          .join(' | ');
+        if (row) rows.push(`<p>${row}</p>`);
+      }
+    };
+    visitRows(element.children);
+    return rows.join('');
+  };
+
+  const list = (element: Element): string => {
+    const items = element.children
+      .filter((item): item is Element => isTag(item) && item.name === 'li')
+      .map((item) => blocks(item.children))
+      .filter(Boolean)
+      .map((item) => `<li>${item}</li>`)
+      .join('');
+    return items ? `<${element.name}>${items}</${element.name}>` : '';
+  };
+
+  const block = (element: Element): string => {
+    const macro = macroName(element);
+    if (macro) return DROPPED_MACROS.has(macro) ? '' : macroBlock(element, macro);
+
+    switch (element.name) {
+      case 'p':
+        return paragraph(element.children);
+      case 'h1':
+      case 'h2':
+      case 'h3':
+      case 'h4':
+      case 'h5':
+      case 'h6': {
+        const level = Math.min(Number(element.name[1]), 3);
+        const html = line(element.children);
+        return html ? `<h${level}>${html}</h${level}>` : '';
+      }
+      case 'ul':
+      case 'ol':
+        return list(element);
+      case 'li':
+        return blocks(element.children);
+      case 'blockquote': {
+        const html = blocks(element.children);
+        return html ? `<blockquote>${html}</blockquote>` : '';
+      }
+      case 'pre': {
+        const code = textContent(element).replace(/^\n+|\s+$/g, '');
+        return code ? `<pre><code>${escapeHtml(code)}</code></pre>` : '';
+      }
+      case 'hr':
+        return '<hr>';
+      case 'table':
+        return table(element);
+      default:
+        return blocks(element.children);
+    }
+  };
+
+  // Runs of inline content between blocks are wrapped in paragraphs
+  const blocks = (nodes: ChildNode[]): string => {
+    let html = '';
+    let run: ChildNode[] = [];
+    const flush = () => {
+      html += paragraph(run);
+      run = [];
+    };
+
+    for (const node of nodes) {
+      if (isTag(node) && DROPPED_TAGS.has(node.name)) continue;
+      if (isBlock(node)) {
+        flush();
+        html += block(node as Element);
+      } else {
+        run.push(node);
+      }
+    }
+    flush();
+    return html;
+  };
+
+  return { html: blocks(content.children), unmappedMacros };
+}
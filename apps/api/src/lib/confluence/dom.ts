@@ -0,0 +1,50 @@
+import { ChildNode, Element, isTag, isText } from 'domhandler';
+
+export function textContent(node: ChildNode): string {
+  if (isText(node)) return node.data;
+  if (isTag(node)) return node.children.map(textContent).join('');
+  return '';
+}
+
+export function hasClass(element: Element, className: string): boolean {
+  return (element.attribs.class || '').split(/\s+/).includes(className);
+}
+
+/**
+ * Depth-first search below `nodes`. Children of an element for which `skip`
+ * returns true are not searched, which keeps nested lists out of a list item.
+ */
+export function findAll(
+  nodes: ChildNode[],
+  test: (element: Element) => boolean,
+  skip: (element: Element) => boolean = () => false
+): Element[] {
+  const found: Element[] = [];
+  const visit = (children: ChildNode[]) => {
+    for (const node of children) {
+      if (!isTag(node)) continue;
+      if (test(node)) found.push(node);
+      if (!skip(node)) visit(node.children);
+    }
+  };
+  visit(nodes);
+  return found;
+}
+
+export function findFirst(nodes: ChildNode[], test: (element: Element) => boolean): Element | null {
+  for (const node of nodes) {
+    if (!isTag(node)) continue;
+    if (test(node)) return node;
+    const found = findFirst(node.children, test);
+    if (found) return found;
+  }
+  return null;
+}
+
+export function byId(id: string) {
+  return (element: Element) => element.attribs.id === id;
+}
+
+export function byClass(className: string) {
+  return (element: Element) => hasClass(element, className);
+}
@@ -0,0 +1,334 @@
+import { prisma } from '@kbase/database';
+import { formatFileSize, slugify } from '@kbase/utils';
+import type { ArticleImportResult, ConfluenceImportReport } from '@kbase/types';
+import type { TokenPayload } from '../auth';
+import { getCategoryAccess } from '../category-access';
+import { enqueueJob } from '../jobs/queue';
+import { recordRevision } from '../revisions';
+import { MAX_FILE_SIZE, generateFileKey, uploadFile } from '../storage';
+import { convertConfluenceContent } from './convert';
+import { ConfluenceExport, ConfluencePage, confluencePageRef, exportPath } from './parse';
+
+export * from './parse';
+export * from './convert';
+
+export interface ConfluenceImportOptions {
+  user: TokenPayload;
+  dryRun: boolean;
+  // Applied to every article and attachment the import creates
+  status: 'DRAFT' | 'PUBLISHED';
+}
+
+interface CategoryRef {
+  id: string;
+  slug: string;
+}
+
+async function uniqueSlug(
+  name: string,
+  taken: Set<string>,
+  exists: (slug: string) => Promise<boolean>
+): Promise<string> {
+  // Titles in other scripts can slugify to nothing
+  const base = slugify(name) || 'page';
+  let slug = base;
+  for (let counter = 1; taken.has(slug) || (await exists(slug)); counter++) {
+    slug = `${base}-${counter}`;
+  }
+  taken.add(slug);
+  return slug;
+}
+
+/**
+ * Import a Confluence space export. The space becomes a category, and every
+ * page with children a category inside its parent's, holding its own article
+ * and its children's. A single top-level page is treated as the space's home
+ * page, so it does not add a level of its own. Attachments become documents in
+ * their page's category, and links between pages and to attachments are
+ * rewritten to point at what was created.
+ *
+ * Like the Markdown import, a page whose title already exists is skipped, so
+ * running the same export twice is harmless; links to it go to the existing
+ * article. A dry run reports the same outcome without writing anything.
+ */
+export async function importConfluenceSpace(
+  space: ConfluenceExport,
+  options: ConfluenceImportOptions
+): Promise<ConfluenceImportReport> {
+  const { user, dryRun, status } = options;
+  const access = await getCategoryAccess(user);
+
+  const report: ConfluenceImportReport = {
+    dryRun,
+    space: space.space,
+    results: [],
+    summary: { created: 0, skipped: 0, failed: 0 },
+    categories: [],
+    attachments: [],
+    unmappedMacros: [],
+  };
+
+  // Categories
+
+  const categorySlugs = new Set<string>();
+  // Categories a dry run would have created; nothing exists below them yet
+  const plannedCategoryIds = new Set<string>();
+
+  const findOrCreateCategory = async (
+    name: string,
+    parent: CategoryRef | null,
+    description?: string
+  ): Promise<CategoryRef> => {
+    const categoryName = name.slice(0, 100);
+
+    if (!parent || !plannedCategoryIds.has(parent.id)) {
+      const existing = await prisma.category.findFirst({
+        where: {
+          name: { equals: categoryName, mode: 'insensitive' },
+          parentId: parent?.id ?? null,
+        },
+        select: { id: true, slug: true },
+      });
+      if (existing && access.canAccess(existing.id)) {
+        report.categories.push({ name: categoryName, slug: existing.slug, status: 'existing' });
+        return existing;
+      }
+    }
+
+    const slug = await uniqueSlug(categoryName, categorySlugs, async (candidate) =>
+      Boolean(
+        await prisma.category.findUnique({ where: { slug: candidate }, select: { id: true } })
+      )
+    );
+    report.categories.push({ name: categoryName, slug, status: 'created' });
+
+    if (dryRun) {
+      const id = `dry-run:${slug}`;
+      plannedCategoryIds.add(id);
+      return { id, slug };
+    }
+    return prisma.category.create({
+      data: { name: categoryName, slug, description, parentId: parent?.id },
+      select: { id: true, slug: true },
+    });
+  };
+
+  const spaceCategory = await findOrCreateCategory(
+    space.space,
+    null,
+    `Imported from the Confluence space "${space.space}"`
+  );
+
+  const roots = space.pages.filter((page) => !page.parent);
+  const home = roots.length === 1 && roots[0].children.length > 0 ? roots[0] : null;
+
+  // The category each parent page became; pages arrive parents first
+  const ownCategory = new Map<ConfluencePage, CategoryRef>();
+  if (home) ownCategory.set(home, spaceCategory);
+  for (const page of space.pages) {
+    if (page === home || page.children.length === 0) continue;
+    const parent = page.parent ? ownCategory.get(page.parent)! : spaceCategory;
+    ownCategory.set(page, await findOrCreateCategory(page.title, parent));
+  }
+
+  const categoryOf = (page: ConfluencePage): CategoryRef =>
+    ownCategory.get(page) ?? (page.parent ? ownCategory.get(page.parent)! : spaceCategory);
+
+  // Pages: settle every slug first so links can point at pages not created yet
+
+  const articleSlugs = new Set<string>();
+  // New and already-imported pages alike, so links to either resolve
+  const pageSlugs = new Map<ConfluencePage, string>();
+  const toCreate: { page: ConfluencePage; result: ArticleImportResult }[] = [];
+  const titles = new Set<string>();
+
+  for (const page of space.pages) {
+    const file = page.path;
+    const title = page.title;
+    const result: ArticleImportResult = { file, status: 'skipped', title };
+    report.results.push(result);
+
+    if (title.length > 200) {
+      Object.assign(result, { status: 'failed', message: 'Title is longer than 200 characters' });
+      continue;
+    }
+
+    const hasContent =
+      page.content && convertConfluenceContent(page.content, { resolveLink: () => null }).html;
+    if (!hasContent) {
+      result.message = ownCategory.has(page)
+        ? 'Page has no content; its children are in its category'
+        : 'Page has no content';
+      continue;
+    }
+
+    if (titles.has(title.toLowerCase())) {
+      result.message = 'An earlier page has the same title';
+      continue;
+    }
+
+    const existing = await prisma.article.findFirst({
+      where: { title: { equals: title, mode: 'insensitive' } },
+      select: { slug: true },
+    });
+    if (existing) {
+      Object.assign(result, {
+        slug: existing.slug,
+        message: 'An article with this title already exists',
+      });
+      pageSlugs.set(page, existing.slug);
+      continue;
+    }
+
+    titles.add(title.toLowerCase());
+    result.status = 'created';
+    result.slug = await uniqueSlug(title, articleSlugs, async (candidate) =>
+      Boolean(await prisma.article.findUnique({ where: { slug: candidate }, select: { id: true } }))
+    );
+    pageSlugs.set(page, result.slug);
+    toCreate.push({ page, result });
+  }
+
+  // Attachments of the pages being imported
+
+  const documentIds = new Map<string, string>();
+  const importing = new Set(toCreate.map(({ page }) => page));
+
+  for (const page of space.pages) {
+    for (const attachment of page.attachments) {
+      const entry = { file: attachment.fileName, page: page.title };
+      if (!importing.has(page)) {
+        report.attachments.push({ ...entry, status: 'skipped', message: 'Page was not imported' });
+        continue;
+      }
+
+      const declaredSize = space.fileSize(attachment.path);
+      if (declaredSize === null) {
+        report.attachments.push({ ...entry, status: 'failed', message: 'Missing from the export' });
+        continue;
+      }
+      // The declared size spares unzipping a file that is too big, the real one catches a lie
+      const data = declaredSize <= MAX_FILE_SIZE ? await space.readFile(attachment.path) : null;
+      if (!data || data.length > MAX_FILE_SIZE) {
+        report.attachments.push({
+          ...entry,
+          status: 'skipped',
+          message: `Larger than the ${formatFileSize(MAX_FILE_SIZE)} document limit`,
+        });
+        continue;
+      }
+      if (dryRun) {
+        report.attachments.push({ ...entry, status: 'created' });
+        continue;
+      }
+
+      // Confluence names are only unique per page, so the attachment's path keeps keys apart
+      const fileKey = generateFileKey(
+        user.userId,
+        `${attachment.path.split('/').slice(1, -1).join('-')}-${attachment.fileName}`
+      );
+      const fileUrl = await uploadFile(fileKey, data, attachment.mimeType);
+      const file = {
+        fileName: attachment.fileName,
+        fileUrl,
+        fileSize: data.length,
+        mimeType: attachment.mimeType,
+      };
+
+      const document = await prisma.document.create({
+        data: {
+          ...file,
+          title: attachment.fileName,
+          description: `Attached to "${page.title}" in Confluence`,
+          authorId: user.userId,
+          categoryId: categoryOf(page).id,
+          status,
+        },
+      });
+      await prisma.documentVersion.create({
+        data: { ...file, documentId: document.id, version: 1, uploadedById: user.userId },
+      });
+      await enqueueJob('document.extract-text', { documentId: document.id });
+
+      documentIds.set(attachment.path, document.id);
+      report.attachments.push({ ...entry, status: 'created', documentId: document.id });
+    }
+  }
+
+  // Articles, with links rewritten
+
+  const pagesByPath = new Map(space.pages.map((page) => [page.path, page]));
+  const pagesById = new Map(space.pages.map((page) => [page.id, page]));
+  const pagesByTitle = new Map(space.pages.map((page) => [page.title.toLowerCase(), page]));
+
+  // Pages that were not imported still have a category if they had children
+  const pageUrl = (page: ConfluencePage): string | null => {
+    const slug = pageSlugs.get(page);
+    if (slug) return `/articles/${slug}`;
+    const category = ownCategory.get(page);
+    return category ? `/categories/${category.slug}` : null;
+  };
+
+  const resolveLink = (href: string): string | null => {
+    if (/^(https?:|mailto:)/i.test(href)) {
+      const ref = confluencePageRef(href);
+      const page = ref?.id
+        ? pagesById.get(ref.id)
+        : ref?.title
+          ? pagesByTitle.get(ref.title.toLowerCase())
+          : undefined;
+      return (page && pageUrl(page)) || href;
+    }
+
+    const target = exportPath(href);
+    if (!target) return null;
+    if (target === 'index.html') return `/categories/${spaceCategory.slug}`;
+
+    const page = pagesByPath.get(target);
+    if (page) return pageUrl(page);
+    const documentId = documentIds.get(target);
+    return documentId ? `/documents/${documentId}` : null;
+  };
+
+  const macros = new Map<string, { count: number; pages: Set<string> }>();
+
+  for (const { page, result } of toCreate) {
+    const converted = convertConfluenceContent(page.content!, { resolveLink });
+    for (const name of converted.unmappedMacros) {
+      const macro = macros.get(name) ?? { count: 0, pages: new Set<string>() };
+      macro.count++;
+      macro.pages.add(page.title);
+      macros.set(name, macro);
+    }
+
+    if (dryRun) continue;
+
+    const article = await prisma.article.create({
+      data: {
+        title: page.title,
+        slug: result.slug!,
+        content: converted.html,
+        authorId: user.userId,
+        categoryId: categoryOf(page).id,
+        status,
+        publishedAt: status === 'PUBLISHED' ? new Date() : null,
+      },
+    });
+    await recordRevision(article.id, user.userId);
+    await enqueueJob('search.sync', { type: 'article', id: article.id });
+
+    result.articleId = article.id;
+  }
+
+  report.unmappedMacros = Array.from(macros, ([name, { count, pages }]) => ({
+    name,
+    count,
+    pages: Array.from(pages),
+  })).sort((a, b) => b.count - a.count);
+
+  for (const result of report.results) {
+    report.summary[result.status]++;
+  }
+
+  return report;
+}
@@ -0,0 +1,279 @@
+import path from 'path';
+import JSZip from 'jszip';
+import { parseDocument } from 'htmlparser2';
+import { ChildNode, Element, isTag, isText } from 'domhandler';
+import { ImportFileError, declaredUncompressedSize } from '../markdown-import';
+import { byId, findAll, findFirst, textContent } from './dom';
+
+// Whole spaces with their attachments; entries are unzipped one at a time, never all at once
+export const MAX_CONFLUENCE_EXPORT_SIZE = 200 * 1024 * 1024;
+export const MAX_CONFLUENCE_PAGES = 2000;
+// Checked against the sizes the archive declares before anything is unzipped
+const MAX_PAGE_SIZE = 20 * 1024 * 1024;
+const MAX_UNZIPPED_SIZE = 1024 * 1024 * 1024;
+
+// Confluence lists an attachment's MIME type beside its link; this covers exports that do not
+const MIME_TYPES: Record<string, string> = {
+  '.pdf': 'application/pdf',
+  '.doc': 'application/msword',
+  '.docx': 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+  '.xls': 'application/vnd.ms-excel',
+  '.xlsx': 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  '.ppt': 'application/vnd.ms-powerpoint',
+  '.pptx': 'application/vnd.openxmlformats-officedocument.presentationml.presentation',
+  '.txt': 'text/plain',
+  '.md': 'text/markdown',
+  '.csv': 'text/csv',
+  '.png': 'image/png',
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.gif': 'image/gif',
+  '.svg': 'image/svg+xml',
+  '.zip': 'application/zip',
+};
+
+export interface ConfluenceAttachment {
+  // Path inside the export, e.g. attachments/65540/65545.pdf
+  path: string;
+  fileName: string;
+  mimeType: string;
+}
+
+export interface ConfluencePage {
+  // Confluence's page ID where the file name carries one, otherwise the file name
+  id: string;
+  path: string;
+  title: string;
+  parent: ConfluencePage | null;
+  children: ConfluencePage[];
+  // The page body (#main-content); null when the file has none
+  content: Element | null;
+  attachments: ConfluenceAttachment[];
+}
+
+export interface ConfluenceExport {
+  space: string;
+  // Parents always come before their children
+  pages: ConfluencePage[];
+  // What the archive says the file unzips to, so oversized ones need not be read
+  fileSize(filePath: string): number | null;
+  readFile(filePath: string): Promise<Buffer | null>;
+}
+
+function decodePath(href: string): string {
+  try {
+    return decodeURIComponent(href);
+  } catch {
+    return href;
+  }
+}
+
+/** Where a link inside the export points, relative to the export's root, or null for anything else. */
+export function exportPath(href: string): string | null {
+  if (/^[a-z][a-z0-9+.-]*:/i.test(href) || href.startsWith('//') || href.startsWith('#')) {
+    return null;
+  }
+  const target = path.posix.normalize(decodePath(href.split('#')[0].split('?')[0]));
+  return target.startsWith('..') || target.startsWith('/') ? null : target;
+}
+
+/**
+ * The page an absolute link into the old Confluence site refers to, by ID
+ * (/pages/viewpage.action?pageId=123) or by title (/display/KEY/Page+Title).
+ */
+export function confluencePageRef(href: string): { id?: string; title?: string } | null {
+  const id = /[?&]pageId=(\d+)/.exec(href)?.[1];
+  if (id) return { id };
+  const title = /\/display\/[^/?#]+\/([^/?#]+)/.exec(href)?.[1];
+  return title ? { title: decodePath(title.replace(/\+/g, ' ')) } : null;
+}
+
+function pageId(filePath: string): string {
+  return /(?:^|_)(\d+)\.html$/.exec(filePath)?.[1] ?? filePath;
+}
+
+function collapse(text: string): string {
+  return text.replace(/\s+/g, ' ').trim();
+}
+
+// Page headings read "Space name : Page title"
+function headingTitle(nodes: ChildNode[], space: string): string | null {
+  const heading =
+    findFirst(nodes, byId('title-text')) ?? findFirst(nodes, (el) => el.name === 'title');
+  if (!heading) return null;
+  const title = collapse(textContent(heading));
+  return title.startsWith(`${space} : `) ? title.slice(space.length + 3) : title || null;
+}
+
+function attachmentFromLink(link: Element): ConfluenceAttachment | null {
+  const target = exportPath(link.attribs.href || link.attribs.src || '');
+  if (!target?.startsWith('attachments/')) return null;
+
+  // The attachments section follows each link with "(mime/type)"
+  const next = link.next;
+  const listedType =
+    next && isText(next) ? /^\s*\(([\w.+-]+\/[\w.+-]+)\)/.exec(next.data)?.[1] : null;
+
+  const fileName =
+    collapse(
+      link.name === 'a'
+        ? textContent(link)
+        : link.attribs['data-linked-resource-default-alias'] || link.attribs.alt || ''
+    ) || path.posix.basename(target);
+
+  return {
+    path: target,
+    fileName,
+    mimeType:
+      listedType ||
+      MIME_TYPES[path.extname(fileName).toLowerCase()] ||
+      MIME_TYPES[path.extname(target).toLowerCase()] ||
+      'application/octet-stream',
+  };
+}
+
+// Files listed under "Attachments:", then any the body embeds that the list left out
+function readAttachments(nodes: ChildNode[], content: Element | null): ConfluenceAttachment[] {
+  const attachments = new Map<string, ConfluenceAttachment>();
+  const add = (element: Element) => {
+    const attachment = attachmentFromLink(element);
+    if (attachment && !attachments.has(attachment.path)) {
+      attachments.set(attachment.path, attachment);
+    }
+  };
+
+  // <div class="pageSection"><div class="pageSectionHeader"><h2 id="attachments">
+  const section = findFirst(nodes, byId('attachments'))?.parent?.parent;
+  if (section && isTag(section)) {
+    findAll([section], (el) => el.name === 'a').forEach(add);
+  }
+  if (content) {
+    findAll([content], (el) => el.name === 'a' || el.name === 'img').forEach(add);
+  }
+
+  return Array.from(attachments.values());
+}
+
+// The link a list item in index.html stands for, ignoring links in nested lists
+function itemLink(item: Element): Element | null {
+  return (
+    findAll(
+      item.children,
+      (el) => el.name === 'a' && !!el.attribs.href,
+      (el) => el.name === 'ul' || el.name === 'ol'
+    )[0] ?? null
+  );
+}
+
+/**
+ * Open a Confluence HTML space export: index.html for the space name and page
+ * tree, and every page file for its title, body and attachments. Pages the
+ * index leaves out are added at the top level.
+ */
+export async function readConfluenceExport(file: Express.Multer.File): Promise<ConfluenceExport> {
+  let zip: JSZip;
+  try {
+    zip = await JSZip.loadAsync(file.buffer);
+  } catch {
+    throw new ImportFileError('Not a valid zip archive');
+  }
+
+  // Exports wrap everything in a folder named after the space key
+  const index = Object.values(zip.files)
+    .filter((entry) => !entry.dir && path.posix.basename(entry.name) === 'index.html')
+    .sort((a, b) => a.name.length - b.name.length)[0];
+  if (!index) {
+    throw new ImportFileError('No index.html found. Is this a Confluence HTML space export?');
+  }
+  const root = index.name.slice(0, -'index.html'.length);
+
+  const declaredTotal = Object.values(zip.files)
+    .filter((entry) => !entry.dir && entry.name.startsWith(root))
+    .reduce((total, entry) => total + declaredUncompressedSize(entry), 0);
+  if (declaredTotal > MAX_UNZIPPED_SIZE) {
+    throw new ImportFileError('Export is too large once unzipped');
+  }
+
+  const readText = async (filePath: string) => {
+    const entry = zip.file(root + filePath);
+    if (!entry) return null;
+    if (declaredUncompressedSize(entry) > MAX_PAGE_SIZE) {
+      throw new ImportFileError(`${filePath} is too large once unzipped`);
+    }
+    return entry.async('string');
+  };
+  const indexDocument = parseDocument((await readText('index.html'))!);
+
+  const space =
+    headingTitle(indexDocument.children, '') || file.originalname.replace(/\.zip$/i, '');
+
+  const pageFiles = new Set(
+    Object.keys(zip.files)
+      .filter((name) => name.startsWith(root) && !zip.files[name].dir)
+      .map((name) => name.slice(root.length))
+      .filter((name) => !name.includes('/') && name.endsWith('.html') && name !== 'index.html')
+  );
+  if (pageFiles.size > MAX_CONFLUENCE_PAGES) {
+    throw new ImportFileError(`Export has more than ${MAX_CONFLUENCE_PAGES} pages`);
+  }
+
+  const pages: ConfluencePage[] = [];
+  const seen = new Set<string>();
+
+  const addPage = async (filePath: string, title: string | null, parent: ConfluencePage | null) => {
+    const document = parseDocument((await readText(filePath))!);
+    const content = findFirst(document.children, byId('main-content'));
+    const page: ConfluencePage = {
+      id: pageId(filePath),
+      path: filePath,
+      title: title || headingTitle(document.children, space) || filePath.replace(/\.html$/, ''),
+      parent,
+      children: [],
+      content,
+      attachments: readAttachments(document.children, content),
+    };
+    seen.add(filePath);
+    pages.push(page);
+    parent?.children.push(page);
+    return page;
+  };
+
+  // Walked breadth-first so parents are always listed before their children
+  const queue: { list: Element; parent: ConfluencePage | null }[] = findAll(
+    indexDocument.children,
+    (el) => el.name === 'ul',
+    (el) => el.name === 'ul'
+  ).map((list) => ({ list, parent: null }));
+
+  while (queue.length > 0) {
+    const { list, parent } = queue.shift()!;
+    for (const item of list.children) {
+      if (!isTag(item) || item.name !== 'li') continue;
+
+      const link = itemLink(item);
+      const target = link && exportPath(link.attribs.href);
+      if (!link || !target || !pageFiles.has(target) || seen.has(target)) continue;
+
+      const page = await addPage(target, collapse(textContent(link)), parent);
+      for (const child of item.children) {
+        if (isTag(child) && (child.name === 'ul' || child.name === 'ol')) {
+          queue.push({ list: child, parent: page });
+        }
+      }
+    }
+  }
+
+  for (const filePath of Array.from(pageFiles).sort()) {
+    if (!seen.has(filePath)) await addPage(filePath, null, null);
+  }
+
+  return {
+    space,
+    pages,
+    fileSize: (filePath) => {
+      const entry = zip.file(root + filePath);
+      return entry ? declaredUncompressedSize(entry) : null;
+    },
+    readFile: async (filePath) => zip.file(root + filePath)?.async('nodebuffer') ?? null,
+  };
+}
@@ -0,0 +1,23 @@
+import { prisma, Document } from '@kbase/database';
+
+/**
+ * Documents uploaded before versioning existed have no version rows. Record
+ * their current file as version 1 so it stays downloadable after a new upload.
+ */
+export async function ensureBaselineVersion(document: Document): Promise<void> {
+  const count = await prisma.documentVersion.count({ where: { documentId: document.id } });
+  if (count > 0) return;
+
+  await prisma.documentVersion.create({
+    data: {
+      documentId: document.id,
+      version: document.currentVersion,
+      fileName: document.fileName,
+      fileUrl: document.fileUrl,
+      fileSize: document.fileSize,
+      mimeType: document.mimeType,
+      uploadedById: document.authorId,
+      createdAt: document.createdAt,
+    },
+  });
+}
@@ -0,0 +1,142 @@
+import path from 'path';
+import { prisma } from '@kbase/database';
+import { enqueueJob } from '../jobs/queue';
+import { createSmtpTransport } from './smtp';
+import { createOutboxTransport } from './outbox';
+import { renderEmail, EmailTemplateName, EmailTemplates } from './templates';
+import type { EmailMessage, EmailTransport, QueuedEmail, QueuedEmailData } from './types';
+
+export type { EmailMessage, EmailTransport, QueuedEmail, QueuedEmailData } from './types';
+export type { EmailTemplateName, EmailTemplates } from './templates';
+export { renderEmail } from './templates';
+
+let transport: EmailTransport | null = null;
+
+export function getOutboxDir(): string {
+  return path.resolve(process.env.EMAIL_OUTBOX_DIR || '.outbox');
+}
+
+function createTransport(): EmailTransport {
+  const name = process.env.EMAIL_TRANSPORT || 'outbox';
+  const from = process.env.EMAIL_FROM || 'KBase <no-reply@localhost>';
+
+  switch (name) {
+    case 'smtp':
+      return createSmtpTransport(
+        {
+          host: process.env.SMTP_HOST || 'localhost',
+          port: Number(process.env.SMTP_PORT) || 587,
+          secure: process.env.SMTP_SECURE === 'true',
+          user: process.env.SMTP_USER,
+          pass: process.env.SMTP_PASS,
+        },
+        from
+      );
+    case 'outbox':
+      return createOutboxTransport(getOutboxDir(), from);
+    default:
+      throw new Error(`Unknown EMAIL_TRANSPORT "${name}"`);
+  }
+}
+
+export function getEmailTransport(): EmailTransport {
+  if (!transport) {
+    transport = createTransport();
+  }
+  return transport;
+}
+
+// Absolute link into the web app, e.g. appUrl('/reset-password', { token })
+export function appUrl(pathname: string, query: Record<string, string> = {}): string {
+  const url = new URL(pathname, process.env.APP_URL || 'http://localhost:3000');
+  for (const [key, value] of Object.entries(query)) {
+    url.searchParams.set(key, value);
+  }
+  return url.toString();
+}
+
+export async function sendEmail(message: EmailMessage): Promise<void> {
+  await getEmailTransport().send(message);
+}
+
+/**
+ * Hand an email to the worker, so a slow or unavailable mail server never holds
+ * up the request and failed sends are retried. It is rendered when it is sent.
+ */
+export async function queueEmail<T extends EmailTemplateName>(
+  to: string,
+  template: T,
+  data: QueuedEmailData[T]
+): Promise<void> {
+  await enqueueJob('email.send', { to, template, data } as QueuedEmail);
+}
+
+function usable<T extends { used: boolean; expiresAt: Date }>(token: T | null): T | null {
+  return token && !token.used && token.expiresAt > new Date() ? token : null;
+}
+
+function render<T extends EmailTemplateName>(
+  to: string,
+  template: T,
+  data: EmailTemplates[T]
+): EmailMessage {
+  return { to, ...renderEmail(template, data) };
+}
+
+// The message for a queued email, with its link built from the token it names
+export async function buildQueuedEmail(email: QueuedEmail): Promise<EmailMessage | null> {
+  const { to } = email;
+
+  switch (email.template) {
+    case 'verify-email': {
+      const { name, tokenId } = email.data;
+      const token = usable(
+        await prisma.emailVerificationToken.findUnique({ where: { id: tokenId } })
+      );
+      return (
+        token &&
+        render(to, 'verify-email', {
+          name,
+          verifyUrl: appUrl('/verify-email', { token: token.token }),
+        })
+      );
+    }
+    case 'reset-password': {
+      const { name, tokenId } = email.data;
+      const token = usable(await prisma.passwordResetToken.findUnique({ where: { id: tokenId } }));
+      return (
+        token &&
+        render(to, 'reset-password', {
+          name,
+          resetUrl: appUrl('/reset-password', { token: token.token }),
+        })
+      );
+    }
+    case 'confirm-email-change': {
+      const { name, newEmail, tokenId } = email.data;
+      const token = usable(await prisma.emailChangeToken.findUnique({ where: { id: tokenId } }));
+      return (
+        token &&
+        render(to, 'confirm-email-change', {
+          name,
+          newEmail,
+          confirmUrl: appUrl('/confirm-email', { token: token.token }),
+        })
+      );
+    }
+    case 'invitation': {
+      const { name, inviterName, tokenId } = email.data;
+      const token = usable(await prisma.invitationToken.findUnique({ where: { id: tokenId } }));
+      return (
+        token &&
+        render(to, 'invitation', {
+          name,
+          inviterName,
+          acceptUrl: appUrl('/accept-invitation', { token: token.token }),
+        })
+      );
+    }
+    default:
+      return render(to, email.template, email.data);
+  }
+}
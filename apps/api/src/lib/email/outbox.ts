@@ -0,0 +1,26 @@
+import crypto from 'crypto';
+import { promises as fs } from 'fs';
+import path from 'path';
+import nodemailer from 'nodemailer';
+import type { EmailMessage, EmailTransport } from './types';
+
+/**
+ * Writes each message to the outbox directory as an .eml file instead of
+ * delivering it. Any mail client can open the files.
+ */
+export function createOutboxTransport(directory: string, from: string): EmailTransport {
+  const transporter = nodemailer.createTransport({ streamTransport: true, buffer: true });
+
+  return {
+    name: 'outbox',
+
+    async send(message: EmailMessage): Promise<void> {
+      const info = await transporter.sendMail({ from, ...message });
+      const fileName = `${Date.now()}-${crypto.randomBytes(4).toString('hex')}.eml`;
+
+      await fs.mkdir(directory, { recursive: true });
+      await fs.writeFile(path.join(directory, fileName), info.message as Buffer);
+      console.log(`📧 Email to ${message.to} written to ${path.join(directory, fileName)}`);
+    },
+  };
+}
@@ -0,0 +1,27 @@
+import nodemailer from 'nodemailer';
+import type { EmailMessage, EmailTransport } from './types';
+
+export interface SmtpOptions {
+  host: string;
+  port: number;
+  secure: boolean;
+  user?: string;
+  pass?: string;
+}
+
+export function createSmtpTransport(options: SmtpOptions, from: string): EmailTransport {
+  const transporter = nodemailer.createTransport({
+    host: options.host,
+    port: options.port,
+    secure: options.secure,
+    auth: options.user ? { user: options.user, pass: options.pass } : undefined,
+  });
+
+  return {
+    name: 'smtp',
+
+    async send(message: EmailMessage): Promise<void> {
+      await transporter.sendMail({ from, ...message });
+    },
+  };
+}
@@ -0,0 +1,152 @@
+import type { EmailMessage } from './types';
+
+// Template name → the data it needs to render
+export interface EmailTemplates {
+  'verify-email': { name: string; verifyUrl: string };
+  'reset-password': { name: string; resetUrl: string };
+  'password-changed': { name: string };
+  'confirm-email-change': { name: string; newEmail: string; confirmUrl: string };
+  'email-changed': { name: string; newEmail: string };
+  invitation: { name: string; inviterName: string; acceptUrl: string };
+  'review-requested': {
+    name: string;
+    requesterName: string;
+    title: string;
+    contentUrl: string;
+    // Set when the review went to a group rather than to this person
+    groupName?: string;
+  };
+}
+
+export type EmailTemplateName = keyof EmailTemplates;
+
+type RenderedEmail = Omit<EmailMessage, 'to'>;
+
+interface EmailContent {
+  subject: string;
+  greeting: string;
+  paragraphs: string[];
+  action?: { label: string; url: string };
+  footer?: string;
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+// Every template shares one layout so the HTML and plain-text parts never drift apart
+function render(content: EmailContent): RenderedEmail {
+  const button = content.action
+    ? `<p style="margin:24px 0"><a href="${escapeHtml(content.action.url)}" style="background:#18181b;color:#ffffff;padding:10px 18px;border-radius:6px;text-decoration:none;display:inline-block">${escapeHtml(content.action.label)}</a></p>`
+    : '';
+
+  const html = [
+    '<!DOCTYPE html>',
+    '<html><body style="font-family:-apple-system,Segoe UI,Helvetica,Arial,sans-serif;color:#18181b;line-height:1.5">',
+    '<div style="max-width:560px;margin:0 auto;padding:24px">',
+    `<p>${escapeHtml(content.greeting)}</p>`,
+    ...content.paragraphs.map((paragraph) => `<p>${escapeHtml(paragraph)}</p>`),
+    button,
+    content.footer
+      ? `<p style="color:#71717a;font-size:13px">${escapeHtml(content.footer)}</p>`
+      : '',
+    '</div></body></html>',
+  ].join('\n');
+
+  const text = [
+    content.greeting,
+    ...content.paragraphs,
+    content.action ? `${content.action.label}: ${content.action.url}` : null,
+    content.footer ?? null,
+  ]
+    .filter((line): line is string => line !== null)
+    .join('\n\n');
+
+  return { subject: content.subject, html, text };
+}
+
+const templates: { [T in EmailTemplateName]: (data: EmailTemplates[T]) => RenderedEmail } = {
+  'verify-email': ({ name, verifyUrl }) =>
+    render({
+      subject: 'Verify your email address',
+      greeting: `Hi ${name},`,
+      paragraphs: ['Please confirm your email address to finish setting up your account.'],
+      action: { label: 'Verify email', url: verifyUrl },
+      footer: 'This link expires in 24 hours. If you did not create an account, ignore this email.',
+    }),
+
+  'reset-password': ({ name, resetUrl }) =>
+    render({
+      subject: 'Reset your password',
+      greeting: `Hi ${name},`,
+      paragraphs: ['We received a request to reset the password for your account.'],
+      action: { label: 'Reset password', url: resetUrl },
+      footer:
+        'This link expires in 1 hour. If you did not ask to reset your password, ignore this email.',
+    }),
+
+  'password-changed': ({ name }) =>
+    render({
+      subject: 'Your password was changed',
+      greeting: `Hi ${name},`,
+      paragraphs: [
+        'The password for your account was just changed.',
+        'If you did not make this change, reset your password right away and contact an administrator.',
+      ],
+    }),
+
+  'confirm-email-change': ({ name, newEmail, confirmUrl }) =>
+    render({
+      subject: 'Confirm your new email address',
+      greeting: `Hi ${name},`,
+      paragraphs: [`Confirm that you want to use ${newEmail} to sign in from now on.`],
+      action: { label: 'Confirm email', url: confirmUrl },
+      footer:
+        'This link expires in 24 hours. Until then your old address keeps working. If you did not ask for this, ignore this email.',
+    }),
+
+  'email-changed': ({ name, newEmail }) =>
+    render({
+      subject: 'Your email address was changed',
+      greeting: `Hi ${name},`,
+      paragraphs: [
+        `Your account now uses ${newEmail}. This address will no longer receive emails about it.`,
+        'If you did not make this change, contact an administrator right away.',
+      ],
+    }),
+
+  invitation: ({ name, inviterName, acceptUrl }) =>
+    render({
+      subject: "You've been invited to KBase",
+      greeting: `Hi ${name},`,
+      paragraphs: [
+        `${inviterName} created an account for you. Choose a password to start using it.`,
+      ],
+      action: { label: 'Accept invitation', url: acceptUrl },
+      footer: 'This invitation expires in 7 days. If you were not expecting it, ignore this email.',
+    }),
+
+  'review-requested': ({ name, requesterName, title, contentUrl, groupName }) =>
+    render({
+      subject: `Review requested: ${title}`,
+      greeting: `Hi ${name},`,
+      paragraphs: [
+        groupName
+          ? `${requesterName} asked ${groupName} to review "${title}". Anyone in the group can approve it or ask for changes.`
+          : `${requesterName} asked you to review "${title}".`,
+      ],
+      action: { label: 'Open review', url: contentUrl },
+    }),
+};
+
+export function renderEmail<T extends EmailTemplateName>(
+  template: T,
+  data: EmailTemplates[T]
+): RenderedEmail {
+  return templates[template](data);
+}
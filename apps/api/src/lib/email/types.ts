@@ -0,0 +1,32 @@
+import type { EmailTemplateName, EmailTemplates } from './templates';
+
+// A fully rendered email, ready to hand to a transport
+export interface EmailMessage {
+  to: string;
+  subject: string;
+  html: string;
+  text: string;
+}
+
+export interface EmailTransport {
+  readonly name: string;
+  send(message: EmailMessage): Promise<void>;
+}
+
+type TokenLinkTemplate = 'verify-email' | 'reset-password' | 'confirm-email-change' | 'invitation';
+
+/**
+ * What the queue stores for each template. A link that carries a token is kept
+ * as the token row's id and only built by the worker, so jobs.payload never
+ * holds a link that works.
+ */
+export type QueuedEmailData = Omit<EmailTemplates, TokenLinkTemplate> & {
+  'verify-email': { name: string; tokenId: string };
+  'reset-password': { name: string; tokenId: string };
+  'confirm-email-change': { name: string; newEmail: string; tokenId: string };
+  invitation: { name: string; inviterName: string; tokenId: string };
+};
+
+export type QueuedEmail = {
+  [T in EmailTemplateName]: { to: string; template: T; data: QueuedEmailData[T] };
+}[EmailTemplateName];
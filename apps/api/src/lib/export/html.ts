@@ -0,0 +1,64 @@
+import { formatDate } from '@kbase/utils';
+import type { ExportArticle } from './types';
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+// Inlined so the file reads the same offline, with nothing fetched from the app
+const STYLES = `
+  body { font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Helvetica, Arial, sans-serif; color: #18181b; line-height: 1.6; max-width: 760px; margin: 40px auto; padding: 0 20px; }
+  header { border-bottom: 1px solid #e4e4e7; margin-bottom: 24px; padding-bottom: 16px; }
+  h1, h2, h3, h4, h5, h6 { line-height: 1.25; margin: 1.5em 0 0.5em; }
+  header h1 { margin-top: 0; }
+  .meta { color: #71717a; font-size: 14px; margin: 4px 0; }
+  .tag { display: inline-block; background: #f4f4f5; border-radius: 4px; padding: 2px 8px; margin-right: 4px; font-size: 12px; }
+  a { color: #2563eb; }
+  blockquote { border-left: 3px solid #d4d4d8; color: #52525b; margin: 1em 0; padding-left: 16px; }
+  code { background: #f4f4f5; border-radius: 4px; font-family: SFMono-Regular, Menlo, Consolas, monospace; font-size: 0.9em; padding: 2px 4px; }
+  pre { background: #f4f4f5; border-radius: 6px; overflow-x: auto; padding: 12px 16px; }
+  pre code { background: none; padding: 0; }
+  hr { border: none; border-top: 1px solid #e4e4e7; margin: 2em 0; }
+  @media print { body { margin: 0; max-width: none; } a { color: inherit; } }
+`;
+
+/** A self-contained HTML page: article content plus a header with its details. */
+export function articleToHtml(article: ExportArticle): string {
+  const details = [
+    `By ${escapeHtml(article.author.name)}`,
+    article.category && escapeHtml(article.category.name),
+    article.publishedAt && `Published ${formatDate(article.publishedAt)}`,
+    `Updated ${formatDate(article.updatedAt)}`,
+  ].filter(Boolean);
+
+  const tags = article.tags
+    .map(({ tag }) => `<span class="tag">${escapeHtml(tag.name)}</span>`)
+    .join('');
+
+  return [
+    '<!DOCTYPE html>',
+    '<html lang="en">',
+    '<head>',
+    '<meta charset="utf-8">',
+    '<meta name="viewport" content="width=device-width, initial-scale=1">',
+    `<title>${escapeHtml(article.title)}</title>`,
+    `<style>${STYLES}</style>`,
+    '</head>',
+    '<body>',
+    '<header>',
+    `<h1>${escapeHtml(article.title)}</h1>`,
+    `<p class="meta">${details.join(' · ')}</p>`,
+    tags && `<p class="meta">${tags}</p>`,
+    article.excerpt && `<p class="meta">${escapeHtml(article.excerpt)}</p>`,
+    '</header>',
+    `<main>${article.content}</main>`,
+    '</body>',
+    '</html>',
+  ]
+    .filter(Boolean)
+    .join('\n');
+}
@@ -0,0 +1,72 @@
+import JSZip from 'jszip';
+import type { Prisma } from '@kbase/database';
+import { articleToMarkdown } from './markdown';
+import { articleToHtml } from './html';
+import { articleToPdf } from './pdf';
+import type { ExportArticle, ExportFile, ExportFormat, ExportOptions } from './types';
+
+export * from './types';
+
+// Loads exactly what ExportArticle needs
+export const exportArticleSelect = {
+  title: true,
+  slug: true,
+  content: true,
+  excerpt: true,
+  status: true,
+  publishedAt: true,
+  updatedAt: true,
+  author: { select: { name: true, email: true } },
+  category: { select: { name: true, slug: true } },
+  tags: { select: { tag: { select: { name: true } } } },
+} satisfies Prisma.ArticleSelect;
+
+const CONTENT_TYPES: Record<ExportFormat, string> = {
+  md: 'text/markdown; charset=utf-8',
+  html: 'text/html; charset=utf-8',
+  pdf: 'application/pdf',
+};
+
+export async function exportArticle(
+  article: ExportArticle,
+  format: ExportFormat,
+  options: ExportOptions
+): Promise<ExportFile> {
+  let data: Buffer;
+  switch (format) {
+    case 'md':
+      data = Buffer.from(articleToMarkdown(article, options), 'utf8');
+      break;
+    case 'html':
+      data = Buffer.from(articleToHtml(article), 'utf8');
+      break;
+    case 'pdf':
+      data = await articleToPdf(article);
+      break;
+  }
+
+  return {
+    fileName: `${article.slug}.${format}`,
+    contentType: CONTENT_TYPES[format],
+    data,
+  };
+}
+
+/**
+ * Zip a set of articles, each exported in the same format. `folder` is the
+ * path inside the archive, so a category tree can keep its shape.
+ */
+export async function exportArchive(
+  entries: { folder: string; article: ExportArticle }[],
+  format: ExportFormat,
+  options: ExportOptions
+): Promise<Buffer> {
+  const zip = new JSZip();
+  // Rendered one at a time; a category of PDFs is CPU-bound either way
+  for (const { folder, article } of entries) {
+    const file = await exportArticle(article, format, options);
+    zip.file(`${folder}/${file.fileName}`, file.data);
+  }
+
+  return zip.generateAsync({ type: 'nodebuffer', compression: 'DEFLATE' });
+}
@@ -0,0 +1,64 @@
+import TurndownService from 'turndown';
+import { stringify as stringifyYaml } from 'yaml';
+import type { ExportArticle, ExportOptions } from './types';
+
+const turndown = new TurndownService({
+  headingStyle: 'atx',
+  codeBlockStyle: 'fenced',
+  bulletListMarker: '-',
+  emDelimiter: '_',
+  hr: '---',
+});
+
+// The editor wraps every list item in a paragraph; keep those lists tight
+turndown.addRule('listParagraph', {
+  filter: (node) => node.nodeName === 'P' && node.parentNode?.nodeName === 'LI',
+  replacement: (content) => `\n${content}\n`,
+});
+
+// Turndown pads markers to four columns; one space is what people write by hand
+turndown.addRule('listItem', {
+  filter: 'li',
+  replacement: (content, node) => {
+    const parent = node.parentNode as TurndownService.Node;
+    let marker = '- ';
+    if (parent.nodeName === 'OL') {
+      const start = Number(parent.getAttribute('start')) || 1;
+      marker = `${start + Array.prototype.indexOf.call(parent.children, node)}. `;
+    }
+
+    const body = content
+      .replace(/^\n+/, '')
+      .replace(/\n+$/, '\n')
+      .replace(/\n(?!$)/g, `\n${' '.repeat(marker.length)}`);
+    return marker + body + (node.nextSibling && !body.endsWith('\n') ? '\n' : '');
+  },
+});
+
+// Not part of CommonMark, but GitHub and most editors read it
+turndown.addRule('strikethrough', {
+  filter: ['s', 'del'],
+  replacement: (content) => `~~${content}~~`,
+});
+
+/**
+ * Markdown with YAML front matter. The keys are the ones the Markdown import
+ * reads, so an exported file can be imported into another knowledge base.
+ */
+export function articleToMarkdown(article: ExportArticle, options: ExportOptions): string {
+  const frontMatter: Record<string, unknown> = {
+    title: article.title,
+    slug: article.slug,
+    status: article.status.toLowerCase(),
+  };
+  if (article.category) frontMatter.category = article.category.slug;
+  if (article.tags.length > 0) frontMatter.tags = article.tags.map(({ tag }) => tag.name);
+  if (options.includeAuthorEmail) frontMatter.author = article.author.email;
+  frontMatter.authorName = article.author.name;
+  if (article.excerpt) frontMatter.excerpt = article.excerpt;
+  if (article.publishedAt) frontMatter.publishedAt = article.publishedAt.toISOString();
+  frontMatter.updatedAt = article.updatedAt.toISOString();
+
+  const body = turndown.turndown(article.content);
+  return `---\n${stringifyYaml(frontMatter)}---\n\n# ${article.title}\n\n${body}\n`;
+}
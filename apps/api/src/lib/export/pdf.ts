@@ -0,0 +1,315 @@
+import PDFDocument from 'pdfkit';
+import { parseDocument } from 'htmlparser2';
+import { ChildNode, Element, isTag, isText } from 'domhandler';
+import { formatDate } from '@kbase/utils';
+import type { ExportArticle } from './types';
+
+// pdfkit's built-in fonts cover Latin scripts only; other characters print as blanks
+const FONTS = {
+  regular: 'Helvetica',
+  bold: 'Helvetica-Bold',
+  italic: 'Helvetica-Oblique',
+  boldItalic: 'Helvetica-BoldOblique',
+  code: 'Courier',
+};
+
+const COLORS = {
+  text: '#18181b',
+  muted: '#71717a',
+  link: '#2563eb',
+  rule: '#d4d4d8',
+};
+
+const BODY_SIZE = 11;
+const CODE_SIZE = 9.5;
+const HEADING_SIZES: Record<string, number> = { h1: 20, h2: 17, h3: 15, h4: 13, h5: 12, h6: 11 };
+const INDENT = 18;
+const MARGIN = 56;
+
+interface InlineStyle {
+  bold?: boolean;
+  italic?: boolean;
+  code?: boolean;
+  strike?: boolean;
+  link?: string;
+}
+
+interface Run {
+  text: string;
+  style: InlineStyle;
+}
+
+interface BlockContext {
+  indent: number;
+  color: string;
+}
+
+const BLOCK_TAGS = new Set([
+  'p',
+  'h1',
+  'h2',
+  'h3',
+  'h4',
+  'h5',
+  'h6',
+  'ul',
+  'ol',
+  'li',
+  'blockquote',
+  'pre',
+  'hr',
+  'div',
+  'table',
+]);
+
+function isBlock(node: ChildNode): boolean {
+  return isTag(node) && BLOCK_TAGS.has(node.name);
+}
+
+function textContent(node: ChildNode): string {
+  if (isText(node)) return node.data;
+  if (isTag(node)) return node.children.map(textContent).join('');
+  return '';
+}
+
+function collectRuns(nodes: ChildNode[], style: InlineStyle, runs: Run[] = []): Run[] {
+  for (const node of nodes) {
+    if (isText(node)) {
+      runs.push({ text: node.data.replace(/\s+/g, ' '), style });
+    } else if (isTag(node)) {
+      switch (node.name) {
+        case 'br':
+          runs.push({ text: '\n', style });
+          break;
+        case 'strong':
+        case 'b':
+          collectRuns(node.children, { ...style, bold: true }, runs);
+          break;
+        case 'em':
+        case 'i':
+          collectRuns(node.children, { ...style, italic: true }, runs);
+          break;
+        case 's':
+        case 'del':
+          collectRuns(node.children, { ...style, strike: true }, runs);
+          break;
+        case 'code':
+          collectRuns(node.children, { ...style, code: true }, runs);
+          break;
+        case 'a':
+          collectRuns(node.children, { ...style, link: node.attribs.href }, runs);
+          break;
+        default:
+          collectRuns(node.children, style, runs);
+      }
+    }
+  }
+  return runs;
+}
+
+function fontFor(style: InlineStyle): string {
+  if (style.code) return FONTS.code;
+  if (style.bold && style.italic) return FONTS.boldItalic;
+  if (style.bold) return FONTS.bold;
+  if (style.italic) return FONTS.italic;
+  return FONTS.regular;
+}
+
+/**
+ * Writes one paragraph's worth of styled runs. pdfkit flows text across calls
+ * with `continued`, so each run only switches font and colour.
+ */
+function writeRuns(
+  doc: PDFKit.PDFDocument,
+  runs: Run[],
+  context: BlockContext,
+  size: number,
+  prefix = ''
+) {
+  const parts = runs.map((run) => ({ ...run }));
+  // Trim the whitespace HTML would not show at the edges of a block
+  while (parts.length > 0 && !parts[0].text.trim()) parts.shift();
+  while (parts.length > 0 && !parts[parts.length - 1].text.trim()) parts.pop();
+  if (parts.length === 0) return;
+  parts[0].text = parts[0].text.trimStart();
+  parts[parts.length - 1].text = parts[parts.length - 1].text.trimEnd();
+
+  const left = MARGIN + context.indent;
+  const width = doc.page.width - MARGIN - left;
+
+  if (prefix) parts.unshift({ text: prefix, style: {} });
+
+  parts.forEach((run, index) => {
+    const last = index === parts.length - 1;
+    doc
+      .font(fontFor(run.style))
+      .fontSize(run.style.code ? size * 0.9 : size)
+      .fillColor(run.style.link ? COLORS.link : context.color);
+
+    const options: PDFKit.Mixins.TextOptions = {
+      continued: !last,
+      link: run.style.link || null,
+      underline: !!run.style.link,
+      strike: !!run.style.strike,
+      lineGap: 2,
+    };
+
+    if (index === 0) {
+      doc.text(run.text, left, doc.y, { ...options, width });
+    } else {
+      doc.text(run.text, options);
+    }
+  });
+}
+
+function renderList(doc: PDFKit.PDFDocument, list: Element, context: BlockContext) {
+  const ordered = list.name === 'ol';
+  let number = Number(list.attribs.start) || 1;
+
+  for (const item of list.children) {
+    if (!isTag(item) || item.name !== 'li') continue;
+    const marker = ordered ? `${number++}. ` : '•  ';
+
+    // List items hold a paragraph and maybe a nested list; the marker goes on the first line
+    let marked = false;
+    const inline: ChildNode[] = [];
+    const flushInline = () => {
+      if (inline.length === 0) return;
+      writeRuns(doc, collectRuns(inline, {}), context, BODY_SIZE, marked ? '' : marker);
+      marked = true;
+      inline.length = 0;
+    };
+
+    for (const child of item.children) {
+      if (isTag(child) && child.name === 'p') {
+        flushInline();
+        writeRuns(doc, collectRuns(child.children, {}), context, BODY_SIZE, marked ? '' : marker);
+        marked = true;
+      } else if (isTag(child) && (child.name === 'ul' || child.name === 'ol')) {
+        flushInline();
+        renderList(doc, child, { ...context, indent: context.indent + INDENT });
+      } else if (isBlock(child)) {
+        flushInline();
+        renderBlocks(doc, [child], { ...context, indent: context.indent + INDENT });
+      } else {
+        inline.push(child);
+      }
+    }
+    flushInline();
+  }
+
+  doc.moveDown(0.4);
+}
+
+function renderBlocks(doc: PDFKit.PDFDocument, nodes: ChildNode[], context: BlockContext) {
+  const inline: ChildNode[] = [];
+  const flushInline = () => {
+    if (inline.length === 0) return;
+    writeRuns(doc, collectRuns(inline, {}), context, BODY_SIZE);
+    doc.moveDown(0.5);
+    inline.length = 0;
+  };
+
+  for (const node of nodes) {
+    if (!isBlock(node) || !isTag(node)) {
+      inline.push(node);
+      continue;
+    }
+    flushInline();
+
+    switch (node.name) {
+      case 'p':
+        writeRuns(doc, collectRuns(node.children, {}), context, BODY_SIZE);
+        doc.moveDown(0.5);
+        break;
+      case 'h1':
+      case 'h2':
+      case 'h3':
+      case 'h4':
+      case 'h5':
+      case 'h6':
+        doc.moveDown(0.3);
+        writeRuns(
+          doc,
+          collectRuns(node.children, { bold: true }),
+          context,
+          HEADING_SIZES[node.name]
+        );
+        doc.moveDown(0.4);
+        break;
+      case 'ul':
+      case 'ol':
+        renderList(doc, node, context);
+        break;
+      case 'blockquote':
+        renderBlocks(doc, node.children, {
+          indent: context.indent + INDENT,
+          color: COLORS.muted,
+        });
+        break;
+      case 'pre':
+        doc
+          .font(FONTS.code)
+          .fontSize(CODE_SIZE)
+          .fillColor(context.color)
+          .text(textContent(node).replace(/\n$/, ''), MARGIN + context.indent + 8, doc.y, {
+            width: doc.page.width - 2 * MARGIN - context.indent - 8,
+            lineGap: 1,
+          });
+        doc.moveDown(0.6);
+        break;
+      case 'hr': {
+        const y = doc.y + 4;
+        doc
+          .moveTo(MARGIN + context.indent, y)
+          .lineTo(doc.page.width - MARGIN, y)
+          .strokeColor(COLORS.rule)
+          .stroke();
+        doc.y = y;
+        doc.moveDown(1);
+        break;
+      }
+      default:
+        renderBlocks(doc, node.children, context);
+    }
+  }
+  flushInline();
+}
+
+/** Render an article to PDF: a title block with its details, then the content. */
+export function articleToPdf(article: ExportArticle): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    const doc = new PDFDocument({
+      size: 'A4',
+      margin: MARGIN,
+      info: {
+        Title: article.title,
+        Author: article.author.name,
+      },
+    });
+
+    const chunks: Buffer[] = [];
+    doc.on('data', (chunk: Buffer) => chunks.push(chunk));
+    doc.on('end', () => resolve(Buffer.concat(chunks)));
+    doc.on('error', reject);
+
+    doc.font(FONTS.bold).fontSize(22).fillColor(COLORS.text).text(article.title);
+    doc.moveDown(0.3);
+
+    const details = [
+      `By ${article.author.name}`,
+      article.category?.name,
+      article.publishedAt && `Published ${formatDate(article.publishedAt)}`,
+      `Updated ${formatDate(article.updatedAt)}`,
+    ].filter(Boolean);
+    doc.font(FONTS.regular).fontSize(10).fillColor(COLORS.muted).text(details.join(' · '));
+    if (article.tags.length > 0) {
+      doc.text(`Tags: ${article.tags.map(({ tag }) => tag.name).join(', ')}`);
+    }
+    doc.moveDown(1);
+
+    renderBlocks(doc, parseDocument(article.content).children, { indent: 0, color: COLORS.text });
+
+    doc.end();
+  });
+}
@@ -0,0 +1,30 @@
+import type { ContentStatus } from '@kbase/database';
+
+export const EXPORT_FORMATS = ['md', 'html', 'pdf'] as const;
+
+export type ExportFormat = (typeof EXPORT_FORMATS)[number];
+
+// The fields an export needs; load them with exportArticleSelect
+export interface ExportArticle {
+  title: string;
+  slug: string;
+  content: string;
+  excerpt: string | null;
+  status: ContentStatus;
+  publishedAt: Date | null;
+  updatedAt: Date;
+  author: { name: string; email: string };
+  category: { name: string; slug: string } | null;
+  tags: { tag: { name: string } }[];
+}
+
+export interface ExportOptions {
+  // Author emails are only written out for people who can already see every user's address
+  includeAuthorEmail: boolean;
+}
+
+export interface ExportFile {
+  fileName: string;
+  contentType: string;
+  data: Buffer;
+}
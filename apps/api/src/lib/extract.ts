@@ -0,0 +1,104 @@
+import pdf from 'pdf-parse';
+import mammoth from 'mammoth';
+import WordExtractor from 'word-extractor';
+import * as XLSX from 'xlsx';
+
+// Extracted text is capped so a huge spreadsheet or PDF cannot bloat the documents table
+const MAX_EXTRACTED_LENGTH = 1_000_000;
+
+export interface ExtractionResult {
+  text: string;
+  pageCount: number | null;
+  wordCount: number;
+}
+
+type Extractor = (buffer: Buffer) => Promise<{ text: string; pageCount: number | null }>;
+
+async function extractPdf(buffer: Buffer) {
+  const result = await pdf(buffer);
+  return { text: result.text, pageCount: result.numpages };
+}
+
+async function extractDocx(buffer: Buffer) {
+  const result = await mammoth.extractRawText({ buffer });
+  return { text: result.value, pageCount: null };
+}
+
+async function extractDoc(buffer: Buffer) {
+  const document = await new WordExtractor().extract(buffer);
+  return { text: document.getBody(), pageCount: null };
+}
+
+async function extractSpreadsheet(buffer: Buffer) {
+  const workbook = XLSX.read(buffer, { type: 'buffer' });
+  const sheets = workbook.SheetNames.map((name) => {
+    const csv = XLSX.utils.sheet_to_csv(workbook.Sheets[name], { blankrows: false });
+    return `${name}\n${csv}`;
+  });
+  // Report sheets as pages so spreadsheets get a meaningful page count
+  return { text: sheets.join('\n\n'), pageCount: workbook.SheetNames.length };
+}
+
+async function extractPlainText(buffer: Buffer) {
+  return { text: buffer.toString('utf8'), pageCount: null };
+}
+
+async function extractMarkdown(buffer: Buffer) {
+  const text = buffer
+    .toString('utf8')
+    .replace(/```[^\n]*\n/g, '')
+    .replace(/!\[([^\]]*)\]\([^)]*\)/g, '$1')
+    .replace(/\[([^\]]*)\]\([^)]*\)/g, '$1')
+    .replace(/^\s{0,3}(#{1,6}|>|[-*+]|\d+\.)\s+/gm, '')
+    .replace(/(\*\*|__|\*|_|~~|`)/g, '');
+  return { text, pageCount: null };
+}
+
+const extractors: Record<string, Extractor> = {
+  'application/pdf': extractPdf,
+  'application/msword': extractDoc,
+  'application/vnd.openxmlformats-officedocument.wordprocessingml.document': extractDocx,
+  'application/vnd.ms-excel': extractSpreadsheet,
+  'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet': extractSpreadsheet,
+  'text/plain': extractPlainText,
+  'text/markdown': extractMarkdown,
+};
+
+function normalizeWhitespace(text: string): string {
+  return text
+    .replace(/\u0000/g, '')
+    .replace(/\r\n?/g, '\n')
+    .replace(/[ \t\f\v]+/g, ' ')
+    .replace(/ *\n */g, '\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+}
+
+export function countWords(text: string): number {
+  const words = text.match(/\S+/g);
+  return words ? words.length : 0;
+}
+
+export function canExtractText(mimeType: string): boolean {
+  return mimeType in extractors;
+}
+
+/**
+ * Pull plain text out of an uploaded file. Throws for unsupported MIME types
+ * or files the underlying parser cannot read.
+ */
+export async function extractText(buffer: Buffer, mimeType: string): Promise<ExtractionResult> {
+  const extractor = extractors[mimeType];
+  if (!extractor) {
+    throw new Error(`Text extraction is not supported for ${mimeType}`);
+  }
+
+  const { text, pageCount } = await extractor(buffer);
+  const normalized = normalizeWhitespace(text).slice(0, MAX_EXTRACTED_LENGTH);
+
+  return {
+    text: normalized,
+    pageCount,
+    wordCount: countWords(normalized),
+  };
+}
@@ -0,0 +1,37 @@
+import { prisma } from '@kbase/database';
+import type { TokenPayload } from './auth';
+import { hasPermission } from './permissions';
+
+// What other users get to see of a member; addresses stay with the server
+export const memberUserSelect = { id: true, name: true, avatarUrl: true };
+
+export async function isGroupMember(groupId: string, userId: string): Promise<boolean> {
+  const membership = await prisma.groupMembership.findUnique({
+    where: { groupId_userId: { groupId, userId } },
+    select: { id: true },
+  });
+  return !!membership;
+}
+
+// Owners run their own group; group:manage holders can run any of them
+export async function canManageGroup(
+  user: Pick<TokenPayload, 'userId' | 'role'>,
+  groupId: string
+): Promise<boolean> {
+  if (await hasPermission(user, 'group:manage')) return true;
+
+  const membership = await prisma.groupMembership.findUnique({
+    where: { groupId_userId: { groupId, userId: user.userId } },
+    select: { role: true },
+  });
+  return membership?.role === 'OWNER';
+}
+
+// Everyone in the group, for reviewer eligibility checks and notifications
+export async function getGroupMembers(groupId: string) {
+  const memberships = await prisma.groupMembership.findMany({
+    where: { groupId },
+    select: { user: { select: { ...memberUserSelect, email: true, role: true } } },
+  });
+  return memberships.map((membership) => membership.user);
+}
@@ -0,0 +1,82 @@
+import { prisma } from '@kbase/database';
+import { downloadFile, getFileKeyFromUrl, generateThumbnailKey, uploadFile } from '../storage';
+import { canExtractText, extractText, ExtractionResult } from '../extract';
+import { renderTextThumbnail } from '../thumbnail';
+import { syncContent } from '../search';
+import { buildQueuedEmail, sendEmail } from '../email';
+import { enqueueJob, JobPayloads, JobType } from './queue';
+
+type JobHandler<T extends JobType> = (payload: JobPayloads[T]) => Promise<void>;
+
+async function extractDocumentText({ documentId }: JobPayloads['document.extract-text']) {
+  const document = await prisma.document.findUnique({ where: { id: documentId } });
+  // Deleted before the worker got to it
+  if (!document) return;
+
+  let extraction: ExtractionResult | null = null;
+  if (canExtractText(document.mimeType)) {
+    const buffer = await downloadFile(getFileKeyFromUrl(document.fileUrl));
+    try {
+      extraction = await extractText(buffer, document.mimeType);
+    } catch (error) {
+      // A file the parser cannot read will not get better on retry, so keep going without text
+      console.error(`Text extraction error (document ${documentId}):`, error);
+    }
+  }
+
+  if (extraction) {
+    await prisma.document.update({
+      where: { id: documentId },
+      data: {
+        extractedText: extraction.text,
+        pageCount: extraction.pageCount,
+        wordCount: extraction.wordCount,
+      },
+    });
+  }
+
+  await enqueueJob('document.generate-thumbnail', { documentId });
+  await enqueueJob('search.sync', { type: 'document', id: documentId });
+}
+
+async function generateDocumentThumbnail({
+  documentId,
+}: JobPayloads['document.generate-thumbnail']) {
+  const document = await prisma.document.findUnique({
+    where: { id: documentId },
+    select: { id: true, title: true, description: true, extractedText: true, authorId: true },
+  });
+  if (!document) return;
+
+  const image = await renderTextThumbnail(
+    document.title,
+    document.extractedText || document.description || ''
+  );
+  const thumbnailUrl = await uploadFile(
+    generateThumbnailKey(document.authorId, document.id),
+    image,
+    'image/png'
+  );
+
+  await prisma.document.update({
+    where: { id: documentId },
+    data: { thumbnailUrl },
+  });
+}
+
+async function syncSearchIndex({ type, id }: JobPayloads['search.sync']) {
+  await syncContent(type, id);
+}
+
+// Nothing is sent for a link whose token was used or replaced in the meantime
+async function deliverEmail(email: JobPayloads['email.send']) {
+  const message = await buildQueuedEmail(email);
+  if (message) await sendEmail(message);
+}
+
+export const jobHandlers: { [T in JobType]: JobHandler<T> } = {
+  'document.extract-text': extractDocumentText,
+  'document.generate-thumbnail': generateDocumentThumbnail,
+  'search.sync': syncSearchIndex,
+  'email.send': deliverEmail,
+};
@@ -0,0 +1,139 @@
+import { prisma, Prisma, Job } from '@kbase/database';
+import type { ContentType } from '@kbase/types';
+import type { QueuedEmail } from '../email/types';
+
+const BASE_RETRY_DELAY_SECONDS = 30;
+const MAX_RETRY_DELAY_SECONDS = 60 * 60;
+const STALE_LOCK_MINUTES = 15;
+const MAX_ERROR_LENGTH = 2000;
+
+// Payload shape for every job type the worker knows how to run
+export interface JobPayloads {
+  'document.extract-text': { documentId: string };
+  'document.generate-thumbnail': { documentId: string };
+  'search.sync': { type: ContentType; id: string };
+  'email.send': QueuedEmail;
+}
+
+export type JobType = keyof JobPayloads;
+
+export interface EnqueueOptions {
+  runAt?: Date;
+  maxAttempts?: number;
+}
+
+export async function enqueueJob<T extends JobType>(
+  type: T,
+  payload: JobPayloads[T],
+  options: EnqueueOptions = {}
+): Promise<Job> {
+  return prisma.job.create({
+    data: {
+      type,
+      payload: payload as Prisma.InputJsonObject,
+      runAt: options.runAt,
+      maxAttempts: options.maxAttempts,
+    },
+  });
+}
+
+/**
+ * Atomically lock the next due job for this worker. SKIP LOCKED lets several
+ * worker processes poll the same table without handing out a job twice.
+ */
+export async function claimNextJob(workerId: string): Promise<Job | null> {
+  const claimed = await prisma.$queryRaw<{ id: string }[]>`
+    UPDATE jobs
+    SET status = 'RUNNING', "lockedAt" = now(), "lockedBy" = ${workerId},
+        attempts = attempts + 1, "updatedAt" = now()
+    WHERE id = (
+      SELECT id FROM jobs
+      WHERE status = 'PENDING' AND "runAt" <= now()
+      ORDER BY "runAt" ASC
+      FOR UPDATE SKIP LOCKED
+      LIMIT 1
+    )
+    RETURNING id
+  `;
+
+  if (claimed.length === 0) return null;
+  return prisma.job.findUnique({ where: { id: claimed[0].id } });
+}
+
+export async function completeJob(job: Job): Promise<void> {
+  await prisma.job.update({
+    where: { id: job.id },
+    data: {
+      status: 'COMPLETED',
+      completedAt: new Date(),
+      lockedAt: null,
+      lockedBy: null,
+      lastError: null,
+    },
+  });
+}
+
+export function getRetryDelaySeconds(attempts: number): number {
+  return Math.min(
+    BASE_RETRY_DELAY_SECONDS * 2 ** Math.max(0, attempts - 1),
+    MAX_RETRY_DELAY_SECONDS
+  );
+}
+
+// Schedule a retry with exponential backoff, or move the job to the dead-letter state
+export async function failJob(job: Job, error: unknown): Promise<'retry' | 'dead'> {
+  const message = error instanceof Error ? error.stack || error.message : String(error);
+  const isDead = job.attempts >= job.maxAttempts;
+
+  await prisma.job.update({
+    where: { id: job.id },
+    data: {
+      status: isDead ? 'DEAD' : 'PENDING',
+      runAt: isDead ? undefined : new Date(Date.now() + getRetryDelaySeconds(job.attempts) * 1000),
+      lockedAt: null,
+      lockedBy: null,
+      lastError: message.slice(0, MAX_ERROR_LENGTH),
+    },
+  });
+
+  return isDead ? 'dead' : 'retry';
+}
+
+/**
+ * Jobs left RUNNING by a worker that crashed or was killed go back to the
+ * queue (the interrupted run still counts as an attempt).
+ */
+export async function recoverStaleJobs(): Promise<number> {
+  const staleBefore = new Date(Date.now() - STALE_LOCK_MINUTES * 60 * 1000);
+
+  const [requeued, dead] = await prisma.$transaction([
+    prisma.job.updateMany({
+      where: {
+        status: 'RUNNING',
+        lockedAt: { lt: staleBefore },
+        attempts: { lt: prisma.job.fields.maxAttempts },
+      },
+      data: { status: 'PENDING', lockedAt: null, lockedBy: null, lastError: 'Worker lock expired' },
+    }),
+    prisma.job.updateMany({
+      where: { status: 'RUNNING', lockedAt: { lt: staleBefore } },
+      data: { status: 'DEAD', lockedAt: null, lockedBy: null, lastError: 'Worker lock expired' },
+    }),
+  ]);
+
+  return requeued.count + dead.count;
+}
+
+// Give a dead job a fresh set of attempts
+export async function retryJob(id: string): Promise<Job> {
+  return prisma.job.update({
+    where: { id },
+    data: {
+      status: 'PENDING',
+      attempts: 0,
+      runAt: new Date(),
+      lastError: null,
+      completedAt: null,
+    },
+  });
+}
@@ -0,0 +1,93 @@
+import { hostname } from 'os';
+import type { Job } from '@kbase/database';
+import {
+  claimNextJob,
+  completeJob,
+  failJob,
+  recoverStaleJobs,
+  JobPayloads,
+  JobType,
+} from './queue';
+import { jobHandlers } from './handlers';
+
+const POLL_INTERVAL_MS = 1000;
+const RECOVERY_INTERVAL_MS = 60 * 1000;
+
+export interface WorkerOptions {
+  concurrency?: number;
+  pollIntervalMs?: number;
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+async function runJob(job: Job): Promise<void> {
+  const handler = jobHandlers[job.type as JobType] as
+    | ((payload: JobPayloads[JobType]) => Promise<void>)
+    | undefined;
+
+  try {
+    if (!handler) {
+      throw new Error(`No handler registered for job type "${job.type}"`);
+    }
+    await handler(job.payload as unknown as JobPayloads[JobType]);
+    await completeJob(job);
+  } catch (error) {
+    const outcome = await failJob(job, error);
+    console.error(
+      `Job ${job.type} (${job.id}) failed, ${outcome === 'dead' ? 'giving up' : 'will retry'}:`,
+      error
+    );
+  }
+}
+
+/**
+ * Poll the jobs table until stop() is called. Each slot claims and runs one
+ * job at a time; stop() waits for in-flight jobs so a deploy never leaves a
+ * job half-done.
+ */
+export function startWorker(options: WorkerOptions = {}) {
+  const concurrency = Math.max(1, options.concurrency ?? 1);
+  const pollIntervalMs = options.pollIntervalMs ?? POLL_INTERVAL_MS;
+  const workerId = `${hostname()}:${process.pid}`;
+  let running = true;
+
+  async function runSlot(): Promise<void> {
+    while (running) {
+      try {
+        const job = await claimNextJob(workerId);
+        if (job) {
+          await runJob(job);
+          continue;
+        }
+      } catch (error) {
+        console.error('Job polling error:', error);
+      }
+      await sleep(pollIntervalMs);
+    }
+  }
+
+  async function runRecovery(): Promise<void> {
+    while (running) {
+      try {
+        const recovered = await recoverStaleJobs();
+        if (recovered > 0) console.warn(`Recovered ${recovered} stale jobs`);
+      } catch (error) {
+        console.error('Stale job recovery error:', error);
+      }
+      await sleep(RECOVERY_INTERVAL_MS);
+    }
+  }
+
+  const slots = Array.from({ length: concurrency }, runSlot);
+  void runRecovery();
+
+  return {
+    workerId,
+    async stop(): Promise<void> {
+      running = false;
+      await Promise.all(slots);
+    },
+  };
+}
@@ -0,0 +1,213 @@
+import path from 'path';
+import MarkdownIt from 'markdown-it';
+import JSZip from 'jszip';
+import { parse as parseYaml } from 'yaml';
+import { z } from 'zod';
+
+// Per uploaded file, so a zip of runbooks fits but a stray video does not
+export const MAX_IMPORT_FILE_SIZE = 20 * 1024 * 1024;
+export const MAX_IMPORT_FILES = 500;
+
+// Unzipped entries are held in memory, so cap what one archive may expand to
+const MAX_UNZIPPED_SIZE = 100 * 1024 * 1024;
+
+const MARKDOWN_EXTENSIONS = ['.md', '.markdown'];
+
+export const IMPORT_MIME_TYPES = [
+  'text/markdown',
+  'text/x-markdown',
+  'text/plain',
+  'application/zip',
+  'application/x-zip-compressed',
+  'application/octet-stream',
+];
+
+/** A problem with one file. It fails that file and the rest of the import carries on. */
+export class ImportFileError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ImportFileError';
+  }
+}
+
+export interface ImportEntry {
+  // Path shown in the report, e.g. "runbooks.zip/db/failover.md"
+  name: string;
+  data: Buffer;
+}
+
+export interface ImportedArticle {
+  title: string;
+  content: string;
+  excerpt?: string;
+  tags: string[];
+  categorySlug?: string;
+  status?: 'DRAFT' | 'PUBLISHED';
+  authorEmail?: string;
+}
+
+const frontMatterSchema = z.object({
+  title: z.string().trim().min(1).max(200).optional(),
+  tags: z.union([z.array(z.string()), z.string()]).optional(),
+  category: z.string().trim().min(1).optional(),
+  status: z
+    .string()
+    .transform((status) => status.toUpperCase())
+    .pipe(z.enum(['DRAFT', 'PUBLISHED']))
+    .optional(),
+  author: z.string().trim().email().optional(),
+  excerpt: z.string().trim().max(500).optional(),
+});
+
+// Raw HTML is escaped: the editor only keeps the nodes it knows about anyway
+const markdown = new MarkdownIt({ html: false, linkify: true }).disable('table');
+
+// The editor has no image node, so keep images as links rather than losing them on first save
+markdown.renderer.rules.image = (tokens, idx) => {
+  const token = tokens[idx];
+  const src = markdown.utils.escapeHtml(token.attrGet('src') || '');
+  const alt = markdown.utils.escapeHtml(token.content || src);
+  return `<a href="${src}">${alt}</a>`;
+};
+
+export function markdownToHtml(source: string): string {
+  return markdown.render(source).trim();
+}
+
+export function isZipFile(file: Express.Multer.File): boolean {
+  return path.extname(file.originalname).toLowerCase() === '.zip';
+}
+
+export function isMarkdownFile(name: string): boolean {
+  return MARKDOWN_EXTENSIONS.includes(path.extname(name).toLowerCase());
+}
+
+/**
+ * The size an entry says it unzips to, read before inflating it. JSZip keeps
+ * this from the archive's directory without exposing it in its types. The
+ * archive can lie, so what was actually inflated still has to be checked.
+ */
+export function declaredUncompressedSize(entry: JSZip.JSZipObject): number {
+  const data = (entry as unknown as { _data?: { uncompressedSize?: number } })._data;
+  return data?.uncompressedSize ?? 0;
+}
+
+/**
+ * Every file in a zip archive, skipping folders and the metadata macOS and
+ * other tools leave behind. Names are prefixed with the archive's name.
+ */
+export async function readZipEntries(file: Express.Multer.File): Promise<ImportEntry[]> {
+  let zip: JSZip;
+  try {
+    zip = await JSZip.loadAsync(file.buffer);
+  } catch {
+    throw new ImportFileError('Not a valid zip archive');
+  }
+
+  const files = Object.values(zip.files).filter(
+    (entry) =>
+      !entry.dir &&
+      !entry.name.startsWith('__MACOSX/') &&
+      !path.posix.basename(entry.name).startsWith('.')
+  );
+  if (files.length > MAX_IMPORT_FILES) {
+    throw new ImportFileError(`Archive has more than ${MAX_IMPORT_FILES} files`);
+  }
+
+  let declaredTotal = 0;
+  for (const entry of files) {
+    const size = declaredUncompressedSize(entry);
+    declaredTotal += size;
+    if (size > MAX_IMPORT_FILE_SIZE) {
+      throw new ImportFileError(`${entry.name} is too large once unzipped`);
+    }
+    if (declaredTotal > MAX_UNZIPPED_SIZE) {
+      throw new ImportFileError('Archive is too large once unzipped');
+    }
+  }
+
+  const entries: ImportEntry[] = [];
+  let totalSize = 0;
+  for (const entry of files) {
+    const data = await entry.async('nodebuffer');
+    totalSize += data.length;
+    if (data.length > MAX_IMPORT_FILE_SIZE) {
+      throw new ImportFileError(`${entry.name} is too large once unzipped`);
+    }
+    if (totalSize > MAX_UNZIPPED_SIZE) {
+      throw new ImportFileError('Archive is too large once unzipped');
+    }
+    entries.push({ name: `${file.originalname}/${entry.name}`, data });
+  }
+
+  return entries;
+}
+
+function splitFrontMatter(source: string): { data: unknown; body: string } {
+  const match = /^---[ \t]*\r?\n(?:([\s\S]*?)\r?\n)?(?:---|\.\.\.)[ \t]*(?:\r?\n|$)/.exec(source);
+  if (!match) return { data: {}, body: source };
+
+  let data: unknown;
+  try {
+    data = parseYaml(match[1] || '');
+  } catch (error) {
+    throw new ImportFileError(
+      `Invalid front matter: ${(error as Error).message.split('\n')[0].replace(/:$/, '')}`
+    );
+  }
+
+  return { data: data ?? {}, body: source.slice(match[0].length) };
+}
+
+function parseTags(tags: string[] | string | undefined): string[] {
+  const list = typeof tags === 'string' ? tags.split(',') : tags || [];
+  return Array.from(new Set(list.map((tag) => tag.trim()).filter(Boolean)));
+}
+
+/**
+ * Turn one Markdown file into article fields. Front matter supplies the title,
+ * tags, category slug, status and author email; without a title the leading
+ * "# Heading" is used, then the file name. A leading heading that repeats the
+ * title is dropped so it does not show twice.
+ */
+export function parseMarkdownArticle(name: string, source: string): ImportedArticle {
+  const { data, body } = splitFrontMatter(source.replace(/^\uFEFF/, ''));
+
+  const parsed = frontMatterSchema.safeParse(data);
+  if (!parsed.success) {
+    const issue = parsed.error.issues[0];
+    const field = issue.path.join('.');
+    throw new ImportFileError(
+      `Invalid front matter${field ? ` field "${field}"` : ''}: ${issue.message}`
+    );
+  }
+  const frontMatter = parsed.data;
+
+  let text = body.trim();
+  const heading = /^#[ \t]+(.+?)(?:[ \t]+#+)?[ \t]*(?:\r?\n|$)/.exec(text);
+  const title =
+    frontMatter.title ||
+    heading?.[1].trim() ||
+    path.posix
+      .basename(name)
+      .replace(/\.[^.]+$/, '')
+      .trim();
+
+  if (heading && heading[1].trim() === title) {
+    text = text.slice(heading[0].length).trim();
+  }
+
+  if (!title) throw new ImportFileError('Could not work out a title');
+  if (title.length > 200) throw new ImportFileError('Title is longer than 200 characters');
+  if (!text) throw new ImportFileError('File has no content');
+
+  return {
+    title,
+    content: markdownToHtml(text),
+    excerpt: frontMatter.excerpt,
+    tags: parseTags(frontMatter.tags),
+    categorySlug: frontMatter.category,
+    status: frontMatter.status,
+    authorEmail: frontMatter.author,
+  };
+}
@@ -0,0 +1,434 @@
+import crypto from 'crypto';
+import type { Request, Response as ExpressResponse } from 'express';
+import jwt from 'jsonwebtoken';
+import { prisma, UserRole, User } from '@kbase/database';
+import { AppError } from '../middleware/error';
+import { hashPassword, generateSecureToken } from './auth';
+import { appUrl } from './email';
+import { recordAudit } from './audit';
+
+const LOGIN_REQUEST_EXPIRES_MINUTES = 10;
+// Ties a sign-in to the browser that started it, so a callback link cannot be replayed in another
+const STATE_COOKIE = 'kb_oidc_state';
+const STATE_COOKIE_PATH = '/api/auth/oidc';
+const ID_TOKEN_ALGORITHMS: jwt.Algorithm[] = ['RS256', 'RS384', 'RS512', 'PS256', 'ES256', 'ES384'];
+// Highest first, so a user in several mapped groups gets the strongest role
+const ROLE_RANK: UserRole[] = ['ADMIN', 'EDITOR', 'VIEWER'];
+
+export interface OidcConfig {
+  issuer: string;
+  clientId: string;
+  clientSecret?: string;
+  redirectUri: string;
+  scopes: string;
+  // Shown on the login button, e.g. "Sign in with Okta"
+  providerName: string;
+  // Create accounts for people who sign in without one
+  allowProvisioning: boolean;
+  defaultRole: UserRole;
+  groupsClaim: string;
+  roleMapping: Map<string, UserRole>;
+}
+
+export interface OidcClaims {
+  sub: string;
+  email?: string;
+  email_verified?: boolean | string;
+  name?: string;
+  preferred_username?: string;
+  nonce?: string;
+  [claim: string]: unknown;
+}
+
+interface ProviderMetadata {
+  issuer: string;
+  authorization_endpoint: string;
+  token_endpoint: string;
+  jwks_uri: string;
+  userinfo_endpoint?: string;
+}
+
+function parseRole(value: string, variable: string): UserRole {
+  const role = value.trim().toUpperCase() as UserRole;
+  if (!ROLE_RANK.includes(role)) {
+    throw new Error(`${variable} has unknown role "${value}"`);
+  }
+  return role;
+}
+
+// OIDC_ROLE_MAPPING="kb-admins=ADMIN,kb-editors=EDITOR"
+function parseRoleMapping(value: string | undefined): Map<string, UserRole> {
+  const mapping = new Map<string, UserRole>();
+  for (const entry of (value || '').split(',')) {
+    if (!entry.trim()) continue;
+    const [group, role] = entry.split('=');
+    if (!group?.trim() || !role) {
+      throw new Error(`OIDC_ROLE_MAPPING entry "${entry}" must look like group=ROLE`);
+    }
+    mapping.set(group.trim(), parseRole(role, 'OIDC_ROLE_MAPPING'));
+  }
+  return mapping;
+}
+
+let cachedConfig: OidcConfig | null | undefined;
+
+// SSO is switched on by setting OIDC_ISSUER and OIDC_CLIENT_ID
+export function getOidcConfig(): OidcConfig | null {
+  if (cachedConfig !== undefined) return cachedConfig;
+
+  const issuer = process.env.OIDC_ISSUER;
+  const clientId = process.env.OIDC_CLIENT_ID;
+  if (!issuer || !clientId) {
+    cachedConfig = null;
+    return cachedConfig;
+  }
+
+  cachedConfig = {
+    issuer: issuer.replace(/\/+$/, ''),
+    clientId,
+    clientSecret: process.env.OIDC_CLIENT_SECRET || undefined,
+    redirectUri: process.env.OIDC_REDIRECT_URI || appUrl('/sso/callback'),
+    scopes: process.env.OIDC_SCOPES || 'openid email profile',
+    providerName: process.env.OIDC_PROVIDER_NAME || 'Single sign-on',
+    allowProvisioning: process.env.OIDC_ALLOW_PROVISIONING !== 'false',
+    defaultRole: parseRole(process.env.OIDC_DEFAULT_ROLE || 'VIEWER', 'OIDC_DEFAULT_ROLE'),
+    groupsClaim: process.env.OIDC_GROUPS_CLAIM || 'groups',
+    roleMapping: parseRoleMapping(process.env.OIDC_ROLE_MAPPING),
+  };
+  return cachedConfig;
+}
+
+async function fetchJson<T>(url: string, init?: RequestInit): Promise<T> {
+  let response: Response;
+  try {
+    response = await fetch(url, init);
+  } catch (error) {
+    console.error(`OIDC request to ${url} failed:`, error);
+    throw new AppError(502, 'Could not reach the identity provider', 'OIDC_PROVIDER_ERROR');
+  }
+
+  if (!response.ok) {
+    console.error(`OIDC request to ${url} returned ${response.status}:`, await response.text());
+    throw new AppError(502, 'The identity provider rejected the request', 'OIDC_PROVIDER_ERROR');
+  }
+  return (await response.json()) as T;
+}
+
+let metadataCache: { issuer: string; metadata: ProviderMetadata } | null = null;
+
+async function getProviderMetadata(config: OidcConfig): Promise<ProviderMetadata> {
+  if (metadataCache?.issuer === config.issuer) return metadataCache.metadata;
+
+  const metadata = await fetchJson<ProviderMetadata>(
+    `${config.issuer}/.well-known/openid-configuration`
+  );
+  metadataCache = { issuer: config.issuer, metadata };
+  return metadata;
+}
+
+let signingKeys = new Map<string, crypto.KeyObject>();
+
+async function loadSigningKeys(metadata: ProviderMetadata): Promise<void> {
+  const { keys } = await fetchJson<{
+    keys: (crypto.JsonWebKey & { kid?: string; use?: string })[];
+  }>(metadata.jwks_uri);
+
+  const next = new Map<string, crypto.KeyObject>();
+  keys
+    .filter((jwk) => !jwk.use || jwk.use === 'sig')
+    .forEach((jwk, index) => {
+      next.set(jwk.kid || `key-${index}`, crypto.createPublicKey({ key: jwk, format: 'jwk' }));
+    });
+  signingKeys = next;
+}
+
+// Providers rotate keys, so an unknown key id triggers one reload of the JWKS
+async function getSigningKey(
+  metadata: ProviderMetadata,
+  kid: string | undefined
+): Promise<crypto.KeyObject | undefined> {
+  const find = () =>
+    kid ? signingKeys.get(kid) : signingKeys.size === 1 ? [...signingKeys.values()][0] : undefined;
+
+  if (!find()) await loadSigningKeys(metadata);
+  return find();
+}
+
+function loginFailed(message: string): AppError {
+  return new AppError(401, message, 'OIDC_LOGIN_FAILED');
+}
+
+async function verifyIdToken(
+  idToken: string,
+  config: OidcConfig,
+  metadata: ProviderMetadata,
+  nonce: string
+): Promise<OidcClaims> {
+  const decoded = jwt.decode(idToken, { complete: true });
+  if (!decoded) throw loginFailed('The identity provider returned a malformed ID token');
+
+  const key = await getSigningKey(metadata, decoded.header.kid);
+  if (!key) throw loginFailed('The ID token was signed with an unknown key');
+
+  let claims: OidcClaims;
+  try {
+    claims = jwt.verify(idToken, key, {
+      algorithms: ID_TOKEN_ALGORITHMS,
+      issuer: metadata.issuer,
+      audience: config.clientId,
+    }) as OidcClaims;
+  } catch (error) {
+    console.error('OIDC ID token verification failed:', error);
+    throw loginFailed('The ID token could not be verified');
+  }
+
+  if (claims.nonce !== nonce) throw loginFailed('The ID token does not belong to this sign-in');
+  return claims;
+}
+
+function base64url(bytes: Buffer): string {
+  return bytes.toString('base64url');
+}
+
+function hashState(state: string): string {
+  return crypto.createHash('sha256').update(state).digest('base64url');
+}
+
+function readCookie(req: Request, name: string): string | undefined {
+  for (const pair of (req.headers.cookie || '').split(';')) {
+    const index = pair.indexOf('=');
+    if (index !== -1 && pair.slice(0, index).trim() === name) {
+      return decodeURIComponent(pair.slice(index + 1).trim());
+    }
+  }
+  return undefined;
+}
+
+function stateCookieMatches(req: Request, state: string): boolean {
+  const cookie = Buffer.from(readCookie(req, STATE_COOKIE) || '');
+  const expected = Buffer.from(hashState(state));
+  return cookie.length === expected.length && crypto.timingSafeEqual(cookie, expected);
+}
+
+/**
+ * Start a sign-in: remember the state, nonce and PKCE verifier server-side,
+ * set a cookie holding a hash of the state, and return the provider URL to
+ * send the browser to.
+ */
+export async function createAuthorizationUrl(
+  config: OidcConfig,
+  res: ExpressResponse
+): Promise<string> {
+  const metadata = await getProviderMetadata(config);
+
+  const state = base64url(crypto.randomBytes(32));
+  const nonce = base64url(crypto.randomBytes(32));
+  const codeVerifier = base64url(crypto.randomBytes(32));
+  const codeChallenge = base64url(crypto.createHash('sha256').update(codeVerifier).digest());
+
+  const expiresAt = new Date();
+  expiresAt.setMinutes(expiresAt.getMinutes() + LOGIN_REQUEST_EXPIRES_MINUTES);
+
+  // Abandoned sign-ins are cleared whenever a new one starts
+  await prisma.oidcLoginRequest.deleteMany({ where: { expiresAt: { lt: new Date() } } });
+  await prisma.oidcLoginRequest.create({
+    data: { state, nonce, codeVerifier, expiresAt },
+  });
+  res.cookie(STATE_COOKIE, hashState(state), {
+    httpOnly: true,
+    sameSite: 'lax',
+    secure: process.env.NODE_ENV === 'production',
+    path: STATE_COOKIE_PATH,
+    maxAge: LOGIN_REQUEST_EXPIRES_MINUTES * 60 * 1000,
+  });
+
+  const url = new URL(metadata.authorization_endpoint);
+  url.searchParams.set('response_type', 'code');
+  url.searchParams.set('client_id', config.clientId);
+  url.searchParams.set('redirect_uri', config.redirectUri);
+  url.searchParams.set('scope', config.scopes);
+  url.searchParams.set('state', state);
+  url.searchParams.set('nonce', nonce);
+  url.searchParams.set('code_challenge', codeChallenge);
+  url.searchParams.set('code_challenge_method', 'S256');
+  return url.toString();
+}
+
+/**
+ * Finish a sign-in: redeem the authorization code and return the verified
+ * identity claims. Each state value can be used once, and only by the browser
+ * that started the sign-in.
+ */
+export async function completeAuthorization(
+  config: OidcConfig,
+  code: string,
+  state: string,
+  req: Request,
+  res: ExpressResponse
+): Promise<OidcClaims> {
+  const fromThisBrowser = stateCookieMatches(req, state);
+  res.clearCookie(STATE_COOKIE, { path: STATE_COOKIE_PATH });
+  if (!fromThisBrowser) {
+    throw new AppError(
+      400,
+      'This sign-in was started in another browser. Please try again.',
+      'INVALID_OIDC_STATE'
+    );
+  }
+
+  const request = await prisma.oidcLoginRequest.findUnique({ where: { state } });
+  const { count } = await prisma.oidcLoginRequest.deleteMany({ where: { state } });
+
+  if (!request || count === 0 || request.expiresAt < new Date()) {
+    throw new AppError(
+      400,
+      'This sign-in link is invalid or has expired. Please try again.',
+      'INVALID_OIDC_STATE'
+    );
+  }
+
+  const metadata = await getProviderMetadata(config);
+
+  const body = new URLSearchParams({
+    grant_type: 'authorization_code',
+    code,
+    redirect_uri: config.redirectUri,
+    client_id: config.clientId,
+    code_verifier: request.codeVerifier,
+  });
+  if (config.clientSecret) body.set('client_secret', config.clientSecret);
+
+  const tokens = await fetchJson<{ id_token?: string; access_token?: string }>(
+    metadata.token_endpoint,
+    {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/x-www-form-urlencoded', Accept: 'application/json' },
+      body,
+    }
+  );
+  if (!tokens.id_token) throw loginFailed('The identity provider did not return an ID token');
+
+  const claims = await verifyIdToken(tokens.id_token, config, metadata, request.nonce);
+
+  // Some providers keep email and group claims out of the ID token
+  if (metadata.userinfo_endpoint && tokens.access_token) {
+    const userinfo = await fetchJson<OidcClaims>(metadata.userinfo_endpoint, {
+      headers: { Authorization: `Bearer ${tokens.access_token}` },
+    });
+    if (userinfo.sub === claims.sub) return { ...userinfo, ...claims };
+  }
+
+  return claims;
+}
+
+// The strongest role any of the user's groups maps to, if any
+export function mapGroupsToRole(config: OidcConfig, claims: OidcClaims): UserRole | null {
+  if (config.roleMapping.size === 0) return null;
+
+  const value = claims[config.groupsClaim];
+  const groups = Array.isArray(value)
+    ? value.map(String)
+    : typeof value === 'string'
+      ? [value]
+      : [];
+  const roles = groups
+    .map((group) => config.roleMapping.get(group))
+    .filter((role): role is UserRole => !!role);
+
+  return ROLE_RANK.find((role) => roles.includes(role)) ?? null;
+}
+
+/**
+ * The local user for a verified identity. Known identities sign straight in;
+ * otherwise the account is linked by verified email, or created when
+ * provisioning is allowed. Mapped groups update the role on every sign-in.
+ */
+export async function resolveOidcUser(
+  config: OidcConfig,
+  claims: OidcClaims,
+  req: Request
+): Promise<User> {
+  const identityKey = { issuer: config.issuer, subject: claims.sub };
+  const identity = await prisma.oidcIdentity.findUnique({
+    where: { issuer_subject: identityKey },
+    include: { user: true },
+  });
+  const mappedRole = mapGroupsToRole(config, claims);
+
+  let user = identity?.user;
+
+  if (!user) {
+    const emailVerified = claims.email_verified === true || claims.email_verified === 'true';
+    if (!claims.email || !emailVerified) {
+      throw new AppError(
+        403,
+        'Your identity provider did not share a verified email address',
+        'OIDC_EMAIL_NOT_VERIFIED'
+      );
+    }
+
+    const existing = await prisma.user.findFirst({
+      where: { email: { equals: claims.email, mode: 'insensitive' } },
+    });
+
+    if (existing) {
+      user = existing;
+      if (!existing.emailVerified) {
+        // Whoever set this password never proved they own the address, so it stops working
+        user = await prisma.user.update({
+          where: { id: existing.id },
+          data: {
+            emailVerified: new Date(),
+            passwordHash: await hashPassword(generateSecureToken()),
+          },
+        });
+        await prisma.session.deleteMany({ where: { userId: existing.id } });
+        await prisma.apiToken.deleteMany({ where: { userId: existing.id } });
+      }
+    } else if (config.allowProvisioning) {
+      user = await prisma.user.create({
+        data: {
+          email: claims.email,
+          name: claims.name || claims.preferred_username || claims.email.split('@')[0],
+          // SSO users have no usable password until they reset one
+          passwordHash: await hashPassword(generateSecureToken()),
+          emailVerified: new Date(),
+          role: mappedRole ?? config.defaultRole,
+        },
+      });
+    } else {
+      throw new AppError(
+        403,
+        'There is no account for this email address. Ask an administrator for access.',
+        'ACCOUNT_NOT_FOUND'
+      );
+    }
+
+    await prisma.oidcIdentity.create({
+      data: { ...identityKey, userId: user.id },
+    });
+  }
+
+  if (mappedRole && mappedRole !== user.role) {
+    const previousRole = user.role;
+    user = await prisma.user.update({
+      where: { id: user.id },
+      data: { role: mappedRole },
+    });
+    await recordAudit(req, {
+      action: 'user.role_changed',
+      actor: null,
+      targetType: 'user',
+      targetId: user.id,
+      before: { role: previousRole },
+      after: { role: mappedRole, source: 'oidc_groups' },
+    });
+  }
+
+  await prisma.oidcIdentity.update({
+    where: { issuer_subject: identityKey },
+    data: { lastLoginAt: new Date() },
+  });
+
+  return user;
+}
@@ -0,0 +1,176 @@
+import { prisma, ContentStatus, ContentType, UserRole } from '@kbase/database';
+import type { TokenPayload } from './auth';
+
+// Every permission the API checks. Keys are stored in role_permissions, so never rename one.
+export const PERMISSIONS = {
+  'article:create': 'Create articles and edit their own',
+  'article:edit-any': 'Edit articles written by others',
+  'article:publish': 'Publish articles without a review',
+  'article:delete': 'Delete articles',
+  'article:import': 'Bulk import articles from Markdown files and Confluence exports',
+  'template:manage': 'Create, edit and delete article templates',
+  'document:upload': 'Upload documents and edit their own',
+  'document:edit-any': 'Edit documents uploaded by others',
+  'document:publish': 'Publish documents without a review',
+  'document:delete': 'Delete documents',
+  'review:perform': 'Be assigned as a reviewer',
+  'comment:create': 'Comment on content',
+  'comment:moderate': 'Delete comments written by others',
+  'reaction:create': 'Like and dislike content',
+  'category:create': 'Create categories',
+  'category:edit': 'Edit categories',
+  'category:delete': 'Delete categories',
+  'category:view-restricted': 'See every category, whatever its visibility or grants',
+  'user:manage': 'View users and change their roles',
+  'group:manage': "Create, rename and delete groups and manage any group's members",
+  'role:manage': 'Edit role permissions and security policies',
+  'system:manage': 'View system stats and manage background jobs',
+  'audit:view': 'Browse and export the audit log',
+} as const;
+
+export type Permission = keyof typeof PERMISSIONS;
+
+export const ALL_PERMISSIONS = Object.keys(PERMISSIONS) as Permission[];
+
+// Admins always hold every permission so nobody can lock themselves out of this screen
+export const EDITABLE_ROLES = ['EDITOR', 'VIEWER'] as const;
+
+const VIEWER_PERMISSIONS: Permission[] = ['comment:create', 'reaction:create'];
+
+// Matches the original hard-coded role checks; written to the table on first start
+export const DEFAULT_ROLE_PERMISSIONS: Record<(typeof EDITABLE_ROLES)[number], Permission[]> = {
+  EDITOR: [
+    ...VIEWER_PERMISSIONS,
+    'article:create',
+    'document:upload',
+    'review:perform',
+    'template:manage',
+  ],
+  VIEWER: VIEWER_PERMISSIONS,
+};
+
+const CACHE_TTL_MS = 30 * 1000;
+
+let cache: { loadedAt: number; byRole: Map<UserRole, Set<Permission>> } | null = null;
+
+async function loadRolePermissions(): Promise<Map<UserRole, Set<Permission>>> {
+  if (cache && Date.now() - cache.loadedAt < CACHE_TTL_MS) {
+    return cache.byRole;
+  }
+
+  const rows = await prisma.rolePermission.findMany();
+  const byRole = new Map<UserRole, Set<Permission>>([['ADMIN', new Set(ALL_PERMISSIONS)]]);
+  for (const role of EDITABLE_ROLES) {
+    byRole.set(role, new Set());
+  }
+  for (const row of rows) {
+    // Skip permissions that were removed from the catalog but are still stored
+    if (row.role !== 'ADMIN' && row.permission in PERMISSIONS) {
+      byRole.get(row.role)!.add(row.permission as Permission);
+    }
+  }
+
+  cache = { loadedAt: Date.now(), byRole };
+  return byRole;
+}
+
+export async function getRolePermissions(role: UserRole): Promise<Set<Permission>> {
+  return (await loadRolePermissions()).get(role) ?? new Set();
+}
+
+export async function hasPermission(
+  user: Pick<TokenPayload, 'role'>,
+  permission: Permission
+): Promise<boolean> {
+  return (await getRolePermissions(user.role as UserRole)).has(permission);
+}
+
+/**
+ * Authors edit their own content with the create/upload permission; anyone
+ * else needs the type's edit-any permission.
+ */
+export async function canEditContent(
+  contentType: ContentType,
+  content: { authorId: string },
+  user: Pick<TokenPayload, 'userId' | 'role'>
+): Promise<boolean> {
+  const [own, any]: Permission[] =
+    contentType === 'ARTICLE'
+      ? ['article:create', 'article:edit-any']
+      : ['document:upload', 'document:edit-any'];
+
+  if (content.authorId === user.userId && (await hasPermission(user, own))) return true;
+  return hasPermission(user, any);
+}
+
+// Editors of others' content and reviewers see every draft, review and archived item
+async function seesAllUnpublished(
+  contentType: ContentType,
+  user: Pick<TokenPayload, 'role'>
+): Promise<boolean> {
+  const editAny: Permission = contentType === 'ARTICLE' ? 'article:edit-any' : 'document:edit-any';
+  return (await hasPermission(user, editAny)) || hasPermission(user, 'review:perform');
+}
+
+/**
+ * Published content is for everyone who can see its category. Anything else
+ * (drafts, content in review, archived content) only for its author and for
+ * those who edit or review other people's work.
+ */
+export async function canViewContent(
+  contentType: ContentType,
+  content: { status: ContentStatus; authorId: string },
+  user: Pick<TokenPayload, 'userId' | 'role'> | undefined
+): Promise<boolean> {
+  if (content.status === 'PUBLISHED') return true;
+  if (!user) return false;
+  if (content.authorId === user.userId) return true;
+  return seesAllUnpublished(contentType, user);
+}
+
+// The same rule as canViewContent, as a Prisma filter for listings
+export async function viewableContentWhere(
+  contentType: ContentType,
+  user: Pick<TokenPayload, 'userId' | 'role'> | undefined
+) {
+  if (!user) return { status: ContentStatus.PUBLISHED };
+  if (await seesAllUnpublished(contentType, user)) return {};
+  return { OR: [{ status: ContentStatus.PUBLISHED }, { authorId: user.userId }] };
+}
+
+export function publishPermission(contentType: ContentType): Permission {
+  return contentType === 'ARTICLE' ? 'article:publish' : 'document:publish';
+}
+
+export async function rolesWithPermission(permission: Permission): Promise<UserRole[]> {
+  const byRole = await loadRolePermissions();
+  return Array.from(byRole.entries())
+    .filter(([, permissions]) => permissions.has(permission))
+    .map(([role]) => role);
+}
+
+export async function setRolePermissions(
+  role: (typeof EDITABLE_ROLES)[number],
+  permissions: Permission[]
+): Promise<void> {
+  await prisma.$transaction([
+    prisma.rolePermission.deleteMany({ where: { role } }),
+    prisma.rolePermission.createMany({
+      data: Array.from(new Set(permissions)).map((permission) => ({ role, permission })),
+    }),
+  ]);
+  cache = null;
+}
+
+// Seed the defaults on a fresh database; later edits made by admins are left alone
+export async function seedRolePermissions(): Promise<void> {
+  if ((await prisma.rolePermission.count()) > 0) return;
+
+  await prisma.rolePermission.createMany({
+    data: EDITABLE_ROLES.flatMap((role) =>
+      DEFAULT_ROLE_PERMISSIONS[role].map((permission) => ({ role, permission }))
+    ),
+    skipDuplicates: true,
+  });
+  cache = null;
+}
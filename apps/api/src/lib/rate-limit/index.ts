@@ -0,0 +1,27 @@
+import { postgresRateLimitStore } from './postgres';
+import { createMemoryRateLimitStore } from './memory';
+import type { RateLimitStore } from './types';
+
+export type { RateLimitStore, WindowCounts } from './types';
+
+let store: RateLimitStore | null = null;
+
+function createStore(): RateLimitStore {
+  const name = process.env.RATE_LIMIT_STORE || 'memory';
+
+  switch (name) {
+    case 'memory':
+      return createMemoryRateLimitStore();
+    case 'postgres':
+      return postgresRateLimitStore;
+    default:
+      throw new Error(`Unknown RATE_LIMIT_STORE "${name}"`);
+  }
+}
+
+export function getRateLimitStore(): RateLimitStore {
+  if (!store) {
+    store = createStore();
+  }
+  return store;
+}
@@ -0,0 +1,52 @@
+import type { RateLimitStore, WindowCounts } from './types';
+
+const SWEEP_INTERVAL_MS = 60 * 1000;
+
+interface Entry {
+  windowStart: number;
+  windowMs: number;
+  current: number;
+  previous: number;
+}
+
+/**
+ * Counters in a Map, private to this process. Fine for a single API instance;
+ * with several, each one allows the full limit, so use the Postgres store.
+ */
+export function createMemoryRateLimitStore(): RateLimitStore {
+  const entries = new Map<string, Entry>();
+  let lastSweep = Date.now();
+
+  // Drop keys that have been quiet for two windows so the map does not grow forever
+  const sweep = (now: number) => {
+    if (now - lastSweep < SWEEP_INTERVAL_MS) return;
+    lastSweep = now;
+    for (const [key, entry] of entries) {
+      if (entry.windowStart + 2 * entry.windowMs <= now) entries.delete(key);
+    }
+  };
+
+  return {
+    name: 'memory',
+
+    async increment(key, windowStart, windowMs): Promise<WindowCounts> {
+      sweep(Date.now());
+
+      const entry = entries.get(key);
+      if (!entry || entry.windowStart < windowStart - windowMs) {
+        entries.set(key, { windowStart, windowMs, current: 1, previous: 0 });
+        return { current: 1, previous: 0 };
+      }
+
+      if (entry.windowStart < windowStart) {
+        // The next window has started; what was current becomes the previous one
+        entry.previous = entry.current;
+        entry.current = 0;
+        entry.windowStart = windowStart;
+      }
+
+      entry.current += 1;
+      return { current: entry.current, previous: entry.previous };
+    },
+  };
+}
@@ -0,0 +1,44 @@
+import { prisma } from '@kbase/database';
+import type { RateLimitStore, WindowCounts } from './types';
+
+const SWEEP_INTERVAL_MS = 60 * 1000;
+
+let lastSweep = 0;
+
+// Expired rows are deleted at most once a minute per process, never on every hit
+async function sweepExpired(now: Date) {
+  if (now.getTime() - lastSweep < SWEEP_INTERVAL_MS) return;
+  lastSweep = now.getTime();
+  await prisma.rateLimitCounter.deleteMany({ where: { expiresAt: { lt: now } } });
+}
+
+/**
+ * Counters shared by every API instance through the rate_limit_counters
+ * table. The insert-or-increment is a single statement, so concurrent
+ * requests never lose a hit.
+ */
+export const postgresRateLimitStore: RateLimitStore = {
+  name: 'postgres',
+
+  async increment(key, windowStart, windowMs): Promise<WindowCounts> {
+    const start = new Date(windowStart);
+    const expiresAt = new Date(windowStart + 2 * windowMs);
+
+    const [row] = await prisma.$queryRaw<{ count: number }[]>`
+      INSERT INTO rate_limit_counters ("key", "windowStart", "count", "expiresAt")
+      VALUES (${key}, ${start}, 1, ${expiresAt})
+      ON CONFLICT ("key", "windowStart")
+      DO UPDATE SET "count" = rate_limit_counters."count" + 1
+      RETURNING "count"
+    `;
+
+    const previous = await prisma.rateLimitCounter.findUnique({
+      where: { key_windowStart: { key, windowStart: new Date(windowStart - windowMs) } },
+      select: { count: true },
+    });
+
+    await sweepExpired(new Date());
+
+    return { current: Number(row.count), previous: previous?.count ?? 0 };
+  },
+};
@@ -0,0 +1,11 @@
+// Hits counted for a key in the current fixed window and the one before it
+export interface WindowCounts {
+  current: number;
+  previous: number;
+}
+
+export interface RateLimitStore {
+  readonly name: string;
+  // Count one hit for the key in the window starting at windowStart
+  increment(key: string, windowStart: number, windowMs: number): Promise<WindowCounts>;
+}
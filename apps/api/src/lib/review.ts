@@ -0,0 +1,116 @@
+import { prisma, ContentStatus, ContentType, Review, ReviewStatus } from '@kbase/database';
+import type { TokenPayload } from './auth';
+import { enqueueJob } from './jobs/queue';
+import { hasPermission, publishPermission } from './permissions';
+import { isGroupMember } from './groups';
+import { getCategoryAccess } from './category-access';
+
+export interface ReviewableContent {
+  id: string;
+  title: string;
+  authorId: string;
+  categoryId: string | null;
+  status: ContentStatus;
+}
+
+function contentWhere(contentType: ContentType, contentId: string) {
+  return contentType === 'ARTICLE' ? { articleId: contentId } : { documentId: contentId };
+}
+
+export async function findReviewableContent(
+  contentType: ContentType,
+  contentId: string
+): Promise<ReviewableContent | null> {
+  const select = { id: true, title: true, authorId: true, categoryId: true, status: true };
+  return contentType === 'ARTICLE'
+    ? prisma.article.findUnique({ where: { id: contentId }, select })
+    : prisma.document.findUnique({ where: { id: contentId }, select });
+}
+
+export function getPendingReview(contentType: ContentType, contentId: string) {
+  return prisma.review.findFirst({
+    where: { contentType, ...contentWhere(contentType, contentId), status: 'PENDING' },
+  });
+}
+
+/**
+ * The named reviewer, or any member of the reviewing group except whoever
+ * asked for the review. They must still hold review:perform and be able to see
+ * the content's category, as either may have changed since it was assigned.
+ */
+export async function isAssignedReviewer(
+  review: Pick<
+    Review,
+    'contentType' | 'articleId' | 'documentId' | 'reviewerId' | 'reviewerGroupId' | 'requesterId'
+  >,
+  user: TokenPayload
+): Promise<boolean> {
+  const assigned = review.reviewerId
+    ? review.reviewerId === user.userId
+    : !!review.reviewerGroupId &&
+      review.requesterId !== user.userId &&
+      (await isGroupMember(review.reviewerGroupId, user.userId));
+  if (!assigned || !(await hasPermission(user, 'review:perform'))) return false;
+
+  const content = await findReviewableContent(
+    review.contentType,
+    (review.articleId || review.documentId)!
+  );
+  return !!content && (await getCategoryAccess(user)).canAccess(content.categoryId);
+}
+
+/**
+ * Only users with the type's publish permission and the reviewer assigned to
+ * the content's pending review may move it to PUBLISHED. Everyone else has to
+ * go through a review.
+ */
+export async function canPublish(
+  user: TokenPayload,
+  contentType: ContentType,
+  contentId: string
+): Promise<boolean> {
+  if (await hasPermission(user, publishPermission(contentType))) return true;
+
+  const pending = await getPendingReview(contentType, contentId);
+  return !!pending && (await isAssignedReviewer(pending, user));
+}
+
+// Close whatever review is open, e.g. when the author pulls content back to draft
+export async function closePendingReviews(
+  contentType: ContentType,
+  contentId: string,
+  status: Exclude<ReviewStatus, 'PENDING'>,
+  decisionComment?: string
+): Promise<void> {
+  await prisma.review.updateMany({
+    where: { contentType, ...contentWhere(contentType, contentId), status: 'PENDING' },
+    data: { status, decisionComment, decidedAt: new Date() },
+  });
+}
+
+export async function setContentStatus(
+  contentType: ContentType,
+  contentId: string,
+  status: ContentStatus
+): Promise<void> {
+  if (contentType === 'ARTICLE') {
+    const article = await prisma.article.findUniqueOrThrow({ where: { id: contentId } });
+    await prisma.article.update({
+      where: { id: contentId },
+      data: {
+        status,
+        publishedAt: status === 'PUBLISHED' && !article.publishedAt ? new Date() : undefined,
+      },
+    });
+  } else {
+    await prisma.document.update({
+      where: { id: contentId },
+      data: { status },
+    });
+  }
+
+  await enqueueJob('search.sync', {
+    type: contentType === 'ARTICLE' ? 'article' : 'document',
+    id: contentId,
+  });
+}
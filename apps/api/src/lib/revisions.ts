@@ -0,0 +1,82 @@
+import { diffWords, diffWordsWithSpace, Change } from 'diff';
+import { prisma, Article, ArticleRevision } from '@kbase/database';
+import type { DiffChange, RevisionDiff } from '@kbase/types';
+
+type RevisionFields = Pick<ArticleRevision, 'title' | 'content' | 'excerpt'>;
+
+function toChanges(changes: Change[]): DiffChange[] {
+  return changes.map(({ value, added, removed }) => ({
+    value,
+    ...(added && { added }),
+    ...(removed && { removed }),
+  }));
+}
+
+function isSameRevision(a: RevisionFields, b: RevisionFields): boolean {
+  return (
+    a.title === b.title && a.content === b.content && (a.excerpt ?? null) === (b.excerpt ?? null)
+  );
+}
+
+/**
+ * Articles created before revisions existed have no history. Snapshot their
+ * current state as version 1 so the first edit can still be diffed and undone.
+ */
+export async function ensureBaselineRevision(article: Article): Promise<void> {
+  const count = await prisma.articleRevision.count({ where: { articleId: article.id } });
+  if (count > 0) return;
+
+  await prisma.articleRevision.create({
+    data: {
+      articleId: article.id,
+      version: 1,
+      title: article.title,
+      content: article.content,
+      excerpt: article.excerpt,
+      editorId: article.authorId,
+      createdAt: article.updatedAt,
+    },
+  });
+}
+
+/**
+ * Snapshot the article's current title, content and excerpt as the next
+ * version. Saves that only touch metadata (status, category, tags) don't add
+ * a revision. Returns the new revision, or null when nothing changed.
+ */
+export async function recordRevision(
+  articleId: string,
+  editorId: string,
+  restoredFromId?: string
+): Promise<ArticleRevision | null> {
+  return prisma.$transaction(async (tx) => {
+    const article = await tx.article.findUniqueOrThrow({ where: { id: articleId } });
+    const latest = await tx.articleRevision.findFirst({
+      where: { articleId },
+      orderBy: { version: 'desc' },
+    });
+
+    if (latest && isSameRevision(latest, article)) return null;
+
+    return tx.articleRevision.create({
+      data: {
+        articleId,
+        version: (latest?.version ?? 0) + 1,
+        title: article.title,
+        content: article.content,
+        excerpt: article.excerpt,
+        editorId,
+        restoredFromId,
+      },
+    });
+  });
+}
+
+// Word-level diff from one revision to another. Content keeps its whitespace so line breaks survive.
+export function diffRevisions(from: RevisionFields, to: RevisionFields): RevisionDiff {
+  return {
+    title: toChanges(diffWords(from.title, to.title)),
+    excerpt: toChanges(diffWords(from.excerpt ?? '', to.excerpt ?? '')),
+    content: toChanges(diffWordsWithSpace(from.content, to.content)),
+  };
+}
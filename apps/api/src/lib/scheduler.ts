@@ -0,0 +1,140 @@
+import { z } from 'zod';
+import { prisma, ContentType } from '@kbase/database';
+import { closePendingReviews, setContentStatus } from './review';
+
+const SCHEDULER_INTERVAL_MS = 60 * 1000;
+
+// Shared by the article and document create/update schemas
+export const scheduleFields = {
+  scheduledPublishAt: z.coerce.date().nullable().optional(),
+  archiveAt: z.coerce.date().nullable().optional(),
+};
+
+export function validateSchedule(
+  body: { status?: string; scheduledPublishAt?: Date | null; archiveAt?: Date | null },
+  ctx: z.RefinementCtx
+): void {
+  const now = new Date();
+
+  if (body.scheduledPublishAt && body.status === 'PUBLISHED') {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: ['scheduledPublishAt'],
+      message: 'Content cannot be published now and scheduled at the same time',
+    });
+  }
+
+  if (body.scheduledPublishAt && body.scheduledPublishAt <= now) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: ['scheduledPublishAt'],
+      message: 'Scheduled publish time must be in the future',
+    });
+  }
+  if (body.archiveAt && body.archiveAt <= now) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: ['archiveAt'],
+      message: 'Archive time must be in the future',
+    });
+  }
+  if (body.scheduledPublishAt && body.archiveAt && body.archiveAt <= body.scheduledPublishAt) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: ['archiveAt'],
+      message: 'Archive time must be after the scheduled publish time',
+    });
+  }
+}
+
+// validate() checks the body but leaves it untouched, so routes convert the raw values themselves
+export function parseScheduleDate(value: unknown): Date | null | undefined {
+  if (value === undefined) return undefined;
+  if (value === null || value === '') return null;
+  return new Date(value as string);
+}
+
+async function publishDue(contentType: ContentType, now: Date): Promise<number> {
+  const where = {
+    scheduledPublishAt: { lte: now },
+    status: { in: ['DRAFT' as const, 'IN_REVIEW' as const] },
+  };
+  const due =
+    contentType === 'ARTICLE'
+      ? await prisma.article.findMany({ where, select: { id: true } })
+      : await prisma.document.findMany({ where, select: { id: true } });
+
+  for (const { id } of due) {
+    // Scheduling already required publish rights, so an open review counts as approved
+    await closePendingReviews(contentType, id, 'APPROVED', 'Published on schedule');
+    await setContentStatus(contentType, id, 'PUBLISHED');
+  }
+
+  // Clear the schedule on everything that is due, including content published by hand in the meantime
+  const data = { scheduledPublishAt: null };
+  const cleared = { scheduledPublishAt: { lte: now } };
+  if (contentType === 'ARTICLE') {
+    await prisma.article.updateMany({ where: cleared, data });
+  } else {
+    await prisma.document.updateMany({ where: cleared, data });
+  }
+
+  return due.length;
+}
+
+async function archiveDue(contentType: ContentType, now: Date): Promise<number> {
+  const where = { archiveAt: { lte: now }, status: { not: 'ARCHIVED' as const } };
+  const due =
+    contentType === 'ARTICLE'
+      ? await prisma.article.findMany({ where, select: { id: true } })
+      : await prisma.document.findMany({ where, select: { id: true } });
+
+  for (const { id } of due) {
+    await closePendingReviews(contentType, id, 'CANCELLED', 'Archived on schedule');
+    await setContentStatus(contentType, id, 'ARCHIVED');
+  }
+
+  const data = { archiveAt: null };
+  const cleared = { archiveAt: { lte: now } };
+  if (contentType === 'ARTICLE') {
+    await prisma.article.updateMany({ where: cleared, data });
+  } else {
+    await prisma.document.updateMany({ where: cleared, data });
+  }
+
+  return due.length;
+}
+
+/**
+ * Apply every publish and archive transition that has come due. Each step is
+ * idempotent, so running it from several API instances at once is harmless.
+ */
+export async function runScheduledTransitions(now = new Date()) {
+  const published = (await publishDue('ARTICLE', now)) + (await publishDue('DOCUMENT', now));
+  const archived = (await archiveDue('ARTICLE', now)) + (await archiveDue('DOCUMENT', now));
+  return { published, archived };
+}
+
+export function startScheduler(intervalMs = SCHEDULER_INTERVAL_MS): () => void {
+  let running = false;
+
+  const tick = async () => {
+    // Skip a tick rather than overlap when a run takes longer than the interval
+    if (running) return;
+    running = true;
+    try {
+      const { published, archived } = await runScheduledTransitions();
+      if (published || archived) {
+        console.log(`🗓️  Scheduler published ${published} and archived ${archived} items`);
+      }
+    } catch (error) {
+      console.error('Scheduler error:', error);
+    } finally {
+      running = false;
+    }
+  };
+
+  void tick();
+  const timer = setInterval(tick, intervalMs);
+  return () => clearInterval(timer);
+}
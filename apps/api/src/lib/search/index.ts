@@ -0,0 +1,153 @@
+import { prisma, Prisma } from '@kbase/database';
+import { stripHtml } from '@kbase/utils';
+import type { ContentType } from '@kbase/types';
+import { postgresSearchProvider } from './postgres';
+import { createMeilisearchProvider } from './meilisearch';
+import { createMemorySearchProvider } from './memory';
+import type { SearchDocument, SearchProvider } from './types';
+
+export type { SearchDocument, SearchProvider, SearchResponse } from './types';
+
+let provider: SearchProvider | null = null;
+
+function createProvider(): SearchProvider {
+  const name = process.env.SEARCH_PROVIDER || 'postgres';
+
+  switch (name) {
+    case 'postgres':
+      return postgresSearchProvider;
+    case 'meilisearch':
+      return createMeilisearchProvider(
+        process.env.MEILISEARCH_HOST || 'http://localhost:7700',
+        process.env.MEILISEARCH_API_KEY || 'masterKey'
+      );
+    case 'memory': {
+      // Each process holds its own copy and the worker's updates never reach the API's,
+      // so it is loaded from the database afresh before every search
+      const memory = createMemorySearchProvider();
+      return {
+        ...memory,
+        async search(params) {
+          await reindexAll();
+          return memory.search(params);
+        },
+      };
+    }
+    default:
+      throw new Error(`Unknown SEARCH_PROVIDER "${name}"`);
+  }
+}
+
+export function getSearchProvider(): SearchProvider {
+  if (!provider) {
+    provider = createProvider();
+  }
+  return provider;
+}
+
+const searchableArticleSelect = {
+  id: true,
+  title: true,
+  slug: true,
+  excerpt: true,
+  content: true,
+  status: true,
+  categoryId: true,
+  createdAt: true,
+  tags: { select: { tag: { select: { slug: true } } } },
+} satisfies Prisma.ArticleSelect;
+
+const searchableDocumentSelect = {
+  id: true,
+  title: true,
+  description: true,
+  extractedText: true,
+  status: true,
+  categoryId: true,
+  createdAt: true,
+  tags: { select: { tag: { select: { slug: true } } } },
+} satisfies Prisma.DocumentSelect;
+
+type SearchableArticle = Prisma.ArticleGetPayload<{ select: typeof searchableArticleSelect }>;
+type SearchableDocument = Prisma.DocumentGetPayload<{ select: typeof searchableDocumentSelect }>;
+
+function articleToSearchDocument(article: SearchableArticle): SearchDocument {
+  return {
+    id: article.id,
+    type: 'article',
+    title: article.title,
+    slug: article.slug,
+    excerpt: article.excerpt ?? undefined,
+    body: stripHtml(article.content),
+    categoryId: article.categoryId,
+    tags: article.tags.map((t) => t.tag.slug),
+    createdAt: article.createdAt,
+  };
+}
+
+function documentToSearchDocument(document: SearchableDocument): SearchDocument {
+  return {
+    id: document.id,
+    type: 'document',
+    title: document.title,
+    excerpt: document.description ?? undefined,
+    body: [document.description, document.extractedText].filter(Boolean).join('\n\n'),
+    categoryId: document.categoryId,
+    tags: document.tags.map((t) => t.tag.slug),
+    createdAt: document.createdAt,
+  };
+}
+
+// Only published content is searchable, so anything else is dropped from the index.
+// Errors propagate so the search.sync job that calls these can be retried.
+export async function syncArticle(id: string): Promise<void> {
+  const article = await prisma.article.findUnique({
+    where: { id },
+    select: searchableArticleSelect,
+  });
+
+  if (!article || article.status !== 'PUBLISHED') {
+    await getSearchProvider().remove('article', id);
+    return;
+  }
+  await getSearchProvider().index(articleToSearchDocument(article));
+}
+
+export async function syncDocument(id: string): Promise<void> {
+  const document = await prisma.document.findUnique({
+    where: { id },
+    select: searchableDocumentSelect,
+  });
+
+  if (!document || document.status !== 'PUBLISHED') {
+    await getSearchProvider().remove('document', id);
+    return;
+  }
+  await getSearchProvider().index(documentToSearchDocument(document));
+}
+
+export function syncContent(type: ContentType, id: string): Promise<void> {
+  return type === 'article' ? syncArticle(id) : syncDocument(id);
+}
+
+// Rebuild the whole index from the database. Returns the number of indexed items.
+export async function reindexAll(): Promise<number> {
+  const [articles, documents] = await Promise.all([
+    prisma.article.findMany({
+      where: { status: 'PUBLISHED' },
+      select: searchableArticleSelect,
+    }),
+    prisma.document.findMany({
+      where: { status: 'PUBLISHED' },
+      select: searchableDocumentSelect,
+    }),
+  ]);
+
+  const searchDocuments = [
+    ...articles.map(articleToSearchDocument),
+    ...documents.map(documentToSearchDocument),
+  ];
+
+  await getSearchProvider().reindex(searchDocuments);
+  return searchDocuments.length;
+}
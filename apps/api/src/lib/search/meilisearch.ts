@@ -0,0 +1,153 @@
+import { MeiliSearch } from 'meilisearch';
+import type { ContentType, SearchParams } from '@kbase/types';
+import type { SearchDocument, SearchProvider, SearchResponse } from './types';
+
+const DEFAULT_INDEX = 'content';
+const CROP_LENGTH = 40;
+const BATCH_SIZE = 500;
+const TASK_TIMEOUT_MS = 60_000;
+
+interface MeiliDocument {
+  uid: string;
+  id: string;
+  type: ContentType;
+  title: string;
+  slug: string | null;
+  excerpt: string | null;
+  body: string;
+  categoryId: string | null;
+  tags: string[];
+  createdAt: number;
+}
+
+// Articles and documents share one index, so ids are prefixed with the content type
+function documentUid(type: ContentType, id: string): string {
+  return `${type}-${id}`;
+}
+
+function toMeiliDocument(document: SearchDocument): MeiliDocument {
+  return {
+    uid: documentUid(document.type, document.id),
+    id: document.id,
+    type: document.type,
+    title: document.title,
+    slug: document.slug ?? null,
+    excerpt: document.excerpt ?? null,
+    body: document.body,
+    categoryId: document.categoryId,
+    tags: document.tags,
+    createdAt: document.createdAt.getTime(),
+  };
+}
+
+function buildFilter(params: SearchParams): string[] {
+  const filter: string[] = [];
+  if (params.type) filter.push(`type = ${JSON.stringify(params.type)}`);
+  if (params.categoryId) filter.push(`categoryId = ${JSON.stringify(params.categoryId)}`);
+  // NOT ... IN also keeps documents without a category
+  if (params.excludeCategoryIds?.length) {
+    filter.push(`NOT categoryId IN ${JSON.stringify(params.excludeCategoryIds)}`);
+  }
+  params.tags?.forEach((tag) => filter.push(`tags = ${JSON.stringify(tag)}`));
+  return filter;
+}
+
+function marked(value: string | null | undefined): string[] {
+  return value && value.includes('<mark>') ? [value] : [];
+}
+
+export function createMeilisearchProvider(
+  host: string,
+  apiKey: string,
+  indexName = DEFAULT_INDEX
+): SearchProvider {
+  const client = new MeiliSearch({ host, apiKey });
+  const index = client.index<MeiliDocument>(indexName);
+  let settingsTask: Promise<void> | null = null;
+
+  // Settings only need to be pushed once per process; Meilisearch creates the index on demand
+  function ensureSettings(): Promise<void> {
+    if (!settingsTask) {
+      settingsTask = index
+        .updateSettings({
+          searchableAttributes: ['title', 'excerpt', 'body', 'tags'],
+          filterableAttributes: ['type', 'categoryId', 'tags'],
+          sortableAttributes: ['createdAt'],
+        })
+        .then(() => undefined)
+        .catch((error) => {
+          settingsTask = null;
+          throw error;
+        });
+    }
+    return settingsTask;
+  }
+
+  return {
+    name: 'meilisearch',
+
+    async search(params: SearchParams): Promise<SearchResponse> {
+      await ensureSettings();
+
+      const response = await index.search(params.query, {
+        filter: buildFilter(params),
+        page: params.page ?? 1,
+        hitsPerPage: params.limit ?? 10,
+        attributesToHighlight: ['title', 'excerpt', 'body'],
+        attributesToCrop: ['body'],
+        cropLength: CROP_LENGTH,
+        highlightPreTag: '<mark>',
+        highlightPostTag: '</mark>',
+        showRankingScore: true,
+      });
+
+      return {
+        results: response.hits.map((hit) => {
+          const highlights: Record<string, string[]> = {};
+          const title = marked(hit._formatted?.title);
+          const body = marked(hit._formatted?.body);
+
+          if (title.length > 0) highlights.title = title;
+          if (body.length > 0) highlights.content = body;
+
+          return {
+            id: hit.id,
+            type: hit.type,
+            title: hit.title,
+            slug: hit.slug ?? undefined,
+            excerpt: hit.excerpt || hit._formatted?.body?.replace(/<\/?mark>/g, '') || '',
+            score: hit._rankingScore ?? 0,
+            highlights,
+          };
+        }),
+        total: response.totalHits,
+      };
+    },
+
+    async index(document: SearchDocument): Promise<void> {
+      await ensureSettings();
+      await index.addDocuments([toMeiliDocument(document)], { primaryKey: 'uid' });
+    },
+
+    async remove(type: ContentType, id: string): Promise<void> {
+      await index.deleteDocument(documentUid(type, id));
+    },
+
+    async reindex(documents: SearchDocument[]): Promise<void> {
+      await ensureSettings();
+      const taskUids: number[] = [];
+
+      taskUids.push((await index.deleteAllDocuments()).taskUid);
+      for (let i = 0; i < documents.length; i += BATCH_SIZE) {
+        const batch = documents.slice(i, i + BATCH_SIZE).map(toMeiliDocument);
+        taskUids.push((await index.addDocuments(batch, { primaryKey: 'uid' })).taskUid);
+      }
+
+      const tasks = await client.waitForTasks(taskUids, { timeOutMs: TASK_TIMEOUT_MS });
+      const failed = tasks.find((task) => task.status === 'failed');
+      if (failed) {
+        throw new Error(`Meilisearch reindex failed: ${failed.error?.message ?? 'unknown error'}`);
+      }
+    },
+  };
+}
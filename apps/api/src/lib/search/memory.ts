@@ -0,0 +1,127 @@
+import type { ContentType, SearchParams, SearchResult } from '@kbase/types';
+import type { SearchDocument, SearchProvider, SearchResponse } from './types';
+
+const SNIPPET_RADIUS = 80;
+const FIELD_WEIGHTS = { title: 3, excerpt: 2, body: 1 } as const;
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+function tokenize(query: string): string[] {
+  return query
+    .toLowerCase()
+    .split(/\s+/)
+    .map((term) => term.replace(/^["'-]+|["']+$/g, ''))
+    .filter((term) => term.length > 0);
+}
+
+function countOccurrences(text: string, term: string): number {
+  return text.toLowerCase().split(term).length - 1;
+}
+
+function highlight(text: string, terms: string[]): string {
+  const pattern = new RegExp(`(${terms.map(escapeRegExp).join('|')})`, 'gi');
+  return text.replace(pattern, '<mark>$1</mark>');
+}
+
+function snippet(text: string, terms: string[]): string | null {
+  const lower = text.toLowerCase();
+  const position = Math.min(
+    ...terms.map((term) => lower.indexOf(term)).filter((index) => index >= 0)
+  );
+  if (!Number.isFinite(position)) return null;
+
+  const start = Math.max(0, position - SNIPPET_RADIUS);
+  const end = Math.min(text.length, position + SNIPPET_RADIUS);
+  return highlight(text.slice(start, end).trim(), terms);
+}
+
+function matchesFilters(document: SearchDocument, params: SearchParams): boolean {
+  if (params.type && document.type !== params.type) return false;
+  if (params.categoryId && document.categoryId !== params.categoryId) return false;
+  if (document.categoryId && params.excludeCategoryIds?.includes(document.categoryId)) return false;
+  if (params.tags?.some((tag) => !document.tags.includes(tag))) return false;
+  return true;
+}
+
+function score(document: SearchDocument, terms: string[]): number {
+  let total = 0;
+  for (const term of terms) {
+    const termScore =
+      countOccurrences(document.title, term) * FIELD_WEIGHTS.title +
+      countOccurrences(document.excerpt ?? '', term) * FIELD_WEIGHTS.excerpt +
+      countOccurrences(document.body, term) * FIELD_WEIGHTS.body;
+
+    // Every term has to match somewhere, mirroring the AND semantics of the real backends
+    if (termScore === 0) return 0;
+    total += termScore;
+  }
+  return total;
+}
+
+function toSearchResult(document: SearchDocument, terms: string[], value: number): SearchResult {
+  const highlights: Record<string, string[]> = {};
+  const bodySnippet = snippet(document.body, terms);
+
+  if (terms.some((term) => document.title.toLowerCase().includes(term))) {
+    highlights.title = [highlight(document.title, terms)];
+  }
+  if (bodySnippet) highlights.content = [bodySnippet];
+
+  return {
+    id: document.id,
+    type: document.type,
+    title: document.title,
+    slug: document.slug,
+    excerpt: document.excerpt || document.body.slice(0, SNIPPET_RADIUS * 2),
+    score: value,
+    highlights,
+  };
+}
+
+/**
+ * Naive substring-matching provider that keeps everything in a Map. Useful
+ * for tests and local experiments where neither Postgres FTS nor Meilisearch
+ * is available; not meant for production data volumes.
+ */
+export function createMemorySearchProvider(): SearchProvider {
+  const documents = new Map<string, SearchDocument>();
+  const key = (type: ContentType, id: string) => `${type}-${id}`;
+
+  return {
+    name: 'memory',
+
+    async search(params: SearchParams): Promise<SearchResponse> {
+      const terms = tokenize(params.query);
+      const page = params.page ?? 1;
+      const limit = params.limit ?? 10;
+
+      const matches = [...documents.values()]
+        .filter((document) => matchesFilters(document, params))
+        .map((document) => ({ document, value: score(document, terms) }))
+        .filter(({ value }) => value > 0)
+        .sort((a, b) => b.value - a.value || a.document.id.localeCompare(b.document.id));
+
+      return {
+        results: matches
+          .slice((page - 1) * limit, page * limit)
+          .map(({ document, value }) => toSearchResult(document, terms, value)),
+        total: matches.length,
+      };
+    },
+
+    async index(document: SearchDocument): Promise<void> {
+      documents.set(key(document.type, document.id), document);
+    },
+
+    async remove(type: ContentType, id: string): Promise<void> {
+      documents.delete(key(type, id));
+    },
+
+    async reindex(all: SearchDocument[]): Promise<void> {
+      documents.clear();
+      all.forEach((document) => documents.set(key(document.type, document.id), document));
+    },
+  };
+}
@@ -0,0 +1,210 @@
+import { prisma, Prisma } from '@kbase/database';
+import type { SearchParams, SearchResult, ContentType } from '@kbase/types';
+import type { SearchProvider, SearchResponse } from './types';
+
+const SEARCH_LANGUAGE = 'english';
+const FRAGMENT_DELIMITER = '@@@';
+const HEADLINE_OPTIONS = [
+  'StartSel=<mark>',
+  'StopSel=</mark>',
+  'MaxWords=35',
+  'MinWords=15',
+  'MaxFragments=3',
+  `FragmentDelimiter=${FRAGMENT_DELIMITER}`,
+].join(', ');
+const EXCERPT_LENGTH = 200;
+
+interface SearchRow {
+  id: string;
+  type: ContentType;
+  title: string;
+  slug: string | null;
+  excerpt: string | null;
+  body: string;
+  score: number;
+  titleHighlight: string;
+  bodyHighlight: string;
+}
+
+// Strip HTML tags so Tiptap markup does not end up in the index or snippets
+function plainText(column: Prisma.Sql): Prisma.Sql {
+  return Prisma.sql`regexp_replace(coalesce(${column}, ''), '<[^>]+>', ' ', 'g')`;
+}
+
+function weighted(text: Prisma.Sql, weight: 'A' | 'B' | 'C'): Prisma.Sql {
+  return Prisma.sql`setweight(to_tsvector(${SEARCH_LANGUAGE}::regconfig, ${text}), ${weight}::"char")`;
+}
+
+function tagFilter(joinTable: string, foreignKey: string, alias: string, tags: string[]) {
+  return tags.map(
+    (tag) => Prisma.sql`EXISTS (
+      SELECT 1 FROM ${Prisma.raw(joinTable)} jt
+      JOIN tags t ON t.id = jt."tagId"
+      WHERE jt.${Prisma.raw(`"${foreignKey}"`)} = ${Prisma.raw(alias)}.id AND t.slug = ${tag}
+    )`
+  );
+}
+
+function categoryExclusion(alias: string, categoryIds: string[]): Prisma.Sql {
+  const column = Prisma.raw(`${alias}."categoryId"`);
+  return Prisma.sql`(${column} IS NULL OR ${column} NOT IN (${Prisma.join(categoryIds)}))`;
+}
+
+function buildArticleQuery(params: SearchParams): Prisma.Sql {
+  const conditions: Prisma.Sql[] = [
+    Prisma.sql`a.status = 'PUBLISHED'`,
+    Prisma.sql`v.vector @@ q.query`,
+  ];
+  if (params.categoryId) conditions.push(Prisma.sql`a."categoryId" = ${params.categoryId}`);
+  if (params.excludeCategoryIds?.length)
+    conditions.push(categoryExclusion('a', params.excludeCategoryIds));
+  if (params.tags?.length)
+    conditions.push(...tagFilter('article_tags', 'articleId', 'a', params.tags));
+
+  return Prisma.sql`
+    SELECT
+      a.id,
+      'article' AS type,
+      a.title,
+      a.slug,
+      a.excerpt,
+      v.body,
+      ts_rank(v.vector, q.query) AS score
+    FROM articles a
+    CROSS JOIN q
+    CROSS JOIN LATERAL (SELECT ${plainText(Prisma.sql`a.content`)} AS body) b
+    CROSS JOIN LATERAL (
+      SELECT
+        b.body,
+        ${weighted(Prisma.sql`a.title`, 'A')}
+          || ${weighted(Prisma.sql`coalesce(a.excerpt, '')`, 'B')}
+          || ${weighted(Prisma.sql`b.body`, 'C')} AS vector
+    ) v
+    WHERE ${Prisma.join(conditions, ' AND ')}
+  `;
+}
+
+function buildDocumentQuery(params: SearchParams): Prisma.Sql {
+  const conditions: Prisma.Sql[] = [
+    Prisma.sql`d.status = 'PUBLISHED'`,
+    Prisma.sql`v.vector @@ q.query`,
+  ];
+  if (params.categoryId) conditions.push(Prisma.sql`d."categoryId" = ${params.categoryId}`);
+  if (params.excludeCategoryIds?.length)
+    conditions.push(categoryExclusion('d', params.excludeCategoryIds));
+  if (params.tags?.length)
+    conditions.push(...tagFilter('document_tags', 'documentId', 'd', params.tags));
+
+  return Prisma.sql`
+    SELECT
+      d.id,
+      'document' AS type,
+      d.title,
+      NULL AS slug,
+      d.description AS excerpt,
+      v.body,
+      ts_rank(v.vector, q.query) AS score
+    FROM documents d
+    CROSS JOIN q
+    CROSS JOIN LATERAL (
+      SELECT
+        concat_ws(E'\n\n', d.description, d."extractedText") AS body,
+        ${weighted(Prisma.sql`d.title`, 'A')}
+          || ${weighted(Prisma.sql`coalesce(d.description, '')`, 'B')}
+          || ${weighted(Prisma.sql`coalesce(d."extractedText", '')`, 'C')} AS vector
+    ) v
+    WHERE ${Prisma.join(conditions, ' AND ')}
+  `;
+}
+
+function splitFragments(headline: string): string[] {
+  return headline
+    .split(FRAGMENT_DELIMITER)
+    .map((fragment) => fragment.replace(/\s+/g, ' ').trim())
+    .filter((fragment) => fragment.includes('<mark>'));
+}
+
+function toSearchResult(row: SearchRow): SearchResult {
+  const highlights: Record<string, string[]> = {};
+  const titleFragments = splitFragments(row.titleHighlight);
+  const bodyFragments = splitFragments(row.bodyHighlight);
+
+  if (titleFragments.length > 0) highlights.title = titleFragments;
+  if (bodyFragments.length > 0) highlights.content = bodyFragments;
+
+  const fallbackExcerpt = row.body.replace(/\s+/g, ' ').trim().slice(0, EXCERPT_LENGTH);
+
+  return {
+    id: row.id,
+    type: row.type,
+    title: row.title,
+    slug: row.slug ?? undefined,
+    excerpt: row.excerpt || fallbackExcerpt,
+    score: Number(row.score),
+    highlights,
+  };
+}
+
+async function searchContent(params: SearchParams): Promise<SearchResponse> {
+  const page = params.page ?? 1;
+  const limit = params.limit ?? 10;
+  const offset = (page - 1) * limit;
+
+  const subqueries: Prisma.Sql[] = [];
+  if (!params.type || params.type === 'article') subqueries.push(buildArticleQuery(params));
+  if (!params.type || params.type === 'document') subqueries.push(buildDocumentQuery(params));
+
+  const matches = Prisma.sql`
+    WITH q AS (SELECT websearch_to_tsquery(${SEARCH_LANGUAGE}::regconfig, ${params.query}) AS query)
+    ${Prisma.join(subqueries, ' UNION ALL ')}
+  `;
+
+  const [rows, countRows] = await Promise.all([
+    prisma.$queryRaw<SearchRow[]>`
+      WITH matches AS (${matches}),
+      q AS (SELECT websearch_to_tsquery(${SEARCH_LANGUAGE}::regconfig, ${params.query}) AS query)
+      SELECT
+        m.id,
+        m.type,
+        m.title,
+        m.slug,
+        m.excerpt,
+        m.body,
+        m.score,
+        ts_headline(${SEARCH_LANGUAGE}::regconfig, m.title, q.query, ${HEADLINE_OPTIONS}) AS "titleHighlight",
+        ts_headline(${SEARCH_LANGUAGE}::regconfig, m.body, q.query, ${HEADLINE_OPTIONS}) AS "bodyHighlight"
+      FROM (
+        SELECT * FROM matches
+        ORDER BY score DESC, id ASC
+        LIMIT ${limit} OFFSET ${offset}
+      ) m
+      CROSS JOIN q
+      ORDER BY m.score DESC, m.id ASC
+    `,
+    prisma.$queryRaw<{ total: bigint }[]>`
+      WITH matches AS (${matches})
+      SELECT count(*) AS total FROM matches
+    `,
+  ]);
+
+  return {
+    results: rows.map(toSearchResult),
+    total: Number(countRows[0]?.total ?? 0),
+  };
+}
+
+/**
+ * Ranked full-text search across published articles and documents using
+ * Postgres tsvector/tsquery. Title matches weigh more than excerpt/description
+ * matches, which weigh more than article bodies and extracted file text.
+ *
+ * Vectors are computed from the content tables at query time, so there is no
+ * separate index to keep in sync and the write hooks are no-ops.
+ */
+export const postgresSearchProvider: SearchProvider = {
+  name: 'postgres',
+  search: searchContent,
+  index: async () => {},
+  remove: async () => {},
+  reindex: async () => {},
+};
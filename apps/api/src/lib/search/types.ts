@@ -0,0 +1,29 @@
+import type { ContentType, SearchParams, SearchResult } from '@kbase/types';
+
+// Flattened representation of an article or document as handed to a search backend
+export interface SearchDocument {
+  id: string;
+  type: ContentType;
+  title: string;
+  slug?: string;
+  excerpt?: string;
+  body: string;
+  categoryId: string | null;
+  tags: string[];
+  createdAt: Date;
+}
+
+export interface SearchResponse {
+  results: SearchResult[];
+  total: number;
+}
+
+export interface SearchProvider {
+  readonly name: string;
+  search(params: SearchParams): Promise<SearchResponse>;
+  // Add or replace a single piece of content in the index
+  index(document: SearchDocument): Promise<void>;
+  remove(type: ContentType, id: string): Promise<void>;
+  // Drop everything and load the given documents from scratch
+  reindex(documents: SearchDocument[]): Promise<void>;
+}
@@ -1,5 +1,6 @@
 import { S3Client, PutObjectCommand, DeleteObjectCommand, GetObjectCommand } from '@aws-sdk/client-s3';
 import { getSignedUrl } from '@aws-sdk/s3-request-presigner';
+import type { Readable } from 'stream';
 
 const s3Client = new S3Client({
   endpoint: process.env.S3_ENDPOINT || 'http://localhost:9000',
@@ -27,6 +28,10 @@ export async function uploadFile(
     })
   );
 
+  return getFileUrl(key);
+}
+
+export function getFileUrl(key: string): string {
   return `${process.env.S3_ENDPOINT || 'http://localhost:9000'}/${BUCKET}/${key}`;
 }
 
@@ -39,6 +44,37 @@ export async function deleteFile(key: string): Promise<void> {
   );
 }
 
+export async function downloadFile(key: string): Promise<Buffer> {
+  const response = await s3Client.send(
+    new GetObjectCommand({
+      Bucket: BUCKET,
+      Key: key,
+    })
+  );
+
+  if (!response.Body) {
+    throw new Error(`Empty response body for ${key}`);
+  }
+
+  return Buffer.from(await response.Body.transformToByteArray());
+}
+
+// Streams the object rather than buffering it, for copying many files such as in a backup
+export async function getFileStream(key: string): Promise<{ body: Readable; size: number }> {
+  const response = await s3Client.send(
+    new GetObjectCommand({
+      Bucket: BUCKET,
+      Key: key,
+    })
+  );
+
+  if (!response.Body) {
+    throw new Error(`Empty response body for ${key}`);
+  }
+
+  return { body: response.Body as Readable, size: response.ContentLength ?? 0 };
+}
+
 export async function getSignedDownloadUrl(key: string, expiresIn = 3600): Promise<string> {
   const command = new GetObjectCommand({
     Bucket: BUCKET,
@@ -54,6 +90,15 @@ export function generateFileKey(userId: string, filename: string): string {
   return `documents/${userId}/${timestamp}-${sanitizedFilename}`;
 }
 
+// Keys are stored as part of the public URL: <endpoint>/<bucket>/<prefix>/<userId>/<filename>
+export function getFileKeyFromUrl(fileUrl: string): string {
+  return fileUrl.split('/').slice(-3).join('/');
+}
+
+export function generateThumbnailKey(userId: string, documentId: string): string {
+  return `thumbnails/${userId}/${documentId}.png`;
+}
+
 export const ALLOWED_MIME_TYPES = [
   'application/pdf',
   'application/msword',
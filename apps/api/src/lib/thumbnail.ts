@@ -0,0 +1,72 @@
+import sharp from 'sharp';
+
+const WIDTH = 320;
+const HEIGHT = 420;
+const PADDING = 20;
+const LINE_HEIGHT = 14;
+const CHARS_PER_LINE = 44;
+const TITLE_CHARS = 28;
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+function truncate(value: string, length: number): string {
+  return value.length > length ? `${value.slice(0, length - 1)}…` : value;
+}
+
+// Greedy word wrap on a fixed character budget; good enough for a small preview
+function wrapLines(text: string, maxLines: number): string[] {
+  const lines: string[] = [];
+
+  for (const paragraph of text.split('\n')) {
+    let line = '';
+    for (const word of paragraph.split(' ').filter(Boolean)) {
+      if (line && line.length + word.length + 1 > CHARS_PER_LINE) {
+        lines.push(line);
+        if (lines.length >= maxLines) return lines;
+        line = '';
+      }
+      line = line ? `${line} ${word}` : truncate(word, CHARS_PER_LINE);
+    }
+    lines.push(line);
+    if (lines.length >= maxLines) return lines;
+  }
+
+  return lines;
+}
+
+/**
+ * Render a page-style PNG preview from a document's title and the start of
+ * its extracted text. Works for every supported file type since it only
+ * needs the text the extractor already produced.
+ */
+export async function renderTextThumbnail(title: string, text: string): Promise<Buffer> {
+  const titleY = PADDING + 18;
+  const bodyTop = titleY + 24;
+  const maxLines = Math.floor((HEIGHT - bodyTop - PADDING) / LINE_HEIGHT);
+
+  const body = wrapLines(text, maxLines)
+    .map(
+      (line, i) =>
+        `<text x="${PADDING}" y="${bodyTop + i * LINE_HEIGHT}" class="body">${escapeXml(line)}</text>`
+    )
+    .join('');
+
+  const svg = `<svg xmlns="http://www.w3.org/2000/svg" width="${WIDTH}" height="${HEIGHT}">
+  <style>
+    .title { font: bold 16px sans-serif; fill: #111827; }
+    .body { font: 10px sans-serif; fill: #4b5563; }
+  </style>
+  <rect width="100%" height="100%" fill="#ffffff" stroke="#e5e7eb" stroke-width="2"/>
+  <text x="${PADDING}" y="${titleY}" class="title">${escapeXml(truncate(title, TITLE_CHARS))}</text>
+  ${body}
+</svg>`;
+
+  return sharp(Buffer.from(svg)).png().toBuffer();
+}
@@ -0,0 +1,150 @@
+import crypto from 'crypto';
+import { authenticator } from 'otplib';
+import QRCode from 'qrcode';
+import { prisma, UserRole } from '@kbase/database';
+
+const ISSUER = 'KBase';
+const RECOVERY_CODE_COUNT = 10;
+
+// Accept the previous and next 30s step so small clock drift does not lock people out
+const TOTP_STEP_SECONDS = 30;
+authenticator.options = { window: 1, step: TOTP_STEP_SECONDS };
+
+// TOTP secrets are stored encrypted with a key derived from the auth secret
+const ENCRYPTION_KEY = crypto
+  .createHash('sha256')
+  .update(process.env.AUTH_SECRET || 'dev-secret-change-in-production')
+  .digest();
+
+function encryptSecret(secret: string): string {
+  const iv = crypto.randomBytes(12);
+  const cipher = crypto.createCipheriv('aes-256-gcm', ENCRYPTION_KEY, iv);
+  const encrypted = Buffer.concat([cipher.update(secret, 'utf8'), cipher.final()]);
+  return [iv, cipher.getAuthTag(), encrypted].map((part) => part.toString('base64')).join('.');
+}
+
+function decryptSecret(stored: string): string {
+  const [iv, tag, encrypted] = stored.split('.').map((part) => Buffer.from(part, 'base64'));
+  const decipher = crypto.createDecipheriv('aes-256-gcm', ENCRYPTION_KEY, iv);
+  decipher.setAuthTag(tag);
+  return Buffer.concat([decipher.update(encrypted), decipher.final()]).toString('utf8');
+}
+
+function hashRecoveryCode(code: string): string {
+  const normalized = code
+    .trim()
+    .toLowerCase()
+    .replace(/[^a-z0-9]/g, '');
+  return crypto.createHash('sha256').update(normalized).digest('hex');
+}
+
+export interface TwoFactorEnrollment {
+  secret: string;
+  otpauthUrl: string;
+  qrCode: string;
+}
+
+/**
+ * Start (or restart) enrollment with a fresh secret. 2FA is not enforced
+ * until POST /api/auth/2fa/enable confirms the user's app produces valid codes.
+ */
+export async function beginTwoFactorEnrollment(
+  userId: string,
+  email: string
+): Promise<TwoFactorEnrollment> {
+  const secret = authenticator.generateSecret();
+  const otpauthUrl = authenticator.keyuri(email, ISSUER, secret);
+
+  await prisma.user.update({
+    where: { id: userId },
+    data: {
+      twoFactorSecret: encryptSecret(secret),
+      twoFactorEnabledAt: null,
+      twoFactorLastStep: null,
+    },
+  });
+
+  return { secret, otpauthUrl, qrCode: await QRCode.toDataURL(otpauthUrl) };
+}
+
+/**
+ * Check a code from the user's authenticator app. Each accepted code records
+ * its time step, and codes from that step or earlier are refused from then on,
+ * so a code that was seen once cannot be replayed while it is still valid.
+ */
+export async function verifyTotp(
+  user: { id: string; twoFactorSecret: string | null },
+  code: string
+): Promise<boolean> {
+  if (!user.twoFactorSecret) return false;
+
+  const delta = authenticator.checkDelta(
+    code.replace(/\s/g, ''),
+    decryptSecret(user.twoFactorSecret)
+  );
+  if (delta === null) return false;
+
+  const step = Math.floor(Date.now() / 1000 / TOTP_STEP_SECONDS) + delta;
+  // Conditional update, so two requests racing with the same code cannot both succeed
+  const { count } = await prisma.user.updateMany({
+    where: {
+      id: user.id,
+      OR: [{ twoFactorLastStep: null }, { twoFactorLastStep: { lt: step } }],
+    },
+    data: { twoFactorLastStep: step },
+  });
+  return count > 0;
+}
+
+// Replace any existing recovery codes; the plain codes are only ever returned here
+export async function generateRecoveryCodes(userId: string): Promise<string[]> {
+  const codes = Array.from({ length: RECOVERY_CODE_COUNT }, () => {
+    const raw = crypto.randomBytes(5).toString('hex');
+    return `${raw.slice(0, 5)}-${raw.slice(5)}`;
+  });
+
+  await prisma.$transaction([
+    prisma.recoveryCode.deleteMany({ where: { userId } }),
+    prisma.recoveryCode.createMany({
+      data: codes.map((code) => ({ userId, codeHash: hashRecoveryCode(code) })),
+    }),
+  ]);
+
+  return codes;
+}
+
+async function useRecoveryCode(userId: string, code: string): Promise<boolean> {
+  // updateMany with usedAt: null makes each code single-use even under concurrent logins
+  const { count } = await prisma.recoveryCode.updateMany({
+    where: { userId, codeHash: hashRecoveryCode(code), usedAt: null },
+    data: { usedAt: new Date() },
+  });
+  return count > 0;
+}
+
+/**
+ * Check a login code against the user's authenticator app, falling back to
+ * their unused recovery codes.
+ */
+export async function verifyTwoFactorCode(
+  user: { id: string; twoFactorSecret: string | null },
+  code: string
+): Promise<boolean> {
+  if (!user.twoFactorSecret) return false;
+  if (/^\d{6}$/.test(code.replace(/\s/g, ''))) {
+    return verifyTotp(user, code);
+  }
+  return useRecoveryCode(user.id, code);
+}
+
+export async function isTwoFactorRequired(role: UserRole): Promise<boolean> {
+  const policy = await prisma.rolePolicy.findUnique({ where: { role } });
+  return policy?.requireTwoFactor ?? false;
+}
+
+export async function needsTwoFactorSetup(user: {
+  role: UserRole;
+  twoFactorEnabledAt: Date | null;
+}): Promise<boolean> {
+  return !user.twoFactorEnabledAt && (await isTwoFactorRequired(user.role));
+}
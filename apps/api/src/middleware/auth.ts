@@ -1,11 +1,19 @@
 import { Request, Response, NextFunction } from 'express';
+import { prisma } from '@kbase/database';
 import { verifyAccessToken, extractTokenFromHeader, TokenPayload } from '../lib/auth';
+import { authenticateApiToken, isApiToken, requiredScope } from '../lib/api-tokens';
+import { hasPermission, Permission } from '../lib/permissions';
 
 export interface AuthRequest extends Request {
   user?: TokenPayload;
 }
 
-export function requireAuth(req: AuthRequest, res: Response, next: NextFunction) {
+async function authenticate(
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction,
+  allowTwoFactorSetup: boolean
+) {
   const token = extractTokenFromHeader(req.headers.authorization);
 
   if (!token) {
@@ -19,7 +27,13 @@ export function requireAuth(req: AuthRequest, res: Response, next: NextFunction)
     return;
   }
 
-  const payload = verifyAccessToken(token);
+  let payload: TokenPayload | null;
+  try {
+    payload = isApiToken(token) ? await authenticateApiToken(token) : verifyAccessToken(token);
+  } catch (error) {
+    next(error);
+    return;
+  }
 
   if (!payload) {
     res.status(401).json({
@@ -32,34 +46,131 @@ export function requireAuth(req: AuthRequest, res: Response, next: NextFunction)
     return;
   }
 
+  if (payload.scopes && !payload.scopes.includes(requiredScope(req.method))) {
+    res.status(403).json({
+      success: false,
+      error: {
+        code: 'INSUFFICIENT_SCOPE',
+        message: `This API token needs the "${requiredScope(req.method)}" scope`,
+      },
+    });
+    return;
+  }
+
+  // Enrolling is done from a signed-in session; a token gets nothing until it is done
+  if (payload.twoFactorSetupRequired && (!allowTwoFactorSetup || payload.apiTokenId)) {
+    res.status(403).json({
+      success: false,
+      error: {
+        code: 'TWO_FACTOR_SETUP_REQUIRED',
+        message: 'Your role requires two-factor authentication. Set it up to continue.',
+      },
+    });
+    return;
+  }
+
   req.user = payload;
   next();
 }
 
-export function requireRole(...roles: string[]) {
-  return (req: AuthRequest, res: Response, next: NextFunction) => {
-    if (!req.user) {
-      res.status(401).json({
+// Accepts a JWT access token or a personal access token (see lib/api-tokens)
+export function requireAuth(req: AuthRequest, res: Response, next: NextFunction) {
+  void authenticate(req, res, next, false);
+}
+
+// For public routes that show more to signed-in users. A missing, invalid or
+// under-scoped token leaves the request anonymous rather than failing it.
+export async function optionalAuth(req: AuthRequest, _res: Response, next: NextFunction) {
+  const token = extractTokenFromHeader(req.headers.authorization);
+  if (!token) {
+    next();
+    return;
+  }
+
+  try {
+    const payload = isApiToken(token)
+      ? await authenticateApiToken(token)
+      : verifyAccessToken(token);
+
+    if (
+      payload &&
+      !payload.twoFactorSetupRequired &&
+      (!payload.scopes || payload.scopes.includes(requiredScope(req.method)))
+    ) {
+      req.user = payload;
+    }
+    next();
+  } catch (error) {
+    next(error);
+  }
+}
+
+// For the few endpoints a user still needs while their role forces them to enroll in 2FA
+export function requireAuthAllowingTwoFactorSetup(
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+) {
+  void authenticate(req, res, next, true);
+}
+
+// Must run after requireAuth. Reads the user row rather than the token so a
+// freshly verified address takes effect without signing in again.
+export async function requireVerifiedEmail(req: AuthRequest, res: Response, next: NextFunction) {
+  try {
+    const user = await prisma.user.findUnique({
+      where: { id: req.user!.userId },
+      select: { emailVerified: true },
+    });
+
+    if (!user?.emailVerified) {
+      res.status(403).json({
         success: false,
         error: {
-          code: 'UNAUTHORIZED',
-          message: 'Authentication required',
+          code: 'EMAIL_NOT_VERIFIED',
+          message: 'Please verify your email address before doing this',
         },
       });
       return;
     }
 
-    if (!roles.includes(req.user.role)) {
-      res.status(403).json({
+    next();
+  } catch (error) {
+    next(error);
+  }
+}
+
+// Must run after requireAuth. Passes only if the user's role grants every listed permission.
+export function requirePermission(...permissions: Permission[]) {
+  return async (req: AuthRequest, res: Response, next: NextFunction) => {
+    if (!req.user) {
+      res.status(401).json({
         success: false,
         error: {
-          code: 'FORBIDDEN',
-          message: 'Insufficient permissions',
+          code: 'UNAUTHORIZED',
+          message: 'Authentication required',
         },
       });
       return;
     }
 
-    next();
+    try {
+      for (const permission of permissions) {
+        if (!(await hasPermission(req.user, permission))) {
+          res.status(403).json({
+            success: false,
+            error: {
+              code: 'FORBIDDEN',
+              message: 'Insufficient permissions',
+            },
+          });
+          return;
+        }
+      }
+
+      next();
+    } catch (error) {
+      next(error);
+    }
   };
 }
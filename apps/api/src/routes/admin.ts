@@ -1,20 +1,212 @@
 import { Router, Response } from 'express';
 import type { Router as RouterType } from 'express';
 import { z } from 'zod';
-import { prisma } from '@kbase/database';
-import { requireAuth, requireRole, AuthRequest } from '../middleware/auth';
+import { prisma, User } from '@kbase/database';
+import { slugify } from '@kbase/utils';
+import { requireAuth, requirePermission, AuthRequest } from '../middleware/auth';
 import { validate } from '../middleware/validate';
+import { enqueueJob, retryJob } from '../lib/jobs/queue';
+import {
+  hashPassword,
+  generateSecureToken,
+  getInvitationExpiry,
+  getPasswordResetExpiry,
+} from '../lib/auth';
+import { queueEmail } from '../lib/email';
+import { deleteFile, getFileKeyFromUrl } from '../lib/storage';
+import {
+  PERMISSIONS,
+  ALL_PERMISSIONS,
+  EDITABLE_ROLES,
+  getRolePermissions,
+  setRolePermissions,
+  Permission,
+} from '../lib/permissions';
+import { memberUserSelect } from '../lib/groups';
+import { AUDIT_ACTIONS, recordAudit, auditWhere, auditEventsToCsv } from '../lib/audit';
+import { createBackup } from '../lib/backup';
 
 const router: RouterType = Router();
 
+const JOB_STATUSES = ['PENDING', 'RUNNING', 'COMPLETED', 'DEAD'] as const;
+
+const listJobsSchema = z.object({
+  query: z.object({
+    status: z.enum(JOB_STATUSES).optional(),
+    type: z.string().optional(),
+    page: z.coerce.number().min(1).default(1).optional(),
+    limit: z.coerce.number().min(1).max(100).default(20).optional(),
+  }),
+});
+
+// CSV exports stop here; narrow the filters to get older events
+const MAX_AUDIT_EXPORT_ROWS = 10000;
+
+const listAuditSchema = z.object({
+  query: z.object({
+    action: z.enum(AUDIT_ACTIONS).optional(),
+    actorId: z.string().optional(),
+    targetType: z.string().optional(),
+    targetId: z.string().optional(),
+    from: z.coerce.date().optional(),
+    to: z.coerce.date().optional(),
+    format: z.enum(['json', 'csv']).optional(),
+    page: z.coerce.number().min(1).default(1).optional(),
+    limit: z.coerce.number().min(1).max(100).default(50).optional(),
+  }),
+});
+
+const backupSchema = z.object({
+  query: z.object({
+    includeSecrets: z.enum(['true', 'false']).optional(),
+  }),
+});
+
+const ROLES = ['ADMIN', 'EDITOR', 'VIEWER'] as const;
+
+const updateRolePolicySchema = z.object({
+  body: z.object({
+    requireTwoFactor: z.boolean(),
+  }),
+  params: z.object({
+    role: z.enum(ROLES),
+  }),
+});
+
+const updateRolePermissionsSchema = z.object({
+  body: z.object({
+    permissions: z.array(z.enum(ALL_PERMISSIONS as [Permission, ...Permission[]])),
+  }),
+  params: z.object({
+    // ADMIN always has every permission
+    role: z.enum(EDITABLE_ROLES),
+  }),
+});
+
 const updateRoleSchema = z.object({
   body: z.object({
-    role: z.enum(['ADMIN', 'EDITOR', 'VIEWER']),
+    role: z.enum(ROLES),
+  }),
+});
+
+const inviteUserSchema = z.object({
+  body: z.object({
+    email: z.string().email('Invalid email address'),
+    name: z.string().trim().min(2, 'Name must be at least 2 characters').optional(),
+    role: z.enum(ROLES).optional(),
+  }),
+});
+
+const deleteUserSchema = z.object({
+  query: z.object({
+    // Another user to take over the articles and documents; without it they are deleted too
+    reassignTo: z.string().optional(),
+  }),
+});
+
+const createGroupSchema = z.object({
+  body: z.object({
+    name: z.string().trim().min(1, 'Name is required').max(100),
+    description: z.string().max(500).optional(),
+    // Users who can manage the group's members from the start
+    ownerIds: z.array(z.string()).max(20).optional(),
+  }),
+});
+
+const updateGroupSchema = z.object({
+  body: z.object({
+    name: z.string().trim().min(1).max(100).optional(),
+    description: z.string().max(500).nullable().optional(),
+  }),
+  params: z.object({
+    id: z.string(),
   }),
 });
 
-// Get all users (admin only)
-router.get('/users', requireAuth, requireRole('ADMIN'), async (_req: AuthRequest, res: Response) => {
+const groupSummarySelect = {
+  id: true,
+  name: true,
+  slug: true,
+  description: true,
+  createdAt: true,
+  memberships: {
+    where: { role: 'OWNER' as const },
+    select: { user: { select: memberUserSelect } },
+  },
+  _count: { select: { memberships: true } },
+};
+
+type AccountStatus = 'active' | 'invited' | 'locked' | 'deactivated';
+
+function accountStatus(
+  user: Pick<User, 'deactivatedAt' | 'lockedUntil'>,
+  invitationPending: boolean
+): AccountStatus {
+  if (user.deactivatedAt) return 'deactivated';
+  if (invitationPending) return 'invited';
+  if (user.lockedUntil && user.lockedUntil > new Date()) return 'locked';
+  return 'active';
+}
+
+/**
+ * Load the target of an account action, answering the request instead when
+ * it cannot go ahead: nobody acts on their own account this way, and admin
+ * accounts are left to admins even though user:manage can be delegated.
+ */
+async function findManagedUser(req: AuthRequest, res: Response): Promise<User | null> {
+  const { userId } = req.params;
+
+  if (userId === req.user!.userId) {
+    res.status(400).json({
+      success: false,
+      error: { code: 'INVALID_OPERATION', message: 'You cannot do this to your own account' },
+    });
+    return null;
+  }
+
+  const user = await prisma.user.findUnique({ where: { id: userId } });
+
+  if (!user) {
+    res.status(404).json({
+      success: false,
+      error: { code: 'NOT_FOUND', message: 'User not found' },
+    });
+    return null;
+  }
+
+  if (user.role === 'ADMIN' && req.user!.role !== 'ADMIN') {
+    res.status(403).json({
+      success: false,
+      error: { code: 'FORBIDDEN', message: 'Only admins can manage admin accounts' },
+    });
+    return null;
+  }
+
+  return user;
+}
+
+// Replaces any earlier invitation, so only the newest link works
+async function sendInvitation(user: Pick<User, 'id' | 'email' | 'name'>, inviterId: string) {
+  const [inviter, , invitation] = await prisma.$transaction([
+    prisma.user.findUnique({ where: { id: inviterId }, select: { name: true } }),
+    prisma.invitationToken.updateMany({
+      where: { userId: user.id, used: false },
+      data: { used: true },
+    }),
+    prisma.invitationToken.create({
+      data: { userId: user.id, token: generateSecureToken(), expiresAt: getInvitationExpiry() },
+    }),
+  ]);
+
+  await queueEmail(user.email, 'invitation', {
+    name: user.name,
+    inviterName: inviter?.name ?? 'An administrator',
+    tokenId: invitation.id,
+  });
+}
+
+// Get all users (user:manage)
+router.get('/users', requireAuth, requirePermission('user:manage'), async (_req: AuthRequest, res: Response) => {
   try {
     const users = await prisma.user.findMany({
       select: {
@@ -24,13 +216,28 @@ router.get('/users', requireAuth, requireRole('ADMIN'), async (_req: AuthRequest
         role: true,
         createdAt: true,
         emailVerified: true,
+        deactivatedAt: true,
+        lockedUntil: true,
+        failedLoginAttempts: true,
+        invitationTokens: {
+          where: { used: false },
+          select: { expiresAt: true },
+          orderBy: { createdAt: 'desc' },
+          take: 1,
+        },
       },
       orderBy: { createdAt: 'desc' },
     });
 
     res.json({
       success: true,
-      data: { users },
+      data: {
+        users: users.map(({ invitationTokens, ...user }) => ({
+          ...user,
+          status: accountStatus(user, invitationTokens.length > 0),
+          invitationExpiresAt: invitationTokens[0]?.expiresAt ?? null,
+        })),
+      },
     });
   } catch (error) {
     console.error('Get users error:', error);
@@ -41,11 +248,11 @@ router.get('/users', requireAuth, requireRole('ADMIN'), async (_req: AuthRequest
   }
 });
 
-// Update user role (admin only)
+// Update user role (user:manage)
 router.put(
   '/users/:userId/role',
   requireAuth,
-  requireRole('ADMIN'),
+  requirePermission('user:manage'),
   validate(updateRoleSchema),
   async (req: AuthRequest, res: Response): Promise<void> => {
     try {
@@ -73,6 +280,15 @@ router.put(
         return;
       }
 
+      // user:manage can be delegated, but granting or revoking admin stays with admins
+      if ((role === 'ADMIN' || user.role === 'ADMIN') && req.user!.role !== 'ADMIN') {
+        res.status(403).json({
+          success: false,
+          error: { code: 'FORBIDDEN', message: 'Only admins can grant or revoke the admin role' },
+        });
+        return;
+      }
+
       const updatedUser = await prisma.user.update({
         where: { id: userId },
         data: { role },
@@ -84,6 +300,14 @@ router.put(
         },
       });
 
+      await recordAudit(req, {
+        action: 'user.role_changed',
+        targetType: 'user',
+        targetId: userId,
+        before: { role: user.role },
+        after: { role },
+      });
+
       res.json({
         success: true,
         data: { user: updatedUser },
@@ -98,30 +322,1033 @@ router.put(
   }
 );
 
-// Get admin stats (admin only)
-router.get('/stats', requireAuth, requireRole('ADMIN'), async (_req: AuthRequest, res: Response) => {
-  try {
-    const [usersCount, articlesCount, documentsCount] = await Promise.all([
-      prisma.user.count(),
-      prisma.article.count(),
-      prisma.document.count(),
-    ]);
+// Invite a new user by email with a pre-assigned role (user:manage)
+router.post(
+  '/users/invite',
+  requireAuth,
+  requirePermission('user:manage'),
+  validate(inviteUserSchema),
+  async (req: AuthRequest, res: Response): Promise<void> => {
+    try {
+      const { email, name, role = 'VIEWER' } = req.body;
 
-    res.json({
-      success: true,
-      data: {
-        users: usersCount,
-        articles: articlesCount,
-        documents: documentsCount,
-      },
-    });
-  } catch (error) {
-    console.error('Get stats error:', error);
-    res.status(500).json({
-      success: false,
-      error: { code: 'INTERNAL_ERROR', message: 'Failed to fetch stats' },
-    });
+      if (role === 'ADMIN' && req.user!.role !== 'ADMIN') {
+        res.status(403).json({
+          success: false,
+          error: { code: 'FORBIDDEN', message: 'Only admins can grant or revoke the admin role' },
+        });
+        return;
+      }
+
+      const existing = await prisma.user.findUnique({ where: { email } });
+      if (existing) {
+        res.status(400).json({
+          success: false,
+          error: { code: 'EMAIL_EXISTS', message: 'A user with this email already exists' },
+        });
+        return;
+      }
+
+      const user = await prisma.user.create({
+        data: {
+          email,
+          name: name ?? email.split('@')[0],
+          role,
+          // Unusable until the invitation is accepted
+          passwordHash: await hashPassword(generateSecureToken()),
+        },
+        select: { id: true, email: true, name: true, role: true, createdAt: true },
+      });
+
+      await sendInvitation(user, req.user!.userId);
+
+      await recordAudit(req, {
+        action: 'user.invited',
+        targetType: 'user',
+        targetId: user.id,
+        after: { email, role },
+      });
+
+      res.status(201).json({
+        success: true,
+        data: { user },
+      });
+    } catch (error) {
+      console.error('Invite user error:', error);
+      res.status(500).json({
+        success: false,
+        error: { code: 'INTERNAL_ERROR', message: 'Failed to invite user' },
+      });
+    }
   }
-});
+);
+
+// Send a fresh invitation to someone who has not accepted theirs (user:manage)
+router.post(
+  '/users/:userId/invitation',
+  requireAuth,
+  requirePermission('user:manage'),
+  async (req: AuthRequest, res: Response): Promise<void> => {
+    try {
+      const user = await findManagedUser(req, res);
+      if (!user) return;
+
+      const pending = await prisma.invitationToken.count({
+        where: { userId: user.id, used: false },
+      });
+      if (!pending) {
+        res.status(400).json({
+          success: false,
+          error: { code: 'INVALID_OPERATION', message: 'This user has no pending invitation' },
+        });
+        return;
+      }
+
+      await sendInvitation(user, req.user!.userId);
+
+      await recordAudit(req, {
+        action: 'user.invited',
+        targetType: 'user',
+        targetId: user.id,
+        after: { email: user.email, role: user.role, resent: true },
+      });
+
+      res.json({
+        success: true,
+        data: { message: 'Invitation sent' },
+      });
+    } catch (error) {
+      console.error('Resend invitation error:', error);
+      res.status(500).json({
+        success: false,
+        error: { code: 'INTERNAL_ERROR', message: 'Failed to resend invitation' },
+      });
+    }
+  }
+);
+
+// Block sign-in and end every session (user:manage)
+router.post(
+  '/users/:userId/deactivate',
+  requireAuth,
+  requirePermission('user:manage'),
+  async (req: AuthRequest, res: Response): Promise<void> => {
+    try {
+      const user = await findManagedUser(req, res);
+      if (!user) return;
+
+      if (user.deactivatedAt) {
+        res.status(400).json({
+          success: false,
+          error: { code: 'INVALID_OPERATION', message: 'User is already deactivated' },
+        });
+        return;
+      }
+
+      const [updatedUser] = await prisma.$transaction([
+        prisma.user.update({
+          where: { id: user.id },
+          data: { deactivatedAt: new Date() },
+          select: { id: true, deactivatedAt: true },
+        }),
+        prisma.session.deleteMany({ where: { userId: user.id } }),
+      ]);
+
+      await recordAudit(req, {
+        action: 'user.deactivated',
+        targetType: 'user',
+        targetId: user.id,
+      });
+
+      res.json({
+        success: true,
+        data: { user: updatedUser },
+      });
+    } catch (error) {
+      console.error('Deactivate user error:', error);
+      res.status(500).json({
+        success: false,
+        error: { code: 'INTERNAL_ERROR', message: 'Failed to deactivate user' },
+      });
+    }
+  }
+);
+
+// Allow a deactivated user to sign in again (user:manage)
+router.post(
+  '/users/:userId/reactivate',
+  requireAuth,
+  requirePermission('user:manage'),
+  async (req: AuthRequest, res: Response): Promise<void> => {
+    try {
+      const user = await findManagedUser(req, res);
+      if (!user) return;
+
+      if (!user.deactivatedAt) {
+        res.status(400).json({
+          success: false,
+          error: { code: 'INVALID_OPERATION', message: 'User is not deactivated' },
+        });
+        return;
+      }
+
+      const updatedUser = await prisma.user.update({
+        where: { id: user.id },
+        data: { deactivatedAt: null },
+        select: { id: true, deactivatedAt: true },
+      });
+
+      await recordAudit(req, {
+        action: 'user.reactivated',
+        targetType: 'user',
+        targetId: user.id,
+        before: { deactivatedAt: user.deactivatedAt.toISOString() },
+      });
+
+      res.json({
+        success: true,
+        data: { user: updatedUser },
+      });
+    } catch (error) {
+      console.error('Reactivate user error:', error);
+      res.status(500).json({
+        success: false,
+        error: { code: 'INTERNAL_ERROR', message: 'Failed to reactivate user' },
+      });
+    }
+  }
+);
+
+// Clear a lockout from failed sign-in attempts (user:manage)
+router.post(
+  '/users/:userId/unlock',
+  requireAuth,
+  requirePermission('user:manage'),
+  async (req: AuthRequest, res: Response): Promise<void> => {
+    try {
+      const user = await findManagedUser(req, res);
+      if (!user) return;
+
+      const updatedUser = await prisma.user.update({
+        where: { id: user.id },
+        data: { failedLoginAttempts: 0, lockedUntil: null },
+        select: { id: true, failedLoginAttempts: true, lockedUntil: true },
+      });
+
+      await recordAudit(req, {
+        action: 'user.unlocked',
+        targetType: 'user',
+        targetId: user.id,
+        before: {
+          failedLoginAttempts: user.failedLoginAttempts,
+          lockedUntil: user.lockedUntil?.toISOString() ?? null,
+        },
+      });
+
+      res.json({
+        success: true,
+        data: { user: updatedUser },
+      });
+    } catch (error) {
+      console.error('Unlock user error:', error);
+      res.status(500).json({
+        success: false,
+        error: { code: 'INTERNAL_ERROR', message: 'Failed to unlock user' },
+      });
+    }
+  }
+);
+
+// Invalidate the password and email a reset link (user:manage)
+router.post(
+  '/users/:userId/force-password-reset',
+  requireAuth,
+  requirePermission('user:manage'),
+  async (req: AuthRequest, res: Response): Promise<void> => {
+    try {
+      const user = await findManagedUser(req, res);
+      if (!user) return;
+
+      const [, , resetToken] = await prisma.$transaction([
+        prisma.user.update({
+          where: { id: user.id },
+          data: { passwordHash: await hashPassword(generateSecureToken()) },
+        }),
+        prisma.passwordResetToken.updateMany({
+          where: { userId: user.id, used: false },
+          data: { used: true },
+        }),
+        prisma.passwordResetToken.create({
+          data: {
+            userId: user.id,
+            token: generateSecureToken(),
+            expiresAt: getPasswordResetExpiry(),
+          },
+        }),
+        prisma.session.deleteMany({ where: { userId: user.id } }),
+      ]);
+
+      await queueEmail(user.email, 'reset-password', {
+        name: user.name,
+        tokenId: resetToken.id,
+      });
+
+      await recordAudit(req, {
+        action: 'user.password_reset_forced',
+        targetType: 'user',
+        targetId: user.id,
+      });
+
+      res.json({
+        success: true,
+        data: { message: 'Password reset email sent' },
+      });
+    } catch (error) {
+      console.error('Force password reset error:', error);
+      res.status(500).json({
+        success: false,
+        error: { code: 'INTERNAL_ERROR', message: 'Failed to force password reset' },
+      });
+    }
+  }
+);
+
+// Delete a user, optionally handing their content to someone else first (user:manage)
+router.delete(
+  '/users/:userId',
+  requireAuth,
+  requirePermission('user:manage'),
+  validate(deleteUserSchema),
+  async (req: AuthRequest, res: Response): Promise<void> => {
+    try {
+      const { reassignTo } = req.query as { reassignTo?: string };
+
+      const user = await findManagedUser(req, res);
+      if (!user) return;
+
+      // As with groups, the requester would otherwise wait on a reviewer who no longer exists
+      const pendingReviews = await prisma.review.count({
+        where: { reviewerId: user.id, status: 'PENDING' },
+      });
+      if (pendingReviews > 0) {
+        res.status(400).json({
+          success: false,
+          error: {
+            code: 'INVALID_OPERATION',
+            message: 'This user still has pending reviews. Decide or cancel them first.',
+          },
+        });
+        return;
+      }
+
+      if (reassignTo) {
+        const newAuthor = await prisma.user.findUnique({
+          where: { id: reassignTo },
+          select: { id: true },
+        });
+
+        if (!newAuthor || newAuthor.id === user.id) {
+          res.status(400).json({
+            success: false,
+            error: {
+              code: 'INVALID_REASSIGNMENT',
+              message: 'Choose another existing user to take over the content',
+            },
+          });
+          return;
+        }
+
+        // Revisions, versions and review requests follow so the history survives the delete
+        const [articles, documents] = await prisma.$transaction([
+          prisma.article.updateMany({
+            where: { authorId: user.id },
+            data: { authorId: reassignTo },
+          }),
+          prisma.document.updateMany({
+            where: { authorId: user.id },
+            data: { authorId: reassignTo },
+          }),
+          prisma.articleRevision.updateMany({
+            where: { editorId: user.id },
+            data: { editorId: reassignTo },
+          }),
+          prisma.documentVersion.updateMany({
+            where: { uploadedById: user.id },
+            data: { uploadedById: reassignTo },
+          }),
+          prisma.review.updateMany({
+            where: { requesterId: user.id },
+            data: { requesterId: reassignTo },
+          }),
+          prisma.user.delete({ where: { id: user.id } }),
+        ]);
+
+        await recordAudit(req, {
+          action: 'user.deleted',
+          targetType: 'user',
+          targetId: user.id,
+          before: { email: user.email, name: user.name, role: user.role },
+          after: { reassignedTo: reassignTo, articles: articles.count, documents: documents.count },
+        });
+      } else {
+        // The cascade removes their content, but not the files in S3 or the search entries.
+        // Their revisions and versions of other people's content stay, without an author.
+        const [articles, documents] = await Promise.all([
+          prisma.article.findMany({ where: { authorId: user.id }, select: { id: true } }),
+          prisma.document.findMany({
+            where: { authorId: user.id },
+            select: {
+              id: true,
+              fileUrl: true,
+              thumbnailUrl: true,
+              versions: { select: { fileUrl: true } },
+            },
+          }),
+        ]);
+
+        await prisma.user.delete({ where: { id: user.id } });
+
+        for (const document of documents) {
+          const fileUrls = new Set([
+            document.fileUrl,
+            ...document.versions.map((v) => v.fileUrl),
+            ...(document.thumbnailUrl ? [document.thumbnailUrl] : []),
+          ]);
+          for (const fileUrl of fileUrls) {
+            await deleteFile(getFileKeyFromUrl(fileUrl));
+          }
+          await enqueueJob('search.sync', { type: 'document', id: document.id });
+        }
+        for (const article of articles) {
+          await enqueueJob('search.sync', { type: 'article', id: article.id });
+        }
+
+        await recordAudit(req, {
+          action: 'user.deleted',
+          targetType: 'user',
+          targetId: user.id,
+          before: { email: user.email, name: user.name, role: user.role },
+          after: { deletedArticles: articles.length, deletedDocuments: documents.length },
+        });
+      }
+
+      res.json({
+        success: true,
+        data: { message: 'User deleted successfully' },
+      });
+    } catch (error) {
+      console.error('Delete user error:', error);
+      res.status(500).json({
+        success: false,
+        error: { code: 'INTERNAL_ERROR', message: 'Failed to delete user' },
+      });
+    }
+  }
+);
+
+// Get per-role security policies (role:manage)
+router.get('/role-policies', requireAuth, requirePermission('role:manage'), async (_req: AuthRequest, res: Response) => {
+  try {
+    const stored = await prisma.rolePolicy.findMany();
+
+    // Roles without a stored row use the defaults
+    const policies = ROLES.map(
+      (role) =>
+        stored.find((policy) => policy.role === role) || { role, requireTwoFactor: false }
+    );
+
+    res.json({
+      success: true,
+      data: { policies },
+    });
+  } catch (error) {
+    console.error('Get role policies error:', error);
+    res.status(500).json({
+      success: false,
+      error: { code: 'INTERNAL_ERROR', message: 'Failed to fetch role policies' },
+    });
+  }
+});
+
+// Update a role's security policy (role:manage)
+router.put(
+  '/role-policies/:role',
+  requireAuth,
+  requirePermission('role:manage'),
+  validate(updateRolePolicySchema),
+  async (req: AuthRequest, res: Response): Promise<void> => {
+    try {
+      const role = req.params.role as (typeof ROLES)[number];
+      const { requireTwoFactor } = req.body;
+
+      const previous = await prisma.rolePolicy.findUnique({ where: { role } });
+      const policy = await prisma.rolePolicy.upsert({
+        where: { role },
+        create: { role, requireTwoFactor },
+        update: { requireTwoFactor },
+      });
+
+      await recordAudit(req, {
+        action: 'role.policy_changed',
+        targetType: 'role',
+        targetId: role,
+        before: { requireTwoFactor: previous?.requireTwoFactor ?? false },
+        after: { requireTwoFactor },
+      });
+
+      res.json({
+        success: true,
+        data: { policy },
+      });
+    } catch (error) {
+      console.error('Update role policy error:', error);
+      res.status(500).json({
+        success: false,
+        error: { code: 'INTERNAL_ERROR', message: 'Failed to update role policy' },
+      });
+    }
+  }
+);
+
+// Get the permission catalog and what each role grants (role:manage)
+router.get('/permissions', requireAuth, requirePermission('role:manage'), async (_req: AuthRequest, res: Response) => {
+  try {
+    const catalog = ALL_PERMISSIONS.map((key) => ({ key, description: PERMISSIONS[key] }));
+    const roles = await Promise.all(
+      ROLES.map(async (role) => ({
+        role,
+        editable: (EDITABLE_ROLES as readonly string[]).includes(role),
+        permissions: Array.from(await getRolePermissions(role)),
+      }))
+    );
+
+    res.json({
+      success: true,
+      data: { catalog, roles },
+    });
+  } catch (error) {
+    console.error('Get permissions error:', error);
+    res.status(500).json({
+      success: false,
+      error: { code: 'INTERNAL_ERROR', message: 'Failed to fetch permissions' },
+    });
+  }
+});
+
+// Replace the permissions granted to a role (role:manage)
+router.put(
+  '/roles/:role/permissions',
+  requireAuth,
+  requirePermission('role:manage'),
+  validate(updateRolePermissionsSchema),
+  async (req: AuthRequest, res: Response): Promise<void> => {
+    try {
+      const role = req.params.role as (typeof EDITABLE_ROLES)[number];
+      const permissions = req.body.permissions as Permission[];
+
+      const before = Array.from(await getRolePermissions(role));
+      await setRolePermissions(role, permissions);
+      const after = Array.from(await getRolePermissions(role));
+
+      await recordAudit(req, {
+        action: 'role.permissions_changed',
+        targetType: 'role',
+        targetId: role,
+        before: { permissions: before },
+        after: { permissions: after },
+      });
+
+      res.json({
+        success: true,
+        data: { role, permissions: after },
+      });
+    } catch (error) {
+      console.error('Update role permissions error:', error);
+      res.status(500).json({
+        success: false,
+        error: { code: 'INTERNAL_ERROR', message: 'Failed to update role permissions' },
+      });
+    }
+  }
+);
+
+// Get admin stats (system:manage)
+router.get('/stats', requireAuth, requirePermission('system:manage'), async (_req: AuthRequest, res: Response) => {
+  try {
+    const [usersCount, articlesCount, documentsCount] = await Promise.all([
+      prisma.user.count(),
+      prisma.article.count(),
+      prisma.document.count(),
+    ]);
+
+    res.json({
+      success: true,
+      data: {
+        users: usersCount,
+        articles: articlesCount,
+        documents: documentsCount,
+      },
+    });
+  } catch (error) {
+    console.error('Get stats error:', error);
+    res.status(500).json({
+      success: false,
+      error: { code: 'INTERNAL_ERROR', message: 'Failed to fetch stats' },
+    });
+  }
+});
+
+// List background jobs with per-status counts (system:manage)
+router.get(
+  '/jobs',
+  requireAuth,
+  requirePermission('system:manage'),
+  validate(listJobsSchema),
+  async (req: AuthRequest, res: Response) => {
+    try {
+      const page = Number(req.query.page) || 1;
+      const limit = Number(req.query.limit) || 20;
+      const { status, type } = req.query as {
+        status?: (typeof JOB_STATUSES)[number];
+        type?: string;
+      };
+      const where = { status, type };
+
+      const [jobs, total, grouped] = await Promise.all([
+        // Payloads are left out: they name users and content the viewer may not otherwise see
+        prisma.job.findMany({
+          where,
+          select: {
+            id: true,
+            type: true,
+            status: true,
+            attempts: true,
+            maxAttempts: true,
+            runAt: true,
+            lastError: true,
+            completedAt: true,
+            createdAt: true,
+            updatedAt: true,
+          },
+          orderBy: { updatedAt: 'desc' },
+          skip: (page - 1) * limit,
+          take: limit,
+        }),
+        prisma.job.count({ where }),
+        prisma.job.groupBy({ by: ['status'], _count: { _all: true } }),
+      ]);
+
+      const counts = Object.fromEntries(JOB_STATUSES.map((s) => [s, 0]));
+      grouped.forEach((group) => {
+        counts[group.status] = group._count._all;
+      });
+
+      res.json({
+        success: true,
+        data: { jobs, counts },
+        meta: {
+          page,
+          limit,
+          total,
+          totalPages: Math.ceil(total / limit),
+        },
+      });
+    } catch (error) {
+      console.error('Get jobs error:', error);
+      res.status(500).json({
+        success: false,
+        error: { code: 'INTERNAL_ERROR', message: 'Failed to fetch jobs' },
+      });
+    }
+  }
+);
+
+// Browse the audit log, or download it as CSV with ?format=csv (audit:view)
+router.get(
+  '/audit',
+  requireAuth,
+  requirePermission('audit:view'),
+  validate(listAuditSchema),
+  async (req: AuthRequest, res: Response) => {
+    try {
+      const page = Number(req.query.page) || 1;
+      const limit = Number(req.query.limit) || 50;
+      const { action, actorId, targetType, targetId, from, to, format } = req.query as Record<
+        string,
+        string | undefined
+      >;
+      const where = auditWhere({
+        action,
+        actorId,
+        targetType,
+        targetId,
+        from: from ? new Date(from) : undefined,
+        to: to ? new Date(to) : undefined,
+      });
+
+      if (format === 'csv') {
+        const events = await prisma.auditEvent.findMany({
+          where,
+          orderBy: { createdAt: 'desc' },
+          take: MAX_AUDIT_EXPORT_ROWS,
+        });
+
+        const stamp = new Date().toISOString().slice(0, 10);
+        res.setHeader('Content-Type', 'text/csv; charset=utf-8');
+        res.setHeader('Content-Disposition', `attachment; filename="audit-${stamp}.csv"`);
+        res.send(auditEventsToCsv(events));
+        return;
+      }
+
+      const [events, total] = await Promise.all([
+        prisma.auditEvent.findMany({
+          where,
+          include: { actor: { select: { id: true, name: true, email: true } } },
+          orderBy: { createdAt: 'desc' },
+          skip: (page - 1) * limit,
+          take: limit,
+        }),
+        prisma.auditEvent.count({ where }),
+      ]);
+
+      res.json({
+        success: true,
+        data: { events, actions: AUDIT_ACTIONS },
+        meta: {
+          page,
+          limit,
+          total,
+          totalPages: Math.ceil(total / limit),
+        },
+      });
+    } catch (error) {
+      console.error('Get audit log error:', error);
+      res.status(500).json({
+        success: false,
+        error: { code: 'INTERNAL_ERROR', message: 'Failed to fetch audit log' },
+      });
+    }
+  }
+);
+
+// Download a backup archive of the whole knowledge base (system:manage, admins only)
+router.get(
+  '/backup',
+  requireAuth,
+  requirePermission('system:manage'),
+  validate(backupSchema),
+  async (req: AuthRequest, res: Response) => {
+    try {
+      // It holds every restricted category and, optionally, credentials, so it cannot be delegated
+      if (req.user!.role !== 'ADMIN') {
+        res.status(403).json({
+          success: false,
+          error: { code: 'FORBIDDEN', message: 'Only admins can download backups' },
+        });
+        return;
+      }
+
+      const includeSecrets = req.query.includeSecrets === 'true';
+      const archive = await createBackup({ includeSecrets });
+
+      await recordAudit(req, {
+        action: 'system.backup_created',
+        after: { includeSecrets },
+      });
+
+      const stamp = new Date().toISOString().slice(0, 10);
+      res.setHeader('Content-Type', 'application/gzip');
+      res.setHeader('Content-Disposition', `attachment; filename="kbase-backup-${stamp}.tar.gz"`);
+
+      // Headers are already out by the time a file copy fails, so all we can do is cut the download short
+      archive.on('error', (error) => {
+        console.error('Backup stream error:', error);
+        res.destroy(error);
+      });
+      archive.pipe(res);
+    } catch (error) {
+      console.error('Create backup error:', error);
+      res.status(500).json({
+        success: false,
+        error: { code: 'INTERNAL_ERROR', message: 'Failed to create backup' },
+      });
+    }
+  }
+);
+
+// Requeue a failed job (system:manage)
+router.post(
+  '/jobs/:jobId/retry',
+  requireAuth,
+  requirePermission('system:manage'),
+  async (req: AuthRequest, res: Response): Promise<void> => {
+    try {
+      const { jobId } = req.params;
+
+      const job = await prisma.job.findUnique({
+        where: { id: jobId },
+      });
+
+      if (!job) {
+        res.status(404).json({
+          success: false,
+          error: { code: 'NOT_FOUND', message: 'Job not found' },
+        });
+        return;
+      }
+
+      if (job.status !== 'DEAD') {
+        res.status(400).json({
+          success: false,
+          error: { code: 'INVALID_OPERATION', message: 'Only dead jobs can be retried' },
+        });
+        return;
+      }
+
+      res.json({
+        success: true,
+        data: { job: await retryJob(jobId) },
+      });
+    } catch (error) {
+      console.error('Retry job error:', error);
+      res.status(500).json({
+        success: false,
+        error: { code: 'INTERNAL_ERROR', message: 'Failed to retry job' },
+      });
+    }
+  }
+);
+
+// List groups with their owners (group:manage)
+router.get(
+  '/groups',
+  requireAuth,
+  requirePermission('group:manage'),
+  async (_req: AuthRequest, res: Response) => {
+    try {
+      const groups = await prisma.group.findMany({
+        select: groupSummarySelect,
+        orderBy: { name: 'asc' },
+      });
+
+      res.json({
+        success: true,
+        data: {
+          groups: groups.map(({ memberships, ...group }) => ({
+            ...group,
+            owners: memberships.map((m) => m.user),
+          })),
+        },
+      });
+    } catch (error) {
+      console.error('Get groups error:', error);
+      res.status(500).json({
+        success: false,
+        error: { code: 'INTERNAL_ERROR', message: 'Failed to fetch groups' },
+      });
+    }
+  }
+);
+
+// Create a group, optionally with its first owners (group:manage)
+router.post(
+  '/groups',
+  requireAuth,
+  requirePermission('group:manage'),
+  validate(createGroupSchema),
+  async (req: AuthRequest, res: Response): Promise<void> => {
+    try {
+      const {
+        name,
+        description,
+        ownerIds = [],
+      } = req.body as {
+        name: string;
+        description?: string;
+        ownerIds?: string[];
+      };
+      const slug = slugify(name);
+
+      const existing = await prisma.group.findFirst({
+        where: { OR: [{ name }, { slug }] },
+      });
+      if (existing) {
+        res.status(400).json({
+          success: false,
+          error: { code: 'GROUP_EXISTS', message: 'A group with this name already exists' },
+        });
+        return;
+      }
+
+      const owners = await prisma.user.findMany({
+        where: { id: { in: ownerIds } },
+        select: { id: true },
+      });
+      if (owners.length !== new Set(ownerIds).size) {
+        res.status(400).json({
+          success: false,
+          error: { code: 'USER_NOT_FOUND', message: 'One or more owners do not exist' },
+        });
+        return;
+      }
+
+      const group = await prisma.group.create({
+        data: {
+          name,
+          slug,
+          description,
+          memberships: {
+            create: owners.map((owner) => ({ userId: owner.id, role: 'OWNER' as const })),
+          },
+        },
+        select: groupSummarySelect,
+      });
+
+      await recordAudit(req, {
+        action: 'group.created',
+        targetType: 'group',
+        targetId: group.id,
+        after: { name, description: description ?? null, ownerIds: owners.map((o) => o.id) },
+      });
+
+      const { memberships, ...rest } = group;
+      res.status(201).json({
+        success: true,
+        data: { group: { ...rest, owners: memberships.map((m) => m.user) } },
+      });
+    } catch (error) {
+      console.error('Create group error:', error);
+      res.status(500).json({
+        success: false,
+        error: { code: 'INTERNAL_ERROR', message: 'Failed to create group' },
+      });
+    }
+  }
+);
+
+// Rename a group or change its description (group:manage)
+router.put(
+  '/groups/:id',
+  requireAuth,
+  requirePermission('group:manage'),
+  validate(updateGroupSchema),
+  async (req: AuthRequest, res: Response): Promise<void> => {
+    try {
+      const { id } = req.params;
+      const { name, description } = req.body as { name?: string; description?: string | null };
+
+      const group = await prisma.group.findUnique({ where: { id } });
+      if (!group) {
+        res.status(404).json({
+          success: false,
+          error: { code: 'NOT_FOUND', message: 'Group not found' },
+        });
+        return;
+      }
+
+      const updateData: { name?: string; slug?: string; description?: string | null } = {};
+      if (name && name !== group.name) {
+        const slug = slugify(name);
+        const clash = await prisma.group.findFirst({
+          where: { id: { not: id }, OR: [{ name }, { slug }] },
+        });
+        if (clash) {
+          res.status(400).json({
+            success: false,
+            error: { code: 'GROUP_EXISTS', message: 'A group with this name already exists' },
+          });
+          return;
+        }
+        updateData.name = name;
+        updateData.slug = slug;
+      }
+      if (description !== undefined) updateData.description = description;
+
+      const updated = await prisma.group.update({
+        where: { id },
+        data: updateData,
+        select: groupSummarySelect,
+      });
+
+      await recordAudit(req, {
+        action: 'group.updated',
+        targetType: 'group',
+        targetId: id,
+        before: { name: group.name, description: group.description },
+        after: { name: updated.name, description: updated.description },
+      });
+
+      const { memberships, ...rest } = updated;
+      res.json({
+        success: true,
+        data: { group: { ...rest, owners: memberships.map((m) => m.user) } },
+      });
+    } catch (error) {
+      console.error('Update group error:', error);
+      res.status(500).json({
+        success: false,
+        error: { code: 'INTERNAL_ERROR', message: 'Failed to update group' },
+      });
+    }
+  }
+);
+
+// Delete a group. Its category grants go with it; reviews it was assigned keep their history. (group:manage)
+router.delete(
+  '/groups/:id',
+  requireAuth,
+  requirePermission('group:manage'),
+  async (req: AuthRequest, res: Response): Promise<void> => {
+    try {
+      const { id } = req.params;
+
+      const pendingReviews = await prisma.review.count({
+        where: { reviewerGroupId: id, status: 'PENDING' },
+      });
+      if (pendingReviews > 0) {
+        res.status(400).json({
+          success: false,
+          error: {
+            code: 'INVALID_OPERATION',
+            message: 'This group still has pending reviews. Decide or cancel them first.',
+          },
+        });
+        return;
+      }
+
+      const group = await prisma.group.findUnique({
+        where: { id },
+        include: { memberships: { select: { userId: true, role: true } } },
+      });
+      if (!group) {
+        res.status(404).json({
+          success: false,
+          error: { code: 'NOT_FOUND', message: 'Group not found' },
+        });
+        return;
+      }
+
+      await prisma.group.delete({ where: { id } });
+
+      await recordAudit(req, {
+        action: 'group.deleted',
+        targetType: 'group',
+        targetId: id,
+        before: { name: group.name, description: group.description, members: group.memberships },
+      });
+
+      res.json({
+        success: true,
+        data: { message: 'Group deleted' },
+      });
+    } catch (error) {
+      console.error('Delete group error:', error);
+      res.status(500).json({
+        success: false,
+        error: { code: 'INTERNAL_ERROR', message: 'Failed to delete group' },
+      });
+    }
+  }
+);
 
 export default router;
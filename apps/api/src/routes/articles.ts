@@ -1,49 +1,153 @@
-import { Router, Response } from 'express';
+import { Router, Request, Response } from 'express';
 import type { Router as RouterType } from 'express';
 import { z } from 'zod';
+import multer, { FileFilterCallback } from 'multer';
 import { prisma } from '@kbase/database';
 import { slugify } from '@kbase/utils';
+import type {
+  ArticleImportReport,
+  ArticleImportResult,
+  ConfluenceImportReport,
+} from '@kbase/types';
 import { validate } from '../middleware/validate';
-import { requireAuth, AuthRequest } from '../middleware/auth';
+import { requireAuth, requireVerifiedEmail, optionalAuth, AuthRequest } from '../middleware/auth';
+import { enqueueJob } from '../lib/jobs/queue';
+import { canPublish, closePendingReviews } from '../lib/review';
+import {
+  canEditContent,
+  canViewContent,
+  hasPermission,
+  viewableContentWhere,
+} from '../lib/permissions';
+import { getCategoryAccess, categoryAccessWhere } from '../lib/category-access';
+import { scheduleFields, validateSchedule, parseScheduleDate } from '../lib/scheduler';
+import { ensureBaselineRevision, recordRevision, diffRevisions } from '../lib/revisions';
+import { recordAudit } from '../lib/audit';
+import { fillPlaceholders, getPlaceholderValues } from '../lib/article-templates';
+import {
+  ImportEntry,
+  ImportFileError,
+  IMPORT_MIME_TYPES,
+  MAX_IMPORT_FILES,
+  MAX_IMPORT_FILE_SIZE,
+  isMarkdownFile,
+  isZipFile,
+  parseMarkdownArticle,
+  readZipEntries,
+} from '../lib/markdown-import';
+import { EXPORT_FORMATS, ExportFormat, exportArticle, exportArticleSelect } from '../lib/export';
+import {
+  MAX_CONFLUENCE_EXPORT_SIZE,
+  importConfluenceSpace,
+  readConfluenceExport,
+} from '../lib/confluence';
 
 const router: RouterType = Router();
 
 const createArticleSchema = z.object({
-  body: z.object({
-    title: z.string().min(1, 'Title is required').max(200),
-    content: z.string().min(1, 'Content is required'),
-    excerpt: z.string().max(500).optional(),
-    categoryId: z.string().optional(),
-    tags: z.array(z.string()).optional(),
-    status: z.enum(['DRAFT', 'PUBLISHED']).optional(),
-  }),
+  body: z
+    .object({
+      title: z.string().min(1, 'Title is required').max(200),
+      content: z.string().min(1, 'Content is required'),
+      excerpt: z.string().max(500).optional(),
+      categoryId: z.string().optional(),
+      tags: z.array(z.string()).optional(),
+      status: z.enum(['DRAFT', 'PUBLISHED']).optional(),
+      // Fills in the template's placeholders, and its tags and category where none are sent
+      templateId: z.string().optional(),
+      ...scheduleFields,
+    })
+    .superRefine(validateSchedule),
 });
 
 const updateArticleSchema = z.object({
-  body: z.object({
-    title: z.string().min(1).max(200).optional(),
-    content: z.string().min(1).optional(),
-    excerpt: z.string().max(500).optional(),
-    categoryId: z.string().nullable().optional(),
-    tags: z.array(z.string()).optional(),
-    status: z.enum(['DRAFT', 'PUBLISHED', 'ARCHIVED']).optional(),
-  }),
+  body: z
+    .object({
+      title: z.string().min(1).max(200).optional(),
+      content: z.string().min(1).optional(),
+      excerpt: z.string().max(500).optional(),
+      categoryId: z.string().nullable().optional(),
+      tags: z.array(z.string()).optional(),
+      status: z.enum(['DRAFT', 'PUBLISHED', 'ARCHIVED']).optional(),
+      ...scheduleFields,
+    })
+    .superRefine(validateSchedule),
   params: z.object({
     id: z.string(),
   }),
 });
 
+const revisionDiffSchema = z.object({
+  query: z.object({
+    from: z.string().min(1, 'from revision is required'),
+    to: z.string().optional(),
+  }),
+});
+
 const listArticlesSchema = z.object({
   query: z.object({
     page: z.coerce.number().min(1).default(1).optional(),
     limit: z.coerce.number().min(1).max(100).default(10).optional(),
-    status: z.enum(['DRAFT', 'PUBLISHED', 'ARCHIVED']).optional(),
+    status: z.enum(['DRAFT', 'IN_REVIEW', 'PUBLISHED', 'ARCHIVED']).optional(),
     categoryId: z.string().optional(),
     authorId: z.string().optional(),
     search: z.string().optional(),
+    scheduled: z.enum(['true', 'false']).optional(),
+  }),
+});
+
+const exportArticleSchema = z.object({
+  query: z.object({
+    format: z.enum(EXPORT_FORMATS).optional(),
+  }),
+});
+
+// Multipart fields arrive as strings
+const importArticlesSchema = z.object({
+  body: z.object({
+    dryRun: z.enum(['true', 'false']).optional(),
+  }),
+});
+
+const importConfluenceSchema = z.object({
+  body: z.object({
+    dryRun: z.enum(['true', 'false']).optional(),
+    publish: z.enum(['true', 'false']).optional(),
   }),
 });
 
+const importUpload = multer({
+  storage: multer.memoryStorage(),
+  limits: {
+    fileSize: MAX_IMPORT_FILE_SIZE,
+    files: MAX_IMPORT_FILES,
+  },
+  fileFilter: (_req: Request, file: Express.Multer.File, cb: FileFilterCallback) => {
+    if (
+      IMPORT_MIME_TYPES.includes(file.mimetype) &&
+      (isZipFile(file) || isMarkdownFile(file.originalname))
+    ) {
+      cb(null, true);
+    } else {
+      cb(new Error('Invalid file type. Allowed: Markdown files or a zip of them'));
+    }
+  },
+});
+
+const confluenceUpload = multer({
+  storage: multer.memoryStorage(),
+  limits: {
+    fileSize: MAX_CONFLUENCE_EXPORT_SIZE,
+  },
+  fileFilter: (_req: Request, file: Express.Multer.File, cb: FileFilterCallback) => {
+    if (IMPORT_MIME_TYPES.includes(file.mimetype) && isZipFile(file)) {
+      cb(null, true);
+    } else {
+      cb(new Error('Invalid file type. Upload the .zip of a Confluence HTML space export'));
+    }
+  },
+});
+
 // Helper to generate unique slug
 async function generateUniqueSlug(title: string, excludeId?: string): Promise<string> {
   let slug = slugify(title);
@@ -64,28 +168,47 @@ async function generateUniqueSlug(title: string, excludeId?: string): Promise<st
   }
 }
 
+// Same rule as PUT /:id. Articles in a category the user cannot see are off limits as well.
+async function canEditArticle(
+  article: { authorId: string; categoryId: string | null },
+  user: NonNullable<AuthRequest['user']>
+) {
+  if (!(await getCategoryAccess(user)).canAccess(article.categoryId)) return false;
+  return canEditContent('ARTICLE', article, user);
+}
+
+// Filing an article under a category the user cannot see is treated as a missing category
+async function rejectHiddenCategory(req: AuthRequest, res: Response, categoryId?: string | null) {
+  if (!categoryId || (await getCategoryAccess(req.user)).canAccess(categoryId)) return false;
+
+  res.status(404).json({
+    success: false,
+    error: {
+      code: 'CATEGORY_NOT_FOUND',
+      message: 'Category not found',
+    },
+  });
+  return true;
+}
+
 // GET /api/articles - List articles
-router.get('/', validate(listArticlesSchema), async (req, res, next) => {
+router.get('/', optionalAuth, validate(listArticlesSchema), async (req, res, next) => {
   try {
     const page = Number(req.query.page) || 1;
     const limit = Number(req.query.limit) || 10;
-    const { status, categoryId, authorId, search } = req.query as {
+    const { status, categoryId, authorId, search, scheduled } = req.query as {
       status?: string;
       categoryId?: string;
       authorId?: string;
       search?: string;
+      scheduled?: 'true' | 'false';
     };
 
     const skip = (page - 1) * limit;
     const where: Record<string, unknown> = {};
 
-    // Only show published articles to non-authenticated users
     const authReq = req as AuthRequest;
-    if (!authReq.user) {
-      where.status = 'PUBLISHED';
-    } else if (status) {
-      where.status = status;
-    }
+    if (status) where.status = status;
 
     if (categoryId) where.categoryId = categoryId;
     if (authorId) where.authorId = authorId;
@@ -95,13 +218,22 @@ router.get('/', validate(listArticlesSchema), async (req, res, next) => {
         { content: { contains: search, mode: 'insensitive' } },
       ];
     }
+    // Upcoming releases, soonest first
+    if (scheduled === 'true') where.scheduledPublishAt = { not: null };
+    if (scheduled === 'false') where.scheduledPublishAt = null;
+
+    // Unpublished articles are only listed for those allowed to open them
+    where.AND = [
+      categoryAccessWhere(await getCategoryAccess(authReq.user)),
+      await viewableContentWhere('ARTICLE', authReq.user),
+    ];
 
     const [articles, total] = await Promise.all([
       prisma.article.findMany({
         where,
         skip,
         take: limit,
-        orderBy: { createdAt: 'desc' },
+        orderBy: scheduled === 'true' ? { scheduledPublishAt: 'asc' } : { createdAt: 'desc' },
         select: {
           id: true,
           title: true,
@@ -111,6 +243,8 @@ router.get('/', validate(listArticlesSchema), async (req, res, next) => {
           viewsCount: true,
           createdAt: true,
           publishedAt: true,
+          scheduledPublishAt: true,
+          archiveAt: true,
           author: {
             select: {
               id: true,
@@ -168,7 +302,7 @@ router.get('/', validate(listArticlesSchema), async (req, res, next) => {
 });
 
 // GET /api/articles/:idOrSlug - Get single article
-router.get('/:idOrSlug', async (req, res, next) => {
+router.get('/:idOrSlug', optionalAuth, async (req, res, next) => {
   try {
     const { idOrSlug } = req.params;
 
@@ -222,9 +356,12 @@ router.get('/:idOrSlug', async (req, res, next) => {
       return;
     }
 
-    // Check if non-authenticated user can view non-published article
+    // Drafts and the like only for those allowed to see them, and nothing in hidden categories
     const authReq = req as AuthRequest;
-    if (article.status !== 'PUBLISHED' && !authReq.user) {
+    if (
+      !(await canViewContent('ARTICLE', article, authReq.user)) ||
+      !(await getCategoryAccess(authReq.user)).canAccess(article.categoryId)
+    ) {
       res.status(404).json({
         success: false,
         error: {
@@ -256,11 +393,56 @@ router.get('/:idOrSlug', async (req, res, next) => {
   }
 });
 
+// GET /api/articles/:idOrSlug/export?format=md|html|pdf - Download an article as a file
+router.get('/:idOrSlug/export', optionalAuth, validate(exportArticleSchema), async (req, res, next) => {
+  try {
+    const { idOrSlug } = req.params;
+    const format = (req.query.format as ExportFormat | undefined) || 'md';
+
+    const article = await prisma.article.findFirst({
+      where: {
+        OR: [{ id: idOrSlug }, { slug: idOrSlug }],
+      },
+      select: {
+        ...exportArticleSelect,
+        authorId: true,
+        categoryId: true,
+      },
+    });
+
+    // Same visibility as GET /:idOrSlug
+    const authReq = req as AuthRequest;
+    if (
+      !article ||
+      !(await canViewContent('ARTICLE', article, authReq.user)) ||
+      !(await getCategoryAccess(authReq.user)).canAccess(article.categoryId)
+    ) {
+      res.status(404).json({
+        success: false,
+        error: {
+          code: 'ARTICLE_NOT_FOUND',
+          message: 'Article not found',
+        },
+      });
+      return;
+    }
+
+    const file = await exportArticle(article, format, {
+      includeAuthorEmail: !!authReq.user && (await hasPermission(authReq.user, 'user:manage')),
+    });
+
+    res.setHeader('Content-Type', file.contentType);
+    res.setHeader('Content-Disposition', `attachment; filename="${file.fileName}"`);
+    res.send(file.data);
+  } catch (error) {
+    next(error);
+  }
+});
+
 // POST /api/articles - Create article
-router.post('/', requireAuth, validate(createArticleSchema), async (req: AuthRequest, res: Response, next) => {
+router.post('/', requireAuth, requireVerifiedEmail, validate(createArticleSchema), async (req: AuthRequest, res: Response, next) => {
   try {
-    // Check if user has permission to create articles
-    if (req.user!.role === 'VIEWER') {
+    if (!(await hasPermission(req.user!, 'article:create'))) {
       res.status(403).json({
         success: false,
         error: {
@@ -271,7 +453,68 @@ router.post('/', requireAuth, validate(createArticleSchema), async (req: AuthReq
       return;
     }
 
-    const { title, content, excerpt, categoryId, tags, status } = req.body;
+    const { status, scheduledPublishAt, archiveAt, templateId } = req.body;
+    let { title, content, excerpt, categoryId, tags } = req.body as {
+      title: string;
+      content: string;
+      excerpt?: string;
+      categoryId?: string;
+      tags?: string[];
+    };
+
+    if (templateId) {
+      const template = await prisma.articleTemplate.findUnique({ where: { id: templateId } });
+      if (!template) {
+        res.status(404).json({
+          success: false,
+          error: {
+            code: 'TEMPLATE_NOT_FOUND',
+            message: 'Template not found',
+          },
+        });
+        return;
+      }
+
+      const values = await getPlaceholderValues(req.user!);
+      title = fillPlaceholders(title, values);
+      content = fillPlaceholders(content, values, { html: true });
+      excerpt = excerpt && fillPlaceholders(excerpt, values);
+
+      if (title.length > 200 || (excerpt && excerpt.length > 500)) {
+        res.status(400).json({
+          success: false,
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: 'The title or excerpt is too long once its placeholders are filled in',
+          },
+        });
+        return;
+      }
+
+      tags ??= template.tags;
+      // A default category the author cannot see is dropped instead of failing the request
+      if (categoryId === undefined && template.categoryId) {
+        const access = await getCategoryAccess(req.user);
+        categoryId = access.canAccess(template.categoryId) ? template.categoryId : undefined;
+      }
+    }
+
+    // New articles have no reviewer yet, so publishing straight away or scheduling needs article:publish
+    if (
+      (status === 'PUBLISHED' || scheduledPublishAt) &&
+      !(await hasPermission(req.user!, 'article:publish'))
+    ) {
+      res.status(403).json({
+        success: false,
+        error: {
+          code: 'REVIEW_REQUIRED',
+          message: 'Articles must be approved by a reviewer before they are published',
+        },
+      });
+      return;
+    }
+
+    if (await rejectHiddenCategory(req, res, categoryId)) return;
 
     const slug = await generateUniqueSlug(title);
 
@@ -285,6 +528,8 @@ router.post('/', requireAuth, validate(createArticleSchema), async (req: AuthReq
         categoryId,
         status: status || 'DRAFT',
         publishedAt: status === 'PUBLISHED' ? new Date() : null,
+        scheduledPublishAt: parseScheduleDate(scheduledPublishAt),
+        archiveAt: parseScheduleDate(archiveAt),
       },
       include: {
         author: {
@@ -317,6 +562,9 @@ router.post('/', requireAuth, validate(createArticleSchema), async (req: AuthReq
       }
     }
 
+    await recordRevision(article.id, req.user!.userId);
+    await enqueueJob('search.sync', { type: 'article', id: article.id });
+
     // Fetch article with tags
     const articleWithTags = await prisma.article.findUnique({
       where: { id: article.id },
@@ -351,11 +599,303 @@ router.post('/', requireAuth, validate(createArticleSchema), async (req: AuthReq
   }
 });
 
+interface ImportContext {
+  user: NonNullable<AuthRequest['user']>;
+  dryRun: boolean;
+  canPublishNow: boolean;
+  access: Awaited<ReturnType<typeof getCategoryAccess>>;
+  // Titles already taken by earlier files in the same import
+  titles: Set<string>;
+}
+
+/**
+ * Import one file. Problems with the file itself come back as a failed result;
+ * anything else is thrown. A title that already exists is skipped rather than
+ * given a "-1" slug, so running the same import twice is harmless.
+ */
+async function importEntry(entry: ImportEntry, context: ImportContext): Promise<ArticleImportResult> {
+  const file = entry.name;
+  if (!isMarkdownFile(file)) {
+    return { file, status: 'skipped', message: 'Not a Markdown file' };
+  }
+
+  try {
+    const parsed = parseMarkdownArticle(file, entry.data.toString('utf8'));
+    const { title } = parsed;
+
+    if (context.titles.has(title.toLowerCase())) {
+      return { file, status: 'skipped', title, message: 'An earlier file has the same title' };
+    }
+
+    const existing = await prisma.article.findFirst({
+      where: { title: { equals: title, mode: 'insensitive' } },
+      select: { slug: true },
+    });
+    if (existing) {
+      return {
+        file,
+        status: 'skipped',
+        title,
+        slug: existing.slug,
+        message: 'An article with this title already exists',
+      };
+    }
+
+    let categoryId: string | null = null;
+    if (parsed.categorySlug) {
+      const category = await prisma.category.findUnique({
+        where: { slug: parsed.categorySlug },
+        select: { id: true },
+      });
+      if (!category || !context.access.canAccess(category.id)) {
+        throw new ImportFileError(`Category "${parsed.categorySlug}" not found`);
+      }
+      categoryId = category.id;
+    }
+
+    let authorId = context.user.userId;
+    if (parsed.authorEmail) {
+      const author = await prisma.user.findFirst({
+        where: { email: { equals: parsed.authorEmail, mode: 'insensitive' } },
+        select: { id: true },
+      });
+      if (!author) {
+        throw new ImportFileError(`No user with the email ${parsed.authorEmail}`);
+      }
+      authorId = author.id;
+    }
+
+    if (parsed.status === 'PUBLISHED' && !context.canPublishNow) {
+      throw new ImportFileError('You do not have permission to publish articles without a review');
+    }
+
+    context.titles.add(title.toLowerCase());
+    const slug = await generateUniqueSlug(title);
+    if (context.dryRun) {
+      return { file, status: 'created', title, slug };
+    }
+
+    const article = await prisma.article.create({
+      data: {
+        title,
+        slug,
+        content: parsed.content,
+        excerpt: parsed.excerpt,
+        authorId,
+        categoryId,
+        status: parsed.status || 'DRAFT',
+        publishedAt: parsed.status === 'PUBLISHED' ? new Date() : null,
+      },
+    });
+
+    // Tags that only differ in case share a slug, so link each tag once
+    const tagSlugs = new Set<string>();
+    for (const tagName of parsed.tags) {
+      const tagSlug = slugify(tagName);
+      if (!tagSlug || tagSlugs.has(tagSlug)) continue;
+      tagSlugs.add(tagSlug);
+
+      const tag = await prisma.tag.upsert({
+        where: { slug: tagSlug },
+        update: {},
+        create: { name: tagName, slug: tagSlug },
+      });
+
+      await prisma.articleTag.create({
+        data: {
+          articleId: article.id,
+          tagId: tag.id,
+        },
+      });
+    }
+
+    await recordRevision(article.id, authorId);
+    await enqueueJob('search.sync', { type: 'article', id: article.id });
+
+    return { file, status: 'created', title, slug, articleId: article.id };
+  } catch (error) {
+    if (error instanceof ImportFileError) {
+      return { file, status: 'failed', message: error.message };
+    }
+    throw error;
+  }
+}
+
+// POST /api/articles/import - Bulk import Markdown files (multipart field "files", .md or .zip)
+router.post('/import', requireAuth, requireVerifiedEmail, importUpload.array('files', MAX_IMPORT_FILES), validate(importArticlesSchema), async (req: AuthRequest, res: Response, next) => {
+  try {
+    if (!(await hasPermission(req.user!, 'article:import'))) {
+      res.status(403).json({
+        success: false,
+        error: {
+          code: 'FORBIDDEN',
+          message: 'You do not have permission to import articles',
+        },
+      });
+      return;
+    }
+
+    // upload.array() always gives a list, never the per-field map
+    const files = (req.files as Express.Multer.File[] | undefined) || [];
+    if (files.length === 0) {
+      res.status(400).json({
+        success: false,
+        error: {
+          code: 'NO_FILE',
+          message: 'No files uploaded',
+        },
+      });
+      return;
+    }
+
+    const dryRun = req.body.dryRun === 'true';
+    const results: ArticleImportResult[] = [];
+
+    const entries: ImportEntry[] = [];
+    for (const file of files) {
+      if (!isZipFile(file)) {
+        entries.push({ name: file.originalname, data: file.buffer });
+        continue;
+      }
+
+      try {
+        entries.push(...(await readZipEntries(file)));
+      } catch (error) {
+        if (!(error instanceof ImportFileError)) throw error;
+        results.push({ file: file.originalname, status: 'failed', message: error.message });
+      }
+    }
+
+    const context: ImportContext = {
+      user: req.user!,
+      dryRun,
+      canPublishNow: await hasPermission(req.user!, 'article:publish'),
+      access: await getCategoryAccess(req.user),
+      titles: new Set(),
+    };
+
+    // One file at a time so slugs and duplicate titles are checked against the files before
+    for (const entry of entries) {
+      results.push(await importEntry(entry, context));
+    }
+
+    const summary = { created: 0, skipped: 0, failed: 0 };
+    for (const result of results) {
+      summary[result.status]++;
+    }
+
+    if (!dryRun && summary.created > 0) {
+      await recordAudit(req, {
+        action: 'article.imported',
+        targetType: 'article',
+        after: {
+          ...summary,
+          articleIds: results.flatMap((result) => (result.articleId ? [result.articleId] : [])),
+        },
+      });
+    }
+
+    const report: ArticleImportReport = { dryRun, results, summary };
+    res.json({
+      success: true,
+      data: report,
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// POST /api/articles/import/confluence - Import a Confluence HTML space export (multipart field "file")
+router.post('/import/confluence', requireAuth, requireVerifiedEmail, confluenceUpload.single('file'), validate(importConfluenceSchema), async (req: AuthRequest, res: Response, next) => {
+  try {
+    const publish = req.body.publish === 'true';
+    // The space brings its own categories and attachments, and may publish both
+    const required = [
+      'article:import',
+      'category:create',
+      'document:upload',
+      ...(publish ? (['article:publish', 'document:publish'] as const) : []),
+    ] as const;
+    for (const permission of required) {
+      if (!(await hasPermission(req.user!, permission))) {
+        res.status(403).json({
+          success: false,
+          error: {
+            code: 'FORBIDDEN',
+            message: `You do not have permission to import this space (${permission} is required)`,
+          },
+        });
+        return;
+      }
+    }
+
+    if (!req.file) {
+      res.status(400).json({
+        success: false,
+        error: {
+          code: 'NO_FILE',
+          message: 'No file uploaded',
+        },
+      });
+      return;
+    }
+
+    let space;
+    try {
+      space = await readConfluenceExport(req.file);
+    } catch (error) {
+      if (!(error instanceof ImportFileError)) throw error;
+      res.status(400).json({
+        success: false,
+        error: {
+          code: 'INVALID_EXPORT',
+          message: error.message,
+        },
+      });
+      return;
+    }
+
+    const report: ConfluenceImportReport = await importConfluenceSpace(space, {
+      user: req.user!,
+      dryRun: req.body.dryRun === 'true',
+      status: publish ? 'PUBLISHED' : 'DRAFT',
+    });
+
+    const createdCategories = report.categories
+      .filter((category) => category.status === 'created')
+      .map((category) => category.slug);
+    if (!report.dryRun && (report.summary.created > 0 || createdCategories.length > 0)) {
+      await recordAudit(req, {
+        action: 'article.imported',
+        targetType: 'article',
+        after: {
+          source: 'confluence',
+          space: report.space,
+          ...report.summary,
+          articleIds: report.results.flatMap((result) => (result.articleId ? [result.articleId] : [])),
+          documentIds: report.attachments.flatMap((attachment) =>
+            attachment.documentId ? [attachment.documentId] : []
+          ),
+          categories: createdCategories,
+        },
+      });
+    }
+
+    res.json({
+      success: true,
+      data: report,
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
 // PUT /api/articles/:id - Update article
-router.put('/:id', requireAuth, validate(updateArticleSchema), async (req: AuthRequest, res: Response, next) => {
+router.put('/:id', requireAuth, requireVerifiedEmail, validate(updateArticleSchema), async (req: AuthRequest, res: Response, next) => {
   try {
     const { id } = req.params;
-    const { title, content, excerpt, categoryId, tags, status } = req.body;
+    const { title, content, excerpt, categoryId, tags, status, scheduledPublishAt, archiveAt } =
+      req.body;
 
     const article = await prisma.article.findUnique({
       where: { id },
@@ -372,11 +912,7 @@ router.put('/:id', requireAuth, validate(updateArticleSchema), async (req: AuthR
       return;
     }
 
-    // Check permissions
-    const isOwner = article.authorId === req.user!.userId;
-    const isAdmin = req.user!.role === 'ADMIN';
-
-    if (!isOwner && !isAdmin) {
+    if (!(await canEditArticle(article, req.user!))) {
       res.status(403).json({
         success: false,
         error: {
@@ -387,13 +923,17 @@ router.put('/:id', requireAuth, validate(updateArticleSchema), async (req: AuthR
       return;
     }
 
-    // Viewers cannot edit
-    if (req.user!.role === 'VIEWER') {
+    if (await rejectHiddenCategory(req, res, categoryId)) return;
+
+    // Scheduling a publish counts as publishing, so it needs the same rights
+    const isPublishing =
+      (status === 'PUBLISHED' && article.status !== 'PUBLISHED') || !!scheduledPublishAt;
+    if (isPublishing && !(await canPublish(req.user!, 'ARTICLE', id))) {
       res.status(403).json({
         success: false,
         error: {
-          code: 'FORBIDDEN',
-          message: 'You do not have permission to edit articles',
+          code: 'REVIEW_REQUIRED',
+          message: 'Articles must be approved by a reviewer before they are published',
         },
       });
       return;
@@ -414,6 +954,12 @@ router.put('/:id', requireAuth, validate(updateArticleSchema), async (req: AuthR
         updateData.publishedAt = new Date();
       }
     }
+    if (scheduledPublishAt !== undefined) {
+      updateData.scheduledPublishAt = parseScheduleDate(scheduledPublishAt);
+    }
+    if (archiveAt !== undefined) updateData.archiveAt = parseScheduleDate(archiveAt);
+
+    await ensureBaselineRevision(article);
 
     await prisma.article.update({
       where: { id },
@@ -455,6 +1001,14 @@ router.put('/:id', requireAuth, validate(updateArticleSchema), async (req: AuthR
       }
     }
 
+    // Settle an open review when the status moves on outside the review endpoints
+    if (status && article.status === 'IN_REVIEW' && status !== 'IN_REVIEW') {
+      await closePendingReviews('ARTICLE', id, status === 'PUBLISHED' ? 'APPROVED' : 'CANCELLED');
+    }
+
+    await recordRevision(id, req.user!.userId);
+    await enqueueJob('search.sync', { type: 'article', id });
+
     // Fetch article with tags
     const articleWithTags = await prisma.article.findUnique({
       where: { id },
@@ -489,8 +1043,8 @@ router.put('/:id', requireAuth, validate(updateArticleSchema), async (req: AuthR
   }
 });
 
-// DELETE /api/articles/:id - Delete article
-router.delete('/:id', requireAuth, async (req: AuthRequest, res: Response, next) => {
+// GET /api/articles/:id/revisions - List revision history
+router.get('/:id/revisions', requireAuth, async (req: AuthRequest, res: Response, next) => {
   try {
     const { id } = req.params;
 
@@ -509,13 +1063,315 @@ router.delete('/:id', requireAuth, async (req: AuthRequest, res: Response, next)
       return;
     }
 
-    // Only admins can delete articles
-    if (req.user!.role !== 'ADMIN') {
+    if (!(await canEditArticle(article, req.user!))) {
       res.status(403).json({
         success: false,
         error: {
           code: 'FORBIDDEN',
-          message: 'Only admins can delete articles',
+          message: 'You do not have permission to view the history of this article',
+        },
+      });
+      return;
+    }
+
+    const revisions = await prisma.articleRevision.findMany({
+      where: { articleId: id },
+      select: {
+        id: true,
+        version: true,
+        title: true,
+        excerpt: true,
+        restoredFromId: true,
+        createdAt: true,
+        editor: {
+          select: {
+            id: true,
+            name: true,
+            avatarUrl: true,
+          },
+        },
+      },
+      orderBy: { version: 'desc' },
+    });
+
+    res.json({
+      success: true,
+      data: { revisions },
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// GET /api/articles/:id/revisions/diff - Compare two revisions (defaults to the latest as "to")
+router.get(
+  '/:id/revisions/diff',
+  requireAuth,
+  validate(revisionDiffSchema),
+  async (req: AuthRequest, res: Response, next) => {
+    try {
+      const { id } = req.params;
+      const { from, to } = req.query as { from: string; to?: string };
+
+      const article = await prisma.article.findUnique({
+        where: { id },
+      });
+
+      if (!article) {
+        res.status(404).json({
+          success: false,
+          error: {
+            code: 'ARTICLE_NOT_FOUND',
+            message: 'Article not found',
+          },
+        });
+        return;
+      }
+
+      if (!(await canEditArticle(article, req.user!))) {
+        res.status(403).json({
+          success: false,
+          error: {
+            code: 'FORBIDDEN',
+            message: 'You do not have permission to view the history of this article',
+          },
+        });
+        return;
+      }
+
+      const [fromRevision, toRevision] = await Promise.all([
+        prisma.articleRevision.findFirst({
+          where: { id: from, articleId: id },
+        }),
+        to
+          ? prisma.articleRevision.findFirst({
+              where: { id: to, articleId: id },
+            })
+          : prisma.articleRevision.findFirst({
+              where: { articleId: id },
+              orderBy: { version: 'desc' },
+            }),
+      ]);
+
+      if (!fromRevision || !toRevision) {
+        res.status(404).json({
+          success: false,
+          error: {
+            code: 'REVISION_NOT_FOUND',
+            message: 'Revision not found',
+          },
+        });
+        return;
+      }
+
+      res.json({
+        success: true,
+        data: {
+          from: { id: fromRevision.id, version: fromRevision.version },
+          to: { id: toRevision.id, version: toRevision.version },
+          diff: diffRevisions(fromRevision, toRevision),
+        },
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+// GET /api/articles/:id/revisions/:revId - Get a single revision
+router.get('/:id/revisions/:revId', requireAuth, async (req: AuthRequest, res: Response, next) => {
+  try {
+    const { id, revId } = req.params;
+
+    const article = await prisma.article.findUnique({
+      where: { id },
+    });
+
+    if (!article) {
+      res.status(404).json({
+        success: false,
+        error: {
+          code: 'ARTICLE_NOT_FOUND',
+          message: 'Article not found',
+        },
+      });
+      return;
+    }
+
+    if (!(await canEditArticle(article, req.user!))) {
+      res.status(403).json({
+        success: false,
+        error: {
+          code: 'FORBIDDEN',
+          message: 'You do not have permission to view the history of this article',
+        },
+      });
+      return;
+    }
+
+    const revision = await prisma.articleRevision.findFirst({
+      where: { id: revId, articleId: id },
+      include: {
+        editor: {
+          select: {
+            id: true,
+            name: true,
+            avatarUrl: true,
+          },
+        },
+      },
+    });
+
+    if (!revision) {
+      res.status(404).json({
+        success: false,
+        error: {
+          code: 'REVISION_NOT_FOUND',
+          message: 'Revision not found',
+        },
+      });
+      return;
+    }
+
+    res.json({
+      success: true,
+      data: { revision },
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// POST /api/articles/:id/revisions/:revId/restore - Restore an earlier revision
+router.post(
+  '/:id/revisions/:revId/restore',
+  requireAuth,
+  requireVerifiedEmail,
+  async (req: AuthRequest, res: Response, next) => {
+    try {
+      const { id, revId } = req.params;
+
+      const article = await prisma.article.findUnique({
+        where: { id },
+      });
+
+      if (!article) {
+        res.status(404).json({
+          success: false,
+          error: {
+            code: 'ARTICLE_NOT_FOUND',
+            message: 'Article not found',
+          },
+        });
+        return;
+      }
+
+      if (!(await canEditArticle(article, req.user!))) {
+        res.status(403).json({
+          success: false,
+          error: {
+            code: 'FORBIDDEN',
+            message: 'You do not have permission to edit this article',
+          },
+        });
+        return;
+      }
+
+      const revision = await prisma.articleRevision.findFirst({
+        where: { id: revId, articleId: id },
+      });
+
+      if (!revision) {
+        res.status(404).json({
+          success: false,
+          error: {
+            code: 'REVISION_NOT_FOUND',
+            message: 'Revision not found',
+          },
+        });
+        return;
+      }
+
+      await ensureBaselineRevision(article);
+
+      await prisma.article.update({
+        where: { id },
+        data: {
+          title: revision.title,
+          slug:
+            revision.title === article.title
+              ? article.slug
+              : await generateUniqueSlug(revision.title, id),
+          content: revision.content,
+          excerpt: revision.excerpt,
+        },
+      });
+
+      // Restoring is itself an edit, so it shows up in the history instead of rewriting it
+      const restored = await recordRevision(id, req.user!.userId, revision.id);
+      await enqueueJob('search.sync', { type: 'article', id });
+
+      const updatedArticle = await prisma.article.findUnique({
+        where: { id },
+        include: {
+          author: {
+            select: {
+              id: true,
+              name: true,
+              avatarUrl: true,
+            },
+          },
+          category: true,
+          tags: {
+            select: {
+              tag: true,
+            },
+          },
+        },
+      });
+
+      res.json({
+        success: true,
+        data: {
+          article: {
+            ...updatedArticle,
+            tags: updatedArticle?.tags.map((t) => t.tag) || [],
+          },
+          revision: restored,
+        },
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+// DELETE /api/articles/:id - Delete article
+router.delete('/:id', requireAuth, requireVerifiedEmail, async (req: AuthRequest, res: Response, next) => {
+  try {
+    const { id } = req.params;
+
+    const article = await prisma.article.findUnique({
+      where: { id },
+    });
+
+    if (!article || !(await getCategoryAccess(req.user)).canAccess(article.categoryId)) {
+      res.status(404).json({
+        success: false,
+        error: {
+          code: 'ARTICLE_NOT_FOUND',
+          message: 'Article not found',
+        },
+      });
+      return;
+    }
+
+    if (!(await hasPermission(req.user!, 'article:delete'))) {
+      res.status(403).json({
+        success: false,
+        error: {
+          code: 'FORBIDDEN',
+          message: 'You do not have permission to delete articles',
         },
       });
       return;
@@ -525,6 +1381,21 @@ router.delete('/:id', requireAuth, async (req: AuthRequest, res: Response, next)
       where: { id },
     });
 
+    await recordAudit(req, {
+      action: 'article.deleted',
+      targetType: 'article',
+      targetId: id,
+      before: {
+        title: article.title,
+        slug: article.slug,
+        status: article.status,
+        authorId: article.authorId,
+        categoryId: article.categoryId,
+      },
+    });
+
+    await enqueueJob('search.sync', { type: 'article', id });
+
     res.json({
       success: true,
       data: { message: 'Article deleted successfully' },
@@ -1,7 +1,8 @@
-import { Router, Response } from 'express';
+import { Router, Request, Response } from 'express';
 import type { Router as RouterType } from 'express';
 import { z } from 'zod';
-import { prisma } from '@kbase/database';
+import multer, { FileFilterCallback } from 'multer';
+import { prisma, UserRole } from '@kbase/database';
 import {
   hashPassword,
   verifyPassword,
@@ -13,13 +14,123 @@ import {
   getPasswordResetExpiry,
   isAccountLocked,
   getLockoutExpiry,
+  generateTwoFactorChallenge,
+  verifyTwoFactorChallenge,
   AUTH_CONFIG,
 } from '../lib/auth';
+import {
+  beginTwoFactorEnrollment,
+  generateRecoveryCodes,
+  isTwoFactorRequired,
+  needsTwoFactorSetup,
+  verifyTotp,
+  verifyTwoFactorCode,
+} from '../lib/two-factor';
+import { queueEmail } from '../lib/email';
+import { getRolePermissions } from '../lib/permissions';
+import { recordAudit } from '../lib/audit';
+import { storeAvatar, deleteAvatar, AVATAR_MIME_TYPES, MAX_AVATAR_SIZE } from '../lib/avatar';
+import {
+  getOidcConfig,
+  createAuthorizationUrl,
+  completeAuthorization,
+  resolveOidcUser,
+} from '../lib/oidc';
 import { validate } from '../middleware/validate';
-import { requireAuth, AuthRequest } from '../middleware/auth';
+import { requireAuth, requireAuthAllowingTwoFactorSetup, AuthRequest } from '../middleware/auth';
 
 const router: RouterType = Router();
 
+interface AuthRequestWithFile extends AuthRequest {
+  file?: Express.Multer.File;
+}
+
+const avatarUpload = multer({
+  storage: multer.memoryStorage(),
+  limits: {
+    fileSize: MAX_AVATAR_SIZE,
+  },
+  fileFilter: (_req: Request, file: Express.Multer.File, cb: FileFilterCallback) => {
+    if (AVATAR_MIME_TYPES.includes(file.mimetype)) {
+      cb(null, true);
+    } else {
+      cb(new Error('Invalid file type. Allowed: JPEG, PNG, WebP, GIF'));
+    }
+  },
+});
+
+interface TokenUser {
+  id: string;
+  email: string;
+  role: UserRole;
+  twoFactorEnabledAt: Date | null;
+}
+
+async function issueAccessToken(user: TokenUser): Promise<string> {
+  return generateAccessToken({
+    userId: user.id,
+    email: user.email,
+    role: user.role,
+    twoFactorSetupRequired: (await needsTwoFactorSetup(user)) || undefined,
+  });
+}
+
+async function startSession(user: TokenUser, req: Request) {
+  const refreshToken = generateRefreshToken();
+  await prisma.session.create({
+    data: {
+      userId: user.id,
+      refreshToken,
+      expiresAt: getRefreshTokenExpiry(),
+      userAgent: req.headers['user-agent'],
+      ipAddress: req.ip,
+    },
+  });
+
+  return { accessToken: await issueAccessToken(user), refreshToken };
+}
+
+// Count a failed password or 2FA code towards the lockout; returns the attempts left
+async function recordFailedLogin(
+  user: { id: string; email: string; failedLoginAttempts: number },
+  req: Request,
+  factor: 'password' | 'two_factor'
+) {
+  const failedAttempts = user.failedLoginAttempts + 1;
+  const updateData: { failedLoginAttempts: number; lockedUntil?: Date } = {
+    failedLoginAttempts: failedAttempts,
+  };
+
+  if (failedAttempts >= AUTH_CONFIG.MAX_LOGIN_ATTEMPTS) {
+    updateData.lockedUntil = getLockoutExpiry();
+  }
+
+  await prisma.user.update({
+    where: { id: user.id },
+    data: updateData,
+  });
+
+  const actor = { id: user.id, email: user.email };
+  await recordAudit(req, {
+    action: 'auth.login_failed',
+    actor,
+    targetType: 'user',
+    targetId: user.id,
+    after: { factor, failedAttempts },
+  });
+  if (updateData.lockedUntil) {
+    await recordAudit(req, {
+      action: 'auth.lockout',
+      actor,
+      targetType: 'user',
+      targetId: user.id,
+      after: { lockedUntil: updateData.lockedUntil.toISOString() },
+    });
+  }
+
+  return Math.max(0, AUTH_CONFIG.MAX_LOGIN_ATTEMPTS - failedAttempts);
+}
+
 const registerSchema = z.object({
   body: z.object({
     email: z.string().email('Invalid email address'),
@@ -64,6 +175,19 @@ const resetPasswordSchema = z.object({
   }),
 });
 
+const acceptInvitationSchema = z.object({
+  body: z.object({
+    token: z.string().min(1, 'Token is required'),
+    password: z
+      .string()
+      .min(8, 'Password must be at least 8 characters')
+      .regex(/[A-Z]/, 'Password must contain at least one uppercase letter')
+      .regex(/[a-z]/, 'Password must contain at least one lowercase letter')
+      .regex(/[0-9]/, 'Password must contain at least one number'),
+    name: z.string().min(2, 'Name must be at least 2 characters').optional(),
+  }),
+});
+
 const changePasswordSchema = z.object({
   body: z.object({
     currentPassword: z.string().min(1, 'Current password is required'),
@@ -76,12 +200,54 @@ const changePasswordSchema = z.object({
   }),
 });
 
+const updateProfileSchema = z.object({
+  body: z.object({
+    name: z.string().trim().min(2, 'Name must be at least 2 characters').max(100).optional(),
+    email: z.string().email('Invalid email address').optional(),
+    // Required to change the email address
+    currentPassword: z.string().optional(),
+  }),
+});
+
+const confirmEmailChangeSchema = z.object({
+  body: z.object({
+    token: z.string().min(1, 'Token is required'),
+  }),
+});
+
 const verifyEmailSchema = z.object({
   body: z.object({
     token: z.string().min(1, 'Token is required'),
   }),
 });
 
+const twoFactorLoginSchema = z.object({
+  body: z.object({
+    challengeToken: z.string().min(1, 'Challenge token is required'),
+    code: z.string().min(1, 'Code is required'),
+  }),
+});
+
+const twoFactorCodeSchema = z.object({
+  body: z.object({
+    code: z.string().min(1, 'Code is required'),
+  }),
+});
+
+const oidcCallbackSchema = z.object({
+  body: z.object({
+    code: z.string().min(1, 'Authorization code is required'),
+    state: z.string().min(1, 'State is required'),
+  }),
+});
+
+const disableTwoFactorSchema = z.object({
+  body: z.object({
+    password: z.string().min(1, 'Password is required'),
+    code: z.string().min(1, 'Code is required'),
+  }),
+});
+
 // POST /api/auth/register
 router.post('/register', validate(registerSchema), async (req, res, next) => {
   try {
@@ -113,44 +279,34 @@ router.post('/register', validate(registerSchema), async (req, res, next) => {
         email: true,
         name: true,
         role: true,
+        emailVerified: true,
         createdAt: true,
       },
     });
 
-    // Create session with refresh token
-    const refreshToken = generateRefreshToken();
-    await prisma.session.create({
-      data: {
-        userId: user.id,
-        refreshToken,
-        expiresAt: getRefreshTokenExpiry(),
-        userAgent: req.headers['user-agent'],
-        ipAddress: req.ip,
-      },
-    });
+    const { accessToken, refreshToken } = await startSession(
+      { ...user, twoFactorEnabledAt: null },
+      req
+    );
 
     // Create email verification token
-    const verificationToken = generateSecureToken();
-    await prisma.emailVerificationToken.create({
+    const verificationToken = await prisma.emailVerificationToken.create({
       data: {
         userId: user.id,
-        token: verificationToken,
+        token: generateSecureToken(),
         expiresAt: getEmailVerificationExpiry(),
       },
     });
 
-    // TODO: Send verification email with verificationToken
-
-    const accessToken = generateAccessToken({
-      userId: user.id,
-      email: user.email,
-      role: user.role,
+    await queueEmail(user.email, 'verify-email', {
+      name: user.name,
+      tokenId: verificationToken.id,
     });
 
     res.status(201).json({
       success: true,
       data: {
-        user,
+        user: { ...user, permissions: Array.from(await getRolePermissions(user.role)) },
         accessToken,
         refreshToken,
         message: 'Please check your email to verify your account',
@@ -168,6 +324,11 @@ router.post('/login', validate(loginSchema), async (req, res, next) => {
 
     const user = await prisma.user.findUnique({ where: { email } });
     if (!user) {
+      await recordAudit(req, {
+        action: 'auth.login_failed',
+        actor: null,
+        after: { email, factor: 'password', reason: 'unknown_email' },
+      });
       res.status(401).json({
         success: false,
         error: {
@@ -192,27 +353,38 @@ router.post('/login', validate(loginSchema), async (req, res, next) => {
 
     const isValidPassword = await verifyPassword(password, user.passwordHash);
     if (!isValidPassword) {
-      // Increment failed login attempts
-      const failedAttempts = user.failedLoginAttempts + 1;
-      const updateData: { failedLoginAttempts: number; lockedUntil?: Date } = {
-        failedLoginAttempts: failedAttempts,
-      };
-
-      if (failedAttempts >= AUTH_CONFIG.MAX_LOGIN_ATTEMPTS) {
-        updateData.lockedUntil = getLockoutExpiry();
-      }
-
-      await prisma.user.update({
-        where: { id: user.id },
-        data: updateData,
-      });
+      const remainingAttempts = await recordFailedLogin(user, req, 'password');
 
       res.status(401).json({
         success: false,
         error: {
           code: 'INVALID_CREDENTIALS',
           message: 'Invalid email or password',
-          remainingAttempts: Math.max(0, AUTH_CONFIG.MAX_LOGIN_ATTEMPTS - failedAttempts),
+          remainingAttempts,
+        },
+      });
+      return;
+    }
+
+    // Checked after the password so the account's state is only revealed to its owner
+    if (user.deactivatedAt) {
+      res.status(403).json({
+        success: false,
+        error: {
+          code: 'ACCOUNT_DEACTIVATED',
+          message: 'This account has been deactivated. Contact an administrator.',
+        },
+      });
+      return;
+    }
+
+    // The password was right, but tokens are only issued once the second factor checks out
+    if (user.twoFactorEnabledAt) {
+      res.json({
+        success: true,
+        data: {
+          twoFactorRequired: true,
+          challengeToken: generateTwoFactorChallenge(user.id),
         },
       });
       return;
@@ -224,22 +396,14 @@ router.post('/login', validate(loginSchema), async (req, res, next) => {
       data: { failedLoginAttempts: 0, lockedUntil: null },
     });
 
-    // Create session with refresh token
-    const refreshToken = generateRefreshToken();
-    await prisma.session.create({
-      data: {
-        userId: user.id,
-        refreshToken,
-        expiresAt: getRefreshTokenExpiry(),
-        userAgent: req.headers['user-agent'],
-        ipAddress: req.ip,
-      },
-    });
+    const { accessToken, refreshToken } = await startSession(user, req);
 
-    const accessToken = generateAccessToken({
-      userId: user.id,
-      email: user.email,
-      role: user.role,
+    await recordAudit(req, {
+      action: 'auth.login',
+      actor: { id: user.id, email: user.email },
+      targetType: 'user',
+      targetId: user.id,
+      after: { method: 'password' },
     });
 
     res.json({
@@ -251,9 +415,11 @@ router.post('/login', validate(loginSchema), async (req, res, next) => {
           name: user.name,
           role: user.role,
           emailVerified: user.emailVerified,
+          permissions: Array.from(await getRolePermissions(user.role)),
         },
         accessToken,
         refreshToken,
+        twoFactorSetupRequired: await needsTwoFactorSetup(user),
       },
     });
   } catch (error) {
@@ -261,96 +427,89 @@ router.post('/login', validate(loginSchema), async (req, res, next) => {
   }
 });
 
-// GET /api/auth/me
-router.get('/me', requireAuth, async (req: AuthRequest, res: Response, next) => {
+// POST /api/auth/login/2fa - Second login step for accounts with 2FA enabled
+router.post('/login/2fa', validate(twoFactorLoginSchema), async (req, res, next) => {
   try {
-    const user = await prisma.user.findUnique({
-      where: { id: req.user!.userId },
-      select: {
-        id: true,
-        email: true,
-        name: true,
-        role: true,
-        avatarUrl: true,
-        createdAt: true,
-      },
-    });
+    const { challengeToken, code } = req.body;
 
-    if (!user) {
-      res.status(404).json({
+    const userId = verifyTwoFactorChallenge(challengeToken);
+    const user = userId ? await prisma.user.findUnique({ where: { id: userId } }) : null;
+
+    if (!user || !user.twoFactorEnabledAt) {
+      res.status(401).json({
         success: false,
         error: {
-          code: 'USER_NOT_FOUND',
-          message: 'User not found',
+          code: 'INVALID_CHALLENGE',
+          message: 'Login challenge is invalid or has expired. Please sign in again.',
         },
       });
       return;
     }
 
-    res.json({
-      success: true,
-      data: { user },
-    });
-  } catch (error) {
-    next(error);
-  }
-});
-
-// POST /api/auth/refresh
-router.post('/refresh', validate(refreshSchema), async (req, res, next) => {
-  try {
-    const { refreshToken } = req.body;
-
-    const session = await prisma.session.findUnique({
-      where: { refreshToken },
-      include: { user: true },
-    });
+    if (isAccountLocked(user.lockedUntil)) {
+      res.status(423).json({
+        success: false,
+        error: {
+          code: 'ACCOUNT_LOCKED',
+          message: `Account is locked. Try again after ${user.lockedUntil?.toISOString()}`,
+        },
+      });
+      return;
+    }
 
-    if (!session) {
-      res.status(401).json({
+    if (user.deactivatedAt) {
+      res.status(403).json({
         success: false,
         error: {
-          code: 'INVALID_REFRESH_TOKEN',
-          message: 'Invalid refresh token',
+          code: 'ACCOUNT_DEACTIVATED',
+          message: 'This account has been deactivated. Contact an administrator.',
         },
       });
       return;
     }
 
-    if (session.expiresAt < new Date()) {
-      await prisma.session.delete({ where: { id: session.id } });
+    if (!(await verifyTwoFactorCode(user, code))) {
+      const remainingAttempts = await recordFailedLogin(user, req, 'two_factor');
+
       res.status(401).json({
         success: false,
         error: {
-          code: 'REFRESH_TOKEN_EXPIRED',
-          message: 'Refresh token has expired',
+          code: 'INVALID_TWO_FACTOR_CODE',
+          message: 'Invalid authentication code',
+          remainingAttempts,
         },
       });
       return;
     }
 
-    // Generate new tokens
-    const newRefreshToken = generateRefreshToken();
-    const accessToken = generateAccessToken({
-      userId: session.user.id,
-      email: session.user.email,
-      role: session.user.role,
+    await prisma.user.update({
+      where: { id: user.id },
+      data: { failedLoginAttempts: 0, lockedUntil: null },
     });
 
-    // Update session with new refresh token
-    await prisma.session.update({
-      where: { id: session.id },
-      data: {
-        refreshToken: newRefreshToken,
-        expiresAt: getRefreshTokenExpiry(),
-      },
+    const { accessToken, refreshToken } = await startSession(user, req);
+
+    await recordAudit(req, {
+      action: 'auth.login',
+      actor: { id: user.id, email: user.email },
+      targetType: 'user',
+      targetId: user.id,
+      after: { method: 'two_factor' },
     });
 
     res.json({
       success: true,
       data: {
+        user: {
+          id: user.id,
+          email: user.email,
+          name: user.name,
+          role: user.role,
+          emailVerified: user.emailVerified,
+          permissions: Array.from(await getRolePermissions(user.role)),
+        },
         accessToken,
-        refreshToken: newRefreshToken,
+        refreshToken,
       },
     });
   } catch (error) {
@@ -358,114 +517,954 @@ router.post('/refresh', validate(refreshSchema), async (req, res, next) => {
   }
 });
 
-// POST /api/auth/logout
-router.post('/logout', requireAuth, async (req: AuthRequest, res: Response, next) => {
-  try {
-    const { refreshToken } = req.body;
+// GET /api/auth/oidc - Whether single sign-on is available, for the login page
+router.get('/oidc', (_req, res) => {
+  const config = getOidcConfig();
+  res.json({
+    success: true,
+    data: {
+      enabled: !!config,
+      providerName: config?.providerName ?? null,
+    },
+  });
+});
 
-    if (refreshToken) {
-      await prisma.session.deleteMany({
-        where: {
-          userId: req.user!.userId,
-          refreshToken,
+// POST /api/auth/oidc/start - Begin an SSO sign-in; the client redirects to authorizationUrl
+router.post('/oidc/start', async (_req, res, next) => {
+  try {
+    const config = getOidcConfig();
+    if (!config) {
+      res.status(404).json({
+        success: false,
+        error: {
+          code: 'OIDC_NOT_CONFIGURED',
+          message: 'Single sign-on is not enabled',
         },
       });
+      return;
     }
 
     res.json({
       success: true,
-      data: { message: 'Logged out successfully' },
-    });
-  } catch (error) {
-    next(error);
-  }
-});
-
-// POST /api/auth/logout-all
-router.post('/logout-all', requireAuth, async (req: AuthRequest, res: Response, next) => {
-  try {
-    await prisma.session.deleteMany({
-      where: { userId: req.user!.userId },
-    });
-
-    res.json({
-      success: true,
-      data: { message: 'Logged out from all devices' },
+      data: { authorizationUrl: await createAuthorizationUrl(config, res) },
     });
   } catch (error) {
     next(error);
   }
 });
 
-// POST /api/auth/verify-email
-router.post('/verify-email', validate(verifyEmailSchema), async (req, res, next) => {
+// POST /api/auth/oidc/callback - Finish an SSO sign-in with the code the provider sent back
+router.post('/oidc/callback', validate(oidcCallbackSchema), async (req, res, next) => {
   try {
-    const { token } = req.body;
-
-    const verificationToken = await prisma.emailVerificationToken.findUnique({
-      where: { token },
-      include: { user: true },
-    });
-
-    if (!verificationToken) {
-      res.status(400).json({
+    const config = getOidcConfig();
+    if (!config) {
+      res.status(404).json({
         success: false,
         error: {
-          code: 'INVALID_TOKEN',
-          message: 'Invalid verification token',
+          code: 'OIDC_NOT_CONFIGURED',
+          message: 'Single sign-on is not enabled',
         },
       });
       return;
     }
 
-    if (verificationToken.used) {
-      res.status(400).json({
+    const { code, state } = req.body;
+    const claims = await completeAuthorization(config, code, state, req, res);
+    const user = await resolveOidcUser(config, claims, req);
+
+    if (user.deactivatedAt) {
+      res.status(403).json({
         success: false,
         error: {
-          code: 'TOKEN_USED',
-          message: 'Verification token has already been used',
+          code: 'ACCOUNT_DEACTIVATED',
+          message: 'This account has been deactivated. Contact an administrator.',
         },
       });
       return;
     }
 
-    if (verificationToken.expiresAt < new Date()) {
-      res.status(400).json({
+    if (isAccountLocked(user.lockedUntil)) {
+      res.status(423).json({
         success: false,
         error: {
-          code: 'TOKEN_EXPIRED',
-          message: 'Verification token has expired',
+          code: 'ACCOUNT_LOCKED',
+          message: `Account is locked. Try again after ${user.lockedUntil?.toISOString()}`,
         },
       });
       return;
     }
 
-    // Mark token as used and verify user email
-    await prisma.$transaction([
-      prisma.emailVerificationToken.update({
-        where: { id: verificationToken.id },
-        data: { used: true },
-      }),
-      prisma.user.update({
-        where: { id: verificationToken.userId },
-        data: { emailVerified: new Date() },
-      }),
-    ]);
+    // Accounts with 2FA still need their code, whichever way the first factor was proven
+    if (user.twoFactorEnabledAt) {
+      res.json({
+        success: true,
+        data: {
+          twoFactorRequired: true,
+          challengeToken: generateTwoFactorChallenge(user.id),
+        },
+      });
+      return;
+    }
+
+    const { accessToken, refreshToken } = await startSession(user, req);
+
+    await recordAudit(req, {
+      action: 'auth.login',
+      actor: { id: user.id, email: user.email },
+      targetType: 'user',
+      targetId: user.id,
+      after: { method: 'oidc' },
+    });
 
     res.json({
       success: true,
-      data: { message: 'Email verified successfully' },
+      data: {
+        user: {
+          id: user.id,
+          email: user.email,
+          name: user.name,
+          role: user.role,
+          emailVerified: user.emailVerified,
+          permissions: Array.from(await getRolePermissions(user.role)),
+        },
+        accessToken,
+        refreshToken,
+        twoFactorSetupRequired: await needsTwoFactorSetup(user),
+      },
     });
   } catch (error) {
     next(error);
   }
 });
 
-// POST /api/auth/forgot-password
-router.post('/forgot-password', validate(forgotPasswordSchema), async (req, res, next) => {
+// GET /api/auth/me
+router.get('/me', requireAuthAllowingTwoFactorSetup, async (req: AuthRequest, res: Response, next) => {
   try {
-    const { email } = req.body;
-
+    const user = await prisma.user.findUnique({
+      where: { id: req.user!.userId },
+      select: {
+        id: true,
+        email: true,
+        name: true,
+        role: true,
+        avatarUrl: true,
+        emailVerified: true,
+        twoFactorEnabledAt: true,
+        createdAt: true,
+        emailChangeTokens: {
+          where: { used: false, expiresAt: { gt: new Date() } },
+          select: { newEmail: true },
+          orderBy: { createdAt: 'desc' },
+          take: 1,
+        },
+      },
+    });
+
+    if (!user) {
+      res.status(404).json({
+        success: false,
+        error: {
+          code: 'USER_NOT_FOUND',
+          message: 'User not found',
+        },
+      });
+      return;
+    }
+
+    const { emailChangeTokens, ...profile } = user;
+
+    res.json({
+      success: true,
+      data: {
+        user: {
+          ...profile,
+          pendingEmail: emailChangeTokens[0]?.newEmail ?? null,
+          twoFactorSetupRequired: await needsTwoFactorSetup(user),
+          permissions: Array.from(await getRolePermissions(user.role)),
+        },
+      },
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// PUT /api/auth/me - Update the current user's profile
+router.put('/me', requireAuth, validate(updateProfileSchema), async (req: AuthRequest, res: Response, next) => {
+  try {
+    const { name, email, currentPassword } = req.body as {
+      name?: string;
+      email?: string;
+      currentPassword?: string;
+    };
+
+    const user = await prisma.user.findUnique({ where: { id: req.user!.userId } });
+    if (!user) {
+      res.status(404).json({
+        success: false,
+        error: {
+          code: 'USER_NOT_FOUND',
+          message: 'User not found',
+        },
+      });
+      return;
+    }
+
+    const newEmail = email && email.toLowerCase() !== user.email.toLowerCase() ? email : undefined;
+
+    if (newEmail) {
+      if (!currentPassword || !(await verifyPassword(currentPassword, user.passwordHash))) {
+        res.status(400).json({
+          success: false,
+          error: {
+            code: 'INVALID_PASSWORD',
+            message: 'Enter your current password to change your email address',
+          },
+        });
+        return;
+      }
+
+      const taken = await prisma.user.findFirst({
+        where: { email: { equals: newEmail, mode: 'insensitive' } },
+        select: { id: true },
+      });
+      if (taken) {
+        res.status(400).json({
+          success: false,
+          error: {
+            code: 'EMAIL_EXISTS',
+            message: 'Email already registered',
+          },
+        });
+        return;
+      }
+    }
+
+    const updatedUser = await prisma.user.update({
+      where: { id: user.id },
+      data: { name },
+      select: {
+        id: true,
+        email: true,
+        name: true,
+        role: true,
+        avatarUrl: true,
+        emailVerified: true,
+      },
+    });
+
+    // The address only changes once the confirmation link sent to it is opened
+    if (newEmail) {
+      const [, changeToken] = await prisma.$transaction([
+        prisma.emailChangeToken.updateMany({
+          where: { userId: user.id, used: false },
+          data: { used: true },
+        }),
+        prisma.emailChangeToken.create({
+          data: {
+            userId: user.id,
+            newEmail,
+            token: generateSecureToken(),
+            expiresAt: getEmailVerificationExpiry(),
+          },
+        }),
+      ]);
+
+      await queueEmail(newEmail, 'confirm-email-change', {
+        name: updatedUser.name,
+        newEmail,
+        tokenId: changeToken.id,
+      });
+
+      await recordAudit(req, {
+        action: 'auth.email_change_requested',
+        targetType: 'user',
+        targetId: user.id,
+        before: { email: user.email },
+        after: { email: newEmail },
+      });
+    }
+
+    res.json({
+      success: true,
+      data: {
+        user: updatedUser,
+        pendingEmail: newEmail ?? null,
+        message: newEmail
+          ? `Profile updated. Check ${newEmail} to confirm your new address.`
+          : 'Profile updated',
+      },
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// POST /api/auth/me/avatar - Upload a profile picture (multipart field "avatar")
+router.post('/me/avatar', requireAuth, avatarUpload.single('avatar'), async (req: AuthRequestWithFile, res: Response, next) => {
+  try {
+    if (!req.file) {
+      res.status(400).json({
+        success: false,
+        error: {
+          code: 'NO_FILE',
+          message: 'No image uploaded',
+        },
+      });
+      return;
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { id: req.user!.userId },
+      select: { id: true, avatarUrl: true },
+    });
+    if (!user) {
+      res.status(404).json({
+        success: false,
+        error: {
+          code: 'USER_NOT_FOUND',
+          message: 'User not found',
+        },
+      });
+      return;
+    }
+
+    let avatarUrl: string;
+    try {
+      avatarUrl = await storeAvatar(user.id, req.file.buffer);
+    } catch {
+      res.status(400).json({
+        success: false,
+        error: {
+          code: 'INVALID_IMAGE',
+          message: 'The file could not be read as an image',
+        },
+      });
+      return;
+    }
+
+    await prisma.user.update({
+      where: { id: user.id },
+      data: { avatarUrl },
+    });
+
+    if (user.avatarUrl) {
+      await deleteAvatar(user.avatarUrl);
+    }
+
+    res.json({
+      success: true,
+      data: { avatarUrl },
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// DELETE /api/auth/me/avatar - Go back to initials
+router.delete('/me/avatar', requireAuth, async (req: AuthRequest, res: Response, next) => {
+  try {
+    const user = await prisma.user.findUnique({
+      where: { id: req.user!.userId },
+      select: { id: true, avatarUrl: true },
+    });
+
+    if (user?.avatarUrl) {
+      await prisma.user.update({
+        where: { id: user.id },
+        data: { avatarUrl: null },
+      });
+      await deleteAvatar(user.avatarUrl);
+    }
+
+    res.json({
+      success: true,
+      data: { avatarUrl: null },
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// POST /api/auth/refresh
+router.post('/refresh', validate(refreshSchema), async (req, res, next) => {
+  try {
+    const { refreshToken } = req.body;
+
+    const session = await prisma.session.findUnique({
+      where: { refreshToken },
+      include: { user: true },
+    });
+
+    if (!session) {
+      res.status(401).json({
+        success: false,
+        error: {
+          code: 'INVALID_REFRESH_TOKEN',
+          message: 'Invalid refresh token',
+        },
+      });
+      return;
+    }
+
+    if (session.expiresAt < new Date()) {
+      await prisma.session.delete({ where: { id: session.id } });
+      res.status(401).json({
+        success: false,
+        error: {
+          code: 'REFRESH_TOKEN_EXPIRED',
+          message: 'Refresh token has expired',
+        },
+      });
+      return;
+    }
+
+    if (session.user.deactivatedAt) {
+      await prisma.session.delete({ where: { id: session.id } });
+      res.status(403).json({
+        success: false,
+        error: {
+          code: 'ACCOUNT_DEACTIVATED',
+          message: 'This account has been deactivated. Contact an administrator.',
+        },
+      });
+      return;
+    }
+
+    // Generate new tokens
+    const newRefreshToken = generateRefreshToken();
+    const accessToken = await issueAccessToken(session.user);
+
+    // Update session with new refresh token
+    await prisma.session.update({
+      where: { id: session.id },
+      data: {
+        refreshToken: newRefreshToken,
+        expiresAt: getRefreshTokenExpiry(),
+      },
+    });
+
+    res.json({
+      success: true,
+      data: {
+        accessToken,
+        refreshToken: newRefreshToken,
+      },
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// POST /api/auth/logout
+router.post('/logout', requireAuthAllowingTwoFactorSetup, async (req: AuthRequest, res: Response, next) => {
+  try {
+    const { refreshToken } = req.body;
+
+    if (refreshToken) {
+      await prisma.session.deleteMany({
+        where: {
+          userId: req.user!.userId,
+          refreshToken,
+        },
+      });
+    }
+
+    res.json({
+      success: true,
+      data: { message: 'Logged out successfully' },
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// POST /api/auth/logout-all
+router.post('/logout-all', requireAuthAllowingTwoFactorSetup, async (req: AuthRequest, res: Response, next) => {
+  try {
+    await prisma.session.deleteMany({
+      where: { userId: req.user!.userId },
+    });
+
+    res.json({
+      success: true,
+      data: { message: 'Logged out from all devices' },
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// POST /api/auth/verify-email
+router.post('/verify-email', validate(verifyEmailSchema), async (req, res, next) => {
+  try {
+    const { token } = req.body;
+
+    const verificationToken = await prisma.emailVerificationToken.findUnique({
+      where: { token },
+      include: { user: true },
+    });
+
+    if (!verificationToken) {
+      res.status(400).json({
+        success: false,
+        error: {
+          code: 'INVALID_TOKEN',
+          message: 'Invalid verification token',
+        },
+      });
+      return;
+    }
+
+    if (verificationToken.used) {
+      res.status(400).json({
+        success: false,
+        error: {
+          code: 'TOKEN_USED',
+          message: 'Verification token has already been used',
+        },
+      });
+      return;
+    }
+
+    if (verificationToken.expiresAt < new Date()) {
+      res.status(400).json({
+        success: false,
+        error: {
+          code: 'TOKEN_EXPIRED',
+          message: 'Verification token has expired',
+        },
+      });
+      return;
+    }
+
+    // Mark token as used and verify user email
+    await prisma.$transaction([
+      prisma.emailVerificationToken.update({
+        where: { id: verificationToken.id },
+        data: { used: true },
+      }),
+      prisma.user.update({
+        where: { id: verificationToken.userId },
+        data: { emailVerified: new Date() },
+      }),
+    ]);
+
+    res.json({
+      success: true,
+      data: { message: 'Email verified successfully' },
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// POST /api/auth/confirm-email-change - Switch to the new address once its link is opened
+router.post('/confirm-email-change', validate(confirmEmailChangeSchema), async (req, res, next) => {
+  try {
+    const { token } = req.body;
+
+    const changeToken = await prisma.emailChangeToken.findUnique({
+      where: { token },
+      include: { user: true },
+    });
+
+    if (!changeToken) {
+      res.status(400).json({
+        success: false,
+        error: {
+          code: 'INVALID_TOKEN',
+          message: 'Invalid confirmation link',
+        },
+      });
+      return;
+    }
+
+    if (changeToken.used) {
+      res.status(400).json({
+        success: false,
+        error: {
+          code: 'TOKEN_USED',
+          message: 'This link has already been used or was replaced by a newer one',
+        },
+      });
+      return;
+    }
+
+    if (changeToken.expiresAt < new Date()) {
+      res.status(400).json({
+        success: false,
+        error: {
+          code: 'TOKEN_EXPIRED',
+          message: 'This link has expired. Change your email again to get a new one.',
+        },
+      });
+      return;
+    }
+
+    // Someone may have registered the address since the change was requested
+    const taken = await prisma.user.findFirst({
+      where: {
+        email: { equals: changeToken.newEmail, mode: 'insensitive' },
+        id: { not: changeToken.userId },
+      },
+      select: { id: true },
+    });
+    if (taken) {
+      res.status(400).json({
+        success: false,
+        error: {
+          code: 'EMAIL_EXISTS',
+          message: 'Email already registered',
+        },
+      });
+      return;
+    }
+
+    const previousEmail = changeToken.user.email;
+
+    await prisma.$transaction([
+      prisma.emailChangeToken.update({
+        where: { id: changeToken.id },
+        data: { used: true },
+      }),
+      prisma.user.update({
+        where: { id: changeToken.userId },
+        data: { email: changeToken.newEmail, emailVerified: new Date() },
+      }),
+    ]);
+
+    await queueEmail(previousEmail, 'email-changed', {
+      name: changeToken.user.name,
+      newEmail: changeToken.newEmail,
+    });
+
+    await recordAudit(req, {
+      action: 'auth.email_changed',
+      actor: { id: changeToken.userId, email: changeToken.newEmail },
+      targetType: 'user',
+      targetId: changeToken.userId,
+      before: { email: previousEmail },
+      after: { email: changeToken.newEmail },
+    });
+
+    res.json({
+      success: true,
+      data: { message: 'Email address updated', email: changeToken.newEmail },
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// GET /api/auth/2fa - Two-factor status for the current user
+router.get('/2fa', requireAuthAllowingTwoFactorSetup, async (req: AuthRequest, res: Response, next) => {
+  try {
+    const user = await prisma.user.findUnique({
+      where: { id: req.user!.userId },
+      select: { role: true, twoFactorEnabledAt: true },
+    });
+
+    if (!user) {
+      res.status(404).json({
+        success: false,
+        error: {
+          code: 'USER_NOT_FOUND',
+          message: 'User not found',
+        },
+      });
+      return;
+    }
+
+    const recoveryCodesRemaining = await prisma.recoveryCode.count({
+      where: { userId: req.user!.userId, usedAt: null },
+    });
+
+    res.json({
+      success: true,
+      data: {
+        enabled: !!user.twoFactorEnabledAt,
+        enabledAt: user.twoFactorEnabledAt,
+        required: await isTwoFactorRequired(user.role),
+        recoveryCodesRemaining,
+      },
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// POST /api/auth/2fa/setup - Generate a secret and QR code for the authenticator app
+router.post('/2fa/setup', requireAuthAllowingTwoFactorSetup, async (req: AuthRequest, res: Response, next) => {
+  try {
+    const user = await prisma.user.findUnique({
+      where: { id: req.user!.userId },
+    });
+
+    if (!user) {
+      res.status(404).json({
+        success: false,
+        error: {
+          code: 'USER_NOT_FOUND',
+          message: 'User not found',
+        },
+      });
+      return;
+    }
+
+    if (user.twoFactorEnabledAt) {
+      res.status(400).json({
+        success: false,
+        error: {
+          code: 'TWO_FACTOR_ALREADY_ENABLED',
+          message: 'Two-factor authentication is already enabled',
+        },
+      });
+      return;
+    }
+
+    const enrollment = await beginTwoFactorEnrollment(user.id, user.email);
+
+    res.json({
+      success: true,
+      data: enrollment,
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// POST /api/auth/2fa/enable - Confirm enrollment with a code from the app
+router.post(
+  '/2fa/enable',
+  requireAuthAllowingTwoFactorSetup,
+  validate(twoFactorCodeSchema),
+  async (req: AuthRequest, res: Response, next) => {
+    try {
+      const { code } = req.body;
+
+      const user = await prisma.user.findUnique({
+        where: { id: req.user!.userId },
+      });
+
+      if (!user || !user.twoFactorSecret || user.twoFactorEnabledAt) {
+        res.status(400).json({
+          success: false,
+          error: {
+            code: 'INVALID_OPERATION',
+            message: 'Start two-factor setup before enabling it',
+          },
+        });
+        return;
+      }
+
+      if (!(await verifyTotp(user, code))) {
+        res.status(400).json({
+          success: false,
+          error: {
+            code: 'INVALID_TWO_FACTOR_CODE',
+            message: 'Invalid authentication code',
+          },
+        });
+        return;
+      }
+
+      const enabledUser = await prisma.user.update({
+        where: { id: user.id },
+        data: { twoFactorEnabledAt: new Date() },
+      });
+      const recoveryCodes = await generateRecoveryCodes(user.id);
+
+      await recordAudit(req, {
+        action: 'auth.two_factor_enabled',
+        targetType: 'user',
+        targetId: user.id,
+      });
+
+      res.json({
+        success: true,
+        data: {
+          recoveryCodes,
+          // Replaces a token that was limited to 2FA setup
+          accessToken: await issueAccessToken(enabledUser),
+        },
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+// POST /api/auth/2fa/disable
+router.post('/2fa/disable', requireAuth, validate(disableTwoFactorSchema), async (req: AuthRequest, res: Response, next) => {
+  try {
+    const { password, code } = req.body;
+
+    const user = await prisma.user.findUnique({
+      where: { id: req.user!.userId },
+    });
+
+    if (!user || !user.twoFactorEnabledAt) {
+      res.status(400).json({
+        success: false,
+        error: {
+          code: 'INVALID_OPERATION',
+          message: 'Two-factor authentication is not enabled',
+        },
+      });
+      return;
+    }
+
+    if (await isTwoFactorRequired(user.role)) {
+      res.status(403).json({
+        success: false,
+        error: {
+          code: 'TWO_FACTOR_REQUIRED',
+          message: 'Two-factor authentication is required for your role',
+        },
+      });
+      return;
+    }
+
+    const isValidPassword = await verifyPassword(password, user.passwordHash);
+    if (!isValidPassword || !(await verifyTwoFactorCode(user, code))) {
+      res.status(400).json({
+        success: false,
+        error: {
+          code: 'INVALID_CREDENTIALS',
+          message: 'Password or authentication code is incorrect',
+        },
+      });
+      return;
+    }
+
+    await prisma.$transaction([
+      prisma.user.update({
+        where: { id: user.id },
+        data: { twoFactorSecret: null, twoFactorEnabledAt: null, twoFactorLastStep: null },
+      }),
+      prisma.recoveryCode.deleteMany({ where: { userId: user.id } }),
+    ]);
+
+    await recordAudit(req, {
+      action: 'auth.two_factor_disabled',
+      targetType: 'user',
+      targetId: user.id,
+    });
+
+    res.json({
+      success: true,
+      data: { message: 'Two-factor authentication disabled' },
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// POST /api/auth/2fa/recovery-codes - Replace all recovery codes
+router.post('/2fa/recovery-codes', requireAuth, validate(twoFactorCodeSchema), async (req: AuthRequest, res: Response, next) => {
+  try {
+    const { code } = req.body;
+
+    const user = await prisma.user.findUnique({
+      where: { id: req.user!.userId },
+    });
+
+    if (!user || !user.twoFactorSecret || !user.twoFactorEnabledAt) {
+      res.status(400).json({
+        success: false,
+        error: {
+          code: 'INVALID_OPERATION',
+          message: 'Two-factor authentication is not enabled',
+        },
+      });
+      return;
+    }
+
+    if (!(await verifyTotp(user, code))) {
+      res.status(400).json({
+        success: false,
+        error: {
+          code: 'INVALID_TWO_FACTOR_CODE',
+          message: 'Invalid authentication code',
+        },
+      });
+      return;
+    }
+
+    const recoveryCodes = await generateRecoveryCodes(user.id);
+
+    res.json({
+      success: true,
+      data: { recoveryCodes },
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// POST /api/auth/resend-verification
+router.post('/resend-verification', requireAuth, async (req: AuthRequest, res: Response, next) => {
+  try {
+    const user = await prisma.user.findUnique({
+      where: { id: req.user!.userId },
+    });
+
+    if (!user) {
+      res.status(404).json({
+        success: false,
+        error: {
+          code: 'USER_NOT_FOUND',
+          message: 'User not found',
+        },
+      });
+      return;
+    }
+
+    if (user.emailVerified) {
+      res.status(400).json({
+        success: false,
+        error: {
+          code: 'ALREADY_VERIFIED',
+          message: 'Email is already verified',
+        },
+      });
+      return;
+    }
+
+    // Only the newest link should work
+    await prisma.emailVerificationToken.updateMany({
+      where: { userId: user.id, used: false },
+      data: { used: true },
+    });
+
+    const verificationToken = await prisma.emailVerificationToken.create({
+      data: {
+        userId: user.id,
+        token: generateSecureToken(),
+        expiresAt: getEmailVerificationExpiry(),
+      },
+    });
+
+    await queueEmail(user.email, 'verify-email', {
+      name: user.name,
+      tokenId: verificationToken.id,
+    });
+
+    res.json({
+      success: true,
+      data: { message: 'Verification email sent' },
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// POST /api/auth/forgot-password
+router.post('/forgot-password', validate(forgotPasswordSchema), async (req, res, next) => {
+  try {
+    const { email } = req.body;
+
     const user = await prisma.user.findUnique({ where: { email } });
 
     // Always return success to prevent email enumeration
@@ -484,17 +1483,25 @@ router.post('/forgot-password', validate(forgotPasswordSchema), async (req, res,
     });
 
     // Create new reset token
-    const resetToken = generateSecureToken();
-    await prisma.passwordResetToken.create({
+    const resetToken = await prisma.passwordResetToken.create({
       data: {
         userId: user.id,
-        token: resetToken,
+        token: generateSecureToken(),
         expiresAt: getPasswordResetExpiry(),
       },
     });
 
-    // TODO: Send password reset email with resetToken
-    console.log(`Password reset token for ${email}: ${resetToken}`);
+    await queueEmail(user.email, 'reset-password', {
+      name: user.name,
+      tokenId: resetToken.id,
+    });
+
+    await recordAudit(req, {
+      action: 'auth.password_reset_requested',
+      actor: null,
+      targetType: 'user',
+      targetId: user.id,
+    });
 
     res.json({
       success: true,
@@ -569,6 +1576,15 @@ router.post('/reset-password', validate(resetPasswordSchema), async (req, res, n
       }),
     ]);
 
+    await queueEmail(resetToken.user.email, 'password-changed', { name: resetToken.user.name });
+
+    await recordAudit(req, {
+      action: 'auth.password_reset',
+      actor: { id: resetToken.userId, email: resetToken.user.email },
+      targetType: 'user',
+      targetId: resetToken.userId,
+    });
+
     res.json({
       success: true,
       data: { message: 'Password reset successfully. Please login with your new password.' },
@@ -578,6 +1594,110 @@ router.post('/reset-password', validate(resetPasswordSchema), async (req, res, n
   }
 });
 
+// POST /api/auth/accept-invitation - Set the first password on an account an admin created
+router.post('/accept-invitation', validate(acceptInvitationSchema), async (req, res, next) => {
+  try {
+    const { token, password, name } = req.body;
+
+    const invitation = await prisma.invitationToken.findUnique({
+      where: { token },
+      include: { user: true },
+    });
+
+    if (!invitation) {
+      res.status(400).json({
+        success: false,
+        error: {
+          code: 'INVALID_TOKEN',
+          message: 'Invalid invitation',
+        },
+      });
+      return;
+    }
+
+    if (invitation.used) {
+      res.status(400).json({
+        success: false,
+        error: {
+          code: 'TOKEN_USED',
+          message: 'This invitation has already been accepted',
+        },
+      });
+      return;
+    }
+
+    if (invitation.expiresAt < new Date()) {
+      res.status(400).json({
+        success: false,
+        error: {
+          code: 'TOKEN_EXPIRED',
+          message: 'This invitation has expired. Ask an administrator to send a new one.',
+        },
+      });
+      return;
+    }
+
+    if (invitation.user.deactivatedAt) {
+      res.status(403).json({
+        success: false,
+        error: {
+          code: 'ACCOUNT_DEACTIVATED',
+          message: 'This account has been deactivated. Contact an administrator.',
+        },
+      });
+      return;
+    }
+
+    const passwordHash = await hashPassword(password);
+
+    // The invitation went to this address, so opening it proves the email too
+    const [, user] = await prisma.$transaction([
+      prisma.invitationToken.update({
+        where: { id: invitation.id },
+        data: { used: true },
+      }),
+      prisma.user.update({
+        where: { id: invitation.userId },
+        data: {
+          passwordHash,
+          name: name ?? undefined,
+          emailVerified: invitation.user.emailVerified ?? new Date(),
+          failedLoginAttempts: 0,
+          lockedUntil: null,
+        },
+      }),
+    ]);
+
+    const { accessToken, refreshToken } = await startSession(user, req);
+
+    await recordAudit(req, {
+      action: 'auth.invitation_accepted',
+      actor: { id: user.id, email: user.email },
+      targetType: 'user',
+      targetId: user.id,
+    });
+
+    res.json({
+      success: true,
+      data: {
+        user: {
+          id: user.id,
+          email: user.email,
+          name: user.name,
+          role: user.role,
+          emailVerified: user.emailVerified,
+          permissions: Array.from(await getRolePermissions(user.role)),
+        },
+        accessToken,
+        refreshToken,
+        twoFactorSetupRequired: await needsTwoFactorSetup(user),
+      },
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
 // POST /api/auth/change-password
 router.post('/change-password', requireAuth, validate(changePasswordSchema), async (req: AuthRequest, res: Response, next) => {
   try {
@@ -617,6 +1737,14 @@ router.post('/change-password', requireAuth, validate(changePasswordSchema), asy
       data: { passwordHash },
     });
 
+    await queueEmail(user.email, 'password-changed', { name: user.name });
+
+    await recordAudit(req, {
+      action: 'auth.password_changed',
+      targetType: 'user',
+      targetId: user.id,
+    });
+
     res.json({
       success: true,
       data: { message: 'Password changed successfully' },
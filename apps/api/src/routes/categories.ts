@@ -4,7 +4,11 @@ import { z } from 'zod';
 import { prisma } from '@kbase/database';
 import { slugify } from '@kbase/utils';
 import { validate } from '../middleware/validate';
-import { requireAuth, AuthRequest } from '../middleware/auth';
+import { requireAuth, requirePermission, optionalAuth, AuthRequest } from '../middleware/auth';
+import { getCategoryAccess, getEffectiveVisibility } from '../lib/category-access';
+import { recordAudit } from '../lib/audit';
+import { hasPermission } from '../lib/permissions';
+import { EXPORT_FORMATS, ExportFormat, exportArchive, exportArticleSelect } from '../lib/export';
 
 const router: RouterType = Router();
 
@@ -13,6 +17,7 @@ const createCategorySchema = z.object({
     name: z.string().min(1, 'Name is required').max(100),
     description: z.string().max(500).optional(),
     parentId: z.string().optional(),
+    visibility: z.enum(['PUBLIC', 'AUTHENTICATED', 'RESTRICTED']).optional(),
   }),
 });
 
@@ -21,15 +26,61 @@ const updateCategorySchema = z.object({
     name: z.string().min(1).max(100).optional(),
     description: z.string().max(500).optional(),
     parentId: z.string().nullable().optional(),
+    visibility: z.enum(['PUBLIC', 'AUTHENTICATED', 'RESTRICTED']).optional(),
   }),
   params: z.object({
     id: z.string(),
   }),
 });
 
+const createGrantSchema = z.object({
+  body: z
+    .object({
+      email: z.string().email('Invalid email address').optional(),
+      groupId: z.string().optional(),
+    })
+    .refine((body) => !body.email !== !body.groupId, {
+      message: 'Grant access to either a user (email) or a group (groupId)',
+    }),
+  params: z.object({
+    id: z.string(),
+  }),
+});
+
+const exportCategorySchema = z.object({
+  query: z.object({
+    format: z.enum(EXPORT_FORMATS).optional(),
+  }),
+});
+
+// Keeps a single export request from rendering the whole knowledge base
+const MAX_EXPORT_ARTICLES = 1000;
+
+const grantInclude = {
+  user: { select: { id: true, name: true, email: true, avatarUrl: true } },
+  group: { select: { id: true, name: true, slug: true } },
+};
+
+// Category for the grant routes, or null after sending a 404
+async function findManagedCategory(req: AuthRequest, res: Response) {
+  const category = await prisma.category.findUnique({ where: { id: req.params.id } });
+  if (!category || !(await getCategoryAccess(req.user)).canAccess(category.id)) {
+    res.status(404).json({
+      success: false,
+      error: {
+        code: 'CATEGORY_NOT_FOUND',
+        message: 'Category not found',
+      },
+    });
+    return null;
+  }
+  return category;
+}
+
 // GET /api/categories - List all categories
-router.get('/', async (_req, res, next) => {
+router.get('/', optionalAuth, async (req, res, next) => {
   try {
+    const access = await getCategoryAccess((req as AuthRequest).user);
     const categories = await prisma.category.findMany({
       include: {
         parent: {
@@ -58,7 +109,14 @@ router.get('/', async (_req, res, next) => {
 
     res.json({
       success: true,
-      data: { categories },
+      data: {
+        categories: categories
+          .filter((category) => access.canAccess(category.id))
+          .map((category) => ({
+            ...category,
+            children: category.children.filter((child) => access.canAccess(child.id)),
+          })),
+      },
     });
   } catch (error) {
     next(error);
@@ -66,7 +124,7 @@ router.get('/', async (_req, res, next) => {
 });
 
 // GET /api/categories/:idOrSlug - Get single category
-router.get('/:idOrSlug', async (req, res, next) => {
+router.get('/:idOrSlug', optionalAuth, async (req, res, next) => {
   try {
     const { idOrSlug } = req.params;
 
@@ -98,7 +156,8 @@ router.get('/:idOrSlug', async (req, res, next) => {
       },
     });
 
-    if (!category) {
+    const access = await getCategoryAccess((req as AuthRequest).user);
+    if (!category || !access.canAccess(category.id)) {
       res.status(404).json({
         success: false,
         error: {
@@ -111,30 +170,116 @@ router.get('/:idOrSlug', async (req, res, next) => {
 
     res.json({
       success: true,
-      data: { category },
+      data: {
+        category: {
+          ...category,
+          children: category.children.filter((child) => access.canAccess(child.id)),
+        },
+      },
     });
   } catch (error) {
     next(error);
   }
 });
 
-// POST /api/categories - Create category (Admin only)
-router.post('/', requireAuth, validate(createCategorySchema), async (req: AuthRequest, res: Response, next) => {
+// GET /api/categories/:idOrSlug/export?format=md|html|pdf - Zip of the published articles in a category and its subcategories
+router.get('/:idOrSlug/export', optionalAuth, validate(exportCategorySchema), async (req, res, next) => {
   try {
-    if (req.user!.role !== 'ADMIN') {
-      res.status(403).json({
+    const { idOrSlug } = req.params;
+    const format = (req.query.format as ExportFormat | undefined) || 'md';
+    const user = (req as AuthRequest).user;
+
+    const category = await prisma.category.findFirst({
+      where: {
+        OR: [{ id: idOrSlug }, { slug: idOrSlug }],
+      },
+      select: { id: true, slug: true },
+    });
+
+    const access = await getCategoryAccess(user);
+    if (!category || !access.canAccess(category.id)) {
+      res.status(404).json({
         success: false,
         error: {
-          code: 'FORBIDDEN',
-          message: 'Only admins can create categories',
+          code: 'CATEGORY_NOT_FOUND',
+          message: 'Category not found',
         },
       });
       return;
     }
 
-    const { name, description, parentId } = req.body;
+    // Each subcategory becomes a folder; hidden ones are left out along with everything under them
+    const folders = new Map([[category.id, category.slug]]);
+    let parentIds = [category.id];
+    while (parentIds.length > 0) {
+      const children = await prisma.category.findMany({
+        where: { parentId: { in: parentIds } },
+        select: { id: true, slug: true, parentId: true },
+      });
+      const visible = children.filter(
+        (child) => access.canAccess(child.id) && !folders.has(child.id)
+      );
+      for (const child of visible) {
+        folders.set(child.id, `${folders.get(child.parentId!)}/${child.slug}`);
+      }
+      parentIds = visible.map((child) => child.id);
+    }
+
+    const articles = await prisma.article.findMany({
+      where: {
+        categoryId: { in: Array.from(folders.keys()) },
+        status: 'PUBLISHED',
+      },
+      orderBy: { title: 'asc' },
+      take: MAX_EXPORT_ARTICLES + 1,
+      select: {
+        ...exportArticleSelect,
+        categoryId: true,
+      },
+    });
+
+    if (articles.length > MAX_EXPORT_ARTICLES) {
+      res.status(400).json({
+        success: false,
+        error: {
+          code: 'EXPORT_TOO_LARGE',
+          message: `Exports are limited to ${MAX_EXPORT_ARTICLES} articles. Export the subcategories one at a time.`,
+        },
+      });
+      return;
+    }
+
+    const archive = await exportArchive(
+      articles.map((article) => ({ folder: folders.get(article.categoryId!)!, article })),
+      format,
+      { includeAuthorEmail: !!user && (await hasPermission(user, 'user:manage')) }
+    );
+
+    res.setHeader('Content-Type', 'application/zip');
+    res.setHeader('Content-Disposition', `attachment; filename="${category.slug}-${format}.zip"`);
+    res.send(archive);
+  } catch (error) {
+    next(error);
+  }
+});
+
+// POST /api/categories - Create category (category:create)
+router.post('/', requireAuth, requirePermission('category:create'), validate(createCategorySchema), async (req: AuthRequest, res: Response, next) => {
+  try {
+    const { name, description, parentId, visibility } = req.body;
     const slug = slugify(name);
 
+    if (parentId && !(await getCategoryAccess(req.user)).canAccess(parentId)) {
+      res.status(404).json({
+        success: false,
+        error: {
+          code: 'CATEGORY_NOT_FOUND',
+          message: 'Parent category not found',
+        },
+      });
+      return;
+    }
+
     // Check if slug already exists
     const existing = await prisma.category.findUnique({ where: { slug } });
     if (existing) {
@@ -154,6 +299,7 @@ router.post('/', requireAuth, validate(createCategorySchema), async (req: AuthRe
         slug,
         description,
         parentId,
+        visibility,
       },
       include: {
         parent: true,
@@ -169,25 +315,15 @@ router.post('/', requireAuth, validate(createCategorySchema), async (req: AuthRe
   }
 });
 
-// PUT /api/categories/:id - Update category (Admin only)
-router.put('/:id', requireAuth, validate(updateCategorySchema), async (req: AuthRequest, res: Response, next) => {
+// PUT /api/categories/:id - Update category (category:edit)
+router.put('/:id', requireAuth, requirePermission('category:edit'), validate(updateCategorySchema), async (req: AuthRequest, res: Response, next) => {
   try {
-    if (req.user!.role !== 'ADMIN') {
-      res.status(403).json({
-        success: false,
-        error: {
-          code: 'FORBIDDEN',
-          message: 'Only admins can update categories',
-        },
-      });
-      return;
-    }
-
     const { id } = req.params;
-    const { name, description, parentId } = req.body;
+    const { name, description, parentId, visibility } = req.body;
 
+    const access = await getCategoryAccess(req.user);
     const category = await prisma.category.findUnique({ where: { id } });
-    if (!category) {
+    if (!category || !access.canAccess(id) || (parentId && !access.canAccess(parentId))) {
       res.status(404).json({
         success: false,
         error: {
@@ -206,6 +342,7 @@ router.put('/:id', requireAuth, validate(updateCategorySchema), async (req: Auth
     }
     if (description !== undefined) updateData.description = description;
     if (parentId !== undefined) updateData.parentId = parentId;
+    if (visibility) updateData.visibility = visibility;
 
     const updatedCategory = await prisma.category.update({
       where: { id },
@@ -225,39 +362,187 @@ router.put('/:id', requireAuth, validate(updateCategorySchema), async (req: Auth
   }
 });
 
-// DELETE /api/categories/:id - Delete category (Admin only)
-router.delete('/:id', requireAuth, async (req: AuthRequest, res: Response, next) => {
+// DELETE /api/categories/:id - Delete category (category:delete)
+router.delete('/:id', requireAuth, requirePermission('category:delete'), async (req: AuthRequest, res: Response, next) => {
   try {
-    if (req.user!.role !== 'ADMIN') {
-      res.status(403).json({
+    const { id } = req.params;
+
+    const category = await prisma.category.findUnique({ where: { id } });
+    if (!category || !(await getCategoryAccess(req.user)).canAccess(id)) {
+      res.status(404).json({
         success: false,
         error: {
-          code: 'FORBIDDEN',
-          message: 'Only admins can delete categories',
+          code: 'CATEGORY_NOT_FOUND',
+          message: 'Category not found',
         },
       });
       return;
     }
 
-    const { id } = req.params;
+    // Deleting detaches children and content (SetNull), which would quietly make
+    // whatever this category was protecting public. A PUBLIC category still
+    // protects its content when an ancestor does not let everyone in.
+    if ((await getEffectiveVisibility(id)) !== 'PUBLIC') {
+      const [articles, documents, children] = await Promise.all([
+        prisma.article.count({ where: { categoryId: id } }),
+        prisma.document.count({ where: { categoryId: id } }),
+        prisma.category.count({ where: { parentId: id } }),
+      ]);
 
-    const category = await prisma.category.findUnique({ where: { id } });
-    if (!category) {
+      if (articles + documents + children > 0) {
+        res.status(400).json({
+          success: false,
+          error: {
+            code: 'CATEGORY_NOT_EMPTY',
+            message: 'Move or delete everything in a non-public category before deleting it',
+          },
+        });
+        return;
+      }
+    }
+
+    await prisma.category.delete({ where: { id } });
+
+    await recordAudit(req, {
+      action: 'category.deleted',
+      targetType: 'category',
+      targetId: id,
+      before: {
+        name: category.name,
+        slug: category.slug,
+        visibility: category.visibility,
+        parentId: category.parentId,
+      },
+    });
+
+    res.json({
+      success: true,
+      data: { message: 'Category deleted successfully' },
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// GET /api/categories/:id/grants - Users and groups let into this category (category:edit)
+router.get('/:id/grants', requireAuth, requirePermission('category:edit'), async (req: AuthRequest, res: Response, next) => {
+  try {
+    const category = await findManagedCategory(req, res);
+    if (!category) return;
+
+    const grants = await prisma.categoryGrant.findMany({
+      where: { categoryId: category.id },
+      include: grantInclude,
+      orderBy: { createdAt: 'asc' },
+    });
+
+    res.json({
+      success: true,
+      data: { grants },
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// POST /api/categories/:id/grants - Grant a user or a group access (category:edit)
+router.post('/:id/grants', requireAuth, requirePermission('category:edit'), validate(createGrantSchema), async (req: AuthRequest, res: Response, next) => {
+  try {
+    const category = await findManagedCategory(req, res);
+    if (!category) return;
+
+    const { email, groupId } = req.body as { email?: string; groupId?: string };
+
+    if (groupId) {
+      const group = await prisma.group.findUnique({ where: { id: groupId }, select: { id: true } });
+      if (!group) {
+        res.status(404).json({
+          success: false,
+          error: {
+            code: 'GROUP_NOT_FOUND',
+            message: 'Group not found',
+          },
+        });
+        return;
+      }
+    }
+
+    const user = email
+      ? await prisma.user.findUnique({ where: { email }, select: { id: true } })
+      : null;
+    if (email && !user) {
       res.status(404).json({
         success: false,
         error: {
-          code: 'CATEGORY_NOT_FOUND',
-          message: 'Category not found',
+          code: 'USER_NOT_FOUND',
+          message: 'No user with that email address',
         },
       });
       return;
     }
 
-    await prisma.category.delete({ where: { id } });
+    const grant = user
+      ? await prisma.categoryGrant.upsert({
+          where: { categoryId_userId: { categoryId: category.id, userId: user.id } },
+          update: {},
+          create: { categoryId: category.id, userId: user.id },
+          include: grantInclude,
+        })
+      : await prisma.categoryGrant.upsert({
+          where: { categoryId_groupId: { categoryId: category.id, groupId: groupId! } },
+          update: {},
+          create: { categoryId: category.id, groupId },
+          include: grantInclude,
+        });
+
+    await recordAudit(req, {
+      action: 'category.grant_added',
+      targetType: 'category',
+      targetId: category.id,
+      after: { userId: grant.userId, groupId: grant.groupId },
+    });
+
+    res.status(201).json({
+      success: true,
+      data: { grant },
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// DELETE /api/categories/:id/grants/:grantId - Revoke a user's or group's access (category:edit)
+router.delete('/:id/grants/:grantId', requireAuth, requirePermission('category:edit'), async (req: AuthRequest, res: Response, next) => {
+  try {
+    const category = await findManagedCategory(req, res);
+    if (!category) return;
+
+    const grant = await prisma.categoryGrant.findFirst({
+      where: { id: req.params.grantId, categoryId: category.id },
+    });
+    if (!grant) {
+      res.status(404).json({
+        success: false,
+        error: {
+          code: 'GRANT_NOT_FOUND',
+          message: 'Grant not found',
+        },
+      });
+      return;
+    }
+
+    await prisma.categoryGrant.delete({ where: { id: grant.id } });
+
+    await recordAudit(req, {
+      action: 'category.grant_removed',
+      targetType: 'category',
+      targetId: category.id,
+      before: { userId: grant.userId, groupId: grant.groupId },
+    });
 
     res.json({
       success: true,
-      data: { message: 'Category deleted successfully' },
+      data: { message: 'Access revoked' },
     });
   } catch (error) {
     next(error);
@@ -3,7 +3,15 @@ import type { Router as RouterType } from 'express';
 import { z } from 'zod';
 import { prisma } from '@kbase/database';
 import { validate } from '../middleware/validate';
-import { requireAuth, AuthRequest } from '../middleware/auth';
+import {
+  requireAuth,
+  requireVerifiedEmail,
+  requirePermission,
+  optionalAuth,
+  AuthRequest,
+} from '../middleware/auth';
+import { isContentHidden } from '../lib/category-access';
+import { hasPermission } from '../lib/permissions';
 
 const router: RouterType = Router();
 
@@ -35,7 +43,7 @@ const listCommentsSchema = z.object({
 });
 
 // GET /api/comments - List comments for content
-router.get('/', validate(listCommentsSchema), async (req, res, next) => {
+router.get('/', optionalAuth, validate(listCommentsSchema), async (req, res, next) => {
   try {
     const page = Number(req.query.page) || 1;
     const limit = Number(req.query.limit) || 20;
@@ -44,6 +52,17 @@ router.get('/', validate(listCommentsSchema), async (req, res, next) => {
       contentId: string;
     };
 
+    if (await isContentHidden((req as AuthRequest).user, contentType, contentId)) {
+      res.status(404).json({
+        success: false,
+        error: {
+          code: contentType === 'ARTICLE' ? 'ARTICLE_NOT_FOUND' : 'DOCUMENT_NOT_FOUND',
+          message: contentType === 'ARTICLE' ? 'Article not found' : 'Document not found',
+        },
+      });
+      return;
+    }
+
     const skip = (page - 1) * limit;
 
     const where: Record<string, unknown> = {
@@ -104,14 +123,14 @@ router.get('/', validate(listCommentsSchema), async (req, res, next) => {
 });
 
 // POST /api/comments - Create comment
-router.post('/', requireAuth, validate(createCommentSchema), async (req: AuthRequest, res: Response, next) => {
+router.post('/', requireAuth, requireVerifiedEmail, requirePermission('comment:create'), validate(createCommentSchema), async (req: AuthRequest, res: Response, next) => {
   try {
     const { content, contentType, contentId, parentId } = req.body;
 
     // Verify content exists
     if (contentType === 'ARTICLE') {
       const article = await prisma.article.findUnique({ where: { id: contentId } });
-      if (!article) {
+      if (!article || (await isContentHidden(req.user, 'ARTICLE', contentId))) {
         res.status(404).json({
           success: false,
           error: {
@@ -123,7 +142,7 @@ router.post('/', requireAuth, validate(createCommentSchema), async (req: AuthReq
       }
     } else {
       const document = await prisma.document.findUnique({ where: { id: contentId } });
-      if (!document) {
+      if (!document || (await isContentHidden(req.user, 'DOCUMENT', contentId))) {
         res.status(404).json({
           success: false,
           error: {
@@ -180,7 +199,7 @@ router.post('/', requireAuth, validate(createCommentSchema), async (req: AuthReq
 });
 
 // PUT /api/comments/:id - Update comment
-router.put('/:id', requireAuth, validate(updateCommentSchema), async (req: AuthRequest, res: Response, next) => {
+router.put('/:id', requireAuth, requireVerifiedEmail, validate(updateCommentSchema), async (req: AuthRequest, res: Response, next) => {
   try {
     const { id } = req.params;
     const { content } = req.body;
@@ -234,7 +253,7 @@ router.put('/:id', requireAuth, validate(updateCommentSchema), async (req: AuthR
 });
 
 // DELETE /api/comments/:id - Delete comment
-router.delete('/:id', requireAuth, async (req: AuthRequest, res: Response, next) => {
+router.delete('/:id', requireAuth, requireVerifiedEmail, async (req: AuthRequest, res: Response, next) => {
   try {
     const { id } = req.params;
 
@@ -251,11 +270,10 @@ router.delete('/:id', requireAuth, async (req: AuthRequest, res: Response, next)
       return;
     }
 
-    // Author or admin can delete
+    // Authors can delete their own comments; moderators can delete any
     const isOwner = comment.authorId === req.user!.userId;
-    const isAdmin = req.user!.role === 'ADMIN';
 
-    if (!isOwner && !isAdmin) {
+    if (!isOwner && !(await hasPermission(req.user!, 'comment:moderate'))) {
       res.status(403).json({
         success: false,
         error: {
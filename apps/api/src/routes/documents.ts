@@ -5,18 +5,56 @@ import multer, { FileFilterCallback } from 'multer';
 import { prisma } from '@kbase/database';
 import { slugify } from '@kbase/utils';
 import { validate } from '../middleware/validate';
-import { requireAuth, AuthRequest } from '../middleware/auth';
+import { requireAuth, requireVerifiedEmail, optionalAuth, AuthRequest } from '../middleware/auth';
 import {
   uploadFile,
   deleteFile,
   getSignedDownloadUrl,
   generateFileKey,
+  getFileKeyFromUrl,
   ALLOWED_MIME_TYPES,
   MAX_FILE_SIZE,
 } from '../lib/storage';
+import { enqueueJob } from '../lib/jobs/queue';
+import { canPublish, closePendingReviews } from '../lib/review';
+import {
+  canEditContent,
+  canViewContent,
+  hasPermission,
+  viewableContentWhere,
+} from '../lib/permissions';
+import { getCategoryAccess, categoryAccessWhere } from '../lib/category-access';
+import { scheduleFields, validateSchedule, parseScheduleDate } from '../lib/scheduler';
+import { ensureBaselineVersion } from '../lib/document-versions';
+import { recordAudit } from '../lib/audit';
 
 const router: RouterType = Router();
 
+// Same rule as PUT /:id. Documents in a category the user cannot see are off limits as well.
+async function canEditDocument(
+  document: { authorId: string; categoryId: string | null },
+  user: NonNullable<AuthRequest['user']>
+) {
+  if (!(await getCategoryAccess(user)).canAccess(document.categoryId)) return false;
+  return canEditContent('DOCUMENT', document, user);
+}
+
+// Filing a document under a category the user cannot see is treated as a missing category
+async function rejectHiddenCategory(req: AuthRequest, res: Response, categoryId?: string | null) {
+  if (!categoryId || (await getCategoryAccess(req.user)).canAccess(categoryId)) return false;
+
+  res.status(404).json({
+    success: false,
+    error: {
+      code: 'CATEGORY_NOT_FOUND',
+      message: 'Category not found',
+    },
+  });
+  return true;
+}
+
+const PREVIEW_LENGTH = 2000;
+
 // Extend AuthRequest to include file from multer
 interface AuthRequestWithFile extends AuthRequest {
   file?: Express.Multer.File;
@@ -37,13 +75,35 @@ const upload = multer({
   },
 });
 
+// Multipart fields arrive as strings, so only the status and schedule are checked here
+const uploadDocumentSchema = z.object({
+  body: z
+    .object({
+      status: z.enum(['DRAFT', 'PUBLISHED']).optional(),
+      ...scheduleFields,
+    })
+    .superRefine(validateSchedule),
+});
+
 const updateDocumentSchema = z.object({
+  body: z
+    .object({
+      title: z.string().min(1).max(200).optional(),
+      description: z.string().max(1000).optional(),
+      categoryId: z.string().nullable().optional(),
+      tags: z.array(z.string()).optional(),
+      status: z.enum(['DRAFT', 'PUBLISHED', 'ARCHIVED']).optional(),
+      ...scheduleFields,
+    })
+    .superRefine(validateSchedule),
+  params: z.object({
+    id: z.string(),
+  }),
+});
+
+const uploadVersionSchema = z.object({
   body: z.object({
-    title: z.string().min(1).max(200).optional(),
-    description: z.string().max(1000).optional(),
-    categoryId: z.string().nullable().optional(),
-    tags: z.array(z.string()).optional(),
-    status: z.enum(['DRAFT', 'PUBLISHED', 'ARCHIVED']).optional(),
+    changeNote: z.string().max(500).optional(),
   }),
   params: z.object({
     id: z.string(),
@@ -54,35 +114,32 @@ const listDocumentsSchema = z.object({
   query: z.object({
     page: z.coerce.number().min(1).default(1).optional(),
     limit: z.coerce.number().min(1).max(100).default(10).optional(),
-    status: z.enum(['DRAFT', 'PUBLISHED', 'ARCHIVED']).optional(),
+    status: z.enum(['DRAFT', 'IN_REVIEW', 'PUBLISHED', 'ARCHIVED']).optional(),
     categoryId: z.string().optional(),
     authorId: z.string().optional(),
     search: z.string().optional(),
+    scheduled: z.enum(['true', 'false']).optional(),
   }),
 });
 
 // GET /api/documents - List documents
-router.get('/', validate(listDocumentsSchema), async (req, res, next) => {
+router.get('/', optionalAuth, validate(listDocumentsSchema), async (req, res, next) => {
   try {
     const page = Number(req.query.page) || 1;
     const limit = Number(req.query.limit) || 10;
-    const { status, categoryId, authorId, search } = req.query as {
+    const { status, categoryId, authorId, search, scheduled } = req.query as {
       status?: string;
       categoryId?: string;
       authorId?: string;
       search?: string;
+      scheduled?: 'true' | 'false';
     };
 
     const skip = (page - 1) * limit;
     const where: Record<string, unknown> = {};
 
-    // Only show published documents to non-authenticated users
     const authReq = req as AuthRequest;
-    if (!authReq.user) {
-      where.status = 'PUBLISHED';
-    } else if (status) {
-      where.status = status;
-    }
+    if (status) where.status = status;
 
     if (categoryId) where.categoryId = categoryId;
     if (authorId) where.authorId = authorId;
@@ -92,13 +149,22 @@ router.get('/', validate(listDocumentsSchema), async (req, res, next) => {
         { description: { contains: search, mode: 'insensitive' } },
       ];
     }
+    // Upcoming releases, soonest first
+    if (scheduled === 'true') where.scheduledPublishAt = { not: null };
+    if (scheduled === 'false') where.scheduledPublishAt = null;
+
+    // Unpublished documents are only listed for those allowed to open them
+    where.AND = [
+      categoryAccessWhere(await getCategoryAccess(authReq.user)),
+      await viewableContentWhere('DOCUMENT', authReq.user),
+    ];
 
     const [documents, total] = await Promise.all([
       prisma.document.findMany({
         where,
         skip,
         take: limit,
-        orderBy: { createdAt: 'desc' },
+        orderBy: scheduled === 'true' ? { scheduledPublishAt: 'asc' } : { createdAt: 'desc' },
         select: {
           id: true,
           title: true,
@@ -106,8 +172,12 @@ router.get('/', validate(listDocumentsSchema), async (req, res, next) => {
           fileName: true,
           fileSize: true,
           mimeType: true,
+          pageCount: true,
+          wordCount: true,
           status: true,
           downloadsCount: true,
+          scheduledPublishAt: true,
+          archiveAt: true,
           createdAt: true,
           author: {
             select: {
@@ -166,7 +236,7 @@ router.get('/', validate(listDocumentsSchema), async (req, res, next) => {
 });
 
 // GET /api/documents/:id - Get single document
-router.get('/:id', async (req, res, next) => {
+router.get('/:id', optionalAuth, async (req, res, next) => {
   try {
     const { id } = req.params;
 
@@ -218,9 +288,12 @@ router.get('/:id', async (req, res, next) => {
       return;
     }
 
-    // Check if non-authenticated user can view non-published document
+    // Drafts and the like only for those allowed to see them, and nothing in hidden categories
     const authReq = req as AuthRequest;
-    if (document.status !== 'PUBLISHED' && !authReq.user) {
+    if (
+      !(await canViewContent('DOCUMENT', document, authReq.user)) ||
+      !(await getCategoryAccess(authReq.user)).canAccess(document.categoryId)
+    ) {
       res.status(404).json({
         success: false,
         error: {
@@ -231,12 +304,22 @@ router.get('/:id', async (req, res, next) => {
       return;
     }
 
+    // Send a short preview instead of the full extracted text
+    const { extractedText, ...documentData } = document;
+
+    // The bucket is private, so the thumbnail is served through a signed URL like downloads
+    const thumbnailUrl = document.thumbnailUrl
+      ? await getSignedDownloadUrl(getFileKeyFromUrl(document.thumbnailUrl))
+      : null;
+
     res.json({
       success: true,
       data: {
         document: {
-          ...document,
+          ...documentData,
+          thumbnailUrl,
           tags: document.tags.map((t) => t.tag),
+          preview: extractedText ? extractedText.slice(0, PREVIEW_LENGTH) : null,
         },
       },
     });
@@ -246,7 +329,7 @@ router.get('/:id', async (req, res, next) => {
 });
 
 // GET /api/documents/:id/download - Get download URL
-router.get('/:id/download', async (req, res, next) => {
+router.get('/:id/download', optionalAuth, async (req, res, next) => {
   try {
     const { id } = req.params;
 
@@ -265,9 +348,12 @@ router.get('/:id/download', async (req, res, next) => {
       return;
     }
 
-    // Check if non-authenticated user can download non-published document
+    // Drafts and the like only for those allowed to see them, and nothing in hidden categories
     const authReq = req as AuthRequest;
-    if (document.status !== 'PUBLISHED' && !authReq.user) {
+    if (
+      !(await canViewContent('DOCUMENT', document, authReq.user)) ||
+      !(await getCategoryAccess(authReq.user)).canAccess(document.categoryId)
+    ) {
       res.status(404).json({
         success: false,
         error: {
@@ -278,11 +364,7 @@ router.get('/:id/download', async (req, res, next) => {
       return;
     }
 
-    // Extract key from fileUrl
-    const urlParts = document.fileUrl.split('/');
-    const key = urlParts.slice(-3).join('/'); // documents/userId/filename
-
-    const downloadUrl = await getSignedDownloadUrl(key);
+    const downloadUrl = await getSignedDownloadUrl(getFileKeyFromUrl(document.fileUrl));
 
     // Increment download count
     await prisma.document.update({
@@ -303,10 +385,9 @@ router.get('/:id/download', async (req, res, next) => {
 });
 
 // POST /api/documents/upload - Upload document
-router.post('/upload', requireAuth, upload.single('file'), async (req: AuthRequestWithFile, res: Response, next) => {
+router.post('/upload', requireAuth, requireVerifiedEmail, upload.single('file'), validate(uploadDocumentSchema), async (req: AuthRequestWithFile, res: Response, next) => {
   try {
-    // Check if user has permission to upload documents
-    if (req.user!.role === 'VIEWER') {
+    if (!(await hasPermission(req.user!, 'document:upload'))) {
       res.status(403).json({
         success: false,
         error: {
@@ -328,9 +409,27 @@ router.post('/upload', requireAuth, upload.single('file'), async (req: AuthReque
       return;
     }
 
-    const { title, description, categoryId, tags, status } = req.body;
+    const { title, description, categoryId, tags, status, scheduledPublishAt, archiveAt } =
+      req.body;
     const file = req.file;
 
+    // New documents have no reviewer yet, so publishing straight away or scheduling needs document:publish
+    if (
+      (status === 'PUBLISHED' || scheduledPublishAt) &&
+      !(await hasPermission(req.user!, 'document:publish'))
+    ) {
+      res.status(403).json({
+        success: false,
+        error: {
+          code: 'REVIEW_REQUIRED',
+          message: 'Documents must be approved by a reviewer before they are published',
+        },
+      });
+      return;
+    }
+
+    if (await rejectHiddenCategory(req, res, categoryId)) return;
+
     // Generate file key and upload to S3
     const fileKey = generateFileKey(req.user!.userId, file.originalname);
     const fileUrl = await uploadFile(fileKey, file.buffer, file.mimetype);
@@ -347,6 +446,8 @@ router.post('/upload', requireAuth, upload.single('file'), async (req: AuthReque
         authorId: req.user!.userId,
         categoryId,
         status: status || 'DRAFT',
+        scheduledPublishAt: parseScheduleDate(scheduledPublishAt),
+        archiveAt: parseScheduleDate(archiveAt),
       },
       include: {
         author: {
@@ -360,6 +461,18 @@ router.post('/upload', requireAuth, upload.single('file'), async (req: AuthReque
       },
     });
 
+    await prisma.documentVersion.create({
+      data: {
+        documentId: document.id,
+        version: 1,
+        fileName: file.originalname,
+        fileUrl,
+        fileSize: file.size,
+        mimeType: file.mimetype,
+        uploadedById: req.user!.userId,
+      },
+    });
+
     // Handle tags
     if (tags) {
       const tagList = typeof tags === 'string' ? JSON.parse(tags) : tags;
@@ -380,6 +493,9 @@ router.post('/upload', requireAuth, upload.single('file'), async (req: AuthReque
       }
     }
 
+    // Text extraction, thumbnails and indexing run in the background worker
+    await enqueueJob('document.extract-text', { documentId: document.id });
+
     // Fetch document with tags
     const documentWithTags = await prisma.document.findUnique({
       where: { id: document.id },
@@ -414,11 +530,10 @@ router.post('/upload', requireAuth, upload.single('file'), async (req: AuthReque
   }
 });
 
-// PUT /api/documents/:id - Update document metadata
-router.put('/:id', requireAuth, validate(updateDocumentSchema), async (req: AuthRequest, res: Response, next) => {
+// GET /api/documents/:id/versions - List file versions
+router.get('/:id/versions', optionalAuth, async (req, res, next) => {
   try {
     const { id } = req.params;
-    const { title, description, categoryId, tags, status } = req.body;
 
     const document = await prisma.document.findUnique({
       where: { id },
@@ -435,11 +550,258 @@ router.put('/:id', requireAuth, validate(updateDocumentSchema), async (req: Auth
       return;
     }
 
-    // Check permissions
-    const isOwner = document.authorId === req.user!.userId;
-    const isAdmin = req.user!.role === 'ADMIN';
+    // Drafts and the like only for those allowed to see them, and nothing in hidden categories
+    const authReq = req as AuthRequest;
+    if (
+      !(await canViewContent('DOCUMENT', document, authReq.user)) ||
+      !(await getCategoryAccess(authReq.user)).canAccess(document.categoryId)
+    ) {
+      res.status(404).json({
+        success: false,
+        error: {
+          code: 'DOCUMENT_NOT_FOUND',
+          message: 'Document not found',
+        },
+      });
+      return;
+    }
+
+    const versions = await prisma.documentVersion.findMany({
+      where: { documentId: id },
+      select: {
+        id: true,
+        version: true,
+        fileName: true,
+        fileSize: true,
+        mimeType: true,
+        changeNote: true,
+        createdAt: true,
+        uploadedBy: {
+          select: {
+            id: true,
+            name: true,
+            avatarUrl: true,
+          },
+        },
+      },
+      orderBy: { version: 'desc' },
+    });
+
+    res.json({
+      success: true,
+      data: {
+        versions,
+        currentVersion: document.currentVersion,
+      },
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// GET /api/documents/:id/versions/:versionId/download - Get download URL for a specific version
+router.get('/:id/versions/:versionId/download', optionalAuth, async (req, res, next) => {
+  try {
+    const { id, versionId } = req.params;
+
+    const document = await prisma.document.findUnique({
+      where: { id },
+    });
+
+    if (!document) {
+      res.status(404).json({
+        success: false,
+        error: {
+          code: 'DOCUMENT_NOT_FOUND',
+          message: 'Document not found',
+        },
+      });
+      return;
+    }
+
+    // Drafts and the like only for those allowed to see them, and nothing in hidden categories
+    const authReq = req as AuthRequest;
+    if (
+      !(await canViewContent('DOCUMENT', document, authReq.user)) ||
+      !(await getCategoryAccess(authReq.user)).canAccess(document.categoryId)
+    ) {
+      res.status(404).json({
+        success: false,
+        error: {
+          code: 'DOCUMENT_NOT_FOUND',
+          message: 'Document not found',
+        },
+      });
+      return;
+    }
+
+    const version = await prisma.documentVersion.findFirst({
+      where: { id: versionId, documentId: id },
+    });
+
+    if (!version) {
+      res.status(404).json({
+        success: false,
+        error: {
+          code: 'VERSION_NOT_FOUND',
+          message: 'Version not found',
+        },
+      });
+      return;
+    }
+
+    const downloadUrl = await getSignedDownloadUrl(getFileKeyFromUrl(version.fileUrl));
+
+    // Downloads of older versions count towards the document total
+    await prisma.document.update({
+      where: { id },
+      data: { downloadsCount: { increment: 1 } },
+    });
+
+    res.json({
+      success: true,
+      data: {
+        downloadUrl,
+        fileName: version.fileName,
+        version: version.version,
+      },
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// POST /api/documents/:id/versions - Upload a new version of the file
+router.post(
+  '/:id/versions',
+  requireAuth,
+  requireVerifiedEmail,
+  upload.single('file'),
+  validate(uploadVersionSchema),
+  async (req: AuthRequestWithFile, res: Response, next) => {
+    try {
+      const { id } = req.params;
+      const { changeNote } = req.body;
+
+      const document = await prisma.document.findUnique({
+        where: { id },
+      });
+
+      if (!document) {
+        res.status(404).json({
+          success: false,
+          error: {
+            code: 'DOCUMENT_NOT_FOUND',
+            message: 'Document not found',
+          },
+        });
+        return;
+      }
+
+      // Same rules as editing metadata
+      if (!(await canEditDocument(document, req.user!))) {
+        res.status(403).json({
+          success: false,
+          error: {
+            code: 'FORBIDDEN',
+            message: 'You do not have permission to edit this document',
+          },
+        });
+        return;
+      }
 
-    if (!isOwner && !isAdmin) {
+      if (!req.file) {
+        res.status(400).json({
+          success: false,
+          error: {
+            code: 'NO_FILE',
+            message: 'No file uploaded',
+          },
+        });
+        return;
+      }
+
+      const file = req.file;
+
+      await ensureBaselineVersion(document);
+
+      // Earlier versions keep their own S3 objects, so the new file always gets a fresh key
+      const fileKey = generateFileKey(req.user!.userId, file.originalname);
+      const fileUrl = await uploadFile(fileKey, file.buffer, file.mimetype);
+
+      const version = await prisma.$transaction(async (tx) => {
+        const latest = await tx.documentVersion.findFirst({
+          where: { documentId: id },
+          orderBy: { version: 'desc' },
+        });
+        const nextVersion = (latest?.version ?? 0) + 1;
+
+        const created = await tx.documentVersion.create({
+          data: {
+            documentId: id,
+            version: nextVersion,
+            fileName: file.originalname,
+            fileUrl,
+            fileSize: file.size,
+            mimeType: file.mimetype,
+            changeNote,
+            uploadedById: req.user!.userId,
+          },
+        });
+
+        // The document row always mirrors the latest version; extracted text belongs to the old file
+        await tx.document.update({
+          where: { id },
+          data: {
+            fileName: file.originalname,
+            fileUrl,
+            fileSize: file.size,
+            mimeType: file.mimetype,
+            currentVersion: nextVersion,
+            extractedText: null,
+            pageCount: null,
+            wordCount: null,
+          },
+        });
+
+        return created;
+      });
+
+      await enqueueJob('document.extract-text', { documentId: id });
+
+      res.status(201).json({
+        success: true,
+        data: { version },
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+// PUT /api/documents/:id - Update document metadata
+router.put('/:id', requireAuth, requireVerifiedEmail, validate(updateDocumentSchema), async (req: AuthRequest, res: Response, next) => {
+  try {
+    const { id } = req.params;
+    const { title, description, categoryId, tags, status, scheduledPublishAt, archiveAt } =
+      req.body;
+
+    const document = await prisma.document.findUnique({
+      where: { id },
+    });
+
+    if (!document) {
+      res.status(404).json({
+        success: false,
+        error: {
+          code: 'DOCUMENT_NOT_FOUND',
+          message: 'Document not found',
+        },
+      });
+      return;
+    }
+
+    if (!(await canEditDocument(document, req.user!))) {
       res.status(403).json({
         success: false,
         error: {
@@ -450,13 +812,17 @@ router.put('/:id', requireAuth, validate(updateDocumentSchema), async (req: Auth
       return;
     }
 
-    // Viewers cannot edit
-    if (req.user!.role === 'VIEWER') {
+    if (await rejectHiddenCategory(req, res, categoryId)) return;
+
+    // Scheduling a publish counts as publishing, so it needs the same rights
+    const isPublishing =
+      (status === 'PUBLISHED' && document.status !== 'PUBLISHED') || !!scheduledPublishAt;
+    if (isPublishing && !(await canPublish(req.user!, 'DOCUMENT', id))) {
       res.status(403).json({
         success: false,
         error: {
-          code: 'FORBIDDEN',
-          message: 'You do not have permission to edit documents',
+          code: 'REVIEW_REQUIRED',
+          message: 'Documents must be approved by a reviewer before they are published',
         },
       });
       return;
@@ -468,6 +834,10 @@ router.put('/:id', requireAuth, validate(updateDocumentSchema), async (req: Auth
     if (description !== undefined) updateData.description = description;
     if (categoryId !== undefined) updateData.categoryId = categoryId;
     if (status !== undefined) updateData.status = status;
+    if (scheduledPublishAt !== undefined) {
+      updateData.scheduledPublishAt = parseScheduleDate(scheduledPublishAt);
+    }
+    if (archiveAt !== undefined) updateData.archiveAt = parseScheduleDate(archiveAt);
 
     await prisma.document.update({
       where: { id },
@@ -499,6 +869,13 @@ router.put('/:id', requireAuth, validate(updateDocumentSchema), async (req: Auth
       }
     }
 
+    // Settle an open review when the status moves on outside the review endpoints
+    if (status && document.status === 'IN_REVIEW' && status !== 'IN_REVIEW') {
+      await closePendingReviews('DOCUMENT', id, status === 'PUBLISHED' ? 'APPROVED' : 'CANCELLED');
+    }
+
+    await enqueueJob('search.sync', { type: 'document', id });
+
     // Fetch updated document with tags
     const updatedDocument = await prisma.document.findUnique({
       where: { id },
@@ -534,7 +911,7 @@ router.put('/:id', requireAuth, validate(updateDocumentSchema), async (req: Auth
 });
 
 // DELETE /api/documents/:id - Delete document
-router.delete('/:id', requireAuth, async (req: AuthRequest, res: Response, next) => {
+router.delete('/:id', requireAuth, requireVerifiedEmail, async (req: AuthRequest, res: Response, next) => {
   try {
     const { id } = req.params;
 
@@ -542,7 +919,7 @@ router.delete('/:id', requireAuth, async (req: AuthRequest, res: Response, next)
       where: { id },
     });
 
-    if (!document) {
+    if (!document || !(await getCategoryAccess(req.user)).canAccess(document.categoryId)) {
       res.status(404).json({
         success: false,
         error: {
@@ -553,28 +930,50 @@ router.delete('/:id', requireAuth, async (req: AuthRequest, res: Response, next)
       return;
     }
 
-    // Only admins can delete documents
-    if (req.user!.role !== 'ADMIN') {
+    if (!(await hasPermission(req.user!, 'document:delete'))) {
       res.status(403).json({
         success: false,
         error: {
           code: 'FORBIDDEN',
-          message: 'Only admins can delete documents',
+          message: 'You do not have permission to delete documents',
         },
       });
       return;
     }
 
-    // Delete file from S3
-    const urlParts = document.fileUrl.split('/');
-    const key = urlParts.slice(-3).join('/');
-    await deleteFile(key);
+    // Delete every version's file and the thumbnail from S3
+    const versions = await prisma.documentVersion.findMany({
+      where: { documentId: id },
+      select: { fileUrl: true },
+    });
+    const fileUrls = new Set([document.fileUrl, ...versions.map((v) => v.fileUrl)]);
+    for (const fileUrl of fileUrls) {
+      await deleteFile(getFileKeyFromUrl(fileUrl));
+    }
+    if (document.thumbnailUrl) {
+      await deleteFile(getFileKeyFromUrl(document.thumbnailUrl));
+    }
 
     // Delete document record
     await prisma.document.delete({
       where: { id },
     });
 
+    await recordAudit(req, {
+      action: 'document.deleted',
+      targetType: 'document',
+      targetId: id,
+      before: {
+        title: document.title,
+        fileName: document.fileName,
+        status: document.status,
+        authorId: document.authorId,
+        categoryId: document.categoryId,
+      },
+    });
+
+    await enqueueJob('search.sync', { type: 'document', id });
+
     res.json({
       success: true,
       data: { message: 'Document deleted successfully' },
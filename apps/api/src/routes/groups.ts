@@ -0,0 +1,297 @@
+import { Router, Response } from 'express';
+import type { Router as RouterType } from 'express';
+import { z } from 'zod';
+import { prisma } from '@kbase/database';
+import { validate } from '../middleware/validate';
+import { requireAuth, AuthRequest } from '../middleware/auth';
+import { canManageGroup, memberUserSelect } from '../lib/groups';
+import { recordAudit } from '../lib/audit';
+
+const router: RouterType = Router();
+
+const listGroupsSchema = z.object({
+  query: z.object({
+    mine: z.enum(['true', 'false']).optional(),
+  }),
+});
+
+const addMemberSchema = z.object({
+  body: z.object({
+    email: z.string().email('Invalid email address'),
+    role: z.enum(['OWNER', 'MEMBER']).optional(),
+  }),
+  params: z.object({
+    id: z.string(),
+  }),
+});
+
+const updateMemberSchema = z.object({
+  body: z.object({
+    role: z.enum(['OWNER', 'MEMBER']),
+  }),
+  params: z.object({
+    id: z.string(),
+    userId: z.string(),
+  }),
+});
+
+const membershipSelect = {
+  role: true,
+  createdAt: true,
+  user: { select: memberUserSelect },
+};
+
+function sendForbidden(res: Response) {
+  res.status(403).json({
+    success: false,
+    error: {
+      code: 'FORBIDDEN',
+      message: 'Only group owners can manage its members',
+    },
+  });
+}
+
+// GET /api/groups - All groups, or only the current user's with ?mine=true
+router.get(
+  '/',
+  requireAuth,
+  validate(listGroupsSchema),
+  async (req: AuthRequest, res: Response, next) => {
+    try {
+      const userId = req.user!.userId;
+
+      const groups = await prisma.group.findMany({
+        where: req.query.mine === 'true' ? { memberships: { some: { userId } } } : undefined,
+        select: {
+          id: true,
+          name: true,
+          slug: true,
+          description: true,
+          memberships: { where: { userId }, select: { role: true } },
+          _count: { select: { memberships: true } },
+        },
+        orderBy: { name: 'asc' },
+      });
+
+      res.json({
+        success: true,
+        data: {
+          groups: groups.map(({ memberships, ...group }) => ({
+            ...group,
+            myRole: memberships[0]?.role ?? null,
+          })),
+        },
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+// GET /api/groups/:id - A group and its members
+router.get('/:id', requireAuth, async (req: AuthRequest, res: Response, next) => {
+  try {
+    const group = await prisma.group.findUnique({
+      where: { id: req.params.id },
+      select: {
+        id: true,
+        name: true,
+        slug: true,
+        description: true,
+        createdAt: true,
+        memberships: {
+          select: membershipSelect,
+          orderBy: [{ role: 'asc' }, { createdAt: 'asc' }],
+        },
+      },
+    });
+
+    if (!group) {
+      res.status(404).json({
+        success: false,
+        error: {
+          code: 'GROUP_NOT_FOUND',
+          message: 'Group not found',
+        },
+      });
+      return;
+    }
+
+    const { memberships, ...rest } = group;
+    res.json({
+      success: true,
+      data: {
+        group: {
+          ...rest,
+          members: memberships.map(({ user, ...membership }) => ({ ...user, ...membership })),
+          canManage: await canManageGroup(req.user!, group.id),
+        },
+      },
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// POST /api/groups/:id/members - Add a member by email (group owner or group:manage)
+router.post(
+  '/:id/members',
+  requireAuth,
+  validate(addMemberSchema),
+  async (req: AuthRequest, res: Response, next) => {
+    try {
+      const { id } = req.params;
+      const { email, role = 'MEMBER' } = req.body as { email: string; role?: 'OWNER' | 'MEMBER' };
+
+      const group = await prisma.group.findUnique({ where: { id }, select: { id: true } });
+      if (!group) {
+        res.status(404).json({
+          success: false,
+          error: {
+            code: 'GROUP_NOT_FOUND',
+            message: 'Group not found',
+          },
+        });
+        return;
+      }
+
+      if (!(await canManageGroup(req.user!, id))) {
+        sendForbidden(res);
+        return;
+      }
+
+      const user = await prisma.user.findUnique({ where: { email }, select: { id: true } });
+      if (!user) {
+        res.status(404).json({
+          success: false,
+          error: {
+            code: 'USER_NOT_FOUND',
+            message: 'No user with that email address',
+          },
+        });
+        return;
+      }
+
+      const existing = await prisma.groupMembership.findUnique({
+        where: { groupId_userId: { groupId: id, userId: user.id } },
+        select: { role: true },
+      });
+
+      const membership = await prisma.groupMembership.upsert({
+        where: { groupId_userId: { groupId: id, userId: user.id } },
+        update: { role },
+        create: { groupId: id, userId: user.id, role },
+        select: membershipSelect,
+      });
+
+      await recordAudit(req, {
+        action: existing ? 'group.member_role_changed' : 'group.member_added',
+        targetType: 'group',
+        targetId: id,
+        before: existing ? { userId: user.id, role: existing.role } : undefined,
+        after: { userId: user.id, role },
+      });
+
+      const { user: member, ...rest } = membership;
+      res.status(201).json({
+        success: true,
+        data: { member: { ...member, ...rest } },
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+// PUT /api/groups/:id/members/:userId - Promote or demote a member (group owner or group:manage)
+router.put(
+  '/:id/members/:userId',
+  requireAuth,
+  validate(updateMemberSchema),
+  async (req: AuthRequest, res: Response, next) => {
+    try {
+      const { id, userId } = req.params;
+      const { role } = req.body as { role: 'OWNER' | 'MEMBER' };
+
+      if (!(await canManageGroup(req.user!, id))) {
+        sendForbidden(res);
+        return;
+      }
+
+      const { count } = await prisma.groupMembership.updateMany({
+        where: { groupId: id, userId },
+        data: { role },
+      });
+      if (count === 0) {
+        res.status(404).json({
+          success: false,
+          error: {
+            code: 'MEMBER_NOT_FOUND',
+            message: 'That user is not in this group',
+          },
+        });
+        return;
+      }
+
+      await recordAudit(req, {
+        action: 'group.member_role_changed',
+        targetType: 'group',
+        targetId: id,
+        after: { userId, role },
+      });
+
+      res.json({
+        success: true,
+        data: { message: 'Member updated' },
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+// DELETE /api/groups/:id/members/:userId - Remove a member, or leave the group yourself
+router.delete(
+  '/:id/members/:userId',
+  requireAuth,
+  async (req: AuthRequest, res: Response, next) => {
+    try {
+      const { id, userId } = req.params;
+
+      if (userId !== req.user!.userId && !(await canManageGroup(req.user!, id))) {
+        sendForbidden(res);
+        return;
+      }
+
+      const { count } = await prisma.groupMembership.deleteMany({
+        where: { groupId: id, userId },
+      });
+      if (count === 0) {
+        res.status(404).json({
+          success: false,
+          error: {
+            code: 'MEMBER_NOT_FOUND',
+            message: 'That user is not in this group',
+          },
+        });
+        return;
+      }
+
+      await recordAudit(req, {
+        action: 'group.member_removed',
+        targetType: 'group',
+        targetId: id,
+        before: { userId },
+      });
+
+      res.json({
+        success: true,
+        data: { message: 'Member removed' },
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+export default router;
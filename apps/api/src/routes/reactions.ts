@@ -3,7 +3,14 @@ import type { Router as RouterType } from 'express';
 import { z } from 'zod';
 import { prisma } from '@kbase/database';
 import { validate } from '../middleware/validate';
-import { requireAuth, AuthRequest } from '../middleware/auth';
+import {
+  requireAuth,
+  requireVerifiedEmail,
+  requirePermission,
+  optionalAuth,
+  AuthRequest,
+} from '../middleware/auth';
+import { isContentHidden } from '../lib/category-access';
 
 const router: RouterType = Router();
 
@@ -23,13 +30,24 @@ const getReactionsSchema = z.object({
 });
 
 // GET /api/reactions - Get reaction counts for content
-router.get('/', validate(getReactionsSchema), async (req, res, next) => {
+router.get('/', optionalAuth, validate(getReactionsSchema), async (req, res, next) => {
   try {
     const { contentType, contentId } = req.query as {
       contentType: 'ARTICLE' | 'DOCUMENT';
       contentId: string;
     };
 
+    if (await isContentHidden((req as AuthRequest).user, contentType, contentId)) {
+      res.status(404).json({
+        success: false,
+        error: {
+          code: contentType === 'ARTICLE' ? 'ARTICLE_NOT_FOUND' : 'DOCUMENT_NOT_FOUND',
+          message: contentType === 'ARTICLE' ? 'Article not found' : 'Document not found',
+        },
+      });
+      return;
+    }
+
     const where: Record<string, unknown> = { contentType };
 
     if (contentType === 'ARTICLE') {
@@ -75,14 +93,14 @@ router.get('/', validate(getReactionsSchema), async (req, res, next) => {
 });
 
 // POST /api/reactions - Add or toggle reaction
-router.post('/', requireAuth, validate(createReactionSchema), async (req: AuthRequest, res: Response, next) => {
+router.post('/', requireAuth, requireVerifiedEmail, requirePermission('reaction:create'), validate(createReactionSchema), async (req: AuthRequest, res: Response, next) => {
   try {
     const { type, contentType, contentId } = req.body;
 
     // Verify content exists
     if (contentType === 'ARTICLE') {
       const article = await prisma.article.findUnique({ where: { id: contentId } });
-      if (!article) {
+      if (!article || (await isContentHidden(req.user, 'ARTICLE', contentId))) {
         res.status(404).json({
           success: false,
           error: {
@@ -94,7 +112,7 @@ router.post('/', requireAuth, validate(createReactionSchema), async (req: AuthRe
       }
     } else {
       const document = await prisma.document.findUnique({ where: { id: contentId } });
-      if (!document) {
+      if (!document || (await isContentHidden(req.user, 'DOCUMENT', contentId))) {
         res.status(404).json({
           success: false,
           error: {
@@ -175,7 +193,7 @@ router.post('/', requireAuth, validate(createReactionSchema), async (req: AuthRe
 });
 
 // DELETE /api/reactions - Remove reaction
-router.delete('/', requireAuth, validate(getReactionsSchema), async (req: AuthRequest, res: Response, next) => {
+router.delete('/', requireAuth, requireVerifiedEmail, validate(getReactionsSchema), async (req: AuthRequest, res: Response, next) => {
   try {
     const { contentType, contentId } = req.query as {
       contentType: 'ARTICLE' | 'DOCUMENT';
@@ -0,0 +1,477 @@
+import { Router, Response } from 'express';
+import type { Router as RouterType } from 'express';
+import { z } from 'zod';
+import { prisma, ContentType, UserRole } from '@kbase/database';
+import { validate } from '../middleware/validate';
+import { requireAuth, requireVerifiedEmail, AuthRequest } from '../middleware/auth';
+import {
+  findReviewableContent,
+  getPendingReview,
+  isAssignedReviewer,
+  setContentStatus,
+} from '../lib/review';
+import {
+  canEditContent,
+  canViewContent,
+  hasPermission,
+  publishPermission,
+  rolesWithPermission,
+} from '../lib/permissions';
+import { getCategoryAccess } from '../lib/category-access';
+import { getGroupMembers } from '../lib/groups';
+import { queueEmail, appUrl } from '../lib/email';
+
+const router: RouterType = Router();
+
+const listReviewsSchema = z.object({
+  query: z.object({
+    contentType: z.enum(['ARTICLE', 'DOCUMENT']).optional(),
+    contentId: z.string().optional(),
+    status: z.enum(['PENDING', 'APPROVED', 'CHANGES_REQUESTED', 'CANCELLED']).optional(),
+  }),
+});
+
+const submitReviewSchema = z.object({
+  body: z
+    .object({
+      contentType: z.enum(['ARTICLE', 'DOCUMENT']),
+      contentId: z.string().min(1, 'Content ID is required'),
+      reviewerId: z.string().min(1).optional(),
+      reviewerGroupId: z.string().min(1).optional(),
+      comment: z.string().max(2000).optional(),
+    })
+    .refine((body) => !body.reviewerId !== !body.reviewerGroupId, {
+      message: 'Choose either a reviewer or a reviewing group',
+    }),
+});
+
+const approveSchema = z.object({
+  body: z.object({
+    comment: z.string().max(2000).optional(),
+  }),
+  params: z.object({
+    id: z.string(),
+  }),
+});
+
+const requestChangesSchema = z.object({
+  body: z.object({
+    comment: z.string().min(1, 'Explain what needs to change').max(2000),
+  }),
+  params: z.object({
+    id: z.string(),
+  }),
+});
+
+const reviewInclude = {
+  article: { select: { id: true, title: true, slug: true, status: true } },
+  document: { select: { id: true, title: true, status: true } },
+  requester: { select: { id: true, name: true, avatarUrl: true } },
+  reviewer: { select: { id: true, name: true, avatarUrl: true } },
+  reviewerGroup: { select: { id: true, name: true, slug: true } },
+};
+
+type Reviewer = { id: string; name: string; email: string; role: UserRole };
+
+// Users who may review this content: allowed to review, not its author, and able to see its category
+async function eligibleReviewers(
+  candidates: Reviewer[],
+  content: { authorId: string; categoryId: string | null }
+): Promise<Reviewer[]> {
+  const eligible: Reviewer[] = [];
+  for (const candidate of candidates) {
+    if (candidate.id === content.authorId) continue;
+    if (!(await hasPermission(candidate, 'review:perform'))) continue;
+    const access = await getCategoryAccess({ userId: candidate.id, role: candidate.role });
+    if (access.canAccess(content.categoryId)) eligible.push(candidate);
+  }
+  return eligible;
+}
+
+// The content a review is about, unless its category or status keeps it from the user
+async function findVisibleContent(
+  user: AuthRequest['user'],
+  contentType: ContentType,
+  contentId: string
+) {
+  const content = await findReviewableContent(contentType, contentId);
+  if (!content || !(await getCategoryAccess(user)).canAccess(content.categoryId)) return null;
+  return (await canViewContent(contentType, content, user)) ? content : null;
+}
+
+// GET /api/reviews - Review history for a piece of content, or the current user's review queue
+router.get(
+  '/',
+  requireAuth,
+  validate(listReviewsSchema),
+  async (req: AuthRequest, res: Response, next) => {
+    try {
+      const { contentType, contentId, status } = req.query as {
+        contentType?: 'ARTICLE' | 'DOCUMENT';
+        contentId?: string;
+        status?: 'PENDING' | 'APPROVED' | 'CHANGES_REQUESTED' | 'CANCELLED';
+      };
+
+      const where: Record<string, unknown> = {};
+
+      if (contentType && contentId) {
+        if (!(await findVisibleContent(req.user, contentType, contentId))) {
+          res.status(404).json({
+            success: false,
+            error: {
+              code: 'CONTENT_NOT_FOUND',
+              message: 'Content not found',
+            },
+          });
+          return;
+        }
+
+        where.contentType = contentType;
+        if (contentType === 'ARTICLE') {
+          where.articleId = contentId;
+        } else {
+          where.documentId = contentId;
+        }
+        if (status) where.status = status;
+      } else {
+        // Reviews assigned to the user directly or to one of their groups
+        where.OR = [
+          { reviewerId: req.user!.userId },
+          {
+            reviewerGroup: { memberships: { some: { userId: req.user!.userId } } },
+            requesterId: { not: req.user!.userId },
+          },
+        ];
+        where.status = status || 'PENDING';
+      }
+
+      const reviews = await prisma.review.findMany({
+        where,
+        include: reviewInclude,
+        orderBy: { createdAt: 'desc' },
+      });
+
+      res.json({
+        success: true,
+        data: { reviews },
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+// GET /api/reviews/reviewers - Users and groups that can be assigned as reviewers
+router.get('/reviewers', requireAuth, async (req: AuthRequest, res: Response, next) => {
+  try {
+    const [reviewers, groups] = await Promise.all([
+      prisma.user.findMany({
+        where: {
+          role: { in: await rolesWithPermission('review:perform') },
+          id: { not: req.user!.userId },
+        },
+        select: {
+          id: true,
+          name: true,
+          role: true,
+        },
+        orderBy: { name: 'asc' },
+      }),
+      prisma.group.findMany({
+        where: { memberships: { some: {} } },
+        select: { id: true, name: true, _count: { select: { memberships: true } } },
+        orderBy: { name: 'asc' },
+      }),
+    ]);
+
+    res.json({
+      success: true,
+      data: { reviewers, groups },
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// POST /api/reviews - Submit content for review
+router.post(
+  '/',
+  requireAuth,
+  requireVerifiedEmail,
+  validate(submitReviewSchema),
+  async (req: AuthRequest, res: Response, next) => {
+    try {
+      const { contentType, contentId, reviewerId, reviewerGroupId, comment } = req.body;
+
+      const content = await findReviewableContent(contentType, contentId);
+
+      if (!content || !(await getCategoryAccess(req.user)).canAccess(content.categoryId)) {
+        res.status(404).json({
+          success: false,
+          error: {
+            code: 'CONTENT_NOT_FOUND',
+            message: 'Content not found',
+          },
+        });
+        return;
+      }
+
+      if (!(await canEditContent(contentType, content, req.user!))) {
+        res.status(403).json({
+          success: false,
+          error: {
+            code: 'FORBIDDEN',
+            message: 'You do not have permission to submit this content for review',
+          },
+        });
+        return;
+      }
+
+      if (content.status === 'PUBLISHED' || (await getPendingReview(contentType, contentId))) {
+        res.status(400).json({
+          success: false,
+          error: {
+            code: 'INVALID_OPERATION',
+            message: 'Content is already published or awaiting review',
+          },
+        });
+        return;
+      }
+
+      const group = reviewerGroupId
+        ? await prisma.group.findUnique({ where: { id: reviewerGroupId } })
+        : null;
+      if (reviewerGroupId && !group) {
+        res.status(404).json({
+          success: false,
+          error: {
+            code: 'GROUP_NOT_FOUND',
+            message: 'Group not found',
+          },
+        });
+        return;
+      }
+
+      // In a group the requester cannot review their own request, as in isAssignedReviewer
+      const candidates = group
+        ? (await getGroupMembers(group.id)).filter((member) => member.id !== req.user!.userId)
+        : await prisma.user.findMany({
+            where: { id: reviewerId },
+            select: { id: true, name: true, email: true, role: true },
+          });
+      const reviewers = await eligibleReviewers(candidates, content);
+
+      if (reviewers.length === 0) {
+        res.status(400).json({
+          success: false,
+          error: {
+            code: 'INVALID_REVIEWER',
+            message: reviewerGroupId
+              ? 'Nobody in that group can review this content'
+              : 'Reviewer must be allowed to review, able to see the content and not its author',
+          },
+        });
+        return;
+      }
+
+      const review = await prisma.review.create({
+        data: {
+          contentType,
+          articleId: contentType === 'ARTICLE' ? contentId : undefined,
+          documentId: contentType === 'DOCUMENT' ? contentId : undefined,
+          requesterId: req.user!.userId,
+          reviewerId: group ? undefined : reviewerId,
+          reviewerGroupId: group?.id,
+          requestComment: comment,
+        },
+        include: reviewInclude,
+      });
+
+      await setContentStatus(contentType, contentId, 'IN_REVIEW');
+
+      const contentUrl = appUrl(
+        review.article ? `/articles/${review.article.slug}` : `/documents/${contentId}`
+      );
+      for (const reviewer of reviewers) {
+        await queueEmail(reviewer.email, 'review-requested', {
+          name: reviewer.name,
+          requesterName: review.requester.name,
+          title: content.title,
+          contentUrl,
+          groupName: group?.name,
+        });
+      }
+
+      res.status(201).json({
+        success: true,
+        data: { review },
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+// POST /api/reviews/:id/approve - Approve and publish the content
+router.post(
+  '/:id/approve',
+  requireAuth,
+  requireVerifiedEmail,
+  validate(approveSchema),
+  async (req: AuthRequest, res: Response, next) => {
+    try {
+      const { id } = req.params;
+      const { comment } = req.body;
+
+      const review = await prisma.review.findUnique({
+        where: { id },
+      });
+
+      if (!review) {
+        res.status(404).json({
+          success: false,
+          error: {
+            code: 'REVIEW_NOT_FOUND',
+            message: 'Review not found',
+          },
+        });
+        return;
+      }
+
+      const content = await findVisibleContent(
+        req.user,
+        review.contentType,
+        (review.articleId || review.documentId)!
+      );
+      if (
+        !content ||
+        (!(await isAssignedReviewer(review, req.user!)) &&
+          !(await hasPermission(req.user!, publishPermission(review.contentType))))
+      ) {
+        res.status(403).json({
+          success: false,
+          error: {
+            code: 'FORBIDDEN',
+            message: 'Only the assigned reviewer or a publisher can approve this review',
+          },
+        });
+        return;
+      }
+
+      if (review.status !== 'PENDING') {
+        res.status(400).json({
+          success: false,
+          error: {
+            code: 'INVALID_OPERATION',
+            message: 'This review has already been decided',
+          },
+        });
+        return;
+      }
+
+      const updatedReview = await prisma.review.update({
+        where: { id },
+        data: {
+          status: 'APPROVED',
+          decisionComment: comment,
+          decidedAt: new Date(),
+        },
+        include: reviewInclude,
+      });
+
+      await setContentStatus(
+        review.contentType,
+        (review.articleId || review.documentId)!,
+        'PUBLISHED'
+      );
+
+      res.json({
+        success: true,
+        data: { review: updatedReview },
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+// POST /api/reviews/:id/request-changes - Send the content back to its author
+router.post(
+  '/:id/request-changes',
+  requireAuth,
+  requireVerifiedEmail,
+  validate(requestChangesSchema),
+  async (req: AuthRequest, res: Response, next) => {
+    try {
+      const { id } = req.params;
+      const { comment } = req.body;
+
+      const review = await prisma.review.findUnique({
+        where: { id },
+      });
+
+      if (!review) {
+        res.status(404).json({
+          success: false,
+          error: {
+            code: 'REVIEW_NOT_FOUND',
+            message: 'Review not found',
+          },
+        });
+        return;
+      }
+
+      const content = await findVisibleContent(
+        req.user,
+        review.contentType,
+        (review.articleId || review.documentId)!
+      );
+      if (
+        !content ||
+        (!(await isAssignedReviewer(review, req.user!)) &&
+          !(await hasPermission(req.user!, publishPermission(review.contentType))))
+      ) {
+        res.status(403).json({
+          success: false,
+          error: {
+            code: 'FORBIDDEN',
+            message: 'Only the assigned reviewer or a publisher can request changes',
+          },
+        });
+        return;
+      }
+
+      if (review.status !== 'PENDING') {
+        res.status(400).json({
+          success: false,
+          error: {
+            code: 'INVALID_OPERATION',
+            message: 'This review has already been decided',
+          },
+        });
+        return;
+      }
+
+      const updatedReview = await prisma.review.update({
+        where: { id },
+        data: {
+          status: 'CHANGES_REQUESTED',
+          decisionComment: comment,
+          decidedAt: new Date(),
+        },
+        include: reviewInclude,
+      });
+
+      await setContentStatus(review.contentType, (review.articleId || review.documentId)!, 'DRAFT');
+
+      res.json({
+        success: true,
+        data: { review: updatedReview },
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+export default router;
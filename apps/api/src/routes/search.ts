@@ -0,0 +1,69 @@
+import { Router } from 'express';
+import type { Router as RouterType } from 'express';
+import { z } from 'zod';
+import type { ContentType } from '@kbase/types';
+import { validate } from '../middleware/validate';
+import { optionalAuth, AuthRequest } from '../middleware/auth';
+import { getSearchProvider } from '../lib/search';
+import { getCategoryAccess } from '../lib/category-access';
+
+const router: RouterType = Router();
+
+const searchSchema = z.object({
+  query: z.object({
+    q: z.string().trim().min(1, 'Search query is required').max(200),
+    type: z.enum(['article', 'document']).optional(),
+    categoryId: z.string().optional(),
+    tags: z.string().optional(),
+    page: z.coerce.number().min(1).default(1).optional(),
+    limit: z.coerce.number().min(1).max(50).default(10).optional(),
+  }),
+});
+
+// GET /api/search - Full-text search across articles and documents
+router.get('/', optionalAuth, validate(searchSchema), async (req, res, next) => {
+  try {
+    const page = Number(req.query.page) || 1;
+    const limit = Number(req.query.limit) || 10;
+    const { q, type, categoryId, tags } = req.query as {
+      q: string;
+      type?: ContentType;
+      categoryId?: string;
+      tags?: string;
+    };
+
+    const tagList = tags
+      ? tags
+          .split(',')
+          .map((t) => t.trim())
+          .filter((t) => t)
+      : undefined;
+
+    const access = await getCategoryAccess((req as AuthRequest).user);
+
+    const { results, total } = await getSearchProvider().search({
+      query: q.trim(),
+      type,
+      categoryId,
+      tags: tagList,
+      excludeCategoryIds: access.hiddenCategoryIds,
+      page,
+      limit,
+    });
+
+    res.json({
+      success: true,
+      data: { results },
+      meta: {
+        page,
+        limit,
+        total,
+        totalPages: Math.ceil(total / limit),
+      },
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+export default router;
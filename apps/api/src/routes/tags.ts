@@ -1,6 +1,8 @@
 import { Router } from 'express';
 import type { Router as RouterType } from 'express';
 import { prisma } from '@kbase/database';
+import { optionalAuth, AuthRequest } from '../middleware/auth';
+import { getCategoryAccess, categoryAccessWhere } from '../lib/category-access';
 
 const router: RouterType = Router();
 
@@ -29,9 +31,10 @@ router.get('/', async (_req, res, next) => {
 });
 
 // GET /api/tags/:slug - Get single tag with content
-router.get('/:slug', async (req, res, next) => {
+router.get('/:slug', optionalAuth, async (req, res, next) => {
   try {
     const { slug } = req.params;
+    const visible = categoryAccessWhere(await getCategoryAccess((req as AuthRequest).user));
 
     const tag = await prisma.tag.findUnique({
       where: { slug },
@@ -40,6 +43,7 @@ router.get('/:slug', async (req, res, next) => {
           where: {
             article: {
               status: 'PUBLISHED',
+              ...visible,
             },
           },
           select: {
@@ -65,6 +69,7 @@ router.get('/:slug', async (req, res, next) => {
           where: {
             document: {
               status: 'PUBLISHED',
+              ...visible,
             },
           },
           select: {
@@ -0,0 +1,319 @@
+import { Router, Response } from 'express';
+import type { Router as RouterType } from 'express';
+import { z } from 'zod';
+import { prisma } from '@kbase/database';
+import { validate } from '../middleware/validate';
+import { requireAuth, requirePermission, AuthRequest } from '../middleware/auth';
+import { hasPermission } from '../lib/permissions';
+import { getCategoryAccess } from '../lib/category-access';
+import { recordAudit } from '../lib/audit';
+import { TEMPLATE_PLACEHOLDERS } from '../lib/article-templates';
+
+const router: RouterType = Router();
+
+const templateFields = {
+  name: z.string().min(1, 'Name is required').max(100),
+  description: z.string().max(500).nullable().optional(),
+  // The skeleton may hold placeholders, so it is checked against the article limit once filled
+  title: z.string().min(1, 'Title is required').max(200),
+  content: z.string().min(1, 'Content is required'),
+  tags: z.array(z.string().min(1).max(50)).max(20).optional(),
+  categoryId: z.string().nullable().optional(),
+};
+
+const createTemplateSchema = z.object({
+  body: z.object(templateFields),
+});
+
+const updateTemplateSchema = z.object({
+  body: z.object(templateFields).partial(),
+  params: z.object({
+    id: z.string(),
+  }),
+});
+
+type TemplateBody = {
+  name: string;
+  description?: string | null;
+  title: string;
+  content: string;
+  tags?: string[];
+  categoryId?: string | null;
+};
+
+const templateInclude = {
+  category: { select: { id: true, name: true, slug: true } },
+  createdBy: { select: { id: true, name: true } },
+};
+
+// Anyone who can write articles can start one from a template
+async function rejectUnlessCanUse(req: AuthRequest, res: Response): Promise<boolean> {
+  if (
+    (await hasPermission(req.user!, 'article:create')) ||
+    (await hasPermission(req.user!, 'template:manage'))
+  ) {
+    return false;
+  }
+
+  res.status(403).json({
+    success: false,
+    error: {
+      code: 'FORBIDDEN',
+      message: 'You do not have permission to use article templates',
+    },
+  });
+  return true;
+}
+
+function sendNotFound(res: Response) {
+  res.status(404).json({
+    success: false,
+    error: {
+      code: 'TEMPLATE_NOT_FOUND',
+      message: 'Template not found',
+    },
+  });
+}
+
+function sendNameTaken(res: Response) {
+  res.status(400).json({
+    success: false,
+    error: {
+      code: 'TEMPLATE_EXISTS',
+      message: 'A template with this name already exists',
+    },
+  });
+}
+
+async function isNameTaken(name: string, exceptId?: string): Promise<boolean> {
+  const clash = await prisma.articleTemplate.findFirst({
+    where: {
+      name: { equals: name, mode: 'insensitive' },
+      ...(exceptId && { id: { not: exceptId } }),
+    },
+    select: { id: true },
+  });
+  return !!clash;
+}
+
+// Trimmed, without blanks, and each tag once
+function cleanTags(tags: string[]): string[] {
+  const byKey = new Map<string, string>();
+  for (const tag of tags.map((name) => name.trim())) {
+    if (tag && !byKey.has(tag.toLowerCase())) byKey.set(tag.toLowerCase(), tag);
+  }
+  return Array.from(byKey.values());
+}
+
+// GET /api/templates - All templates, with the placeholders they may use
+router.get('/', requireAuth, async (req: AuthRequest, res: Response, next) => {
+  try {
+    if (await rejectUnlessCanUse(req, res)) return;
+
+    const access = await getCategoryAccess(req.user);
+    const templates = await prisma.articleTemplate.findMany({
+      include: templateInclude,
+      orderBy: { name: 'asc' },
+    });
+
+    res.json({
+      success: true,
+      data: {
+        // A default category the user cannot see is left out rather than revealed
+        templates: templates.map((template) =>
+          template.categoryId && !access.canAccess(template.categoryId)
+            ? { ...template, categoryId: null, category: null }
+            : template
+        ),
+        placeholders: TEMPLATE_PLACEHOLDERS,
+      },
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// GET /api/templates/:id - Get a single template
+router.get('/:id', requireAuth, async (req: AuthRequest, res: Response, next) => {
+  try {
+    if (await rejectUnlessCanUse(req, res)) return;
+
+    const template = await prisma.articleTemplate.findUnique({
+      where: { id: req.params.id },
+      include: templateInclude,
+    });
+    if (!template) {
+      sendNotFound(res);
+      return;
+    }
+
+    const hidden =
+      template.categoryId && !(await getCategoryAccess(req.user)).canAccess(template.categoryId);
+
+    res.json({
+      success: true,
+      data: {
+        template: hidden ? { ...template, categoryId: null, category: null } : template,
+      },
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// POST /api/templates - Create template (template:manage)
+router.post(
+  '/',
+  requireAuth,
+  requirePermission('template:manage'),
+  validate(createTemplateSchema),
+  async (req: AuthRequest, res: Response, next) => {
+    try {
+      const { name, description, title, content, tags, categoryId } = req.body as TemplateBody;
+
+      if (categoryId && !(await getCategoryAccess(req.user)).canAccess(categoryId)) {
+        res.status(404).json({
+          success: false,
+          error: {
+            code: 'CATEGORY_NOT_FOUND',
+            message: 'Category not found',
+          },
+        });
+        return;
+      }
+
+      if (await isNameTaken(name)) {
+        sendNameTaken(res);
+        return;
+      }
+
+      const template = await prisma.articleTemplate.create({
+        data: {
+          name,
+          description,
+          title,
+          content,
+          tags: cleanTags(tags ?? []),
+          categoryId,
+          createdById: req.user!.userId,
+        },
+        include: templateInclude,
+      });
+
+      await recordAudit(req, {
+        action: 'template.created',
+        targetType: 'template',
+        targetId: template.id,
+        after: { name },
+      });
+
+      res.status(201).json({
+        success: true,
+        data: { template },
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+// PUT /api/templates/:id - Update template (template:manage)
+router.put(
+  '/:id',
+  requireAuth,
+  requirePermission('template:manage'),
+  validate(updateTemplateSchema),
+  async (req: AuthRequest, res: Response, next) => {
+    try {
+      const { id } = req.params;
+      const { name, description, title, content, tags, categoryId } =
+        req.body as Partial<TemplateBody>;
+
+      const template = await prisma.articleTemplate.findUnique({ where: { id } });
+      if (!template) {
+        sendNotFound(res);
+        return;
+      }
+
+      if (categoryId && !(await getCategoryAccess(req.user)).canAccess(categoryId)) {
+        res.status(404).json({
+          success: false,
+          error: {
+            code: 'CATEGORY_NOT_FOUND',
+            message: 'Category not found',
+          },
+        });
+        return;
+      }
+
+      if (name && name !== template.name && (await isNameTaken(name, id))) {
+        sendNameTaken(res);
+        return;
+      }
+
+      const updated = await prisma.articleTemplate.update({
+        where: { id },
+        data: {
+          name,
+          description,
+          title,
+          content,
+          tags: tags && cleanTags(tags),
+          categoryId,
+        },
+        include: templateInclude,
+      });
+
+      await recordAudit(req, {
+        action: 'template.updated',
+        targetType: 'template',
+        targetId: id,
+        before: { name: template.name },
+        after: { name: updated.name },
+      });
+
+      res.json({
+        success: true,
+        data: { template: updated },
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+// DELETE /api/templates/:id - Delete template (template:manage); articles created from it are unaffected
+router.delete(
+  '/:id',
+  requireAuth,
+  requirePermission('template:manage'),
+  async (req: AuthRequest, res: Response, next) => {
+    try {
+      const { id } = req.params;
+
+      const template = await prisma.articleTemplate.findUnique({ where: { id } });
+      if (!template) {
+        sendNotFound(res);
+        return;
+      }
+
+      await prisma.articleTemplate.delete({ where: { id } });
+
+      await recordAudit(req, {
+        action: 'template.deleted',
+        targetType: 'template',
+        targetId: id,
+        before: { name: template.name },
+      });
+
+      res.json({
+        success: true,
+        data: { message: 'Template deleted successfully' },
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+export default router;
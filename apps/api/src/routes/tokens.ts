@@ -0,0 +1,161 @@
+import { Router, Response, NextFunction } from 'express';
+import type { Router as RouterType } from 'express';
+import { z } from 'zod';
+import { prisma } from '@kbase/database';
+import { validate } from '../middleware/validate';
+import { requireAuth, AuthRequest } from '../middleware/auth';
+import { API_TOKEN_SCOPES, generateApiToken } from '../lib/api-tokens';
+
+const router: RouterType = Router();
+
+const MAX_TOKENS_PER_USER = 25;
+
+const createTokenSchema = z.object({
+  body: z.object({
+    name: z.string().min(1, 'Name is required').max(100),
+    scopes: z.array(z.enum(API_TOKEN_SCOPES)).min(1, 'Pick at least one scope'),
+    // Omit for a token that never expires
+    expiresInDays: z.number().int().min(1).max(365).optional(),
+  }),
+});
+
+const tokenSelect = {
+  id: true,
+  name: true,
+  tokenPrefix: true,
+  scopes: true,
+  expiresAt: true,
+  lastUsedAt: true,
+  createdAt: true,
+};
+
+// Tokens are managed from a signed-in session only, so a leaked token cannot mint more
+function rejectApiTokens(req: AuthRequest, res: Response, next: NextFunction) {
+  if (req.user!.apiTokenId) {
+    res.status(403).json({
+      success: false,
+      error: {
+        code: 'FORBIDDEN',
+        message: 'API tokens cannot be used to manage API tokens',
+      },
+    });
+    return;
+  }
+  next();
+}
+
+// GET /api/tokens - The current user's personal access tokens
+router.get('/', requireAuth, rejectApiTokens, async (req: AuthRequest, res: Response, next) => {
+  try {
+    const tokens = await prisma.apiToken.findMany({
+      where: { userId: req.user!.userId },
+      select: tokenSelect,
+      orderBy: { createdAt: 'desc' },
+    });
+
+    res.json({
+      success: true,
+      data: { tokens },
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// POST /api/tokens - Create a token; the plain value is only returned here
+router.post(
+  '/',
+  requireAuth,
+  rejectApiTokens,
+  validate(createTokenSchema),
+  async (req: AuthRequest, res: Response, next) => {
+    try {
+      const { name, scopes, expiresInDays } = req.body as {
+        name: string;
+        scopes: string[];
+        expiresInDays?: number;
+      };
+
+      if (scopes.includes('admin') && req.user!.role !== 'ADMIN') {
+        res.status(403).json({
+          success: false,
+          error: {
+            code: 'FORBIDDEN',
+            message: 'Only admins can create tokens with the admin scope',
+          },
+        });
+        return;
+      }
+
+      const count = await prisma.apiToken.count({ where: { userId: req.user!.userId } });
+      if (count >= MAX_TOKENS_PER_USER) {
+        res.status(400).json({
+          success: false,
+          error: {
+            code: 'TOKEN_LIMIT_REACHED',
+            message: `You can have at most ${MAX_TOKENS_PER_USER} tokens. Revoke one first.`,
+          },
+        });
+        return;
+      }
+
+      const { token, tokenHash, tokenPrefix } = generateApiToken();
+      const expiresAt = expiresInDays
+        ? new Date(Date.now() + expiresInDays * 24 * 60 * 60 * 1000)
+        : null;
+
+      const apiToken = await prisma.apiToken.create({
+        data: {
+          userId: req.user!.userId,
+          name,
+          tokenHash,
+          tokenPrefix,
+          scopes: Array.from(new Set(scopes)),
+          expiresAt,
+        },
+        select: tokenSelect,
+      });
+
+      res.status(201).json({
+        success: true,
+        data: { token: apiToken, value: token },
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+// DELETE /api/tokens/:id - Revoke a token
+router.delete(
+  '/:id',
+  requireAuth,
+  rejectApiTokens,
+  async (req: AuthRequest, res: Response, next) => {
+    try {
+      const { count } = await prisma.apiToken.deleteMany({
+        where: { id: req.params.id, userId: req.user!.userId },
+      });
+
+      if (count === 0) {
+        res.status(404).json({
+          success: false,
+          error: {
+            code: 'TOKEN_NOT_FOUND',
+            message: 'Token not found',
+          },
+        });
+        return;
+      }
+
+      res.json({
+        success: true,
+        data: { message: 'Token revoked' },
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+export default router;
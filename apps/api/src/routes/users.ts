@@ -0,0 +1,95 @@
+import { Router } from 'express';
+import type { Router as RouterType } from 'express';
+import { prisma } from '@kbase/database';
+import { optionalAuth, AuthRequest } from '../middleware/auth';
+import { getCategoryAccess, categoryAccessWhere } from '../lib/category-access';
+
+const router: RouterType = Router();
+
+// How many of each kind of content a profile lists
+const PROFILE_CONTENT_LIMIT = 50;
+
+// GET /api/users/:id - Public profile with the user's published content
+router.get('/:id', optionalAuth, async (req, res, next) => {
+  try {
+    const { id } = req.params;
+    const published = {
+      authorId: id,
+      status: 'PUBLISHED' as const,
+      ...categoryAccessWhere(await getCategoryAccess((req as AuthRequest).user)),
+    };
+
+    // Email stays private; profiles are visible to anyone
+    const user = await prisma.user.findUnique({
+      where: { id },
+      select: {
+        id: true,
+        name: true,
+        avatarUrl: true,
+        role: true,
+        createdAt: true,
+      },
+    });
+
+    if (!user) {
+      res.status(404).json({
+        success: false,
+        error: {
+          code: 'USER_NOT_FOUND',
+          message: 'User not found',
+        },
+      });
+      return;
+    }
+
+    const [articles, documents, articleCount, documentCount] = await Promise.all([
+      prisma.article.findMany({
+        where: published,
+        orderBy: { publishedAt: 'desc' },
+        take: PROFILE_CONTENT_LIMIT,
+        select: {
+          id: true,
+          title: true,
+          slug: true,
+          excerpt: true,
+          publishedAt: true,
+          viewsCount: true,
+          category: { select: { id: true, name: true, slug: true } },
+        },
+      }),
+      prisma.document.findMany({
+        where: published,
+        orderBy: { createdAt: 'desc' },
+        take: PROFILE_CONTENT_LIMIT,
+        select: {
+          id: true,
+          title: true,
+          description: true,
+          fileName: true,
+          fileSize: true,
+          mimeType: true,
+          createdAt: true,
+          category: { select: { id: true, name: true, slug: true } },
+        },
+      }),
+      prisma.article.count({ where: published }),
+      prisma.document.count({ where: published }),
+    ]);
+
+    res.json({
+      success: true,
+      data: {
+        user: {
+          ...user,
+          _count: { articles: articleCount, documents: documentCount },
+        },
+        articles,
+        documents,
+      },
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+export default router;
@@ -0,0 +1,27 @@
+import fs from 'fs';
+import { pipeline } from 'stream/promises';
+import { prisma } from '@kbase/database';
+import { createBackup } from '../lib/backup';
+
+// Write a backup archive: pnpm --filter @kbase/api backup [file] [--include-secrets]
+async function main() {
+  const args = process.argv.slice(2);
+  const includeSecrets = args.includes('--include-secrets');
+  const file =
+    args.find((arg) => !arg.startsWith('--')) ??
+    `kbase-backup-${new Date().toISOString().slice(0, 10)}.tar.gz`;
+
+  console.log(
+    `📦 Backing up to ${file}${includeSecrets ? ' (with password hashes and 2FA secrets)' : ''}...`
+  );
+
+  await pipeline(await createBackup({ includeSecrets }), fs.createWriteStream(file));
+  console.log(`✅ Wrote ${(fs.statSync(file).size / 1024 / 1024).toFixed(1)} MB`);
+}
+
+main()
+  .catch((error) => {
+    console.error('❌ Backup failed:', error);
+    process.exitCode = 1;
+  })
+  .finally(() => prisma.$disconnect());
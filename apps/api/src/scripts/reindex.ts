@@ -0,0 +1,18 @@
+import { prisma } from '@kbase/database';
+import { getSearchProvider, reindexAll } from '../lib/search';
+
+// Rebuild the search index from the database: pnpm --filter @kbase/api search:reindex
+async function main() {
+  const provider = getSearchProvider();
+  console.log(`🔎 Reindexing published content with the ${provider.name} search provider...`);
+
+  const count = await reindexAll();
+  console.log(`✅ Indexed ${count} items`);
+}
+
+main()
+  .catch((error) => {
+    console.error('❌ Reindex failed:', error);
+    process.exitCode = 1;
+  })
+  .finally(() => prisma.$disconnect());
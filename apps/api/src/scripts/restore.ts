@@ -0,0 +1,40 @@
+import fs from 'fs';
+import { prisma } from '@kbase/database';
+import { restoreBackup } from '../lib/backup';
+import { reindexAll } from '../lib/search';
+
+// Restore a backup archive into an empty instance: pnpm --filter @kbase/api restore <file>
+// Only someone with access to the server can run it; the app has no way to restore
+async function main() {
+  const file = process.argv[2];
+  if (!file) {
+    throw new Error('Usage: restore <backup.tar.gz>');
+  }
+
+  console.log(`♻️  Restoring ${file}...`);
+  const summary = await restoreBackup(fs.createReadStream(file));
+
+  for (const [table, count] of Object.entries(summary.created)) {
+    console.log(`   ${table}: ${count} created`);
+  }
+  for (const [table, count] of Object.entries(summary.matched)) {
+    if (count > 0) console.log(`   ${table}: ${count} matched existing rows`);
+  }
+  console.log(`   files: ${summary.files} uploaded`);
+  if (summary.missingFiles.length > 0) {
+    console.warn(
+      `⚠️  ${summary.missingFiles.length} files listed in the manifest were not in the archive`
+    );
+  }
+
+  console.log('🔎 Rebuilding the search index...');
+  const indexed = await reindexAll();
+  console.log(`✅ Restore complete, ${indexed} items indexed`);
+}
+
+main()
+  .catch((error) => {
+    console.error('❌ Restore failed:', error);
+    process.exitCode = 1;
+  })
+  .finally(() => prisma.$disconnect());
@@ -0,0 +1,29 @@
+import { prisma } from '@kbase/database';
+import { startWorker } from './lib/jobs/worker';
+
+const CONCURRENCY = Number(process.env.WORKER_CONCURRENCY) || 2;
+
+// Background job worker: pnpm --filter @kbase/api dev:worker
+async function main() {
+  await prisma.$connect();
+  console.log('✅ Database connected');
+
+  const worker = startWorker({ concurrency: CONCURRENCY });
+  console.log(`⚙️  Job worker ${worker.workerId} running with concurrency ${CONCURRENCY}`);
+
+  const shutdown = async (signal: string) => {
+    console.log(`${signal} received, finishing in-flight jobs...`);
+    await worker.stop();
+    await prisma.$disconnect();
+    process.exit(0);
+  };
+
+  process.once('SIGTERM', () => void shutdown('SIGTERM'));
+  process.once('SIGINT', () => void shutdown('SIGINT'));
+}
+
+main().catch(async (error) => {
+  console.error('❌ Failed to start worker:', error);
+  await prisma.$disconnect();
+  process.exit(1);
+});
@@ -0,0 +1,127 @@
+'use client';
+
+import { Suspense, useState } from 'react';
+import Link from 'next/link';
+import { useRouter, useSearchParams } from 'next/navigation';
+import { BookOpen, Loader2 } from 'lucide-react';
+import { useAuth } from '@/lib/auth';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardFooter,
+  CardHeader,
+  CardTitle,
+} from '@/components/ui/card';
+
+function AcceptInvitationForm() {
+  const router = useRouter();
+  const searchParams = useSearchParams();
+  const { acceptInvitation } = useAuth();
+  const token = searchParams.get('token') || '';
+  const [name, setName] = useState('');
+  const [password, setPassword] = useState('');
+  const [confirmPassword, setConfirmPassword] = useState('');
+  const [error, setError] = useState('');
+  const [isLoading, setIsLoading] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+
+    if (password !== confirmPassword) {
+      setError('Passwords do not match');
+      return;
+    }
+
+    setIsLoading(true);
+
+    const result = await acceptInvitation(token, password, name || undefined);
+
+    if (result.success) {
+      router.push('/dashboard');
+    } else {
+      setError(result.error || 'Could not accept the invitation');
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader className="space-y-1 text-center">
+        <div className="flex justify-center mb-2">
+          <BookOpen className="h-10 w-10" />
+        </div>
+        <CardTitle className="text-2xl">Accept your invitation</CardTitle>
+        <CardDescription>Choose a password to finish setting up your account</CardDescription>
+      </CardHeader>
+      <form onSubmit={handleSubmit}>
+        <CardContent className="space-y-4">
+          {!token && (
+            <div className="p-3 text-sm text-destructive bg-destructive/10 rounded-md">
+              This invitation link is incomplete. Ask an administrator to send a new one.
+            </div>
+          )}
+          {error && (
+            <div className="p-3 text-sm text-destructive bg-destructive/10 rounded-md">{error}</div>
+          )}
+          <div className="space-y-2">
+            <Label htmlFor="name">Name</Label>
+            <Input
+              id="name"
+              placeholder="Leave blank to keep the name you were invited with"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              disabled={isLoading || !token}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="password">Password</Label>
+            <Input
+              id="password"
+              type="password"
+              value={password}
+              onChange={(e) => setPassword(e.target.value)}
+              required
+              disabled={isLoading || !token}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="confirmPassword">Confirm password</Label>
+            <Input
+              id="confirmPassword"
+              type="password"
+              value={confirmPassword}
+              onChange={(e) => setConfirmPassword(e.target.value)}
+              required
+              disabled={isLoading || !token}
+            />
+          </div>
+        </CardContent>
+        <CardFooter className="flex flex-col space-y-4">
+          <Button type="submit" className="w-full" disabled={isLoading || !token}>
+            {isLoading && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Accept invitation
+          </Button>
+          <p className="text-sm text-muted-foreground text-center">
+            Already set a password?{' '}
+            <Link href="/login" className="text-primary hover:underline">
+              Sign in
+            </Link>
+          </p>
+        </CardFooter>
+      </form>
+    </Card>
+  );
+}
+
+export default function AcceptInvitationPage() {
+  return (
+    <Suspense>
+      <AcceptInvitationForm />
+    </Suspense>
+  );
+}
@@ -0,0 +1,72 @@
+'use client';
+
+import { Suspense, useEffect, useRef, useState } from 'react';
+import Link from 'next/link';
+import { useSearchParams } from 'next/navigation';
+import { BookOpen, Loader2 } from 'lucide-react';
+import { api } from '@/lib/api';
+import { useAuth } from '@/lib/auth';
+import { Button } from '@/components/ui/button';
+import { Card, CardDescription, CardFooter, CardHeader, CardTitle } from '@/components/ui/card';
+
+type ConfirmState = 'confirming' | 'confirmed' | 'failed';
+
+function ConfirmEmailChange() {
+  const searchParams = useSearchParams();
+  const { refreshUser } = useAuth();
+  const token = searchParams.get('token') || '';
+  const [state, setState] = useState<ConfirmState>(token ? 'confirming' : 'failed');
+  const [message, setMessage] = useState(token ? '' : 'This confirmation link is incomplete.');
+  const submitted = useRef(false);
+
+  useEffect(() => {
+    if (!token || submitted.current) return;
+    submitted.current = true;
+
+    api.post<{ email: string }>('/auth/confirm-email-change', { token }).then((result) => {
+      if (result.success) {
+        setState('confirmed');
+        setMessage(`You now sign in with ${result.data?.email}.`);
+        refreshUser();
+      } else {
+        setState('failed');
+        setMessage(result.error?.message || 'Confirmation failed');
+      }
+    });
+  }, [token, refreshUser]);
+
+  return (
+    <Card>
+      <CardHeader className="space-y-1 text-center">
+        <div className="flex justify-center mb-2">
+          {state === 'confirming' ? (
+            <Loader2 className="h-10 w-10 animate-spin" />
+          ) : (
+            <BookOpen className="h-10 w-10" />
+          )}
+        </div>
+        <CardTitle className="text-2xl">
+          {state === 'confirming' && 'Confirming your new email...'}
+          {state === 'confirmed' && 'Email address updated'}
+          {state === 'failed' && 'Confirmation failed'}
+        </CardTitle>
+        {message && <CardDescription>{message}</CardDescription>}
+      </CardHeader>
+      {state !== 'confirming' && (
+        <CardFooter>
+          <Link href="/settings" className="w-full">
+            <Button className="w-full">Back to settings</Button>
+          </Link>
+        </CardFooter>
+      )}
+    </Card>
+  );
+}
+
+export default function ConfirmEmailPage() {
+  return (
+    <Suspense>
+      <ConfirmEmailChange />
+    </Suspense>
+  );
+}
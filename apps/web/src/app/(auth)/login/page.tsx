@@ -1,9 +1,10 @@
 'use client';
 
-import { useState } from 'react';
+import { useEffect, useState } from 'react';
 import Link from 'next/link';
 import { useRouter } from 'next/navigation';
 import { BookOpen, Loader2 } from 'lucide-react';
+import { api } from '@/lib/api';
 import { useAuth } from '@/lib/auth';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
@@ -19,21 +20,55 @@ import {
 
 export default function LoginPage() {
   const router = useRouter();
-  const { login } = useAuth();
+  const { login, completeTwoFactorLogin } = useAuth();
   const [email, setEmail] = useState('');
   const [password, setPassword] = useState('');
+  const [challengeToken, setChallengeToken] = useState('');
+  const [code, setCode] = useState('');
   const [error, setError] = useState('');
   const [isLoading, setIsLoading] = useState(false);
+  const [sso, setSso] = useState<{ enabled: boolean; providerName: string | null }>({
+    enabled: false,
+    providerName: null,
+  });
+
+  useEffect(() => {
+    api.get<{ enabled: boolean; providerName: string | null }>('/auth/oidc').then((response) => {
+      if (response.success && response.data) setSso(response.data);
+    });
+
+    // The SSO callback sends accounts with 2FA here to enter their code
+    const challenge = new URLSearchParams(window.location.search).get('challenge');
+    if (challenge) setChallengeToken(challenge);
+  }, []);
+
+  const handleSso = async () => {
+    setError('');
+    setIsLoading(true);
+
+    const response = await api.post<{ authorizationUrl: string }>('/auth/oidc/start');
+    if (response.success && response.data) {
+      window.location.assign(response.data.authorizationUrl);
+      return;
+    }
+
+    setError(response.error?.message || 'Could not start single sign-on');
+    setIsLoading(false);
+  };
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     setError('');
     setIsLoading(true);
 
-    const result = await login(email, password);
+    const result = challengeToken
+      ? await completeTwoFactorLogin(challengeToken, code)
+      : await login(email, password);
 
     if (result.success) {
       router.push('/dashboard');
+    } else if (result.twoFactorChallenge) {
+      setChallengeToken(result.twoFactorChallenge);
     } else {
       setError(result.error || 'Login failed');
     }
@@ -41,6 +76,60 @@ export default function LoginPage() {
     setIsLoading(false);
   };
 
+  if (challengeToken) {
+    return (
+      <Card>
+        <CardHeader className="space-y-1 text-center">
+          <div className="flex justify-center mb-2">
+            <BookOpen className="h-10 w-10" />
+          </div>
+          <CardTitle className="text-2xl">Two-factor authentication</CardTitle>
+          <CardDescription>
+            Enter the 6-digit code from your authenticator app, or one of your recovery codes
+          </CardDescription>
+        </CardHeader>
+        <form onSubmit={handleSubmit}>
+          <CardContent className="space-y-4">
+            {error && (
+              <div className="p-3 text-sm text-destructive bg-destructive/10 rounded-md">
+                {error}
+              </div>
+            )}
+            <div className="space-y-2">
+              <Label htmlFor="code">Authentication code</Label>
+              <Input
+                id="code"
+                autoComplete="one-time-code"
+                autoFocus
+                value={code}
+                onChange={(e) => setCode(e.target.value)}
+                required
+                disabled={isLoading}
+              />
+            </div>
+          </CardContent>
+          <CardFooter className="flex flex-col space-y-4">
+            <Button type="submit" className="w-full" disabled={isLoading}>
+              {isLoading && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Verify
+            </Button>
+            <button
+              type="button"
+              onClick={() => {
+                setChallengeToken('');
+                setCode('');
+                setError('');
+              }}
+              className="text-sm text-muted-foreground hover:text-primary"
+            >
+              Use a different account
+            </button>
+          </CardFooter>
+        </form>
+      </Card>
+    );
+  }
+
   return (
     <Card>
       <CardHeader className="space-y-1 text-center">
@@ -96,6 +185,17 @@ export default function LoginPage() {
             {isLoading && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
             Sign In
           </Button>
+          {sso.enabled && (
+            <Button
+              type="button"
+              variant="outline"
+              className="w-full"
+              onClick={handleSso}
+              disabled={isLoading}
+            >
+              Sign in with {sso.providerName}
+            </Button>
+          )}
           <p className="text-sm text-muted-foreground text-center">
             Don&apos;t have an account?{' '}
             <Link href="/register" className="text-primary hover:underline">
@@ -0,0 +1,137 @@
+'use client';
+
+import { Suspense, useState } from 'react';
+import Link from 'next/link';
+import { useSearchParams } from 'next/navigation';
+import { BookOpen, Loader2, ArrowLeft } from 'lucide-react';
+import { api } from '@/lib/api';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardFooter,
+  CardHeader,
+  CardTitle,
+} from '@/components/ui/card';
+
+function ResetPasswordForm() {
+  const searchParams = useSearchParams();
+  const token = searchParams.get('token') || '';
+  const [password, setPassword] = useState('');
+  const [confirmPassword, setConfirmPassword] = useState('');
+  const [error, setError] = useState('');
+  const [success, setSuccess] = useState(false);
+  const [isLoading, setIsLoading] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+
+    if (password !== confirmPassword) {
+      setError('Passwords do not match');
+      return;
+    }
+
+    setIsLoading(true);
+
+    const result = await api.post('/auth/reset-password', { token, password });
+
+    if (result.success) {
+      setSuccess(true);
+    } else {
+      setError(result.error?.message || 'Failed to reset password');
+    }
+
+    setIsLoading(false);
+  };
+
+  if (success) {
+    return (
+      <Card>
+        <CardHeader className="space-y-1 text-center">
+          <div className="flex justify-center mb-2">
+            <BookOpen className="h-10 w-10" />
+          </div>
+          <CardTitle className="text-2xl">Password updated</CardTitle>
+          <CardDescription>You can now sign in with your new password</CardDescription>
+        </CardHeader>
+        <CardFooter>
+          <Link href="/login" className="w-full">
+            <Button className="w-full">Go to login</Button>
+          </Link>
+        </CardFooter>
+      </Card>
+    );
+  }
+
+  return (
+    <Card>
+      <CardHeader className="space-y-1 text-center">
+        <div className="flex justify-center mb-2">
+          <BookOpen className="h-10 w-10" />
+        </div>
+        <CardTitle className="text-2xl">Choose a new password</CardTitle>
+        <CardDescription>Enter a new password for your account</CardDescription>
+      </CardHeader>
+      <form onSubmit={handleSubmit}>
+        <CardContent className="space-y-4">
+          {!token && (
+            <div className="p-3 text-sm text-destructive bg-destructive/10 rounded-md">
+              This reset link is incomplete. Request a new one.
+            </div>
+          )}
+          {error && (
+            <div className="p-3 text-sm text-destructive bg-destructive/10 rounded-md">{error}</div>
+          )}
+          <div className="space-y-2">
+            <Label htmlFor="password">New password</Label>
+            <Input
+              id="password"
+              type="password"
+              value={password}
+              onChange={(e) => setPassword(e.target.value)}
+              required
+              disabled={isLoading || !token}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="confirmPassword">Confirm password</Label>
+            <Input
+              id="confirmPassword"
+              type="password"
+              value={confirmPassword}
+              onChange={(e) => setConfirmPassword(e.target.value)}
+              required
+              disabled={isLoading || !token}
+            />
+          </div>
+        </CardContent>
+        <CardFooter className="flex flex-col space-y-4">
+          <Button type="submit" className="w-full" disabled={isLoading || !token}>
+            {isLoading && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Reset Password
+          </Button>
+          <Link
+            href="/forgot-password"
+            className="text-sm text-muted-foreground hover:text-primary flex items-center justify-center"
+          >
+            <ArrowLeft className="mr-2 h-4 w-4" />
+            Request a new link
+          </Link>
+        </CardFooter>
+      </form>
+    </Card>
+  );
+}
+
+export default function ResetPasswordPage() {
+  // useSearchParams needs a Suspense boundary so the page can still be prerendered
+  return (
+    <Suspense>
+      <ResetPasswordForm />
+    </Suspense>
+  );
+}
@@ -0,0 +1,70 @@
+'use client';
+
+import { Suspense, useEffect, useRef, useState } from 'react';
+import Link from 'next/link';
+import { useRouter, useSearchParams } from 'next/navigation';
+import { BookOpen, Loader2 } from 'lucide-react';
+import { useAuth } from '@/lib/auth';
+import { Button } from '@/components/ui/button';
+import { Card, CardDescription, CardFooter, CardHeader, CardTitle } from '@/components/ui/card';
+
+function SsoCallback() {
+  const router = useRouter();
+  const searchParams = useSearchParams();
+  const { completeSsoLogin } = useAuth();
+  const code = searchParams.get('code') || '';
+  const state = searchParams.get('state') || '';
+  // The provider reports cancelled or refused sign-ins with ?error=
+  const providerError = searchParams.get('error_description') || searchParams.get('error');
+  const [error, setError] = useState(
+    providerError || (code && state ? '' : 'This sign-in link is incomplete.')
+  );
+  // The code and state are single-use, so never submit them twice
+  const submitted = useRef(false);
+
+  useEffect(() => {
+    if (error || submitted.current) return;
+    submitted.current = true;
+
+    completeSsoLogin(code, state).then((result) => {
+      if (result.success) {
+        router.replace('/dashboard');
+      } else if (result.twoFactorChallenge) {
+        router.replace(`/login?challenge=${encodeURIComponent(result.twoFactorChallenge)}`);
+      } else {
+        setError(result.error || 'Single sign-on failed');
+      }
+    });
+  }, [code, state, error, completeSsoLogin, router]);
+
+  return (
+    <Card>
+      <CardHeader className="space-y-1 text-center">
+        <div className="flex justify-center mb-2">
+          {error ? (
+            <BookOpen className="h-10 w-10" />
+          ) : (
+            <Loader2 className="h-10 w-10 animate-spin" />
+          )}
+        </div>
+        <CardTitle className="text-2xl">{error ? 'Sign-in failed' : 'Signing you in...'}</CardTitle>
+        {error && <CardDescription>{error}</CardDescription>}
+      </CardHeader>
+      {error && (
+        <CardFooter>
+          <Link href="/login" className="w-full">
+            <Button className="w-full">Back to sign in</Button>
+          </Link>
+        </CardFooter>
+      )}
+    </Card>
+  );
+}
+
+export default function SsoCallbackPage() {
+  return (
+    <Suspense>
+      <SsoCallback />
+    </Suspense>
+  );
+}
@@ -0,0 +1,76 @@
+'use client';
+
+import { Suspense, useEffect, useRef, useState } from 'react';
+import Link from 'next/link';
+import { useSearchParams } from 'next/navigation';
+import { BookOpen, Loader2 } from 'lucide-react';
+import { api } from '@/lib/api';
+import { useAuth } from '@/lib/auth';
+import { Button } from '@/components/ui/button';
+import { Card, CardDescription, CardFooter, CardHeader, CardTitle } from '@/components/ui/card';
+
+type VerifyState = 'verifying' | 'verified' | 'failed';
+
+function VerifyEmail() {
+  const searchParams = useSearchParams();
+  const { refreshUser } = useAuth();
+  const token = searchParams.get('token') || '';
+  const [state, setState] = useState<VerifyState>(token ? 'verifying' : 'failed');
+  const [error, setError] = useState(token ? '' : 'This verification link is incomplete.');
+  // Tokens are single-use, so make sure a re-render never submits it twice
+  const submitted = useRef(false);
+
+  useEffect(() => {
+    if (!token || submitted.current) return;
+    submitted.current = true;
+
+    api.post('/auth/verify-email', { token }).then((result) => {
+      if (result.success) {
+        setState('verified');
+        // Clears the "verify your email" banner if this browser is signed in
+        refreshUser();
+      } else {
+        setState('failed');
+        setError(result.error?.message || 'Verification failed');
+      }
+    });
+  }, [token, refreshUser]);
+
+  return (
+    <Card>
+      <CardHeader className="space-y-1 text-center">
+        <div className="flex justify-center mb-2">
+          {state === 'verifying' ? (
+            <Loader2 className="h-10 w-10 animate-spin" />
+          ) : (
+            <BookOpen className="h-10 w-10" />
+          )}
+        </div>
+        <CardTitle className="text-2xl">
+          {state === 'verifying' && 'Verifying your email...'}
+          {state === 'verified' && 'Email verified'}
+          {state === 'failed' && 'Verification failed'}
+        </CardTitle>
+        <CardDescription>
+          {state === 'verified' && 'Thanks! Your email address has been confirmed.'}
+          {state === 'failed' && error}
+        </CardDescription>
+      </CardHeader>
+      {state !== 'verifying' && (
+        <CardFooter>
+          <Link href="/dashboard" className="w-full">
+            <Button className="w-full">Continue</Button>
+          </Link>
+        </CardFooter>
+      )}
+    </Card>
+  );
+}
+
+export default function VerifyEmailPage() {
+  return (
+    <Suspense>
+      <VerifyEmail />
+    </Suspense>
+  );
+}
@@ -0,0 +1,317 @@
+'use client';
+
+import { useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { useRouter } from 'next/navigation';
+import Link from 'next/link';
+import { ArrowLeft, Download, ScrollText, Shield } from 'lucide-react';
+import { api } from '@/lib/api';
+import { useAuth } from '@/lib/auth';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+
+interface AuditEvent {
+  id: string;
+  action: string;
+  actorEmail: string | null;
+  actor: { id: string; name: string; email: string } | null;
+  targetType: string | null;
+  targetId: string | null;
+  ipAddress: string | null;
+  userAgent: string | null;
+  before: unknown;
+  after: unknown;
+  createdAt: string;
+}
+
+interface Filters {
+  action: string;
+  actorId: string;
+  targetType: string;
+  targetId: string;
+  from: string;
+  to: string;
+}
+
+const EMPTY_FILTERS: Filters = {
+  action: '',
+  actorId: '',
+  targetType: '',
+  targetId: '',
+  from: '',
+  to: '',
+};
+
+function toQuery(filters: Filters, extra: Record<string, string> = {}): string {
+  const params = new URLSearchParams(extra);
+  for (const [key, value] of Object.entries(filters)) {
+    if (!value) continue;
+    // Date inputs give a day; "to" should include the whole of it
+    params.set(key, key === 'to' ? `${value}T23:59:59.999Z` : value);
+  }
+  return params.toString();
+}
+
+export default function AuditLogPage() {
+  const router = useRouter();
+  const { isAuthenticated, isLoading: authLoading, can } = useAuth();
+  const canView = isAuthenticated && can('audit:view');
+
+  const [draft, setDraft] = useState<Filters>(EMPTY_FILTERS);
+  const [filters, setFilters] = useState<Filters>(EMPTY_FILTERS);
+  const [page, setPage] = useState(1);
+  const [expanded, setExpanded] = useState<string | null>(null);
+  const [exportError, setExportError] = useState('');
+  const [isExporting, setIsExporting] = useState(false);
+
+  const { data, isLoading } = useQuery({
+    queryKey: ['admin', 'audit', filters, page],
+    queryFn: async () => {
+      const response = await api.get<{ events: AuditEvent[]; actions: string[] }>(
+        `/admin/audit?${toQuery(filters, { page: String(page), limit: '50' })}`
+      );
+      return {
+        events: response.data?.events || [],
+        actions: response.data?.actions || [],
+        totalPages: response.meta?.totalPages || 1,
+        total: response.meta?.total || 0,
+      };
+    },
+    enabled: canView,
+  });
+
+  if (!authLoading && !isAuthenticated) {
+    router.push('/login');
+    return null;
+  }
+
+  if (!authLoading && !canView) {
+    return (
+      <div className="container py-8">
+        <Card>
+          <CardContent className="flex flex-col items-center justify-center py-12">
+            <Shield className="h-12 w-12 text-muted-foreground mb-4" />
+            <p className="text-muted-foreground">
+              You don&apos;t have permission to view the audit log
+            </p>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  const handleExport = async () => {
+    setExportError('');
+    setIsExporting(true);
+
+    const blob = await api.download(`/admin/audit?${toQuery(filters, { format: 'csv' })}`);
+    if (blob) {
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `audit-${new Date().toISOString().slice(0, 10)}.csv`;
+      link.click();
+      URL.revokeObjectURL(url);
+    } else {
+      setExportError('Export failed');
+    }
+
+    setIsExporting(false);
+  };
+
+  const setField =
+    (key: keyof Filters) => (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>) =>
+      setDraft({ ...draft, [key]: e.target.value });
+
+  return (
+    <div className="container py-8">
+      <Link
+        href="/admin"
+        className="inline-flex items-center text-sm text-muted-foreground hover:text-foreground mb-6"
+      >
+        <ArrowLeft className="mr-2 h-4 w-4" />
+        Back to Admin Panel
+      </Link>
+
+      <div className="flex items-center justify-between mb-8">
+        <div>
+          <h1 className="text-3xl font-bold tracking-tight">Audit Log</h1>
+          <p className="text-muted-foreground">Sign-ins, permission changes and deletions</p>
+        </div>
+        <Button variant="outline" onClick={handleExport} disabled={isExporting}>
+          <Download className="mr-2 h-4 w-4" />
+          Export CSV
+        </Button>
+      </div>
+
+      <Card className="mb-8">
+        <CardHeader>
+          <CardTitle>Filters</CardTitle>
+          <CardDescription>The CSV export uses the same filters</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <form
+            onSubmit={(e) => {
+              e.preventDefault();
+              setFilters(draft);
+              setPage(1);
+            }}
+            className="grid gap-4 md:grid-cols-3"
+          >
+            <div className="space-y-2">
+              <Label htmlFor="action">Action</Label>
+              <select
+                id="action"
+                value={draft.action}
+                onChange={setField('action')}
+                className="w-full text-sm border rounded px-2 py-2"
+              >
+                <option value="">All actions</option>
+                {data?.actions.map((action) => (
+                  <option key={action} value={action}>
+                    {action}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="actorId">Actor ID</Label>
+              <Input id="actorId" value={draft.actorId} onChange={setField('actorId')} />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="targetType">Target type</Label>
+              <Input
+                id="targetType"
+                placeholder="user, article, category..."
+                value={draft.targetType}
+                onChange={setField('targetType')}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="targetId">Target ID</Label>
+              <Input id="targetId" value={draft.targetId} onChange={setField('targetId')} />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="from">From</Label>
+              <Input id="from" type="date" value={draft.from} onChange={setField('from')} />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="to">To</Label>
+              <Input id="to" type="date" value={draft.to} onChange={setField('to')} />
+            </div>
+            <div className="flex space-x-2 md:col-span-3">
+              <Button type="submit">Apply</Button>
+              <Button
+                type="button"
+                variant="outline"
+                onClick={() => {
+                  setDraft(EMPTY_FILTERS);
+                  setFilters(EMPTY_FILTERS);
+                  setPage(1);
+                }}
+              >
+                Clear
+              </Button>
+            </div>
+          </form>
+        </CardContent>
+      </Card>
+
+      {exportError && (
+        <div className="p-3 mb-4 text-sm text-destructive bg-destructive/10 rounded-md">
+          {exportError}
+        </div>
+      )}
+
+      <Card>
+        <CardContent className="pt-6">
+          {authLoading || isLoading ? (
+            <div className="space-y-2">
+              {[1, 2, 3].map((i) => (
+                <div key={i} className="h-12 bg-muted rounded animate-pulse" />
+              ))}
+            </div>
+          ) : data?.events.length ? (
+            <div className="space-y-2">
+              {data.events.map((event) => (
+                <div key={event.id} className="border rounded-lg text-sm">
+                  <button
+                    type="button"
+                    onClick={() => setExpanded(expanded === event.id ? null : event.id)}
+                    className="w-full flex items-center justify-between p-3 text-left hover:bg-muted/50"
+                  >
+                    <div className="min-w-0">
+                      <p className="font-mono text-xs">{event.action}</p>
+                      <p className="text-muted-foreground truncate">
+                        {event.actor?.name || event.actorEmail || 'Anonymous'}
+                        {event.targetType && ` → ${event.targetType} ${event.targetId ?? ''}`}
+                      </p>
+                    </div>
+                    <div className="text-right text-xs text-muted-foreground shrink-0 ml-4">
+                      <p>{new Date(event.createdAt).toLocaleString()}</p>
+                      <p>{event.ipAddress}</p>
+                    </div>
+                  </button>
+                  {expanded === event.id && (
+                    <div className="border-t p-3 space-y-2 text-xs">
+                      {event.userAgent && (
+                        <p className="text-muted-foreground break-all">{event.userAgent}</p>
+                      )}
+                      <div className="grid gap-2 md:grid-cols-2">
+                        <div>
+                          <p className="font-medium mb-1">Before</p>
+                          <pre className="bg-muted rounded p-2 overflow-x-auto">
+                            {event.before ? JSON.stringify(event.before, null, 2) : '—'}
+                          </pre>
+                        </div>
+                        <div>
+                          <p className="font-medium mb-1">After</p>
+                          <pre className="bg-muted rounded p-2 overflow-x-auto">
+                            {event.after ? JSON.stringify(event.after, null, 2) : '—'}
+                          </pre>
+                        </div>
+                      </div>
+                    </div>
+                  )}
+                </div>
+              ))}
+            </div>
+          ) : (
+            <div className="flex flex-col items-center justify-center py-12">
+              <ScrollText className="h-12 w-12 text-muted-foreground mb-4" />
+              <p className="text-muted-foreground">No events match these filters</p>
+            </div>
+          )}
+
+          {data && data.totalPages > 1 && (
+            <div className="flex items-center justify-between mt-4">
+              <p className="text-sm text-muted-foreground">
+                Page {page} of {data.totalPages} · {data.total} events
+              </p>
+              <div className="flex space-x-2">
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => setPage(page - 1)}
+                  disabled={page === 1}
+                >
+                  Previous
+                </Button>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => setPage(page + 1)}
+                  disabled={page >= data.totalPages}
+                >
+                  Next
+                </Button>
+              </div>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,381 @@
+'use client';
+
+import { useRef, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import Link from 'next/link';
+import { ArrowLeft, FileUp, Loader2, Shield } from 'lucide-react';
+import type {
+  ArticleImportReport,
+  ArticleImportStatus,
+  ConfluenceImportReport,
+} from '@kbase/types';
+import { formatFileSize } from '@kbase/utils';
+import { api } from '@/lib/api';
+import { useAuth } from '@/lib/auth';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+
+type ImportSource = 'markdown' | 'confluence';
+
+const SOURCES: Record<ImportSource, { label: string; accept: string; endpoint: string }> = {
+  markdown: { label: 'Markdown files', accept: '.md,.markdown,.zip', endpoint: '/articles/import' },
+  confluence: {
+    label: 'Confluence space export',
+    accept: '.zip',
+    endpoint: '/articles/import/confluence',
+  },
+};
+
+const STATUS_STYLES: Record<ArticleImportStatus, string> = {
+  created: 'bg-green-100 text-green-800',
+  skipped: 'bg-gray-200 text-gray-700',
+  failed: 'bg-red-100 text-red-800',
+};
+
+export default function ImportArticlesPage() {
+  const router = useRouter();
+  const { isAuthenticated, isLoading: authLoading, can } = useAuth();
+  const canImport = isAuthenticated && can('article:import');
+  const canPublish = can('article:publish') && can('document:publish');
+
+  const fileInput = useRef<HTMLInputElement>(null);
+  const [source, setSource] = useState<ImportSource>('markdown');
+  const [files, setFiles] = useState<File[]>([]);
+  const [dryRun, setDryRun] = useState(true);
+  const [publish, setPublish] = useState(false);
+  const [report, setReport] = useState<ArticleImportReport | ConfluenceImportReport | null>(null);
+  const [error, setError] = useState('');
+  const [isImporting, setIsImporting] = useState(false);
+
+  if (!authLoading && !isAuthenticated) {
+    router.push('/login');
+    return null;
+  }
+
+  if (!authLoading && !canImport) {
+    return (
+      <div className="container py-8">
+        <Card>
+          <CardContent className="flex flex-col items-center justify-center py-12">
+            <Shield className="h-12 w-12 text-muted-foreground mb-4" />
+            <p className="text-muted-foreground">
+              You don&apos;t have permission to import articles
+            </p>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  const handleImport = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+    setReport(null);
+    setIsImporting(true);
+
+    const formData = new FormData();
+    if (source === 'confluence') {
+      formData.append('file', files[0]);
+      formData.append('publish', String(publish));
+    } else {
+      for (const file of files) {
+        formData.append('files', file);
+      }
+    }
+    formData.append('dryRun', String(dryRun));
+
+    const response = await api.uploadFile<ArticleImportReport | ConfluenceImportReport>(
+      SOURCES[source].endpoint,
+      formData
+    );
+    if (response.success && response.data) {
+      setReport(response.data);
+      // A real import is done with these files; a dry run is usually followed by the real thing
+      if (!dryRun) {
+        setFiles([]);
+        if (fileInput.current) fileInput.current.value = '';
+      }
+    } else {
+      setError(response.error?.message || 'Import failed');
+    }
+
+    setIsImporting(false);
+  };
+
+  return (
+    <div className="container py-8">
+      <Link
+        href="/admin"
+        className="inline-flex items-center text-sm text-muted-foreground hover:text-foreground mb-6"
+      >
+        <ArrowLeft className="mr-2 h-4 w-4" />
+        Back to Admin Panel
+      </Link>
+
+      <div className="mb-8">
+        <h1 className="text-3xl font-bold tracking-tight">Import Articles</h1>
+        <p className="text-muted-foreground">
+          Create articles from Markdown files or a Confluence space
+        </p>
+      </div>
+
+      <Card className="mb-8">
+        <CardHeader>
+          <CardTitle>Files</CardTitle>
+          {source === 'markdown' ? (
+            <CardDescription>
+              Upload .md files or a zip of them. YAML front matter can set <code>title</code>,{' '}
+              <code>tags</code>, <code>category</code> (a category slug), <code>status</code> (draft
+              or published), <code>author</code> (a user&apos;s email) and <code>excerpt</code>.
+              Files whose title already exists are skipped.
+            </CardDescription>
+          ) : (
+            <CardDescription>
+              Upload the zip from a Confluence HTML space export. The space becomes a category,
+              pages with children become subcategories, attachments become documents and links
+              between pages are rewritten. Pages whose title already exists are skipped.
+            </CardDescription>
+          )}
+        </CardHeader>
+        <CardContent>
+          <form onSubmit={handleImport} className="space-y-4">
+            <div className="flex space-x-2">
+              {(Object.keys(SOURCES) as ImportSource[]).map((key) => (
+                <Button
+                  key={key}
+                  type="button"
+                  size="sm"
+                  variant={source === key ? 'default' : 'outline'}
+                  onClick={() => {
+                    setSource(key);
+                    setFiles([]);
+                    setReport(null);
+                    if (fileInput.current) fileInput.current.value = '';
+                  }}
+                  disabled={isImporting}
+                >
+                  {SOURCES[key].label}
+                </Button>
+              ))}
+            </div>
+            {error && (
+              <div className="p-3 text-sm text-destructive bg-destructive/10 rounded-md">
+                {error}
+              </div>
+            )}
+            <input
+              ref={fileInput}
+              type="file"
+              multiple={source === 'markdown'}
+              accept={SOURCES[source].accept}
+              onChange={(e) => {
+                setFiles(Array.from(e.target.files || []));
+                setReport(null);
+              }}
+              disabled={isImporting}
+              className="block w-full text-sm"
+            />
+            {files.length > 0 && (
+              <p className="text-sm text-muted-foreground">
+                {files.length} {files.length === 1 ? 'file' : 'files'},{' '}
+                {formatFileSize(files.reduce((total, file) => total + file.size, 0))}
+              </p>
+            )}
+            <label className="flex items-center space-x-2 text-sm">
+              <input
+                type="checkbox"
+                checked={dryRun}
+                onChange={(e) => setDryRun(e.target.checked)}
+                disabled={isImporting}
+              />
+              <span>Dry run: check the files and report what would happen without saving</span>
+            </label>
+            {source === 'confluence' && canPublish && (
+              <label className="flex items-center space-x-2 text-sm">
+                <input
+                  type="checkbox"
+                  checked={publish}
+                  onChange={(e) => setPublish(e.target.checked)}
+                  disabled={isImporting}
+                />
+                <span>Publish the imported pages and attachments instead of saving drafts</span>
+              </label>
+            )}
+            <Button type="submit" disabled={isImporting || files.length === 0}>
+              {isImporting ? (
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+              ) : (
+                <FileUp className="mr-2 h-4 w-4" />
+              )}
+              {dryRun ? 'Check files' : 'Import'}
+            </Button>
+          </form>
+        </CardContent>
+      </Card>
+
+      {report && (
+        <Card className="mb-8">
+          <CardHeader>
+            <CardTitle>{report.dryRun ? 'Dry run report' : 'Import report'}</CardTitle>
+            <CardDescription>
+              {report.summary.created} {report.dryRun ? 'would be created' : 'created'} ·{' '}
+              {report.summary.skipped} skipped · {report.summary.failed} failed
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            {report.results.length > 0 ? (
+              <div className="overflow-x-auto">
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="border-b text-left">
+                      <th className="py-2 pr-4 font-medium">File</th>
+                      <th className="py-2 pr-4 font-medium">Result</th>
+                      <th className="py-2 font-medium">Details</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {report.results.map((result, index) => (
+                      <tr key={`${result.file}-${index}`} className="border-b last:border-0">
+                        <td className="py-2 pr-4 font-mono text-xs break-all">{result.file}</td>
+                        <td className="py-2 pr-4">
+                          <span
+                            className={`px-2 py-1 rounded text-xs ${STATUS_STYLES[result.status]}`}
+                          >
+                            {result.status}
+                          </span>
+                        </td>
+                        <td className="py-2">
+                          {/* Skipped files point at the article that already has their title */}
+                          {result.slug && (result.articleId || result.status === 'skipped') ? (
+                            <Link
+                              href={`/articles/${result.slug}`}
+                              className="font-medium hover:underline"
+                            >
+                              {result.title}
+                            </Link>
+                          ) : (
+                            result.title && <span className="font-medium">{result.title}</span>
+                          )}
+                          {result.message && (
+                            <p className="text-muted-foreground">{result.message}</p>
+                          )}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            ) : (
+              <p className="text-sm text-muted-foreground">The upload contained no files</p>
+            )}
+          </CardContent>
+        </Card>
+      )}
+
+      {report && 'space' in report && <ConfluenceDetails report={report} />}
+    </div>
+  );
+}
+
+function ConfluenceDetails({ report }: { report: ConfluenceImportReport }) {
+  return (
+    <div className="grid gap-8 md:grid-cols-2">
+      <Card>
+        <CardHeader>
+          <CardTitle>Categories</CardTitle>
+          <CardDescription>The page tree of the {report.space} space</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-2">
+          {report.categories.map((category) => (
+            <div key={category.slug} className="flex items-center justify-between text-sm">
+              {report.dryRun && category.status === 'created' ? (
+                <span className="font-medium">{category.name}</span>
+              ) : (
+                <Link href={`/categories/${category.slug}`} className="font-medium hover:underline">
+                  {category.name}
+                </Link>
+              )}
+              <span className="text-muted-foreground">
+                {category.status === 'existing' ? 'already exists' : 'new'}
+              </span>
+            </div>
+          ))}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Unmapped macros</CardTitle>
+          <CardDescription>
+            Only their text was kept. Check these pages after the import.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-3">
+          {report.unmappedMacros.length > 0 ? (
+            report.unmappedMacros.map((macro) => (
+              <div key={macro.name} className="text-sm">
+                <p>
+                  <code>{macro.name}</code>{' '}
+                  <span className="text-muted-foreground">
+                    × {macro.count} on {macro.pages.length}{' '}
+                    {macro.pages.length === 1 ? 'page' : 'pages'}
+                  </span>
+                </p>
+                <p className="text-muted-foreground">{macro.pages.join(', ')}</p>
+              </div>
+            ))
+          ) : (
+            <p className="text-sm text-muted-foreground">Every macro was converted</p>
+          )}
+        </CardContent>
+      </Card>
+
+      {report.attachments.length > 0 && (
+        <Card className="md:col-span-2">
+          <CardHeader>
+            <CardTitle>Attachments</CardTitle>
+          </CardHeader>
+          <CardContent className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="border-b text-left">
+                  <th className="py-2 pr-4 font-medium">File</th>
+                  <th className="py-2 pr-4 font-medium">Page</th>
+                  <th className="py-2 pr-4 font-medium">Result</th>
+                  <th className="py-2 font-medium">Details</th>
+                </tr>
+              </thead>
+              <tbody>
+                {report.attachments.map((attachment, index) => (
+                  <tr key={`${attachment.file}-${index}`} className="border-b last:border-0">
+                    <td className="py-2 pr-4 break-all">
+                      {attachment.documentId ? (
+                        <Link
+                          href={`/documents/${attachment.documentId}`}
+                          className="font-medium hover:underline"
+                        >
+                          {attachment.file}
+                        </Link>
+                      ) : (
+                        attachment.file
+                      )}
+                    </td>
+                    <td className="py-2 pr-4">{attachment.page}</td>
+                    <td className="py-2 pr-4">
+                      <span
+                        className={`px-2 py-1 rounded text-xs ${STATUS_STYLES[attachment.status]}`}
+                      >
+                        {attachment.status}
+                      </span>
+                    </td>
+                    <td className="py-2 text-muted-foreground">{attachment.message}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+}
@@ -1,11 +1,25 @@
 'use client';
 
+import { useState } from 'react';
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { useRouter } from 'next/navigation';
-import { Shield, Users, FileText, FolderOpen } from 'lucide-react';
+import Link from 'next/link';
+import {
+  Shield,
+  Users,
+  FileText,
+  FolderOpen,
+  RotateCw,
+  Trash2,
+  ScrollText,
+  FileUp,
+  Download,
+  Loader2,
+} from 'lucide-react';
 import { api } from '@/lib/api';
 import { useAuth } from '@/lib/auth';
 import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Avatar, AvatarFallback } from '@/components/ui/avatar';
 
@@ -16,6 +30,41 @@ interface User {
   role: 'ADMIN' | 'EDITOR' | 'VIEWER';
   createdAt: string;
   emailVerified: string | null;
+  status: 'active' | 'invited' | 'locked' | 'deactivated';
+  deactivatedAt: string | null;
+  lockedUntil: string | null;
+  invitationExpiresAt: string | null;
+}
+
+type UserAction = 'deactivate' | 'reactivate' | 'unlock' | 'force-password-reset' | 'invitation';
+
+type JobStatus = 'PENDING' | 'RUNNING' | 'COMPLETED' | 'DEAD';
+
+interface Job {
+  id: string;
+  type: string;
+  status: JobStatus;
+  attempts: number;
+  lastError: string | null;
+  updatedAt: string;
+}
+
+interface RolePolicy {
+  role: 'ADMIN' | 'EDITOR' | 'VIEWER';
+  requireTwoFactor: boolean;
+}
+
+interface PermissionMatrix {
+  catalog: { key: string; description: string }[];
+  roles: { role: 'ADMIN' | 'EDITOR' | 'VIEWER'; editable: boolean; permissions: string[] }[];
+}
+
+interface Group {
+  id: string;
+  name: string;
+  description: string | null;
+  owners: { id: string; name: string }[];
+  _count: { memberships: number };
 }
 
 interface Stats {
@@ -27,9 +76,38 @@ interface Stats {
 export default function AdminPage() {
   const router = useRouter();
   const queryClient = useQueryClient();
-  const { user, isAuthenticated } = useAuth();
+  const { user, isAuthenticated, can } = useAuth();
+
+  const canManageUsers = isAuthenticated && can('user:manage');
+  const canManageRoles = isAuthenticated && can('role:manage');
+  const canManageSystem = isAuthenticated && can('system:manage');
+  // Backups hold every restricted category, so they stay with admins whatever the role grants
+  const canBackup = canManageSystem && user?.role === 'ADMIN';
+  const canManageGroups = isAuthenticated && can('group:manage');
+  const canViewAudit = isAuthenticated && can('audit:view');
+  const canImport = isAuthenticated && can('article:import');
+  const canAccess =
+    canManageUsers ||
+    canManageRoles ||
+    canManageSystem ||
+    canManageGroups ||
+    canViewAudit ||
+    canImport;
 
-  const isAdmin = isAuthenticated && user?.role === 'ADMIN';
+  const [groupName, setGroupName] = useState('');
+  const [groupDescription, setGroupDescription] = useState('');
+  const [groupError, setGroupError] = useState('');
+  const [inviteEmail, setInviteEmail] = useState('');
+  const [inviteName, setInviteName] = useState('');
+  const [inviteRole, setInviteRole] = useState<User['role']>('VIEWER');
+  const [userError, setUserError] = useState('');
+  const [userMessage, setUserMessage] = useState('');
+  const [deletingUserId, setDeletingUserId] = useState<string | null>(null);
+  // Empty means the user's content is deleted along with them
+  const [reassignTo, setReassignTo] = useState('');
+  const [backupSecrets, setBackupSecrets] = useState(false);
+  const [backupError, setBackupError] = useState('');
+  const [isBackingUp, setIsBackingUp] = useState(false);
 
   const { data: users, isLoading: usersLoading } = useQuery({
     queryKey: ['admin', 'users'],
@@ -37,7 +115,7 @@ export default function AdminPage() {
       const response = await api.get<{ users: User[] }>('/admin/users');
       return response.data?.users || [];
     },
-    enabled: isAdmin,
+    enabled: canManageUsers,
   });
 
   const { data: stats } = useQuery({
@@ -46,7 +124,111 @@ export default function AdminPage() {
       const response = await api.get<Stats>('/admin/stats');
       return response.data || { users: 0, articles: 0, documents: 0 };
     },
-    enabled: isAdmin,
+    enabled: canManageSystem,
+  });
+
+  const { data: jobs } = useQuery({
+    queryKey: ['admin', 'jobs'],
+    queryFn: async () => {
+      const response = await api.get<{ jobs: Job[]; counts: Record<JobStatus, number> }>(
+        '/admin/jobs?status=DEAD&limit=10'
+      );
+      return (
+        response.data || { jobs: [], counts: { PENDING: 0, RUNNING: 0, COMPLETED: 0, DEAD: 0 } }
+      );
+    },
+    enabled: canManageSystem,
+  });
+
+  const { data: rolePolicies } = useQuery({
+    queryKey: ['admin', 'role-policies'],
+    queryFn: async () => {
+      const response = await api.get<{ policies: RolePolicy[] }>('/admin/role-policies');
+      return response.data?.policies || [];
+    },
+    enabled: canManageRoles,
+  });
+
+  const { data: permissionMatrix } = useQuery({
+    queryKey: ['admin', 'permissions'],
+    queryFn: async () => {
+      const response = await api.get<PermissionMatrix>('/admin/permissions');
+      return response.data || { catalog: [], roles: [] };
+    },
+    enabled: canManageRoles,
+  });
+
+  const { data: groups } = useQuery({
+    queryKey: ['admin', 'groups'],
+    queryFn: async () => {
+      const response = await api.get<{ groups: Group[] }>('/admin/groups');
+      return response.data?.groups || [];
+    },
+    enabled: canManageGroups,
+  });
+
+  const onGroupChange = (response: { success: boolean; error?: { message: string } }) => {
+    if (!response.success) {
+      setGroupError(response.error?.message || 'Something went wrong');
+      return;
+    }
+    setGroupError('');
+    queryClient.invalidateQueries({ queryKey: ['admin', 'groups'] });
+    queryClient.invalidateQueries({ queryKey: ['groups'] });
+  };
+
+  const createGroupMutation = useMutation({
+    mutationFn: async () =>
+      api.post('/admin/groups', {
+        name: groupName,
+        description: groupDescription || undefined,
+      }),
+    onSuccess: (response) => {
+      if (response.success) {
+        setGroupName('');
+        setGroupDescription('');
+      }
+      onGroupChange(response);
+    },
+  });
+
+  const deleteGroupMutation = useMutation({
+    mutationFn: async (groupId: string) => api.delete(`/admin/groups/${groupId}`),
+    onSuccess: onGroupChange,
+  });
+
+  const updatePermissionsMutation = useMutation({
+    mutationFn: async ({ role, permissions }: { role: string; permissions: string[] }) => {
+      return api.put(`/admin/roles/${role}/permissions`, { permissions });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['admin', 'permissions'] });
+    },
+  });
+
+  const togglePermission = (role: string, current: string[], key: string, granted: boolean) => {
+    updatePermissionsMutation.mutate({
+      role,
+      permissions: granted ? [...current, key] : current.filter((p) => p !== key),
+    });
+  };
+
+  const updatePolicyMutation = useMutation({
+    mutationFn: async ({ role, requireTwoFactor }: RolePolicy) => {
+      return api.put(`/admin/role-policies/${role}`, { requireTwoFactor });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['admin', 'role-policies'] });
+    },
+  });
+
+  const retryJobMutation = useMutation({
+    mutationFn: async (jobId: string) => {
+      return api.post(`/admin/jobs/${jobId}/retry`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['admin', 'jobs'] });
+    },
   });
 
   const updateRoleMutation = useMutation({
@@ -58,12 +240,92 @@ export default function AdminPage() {
     },
   });
 
+  const onUserChange = (
+    response: { success: boolean; error?: { message: string } },
+    message: string
+  ) => {
+    if (!response.success) {
+      setUserMessage('');
+      setUserError(response.error?.message || 'Something went wrong');
+      return;
+    }
+    setUserError('');
+    setUserMessage(message);
+    queryClient.invalidateQueries({ queryKey: ['admin', 'users'] });
+    queryClient.invalidateQueries({ queryKey: ['admin', 'stats'] });
+  };
+
+  const inviteUserMutation = useMutation({
+    mutationFn: async () =>
+      api.post('/admin/users/invite', {
+        email: inviteEmail,
+        name: inviteName || undefined,
+        role: inviteRole,
+      }),
+    onSuccess: (response) => {
+      if (response.success) {
+        setInviteEmail('');
+        setInviteName('');
+        setInviteRole('VIEWER');
+      }
+      onUserChange(response, `Invitation sent to ${inviteEmail}`);
+    },
+  });
+
+  const userActionMutation = useMutation({
+    mutationFn: async ({ userId, action }: { userId: string; action: UserAction }) =>
+      api.post(`/admin/users/${userId}/${action}`),
+    onSuccess: (response, { action }) => {
+      const messages: Record<UserAction, string> = {
+        deactivate: 'User deactivated and signed out everywhere',
+        reactivate: 'User reactivated',
+        unlock: 'Account unlocked',
+        'force-password-reset': 'Password reset email sent',
+        invitation: 'Invitation sent again',
+      };
+      onUserChange(response, messages[action]);
+    },
+  });
+
+  const deleteUserMutation = useMutation({
+    mutationFn: async ({ userId, reassignTo }: { userId: string; reassignTo: string }) =>
+      api.delete(
+        `/admin/users/${userId}${reassignTo ? `?reassignTo=${encodeURIComponent(reassignTo)}` : ''}`
+      ),
+    onSuccess: (response) => {
+      if (response.success) {
+        setDeletingUserId(null);
+        setReassignTo('');
+      }
+      onUserChange(response, 'User deleted');
+    },
+  });
+
+  const handleBackup = async () => {
+    setBackupError('');
+    setIsBackingUp(true);
+
+    const blob = await api.download(`/admin/backup?includeSecrets=${backupSecrets}`);
+    if (blob) {
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `kbase-backup-${new Date().toISOString().slice(0, 10)}.tar.gz`;
+      link.click();
+      URL.revokeObjectURL(url);
+    } else {
+      setBackupError('Backup failed');
+    }
+
+    setIsBackingUp(false);
+  };
+
   if (!isAuthenticated) {
     router.push('/login');
     return null;
   }
 
-  if (!isAdmin) {
+  if (!canAccess) {
     return (
       <div className="container py-8">
         <Card>
@@ -98,109 +360,535 @@ export default function AdminPage() {
     }
   };
 
+  const getStatusBadgeColor = (status: User['status']) => {
+    switch (status) {
+      case 'deactivated':
+        return 'bg-gray-200 text-gray-700';
+      case 'locked':
+        return 'bg-orange-100 text-orange-800';
+      case 'invited':
+        return 'bg-yellow-100 text-yellow-800';
+      default:
+        return 'bg-green-100 text-green-800';
+    }
+  };
+
   return (
     <div className="container py-8">
-      <div className="mb-8">
-        <h1 className="text-3xl font-bold tracking-tight">Admin Panel</h1>
-        <p className="text-muted-foreground">Manage users and system settings</p>
+      <div className="flex items-center justify-between mb-8">
+        <div>
+          <h1 className="text-3xl font-bold tracking-tight">Admin Panel</h1>
+          <p className="text-muted-foreground">Manage users and system settings</p>
+        </div>
+        <div className="flex items-center space-x-2">
+          {canImport && (
+            <Link href="/admin/import">
+              <Button variant="outline">
+                <FileUp className="mr-2 h-4 w-4" />
+                Import Articles
+              </Button>
+            </Link>
+          )}
+          {canViewAudit && (
+            <Link href="/admin/audit">
+              <Button variant="outline">
+                <ScrollText className="mr-2 h-4 w-4" />
+                Audit Log
+              </Button>
+            </Link>
+          )}
+        </div>
       </div>
 
-      <div className="grid gap-4 md:grid-cols-3 mb-8">
-        <Card>
-          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
-            <CardTitle className="text-sm font-medium">Total Users</CardTitle>
-            <Users className="h-4 w-4 text-muted-foreground" />
+      {canManageSystem && (
+        <div className="grid gap-4 md:grid-cols-3 mb-8">
+          <Card>
+            <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+              <CardTitle className="text-sm font-medium">Total Users</CardTitle>
+              <Users className="h-4 w-4 text-muted-foreground" />
+            </CardHeader>
+            <CardContent>
+              <div className="text-2xl font-bold">{stats?.users || 0}</div>
+            </CardContent>
+          </Card>
+          <Card>
+            <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+              <CardTitle className="text-sm font-medium">Total Articles</CardTitle>
+              <FileText className="h-4 w-4 text-muted-foreground" />
+            </CardHeader>
+            <CardContent>
+              <div className="text-2xl font-bold">{stats?.articles || 0}</div>
+            </CardContent>
+          </Card>
+          <Card>
+            <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+              <CardTitle className="text-sm font-medium">Total Documents</CardTitle>
+              <FolderOpen className="h-4 w-4 text-muted-foreground" />
+            </CardHeader>
+            <CardContent>
+              <div className="text-2xl font-bold">{stats?.documents || 0}</div>
+            </CardContent>
+          </Card>
+        </div>
+      )}
+
+      {canManageUsers && (
+        <Card className="mb-8">
+          <CardHeader>
+            <CardTitle>User Management</CardTitle>
+            <CardDescription>Invite people, change roles and manage account access</CardDescription>
           </CardHeader>
           <CardContent>
-            <div className="text-2xl font-bold">{stats?.users || 0}</div>
+            <form
+              onSubmit={(e) => {
+                e.preventDefault();
+                inviteUserMutation.mutate();
+              }}
+              className="flex flex-wrap items-center gap-2 mb-4"
+            >
+              <Input
+                type="email"
+                placeholder="Email"
+                value={inviteEmail}
+                onChange={(e) => setInviteEmail(e.target.value)}
+                className="max-w-xs"
+                required
+              />
+              <Input
+                placeholder="Name (optional)"
+                value={inviteName}
+                onChange={(e) => setInviteName(e.target.value)}
+                className="max-w-xs"
+              />
+              <select
+                value={inviteRole}
+                onChange={(e) => setInviteRole(e.target.value as User['role'])}
+                className="text-sm border rounded px-2 py-2"
+              >
+                <option value="VIEWER">Viewer</option>
+                <option value="EDITOR">Editor</option>
+                <option value="ADMIN">Admin</option>
+              </select>
+              <Button type="submit" disabled={!inviteEmail || inviteUserMutation.isPending}>
+                Invite
+              </Button>
+            </form>
+            {userError && (
+              <div className="p-3 mb-4 text-sm text-destructive bg-destructive/10 rounded-md">
+                {userError}
+              </div>
+            )}
+            {userMessage && (
+              <div className="p-3 mb-4 text-sm text-green-800 bg-green-100 rounded-md">
+                {userMessage}
+              </div>
+            )}
+            {usersLoading ? (
+              <div className="space-y-4">
+                {[1, 2, 3].map((i) => (
+                  <div key={i} className="flex items-center space-x-4 animate-pulse">
+                    <div className="h-10 w-10 bg-muted rounded-full" />
+                    <div className="flex-1">
+                      <div className="h-4 bg-muted rounded w-1/4 mb-2" />
+                      <div className="h-3 bg-muted rounded w-1/3" />
+                    </div>
+                  </div>
+                ))}
+              </div>
+            ) : (
+              <div className="space-y-4">
+                {users?.map((u) => (
+                  <div key={u.id} className="p-4 border rounded-lg">
+                    <div className="flex items-center justify-between">
+                      <div className="flex items-center space-x-4">
+                        <Avatar>
+                          <AvatarFallback>{getInitials(u.name)}</AvatarFallback>
+                        </Avatar>
+                        <div>
+                          <p className="font-medium">{u.name}</p>
+                          <p className="text-sm text-muted-foreground">{u.email}</p>
+                        </div>
+                      </div>
+                      <div className="flex items-center space-x-4">
+                        {u.status !== 'active' && (
+                          <span
+                            className={`text-xs font-medium px-2 py-1 rounded ${getStatusBadgeColor(
+                              u.status
+                            )}`}
+                          >
+                            {u.status}
+                          </span>
+                        )}
+                        <span
+                          className={`text-xs font-medium px-2 py-1 rounded ${getRoleBadgeColor(
+                            u.role
+                          )}`}
+                        >
+                          {u.role}
+                        </span>
+                        {u.id !== user?.id && (
+                          <select
+                            value={u.role}
+                            onChange={(e) =>
+                              updateRoleMutation.mutate({
+                                userId: u.id,
+                                role: e.target.value,
+                              })
+                            }
+                            className="text-sm border rounded px-2 py-1"
+                            disabled={updateRoleMutation.isPending}
+                          >
+                            <option value="VIEWER">Viewer</option>
+                            <option value="EDITOR">Editor</option>
+                            <option value="ADMIN">Admin</option>
+                          </select>
+                        )}
+                      </div>
+                    </div>
+                    {u.id !== user?.id && (
+                      <div className="flex flex-wrap gap-2 mt-3">
+                        {u.status === 'invited' && (
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={() =>
+                              userActionMutation.mutate({ userId: u.id, action: 'invitation' })
+                            }
+                            disabled={userActionMutation.isPending}
+                          >
+                            Resend invitation
+                          </Button>
+                        )}
+                        {u.status === 'locked' && (
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={() =>
+                              userActionMutation.mutate({ userId: u.id, action: 'unlock' })
+                            }
+                            disabled={userActionMutation.isPending}
+                          >
+                            Unlock
+                          </Button>
+                        )}
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() =>
+                            userActionMutation.mutate({
+                              userId: u.id,
+                              action: 'force-password-reset',
+                            })
+                          }
+                          disabled={userActionMutation.isPending}
+                        >
+                          Force password reset
+                        </Button>
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() =>
+                            userActionMutation.mutate({
+                              userId: u.id,
+                              action: u.deactivatedAt ? 'reactivate' : 'deactivate',
+                            })
+                          }
+                          disabled={userActionMutation.isPending}
+                        >
+                          {u.deactivatedAt ? 'Reactivate' : 'Deactivate'}
+                        </Button>
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => {
+                            setDeletingUserId(deletingUserId === u.id ? null : u.id);
+                            setReassignTo('');
+                          }}
+                        >
+                          <Trash2 className="mr-2 h-4 w-4" />
+                          Delete
+                        </Button>
+                      </div>
+                    )}
+                    {deletingUserId === u.id && (
+                      <div className="mt-3 p-3 rounded-md bg-destructive/10 space-y-2">
+                        <p className="text-sm">
+                          Delete {u.name}? Choose who takes over their articles and documents.
+                        </p>
+                        <div className="flex flex-wrap items-center gap-2">
+                          <select
+                            value={reassignTo}
+                            onChange={(e) => setReassignTo(e.target.value)}
+                            className="text-sm border rounded px-2 py-1"
+                          >
+                            <option value="">Nobody, delete their content too</option>
+                            {users
+                              .filter((other) => other.id !== u.id)
+                              .map((other) => (
+                                <option key={other.id} value={other.id}>
+                                  {other.name} ({other.email})
+                                </option>
+                              ))}
+                          </select>
+                          <Button
+                            variant="destructive"
+                            size="sm"
+                            onClick={() => deleteUserMutation.mutate({ userId: u.id, reassignTo })}
+                            disabled={deleteUserMutation.isPending}
+                          >
+                            Delete user
+                          </Button>
+                          <Button variant="ghost" size="sm" onClick={() => setDeletingUserId(null)}>
+                            Cancel
+                          </Button>
+                        </div>
+                      </div>
+                    )}
+                  </div>
+                ))}
+              </div>
+            )}
           </CardContent>
         </Card>
-        <Card>
-          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
-            <CardTitle className="text-sm font-medium">Total Articles</CardTitle>
-            <FileText className="h-4 w-4 text-muted-foreground" />
+      )}
+
+      {canManageGroups && (
+        <Card className="mb-8">
+          <CardHeader>
+            <CardTitle>Groups</CardTitle>
+            <CardDescription>
+              Teams that can be granted category access or asked to review. Group owners manage
+              their own members.
+            </CardDescription>
           </CardHeader>
-          <CardContent>
-            <div className="text-2xl font-bold">{stats?.articles || 0}</div>
+          <CardContent className="space-y-4">
+            {groupError && (
+              <div className="p-3 text-sm text-destructive bg-destructive/10 rounded-md">
+                {groupError}
+              </div>
+            )}
+            <form
+              onSubmit={(e) => {
+                e.preventDefault();
+                createGroupMutation.mutate();
+              }}
+              className="flex items-center space-x-2"
+            >
+              <Input
+                placeholder="Group name"
+                value={groupName}
+                onChange={(e) => setGroupName(e.target.value)}
+                required
+              />
+              <Input
+                placeholder="Description (optional)"
+                value={groupDescription}
+                onChange={(e) => setGroupDescription(e.target.value)}
+              />
+              <Button type="submit" disabled={!groupName.trim() || createGroupMutation.isPending}>
+                Create
+              </Button>
+            </form>
+            {groups?.length ? (
+              <div className="space-y-4">
+                {groups.map((group) => (
+                  <div
+                    key={group.id}
+                    className="flex items-center justify-between p-4 border rounded-lg"
+                  >
+                    <div className="min-w-0">
+                      <Link href={`/groups/${group.id}`} className="font-medium hover:underline">
+                        {group.name}
+                      </Link>
+                      <p className="text-sm text-muted-foreground truncate">
+                        {group._count.memberships} members
+                        {group.owners.length > 0 &&
+                          ` · Owned by ${group.owners.map((o) => o.name).join(', ')}`}
+                      </p>
+                    </div>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => deleteGroupMutation.mutate(group.id)}
+                      disabled={deleteGroupMutation.isPending}
+                      aria-label={`Delete ${group.name}`}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                ))}
+              </div>
+            ) : (
+              <p className="text-sm text-muted-foreground">No groups yet</p>
+            )}
           </CardContent>
         </Card>
-        <Card>
-          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
-            <CardTitle className="text-sm font-medium">Total Documents</CardTitle>
-            <FolderOpen className="h-4 w-4 text-muted-foreground" />
+      )}
+
+      {canManageRoles && (
+        <>
+          <Card className="mb-8">
+            <CardHeader>
+              <CardTitle>Role Permissions</CardTitle>
+              <CardDescription>
+                What each role may do. Admins always hold every permission.
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="border-b">
+                    <th className="text-left font-medium py-2">Permission</th>
+                    {permissionMatrix?.roles.map((r) => (
+                      <th key={r.role} className="font-medium py-2 px-4">
+                        {r.role.charAt(0) + r.role.slice(1).toLowerCase()}
+                      </th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody>
+                  {permissionMatrix?.catalog.map((permission) => (
+                    <tr key={permission.key} className="border-b last:border-0">
+                      <td className="py-2">
+                        <p className="font-mono text-xs">{permission.key}</p>
+                        <p className="text-muted-foreground">{permission.description}</p>
+                      </td>
+                      {permissionMatrix.roles.map((r) => (
+                        <td key={r.role} className="text-center py-2 px-4">
+                          <input
+                            type="checkbox"
+                            checked={r.permissions.includes(permission.key)}
+                            onChange={(e) =>
+                              togglePermission(
+                                r.role,
+                                r.permissions,
+                                permission.key,
+                                e.target.checked
+                              )
+                            }
+                            disabled={!r.editable || updatePermissionsMutation.isPending}
+                          />
+                        </td>
+                      ))}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </CardContent>
+          </Card>
+
+          <Card className="mb-8">
+            <CardHeader>
+              <CardTitle>Security</CardTitle>
+              <CardDescription>
+                Roles that must use two-factor authentication. Users without it must set it up
+                before they can keep using their account.
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-2">
+              {rolePolicies?.map((policy) => (
+                <label key={policy.role} className="flex items-center space-x-3 text-sm">
+                  <input
+                    type="checkbox"
+                    checked={policy.requireTwoFactor}
+                    onChange={(e) =>
+                      updatePolicyMutation.mutate({
+                        role: policy.role,
+                        requireTwoFactor: e.target.checked,
+                      })
+                    }
+                    disabled={updatePolicyMutation.isPending}
+                  />
+                  <span>Require 2FA for {policy.role.toLowerCase()}s</span>
+                </label>
+              ))}
+            </CardContent>
+          </Card>
+        </>
+      )}
+
+      {canBackup && (
+        <Card className="mb-8">
+          <CardHeader>
+            <CardTitle>Backup</CardTitle>
+            <CardDescription>
+              Download every article, document, comment and setting along with the stored files.
+              Restore it into an empty instance with the restore script.
+            </CardDescription>
           </CardHeader>
-          <CardContent>
-            <div className="text-2xl font-bold">{stats?.documents || 0}</div>
+          <CardContent className="space-y-4">
+            <label className="flex items-center space-x-3 text-sm">
+              <input
+                type="checkbox"
+                checked={backupSecrets}
+                onChange={(e) => setBackupSecrets(e.target.checked)}
+                disabled={isBackingUp}
+              />
+              <span>
+                Include password hashes and 2FA secrets, so users can sign in after a restore
+              </span>
+            </label>
+            <div className="flex items-center space-x-4">
+              <Button variant="outline" onClick={handleBackup} disabled={isBackingUp}>
+                {isBackingUp ? (
+                  <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                ) : (
+                  <Download className="h-4 w-4 mr-2" />
+                )}
+                Download backup
+              </Button>
+              {backupError && <span className="text-sm text-destructive">{backupError}</span>}
+            </div>
           </CardContent>
         </Card>
-      </div>
+      )}
 
-      <Card>
-        <CardHeader>
-          <CardTitle>User Management</CardTitle>
-          <CardDescription>Manage user roles and permissions</CardDescription>
-        </CardHeader>
-        <CardContent>
-          {usersLoading ? (
-            <div className="space-y-4">
-              {[1, 2, 3].map((i) => (
-                <div key={i} className="flex items-center space-x-4 animate-pulse">
-                  <div className="h-10 w-10 bg-muted rounded-full" />
-                  <div className="flex-1">
-                    <div className="h-4 bg-muted rounded w-1/4 mb-2" />
-                    <div className="h-3 bg-muted rounded w-1/3" />
-                  </div>
+      {canManageSystem && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Background Jobs</CardTitle>
+            <CardDescription>Document processing and search indexing queue</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <div className="grid grid-cols-4 gap-4 mb-6">
+              {(['PENDING', 'RUNNING', 'COMPLETED', 'DEAD'] as const).map((status) => (
+                <div key={status} className="p-3 border rounded-lg">
+                  <p className="text-xs text-muted-foreground">{status}</p>
+                  <p className="text-xl font-bold">{jobs?.counts[status] || 0}</p>
                 </div>
               ))}
             </div>
-          ) : (
-            <div className="space-y-4">
-              {users?.map((u) => (
-                <div
-                  key={u.id}
-                  className="flex items-center justify-between p-4 border rounded-lg"
-                >
-                  <div className="flex items-center space-x-4">
-                    <Avatar>
-                      <AvatarFallback>{getInitials(u.name)}</AvatarFallback>
-                    </Avatar>
-                    <div>
-                      <p className="font-medium">{u.name}</p>
-                      <p className="text-sm text-muted-foreground">{u.email}</p>
+            {jobs?.jobs.length ? (
+              <div className="space-y-4">
+                {jobs.jobs.map((job) => (
+                  <div
+                    key={job.id}
+                    className="flex items-center justify-between p-4 border rounded-lg"
+                  >
+                    <div className="min-w-0">
+                      <p className="font-medium">{job.type}</p>
+                      <p className="text-sm text-muted-foreground truncate">
+                        {job.attempts} attempts · {job.lastError?.split('\n')[0]}
+                      </p>
                     </div>
-                  </div>
-                  <div className="flex items-center space-x-4">
-                    <span
-                      className={`text-xs font-medium px-2 py-1 rounded ${getRoleBadgeColor(
-                        u.role
-                      )}`}
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => retryJobMutation.mutate(job.id)}
+                      disabled={retryJobMutation.isPending}
                     >
-                      {u.role}
-                    </span>
-                    {u.id !== user?.id && (
-                      <select
-                        value={u.role}
-                        onChange={(e) =>
-                          updateRoleMutation.mutate({
-                            userId: u.id,
-                            role: e.target.value,
-                          })
-                        }
-                        className="text-sm border rounded px-2 py-1"
-                        disabled={updateRoleMutation.isPending}
-                      >
-                        <option value="VIEWER">Viewer</option>
-                        <option value="EDITOR">Editor</option>
-                        <option value="ADMIN">Admin</option>
-                      </select>
-                    )}
+                      <RotateCw className="h-4 w-4 mr-2" />
+                      Retry
+                    </Button>
                   </div>
-                </div>
-              ))}
-            </div>
-          )}
-        </CardContent>
-      </Card>
+                ))}
+              </div>
+            ) : (
+              <p className="text-sm text-muted-foreground">No failed jobs</p>
+            )}
+          </CardContent>
+        </Card>
+      )}
     </div>
   );
 }
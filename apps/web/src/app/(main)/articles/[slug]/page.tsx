@@ -4,13 +4,25 @@ import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { useParams } from 'next/navigation';
 import Link from 'next/link';
 import { useState } from 'react';
-import { ArrowLeft, Calendar, User, MessageSquare, ThumbsUp, ThumbsDown, Send } from 'lucide-react';
+import {
+  ArrowLeft,
+  Calendar,
+  User,
+  MessageSquare,
+  ThumbsUp,
+  ThumbsDown,
+  Send,
+  History,
+} from 'lucide-react';
 import { api } from '@/lib/api';
 import { useAuth } from '@/lib/auth';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Avatar, AvatarFallback } from '@/components/ui/avatar';
+import { RevisionHistory } from '@/components/article/revision-history';
+import { ReviewPanel } from '@/components/review/review-panel';
+import { ExportMenu } from '@/components/export/export-menu';
 
 interface Article {
   id: string;
@@ -60,9 +72,10 @@ interface Reactions {
 export default function ArticleDetailPage() {
   const params = useParams();
   const slug = params.slug as string;
-  const { isAuthenticated, user } = useAuth();
+  const { isAuthenticated, isLoading: authLoading, user, can } = useAuth();
   const queryClient = useQueryClient();
   const [newComment, setNewComment] = useState('');
+  const [showHistory, setShowHistory] = useState(false);
 
   const { data: article, isLoading: articleLoading } = useQuery({
     queryKey: ['article', slug],
@@ -70,6 +83,8 @@ export default function ArticleDetailPage() {
       const response = await api.get<{ article: Article }>(`/articles/${slug}`);
       return response.data?.article;
     },
+    // Articles in restricted categories only load once the token is in place
+    enabled: !authLoading,
   });
 
   const { data: comments } = useQuery({
@@ -139,7 +154,7 @@ export default function ArticleDetailPage() {
       .slice(0, 2);
   };
 
-  if (articleLoading) {
+  if (authLoading || articleLoading) {
     return (
       <div className="container py-8 max-w-4xl">
         <div className="animate-pulse space-y-4">
@@ -169,6 +184,11 @@ export default function ArticleDetailPage() {
     );
   }
 
+  // Mirrors the API rule for editing and viewing history
+  const canEdit =
+    !!user &&
+    ((user.id === article.author.id && can('article:create')) || can('article:edit-any'));
+
   return (
     <div className="container py-8 max-w-4xl">
       <Link
@@ -193,10 +213,13 @@ export default function ArticleDetailPage() {
             {article.title}
           </h1>
           <div className="flex items-center space-x-4 text-sm text-muted-foreground">
-            <div className="flex items-center">
+            <Link
+              href={`/users/${article.author.id}`}
+              className="flex items-center hover:text-foreground"
+            >
               <User className="mr-1 h-4 w-4" />
               {article.author.name}
-            </div>
+            </Link>
             <div className="flex items-center">
               <Calendar className="mr-1 h-4 w-4" />
               {new Date(article.createdAt).toLocaleDateString()}
@@ -243,7 +266,33 @@ export default function ArticleDetailPage() {
             <ThumbsDown className="mr-2 h-4 w-4" />
             {reactions?.dislikes || 0}
           </Button>
+          {canEdit && (
+            <Button variant="ghost" size="sm" onClick={() => setShowHistory(!showHistory)}>
+              <History className="mr-2 h-4 w-4" />
+              {showHistory ? 'Hide history' : 'History'}
+            </Button>
+          )}
+          <div className="flex flex-1 justify-end">
+            <ExportMenu
+              endpoint={`/articles/${article.id}/export`}
+              fileName={(format) => `${article.slug}.${format}`}
+            />
+          </div>
         </div>
+
+        {canEdit && showHistory && (
+          <RevisionHistory articleId={article.id} articleSlug={article.slug} />
+        )}
+
+        {isAuthenticated && article.status !== 'PUBLISHED' && (
+          <ReviewPanel
+            contentType="ARTICLE"
+            contentId={article.id}
+            contentStatus={article.status}
+            authorId={article.author.id}
+            contentQueryKey={['article', slug]}
+          />
+        )}
       </article>
 
       <section>
@@ -6,6 +6,7 @@ import Link from 'next/link';
 import { useQuery, useMutation } from '@tanstack/react-query';
 import { ArrowLeft, Loader2 } from 'lucide-react';
 import dynamic from 'next/dynamic';
+import type { ArticleTemplate } from '@kbase/types';
 import { api } from '@/lib/api';
 import { useAuth } from '@/lib/auth';
 import { Button } from '@/components/ui/button';
@@ -26,12 +27,16 @@ interface Category {
 
 export default function NewArticlePage() {
   const router = useRouter();
-  const { user, isAuthenticated } = useAuth();
+  const { isAuthenticated, can } = useAuth();
   const [title, setTitle] = useState('');
   const [content, setContent] = useState('');
   const [excerpt, setExcerpt] = useState('');
   const [categoryId, setCategoryId] = useState('');
   const [tags, setTags] = useState('');
+  const [publishAt, setPublishAt] = useState('');
+  const [templateId, setTemplateId] = useState('');
+  // The editor only reads its content when it mounts, so applying a template remounts it
+  const [editorKey, setEditorKey] = useState(0);
   const [error, setError] = useState('');
 
   const { data: categories } = useQuery({
@@ -42,6 +47,27 @@ export default function NewArticlePage() {
     },
   });
 
+  const { data: templates } = useQuery({
+    queryKey: ['templates'],
+    queryFn: async () => {
+      const response = await api.get<{ templates: ArticleTemplate[] }>('/templates');
+      return response.data?.templates || [];
+    },
+    enabled: isAuthenticated && can('article:create'),
+  });
+
+  const selectedTemplate = templates?.find((template) => template.id === templateId);
+
+  const applyTemplate = (id: string) => {
+    const template = templates?.find((t) => t.id === id);
+    setTemplateId(id);
+    setTitle(template?.title ?? '');
+    setContent(template?.content ?? '');
+    setTags(template?.tags.join(', ') ?? '');
+    setCategoryId(template?.categoryId ?? '');
+    setEditorKey((key) => key + 1);
+  };
+
   const createMutation = useMutation({
     mutationFn: async () => {
       const tagList = tags
@@ -54,7 +80,10 @@ export default function NewArticlePage() {
         excerpt: excerpt || undefined,
         categoryId: categoryId || undefined,
         tags: tagList.length > 0 ? tagList : undefined,
-        status: 'PUBLISHED',
+        // Editors save a draft and submit it for review; admins can publish directly or schedule
+        status: can('article:publish') && !publishAt ? 'PUBLISHED' : 'DRAFT',
+        scheduledPublishAt: publishAt ? new Date(publishAt).toISOString() : undefined,
+        templateId: templateId || undefined,
       });
     },
     onSuccess: (response) => {
@@ -69,7 +98,7 @@ export default function NewArticlePage() {
     },
   });
 
-  const canCreate = isAuthenticated && user && ['ADMIN', 'EDITOR'].includes(user.role);
+  const canCreate = isAuthenticated && can('article:create');
 
   if (!canCreate) {
     return (
@@ -123,6 +152,33 @@ export default function NewArticlePage() {
               </div>
             )}
 
+            {templates && templates.length > 0 && (
+              <div className="space-y-2">
+                <Label htmlFor="template">Template</Label>
+                <select
+                  id="template"
+                  value={templateId}
+                  onChange={(e) => applyTemplate(e.target.value)}
+                  className="flex h-10 w-full rounded-md border border-input bg-background px-3 py-2 text-sm ring-offset-background focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2"
+                >
+                  <option value="">Blank article</option>
+                  {templates.map((template) => (
+                    <option key={template.id} value={template.id}>
+                      {template.name}
+                    </option>
+                  ))}
+                </select>
+                {selectedTemplate?.description && (
+                  <p className="text-sm text-muted-foreground">{selectedTemplate.description}</p>
+                )}
+                <p className="text-xs text-muted-foreground">
+                  {selectedTemplate
+                    ? 'Placeholders such as {{date}} and {{author}} are filled in when the article is created.'
+                    : 'Choosing a template replaces the title, content, category and tags below.'}
+                </p>
+              </div>
+            )}
+
             <div className="space-y-2">
               <Label htmlFor="title">Title *</Label>
               <Input
@@ -171,9 +227,23 @@ export default function NewArticlePage() {
               />
             </div>
 
+            {can('article:publish') && (
+              <div className="space-y-2">
+                <Label htmlFor="publishAt">Publish at</Label>
+                <Input
+                  id="publishAt"
+                  type="datetime-local"
+                  value={publishAt}
+                  onChange={(e) => setPublishAt(e.target.value)}
+                />
+                <p className="text-xs text-muted-foreground">Leave empty to publish immediately</p>
+              </div>
+            )}
+
             <div className="space-y-2">
               <Label>Content *</Label>
               <TiptapEditor
+                key={editorKey}
                 content={content}
                 onChange={setContent}
                 placeholder="Write your article content here..."
@@ -1,8 +1,9 @@
 'use client';
 
+import { useState } from 'react';
 import { useQuery } from '@tanstack/react-query';
 import Link from 'next/link';
-import { Plus, Search } from 'lucide-react';
+import { CalendarClock, Plus, Search } from 'lucide-react';
 import { api } from '@/lib/api';
 import { useAuth } from '@/lib/auth';
 import { Button } from '@/components/ui/button';
@@ -16,6 +17,7 @@ interface Article {
   excerpt: string | null;
   status: string;
   createdAt: string;
+  scheduledPublishAt: string | null;
   author: {
     id: string;
     name: string;
@@ -41,17 +43,20 @@ interface ArticlesResponse {
 }
 
 export default function ArticlesPage() {
-  const { isAuthenticated, user } = useAuth();
+  const { isAuthenticated, can } = useAuth();
+  const [scheduledOnly, setScheduledOnly] = useState(false);
 
   const { data, isLoading } = useQuery({
-    queryKey: ['articles'],
+    queryKey: ['articles', { scheduled: scheduledOnly }],
     queryFn: async () => {
-      const response = await api.get<ArticlesResponse>('/articles');
+      const response = await api.get<ArticlesResponse>(
+        scheduledOnly ? '/articles?scheduled=true' : '/articles'
+      );
       return response.data;
     },
   });
 
-  const canCreate = isAuthenticated && user && ['ADMIN', 'EDITOR'].includes(user.role);
+  const canCreate = isAuthenticated && can('article:create');
 
   return (
     <div className="container py-8">
@@ -77,6 +82,15 @@ export default function ArticlesPage() {
           <Search className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
           <Input placeholder="Search articles..." className="pl-9" />
         </div>
+        {canCreate && (
+          <Button
+            variant={scheduledOnly ? 'default' : 'outline'}
+            onClick={() => setScheduledOnly(!scheduledOnly)}
+          >
+            <CalendarClock className="mr-2 h-4 w-4" />
+            Scheduled
+          </Button>
+        )}
       </div>
 
       {isLoading ? (
@@ -114,6 +128,8 @@ export default function ArticlesPage() {
                   <CardDescription>
                     By {article.author.name} •{' '}
                     {new Date(article.createdAt).toLocaleDateString()}
+                    {article.scheduledPublishAt &&
+                      ` • Publishes ${new Date(article.scheduledPublishAt).toLocaleString()}`}
                   </CardDescription>
                 </CardHeader>
                 <CardContent>
@@ -0,0 +1,167 @@
+'use client';
+
+import { useQuery } from '@tanstack/react-query';
+import { useParams } from 'next/navigation';
+import Link from 'next/link';
+import { ArrowLeft, FolderOpen, Lock } from 'lucide-react';
+import { api } from '@/lib/api';
+import { useAuth } from '@/lib/auth';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { ExportMenu } from '@/components/export/export-menu';
+import {
+  CategoryAccess,
+  CategoryVisibility,
+  VISIBILITY_OPTIONS,
+} from '@/components/categories/category-access';
+
+interface Category {
+  id: string;
+  name: string;
+  slug: string;
+  description: string | null;
+  visibility: CategoryVisibility;
+  parent: { id: string; name: string; slug: string } | null;
+  children: { id: string; name: string; slug: string }[];
+}
+
+interface Article {
+  id: string;
+  title: string;
+  slug: string;
+  excerpt: string | null;
+  createdAt: string;
+  author: {
+    id: string;
+    name: string;
+  };
+}
+
+export default function CategoryPage() {
+  const params = useParams();
+  const slug = params.slug as string;
+  const { can, isLoading: authLoading } = useAuth();
+
+  const { data: category, isLoading } = useQuery({
+    queryKey: ['categories', slug],
+    queryFn: async () => {
+      const response = await api.get<{ category: Category }>(`/categories/${slug}`);
+      return response.data?.category || null;
+    },
+    // Wait for the token so restricted categories are not reported as missing
+    enabled: !authLoading,
+  });
+
+  const { data: articles } = useQuery({
+    queryKey: ['articles', { categoryId: category?.id }],
+    queryFn: async () => {
+      const response = await api.get<{ articles: Article[] }>(
+        `/articles?categoryId=${category!.id}&limit=50`
+      );
+      return response.data?.articles || [];
+    },
+    enabled: !!category,
+  });
+
+  if (authLoading || isLoading) {
+    return (
+      <div className="container py-8 max-w-4xl">
+        <div className="animate-pulse space-y-4">
+          <div className="h-8 bg-muted rounded w-1/3" />
+          <div className="h-4 bg-muted rounded w-1/2" />
+        </div>
+      </div>
+    );
+  }
+
+  if (!category) {
+    return (
+      <div className="container py-8 max-w-4xl">
+        <Card>
+          <CardContent className="flex flex-col items-center justify-center py-12">
+            <FolderOpen className="h-12 w-12 text-muted-foreground mb-4" />
+            <p className="text-muted-foreground">Category not found</p>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  const visibility = VISIBILITY_OPTIONS.find((option) => option.value === category.visibility);
+
+  return (
+    <div className="container py-8 max-w-4xl space-y-8">
+      <div>
+        <Link
+          href={category.parent ? `/categories/${category.parent.slug}` : '/categories'}
+          className="inline-flex items-center text-sm text-muted-foreground hover:text-foreground mb-6"
+        >
+          <ArrowLeft className="mr-2 h-4 w-4" />
+          {category.parent ? category.parent.name : 'Back to Categories'}
+        </Link>
+        <div className="flex items-center justify-between">
+          <h1 className="text-3xl font-bold tracking-tight">{category.name}</h1>
+          <ExportMenu
+            endpoint={`/categories/${category.id}/export`}
+            fileName={(format) => `${category.slug}-${format}.zip`}
+            label="Export published"
+          />
+        </div>
+        {category.description && (
+          <p className="text-muted-foreground mt-2">{category.description}</p>
+        )}
+        {category.visibility !== 'PUBLIC' && (
+          <p className="inline-flex items-center text-xs text-muted-foreground mt-2">
+            <Lock className="mr-1 h-3 w-3" />
+            {visibility?.label}
+          </p>
+        )}
+      </div>
+
+      {category.children.length > 0 && (
+        <div className="flex flex-wrap gap-2">
+          {category.children.map((child) => (
+            <Link
+              key={child.id}
+              href={`/categories/${child.slug}`}
+              className="text-sm border rounded px-3 py-1 hover:bg-muted/50"
+            >
+              {child.name}
+            </Link>
+          ))}
+        </div>
+      )}
+
+      {articles && articles.length > 0 ? (
+        <div className="grid gap-4 md:grid-cols-2">
+          {articles.map((article) => (
+            <Link key={article.id} href={`/articles/${article.slug}`}>
+              <Card className="h-full hover:bg-muted/50 transition-colors cursor-pointer">
+                <CardHeader>
+                  <CardTitle className="line-clamp-2">{article.title}</CardTitle>
+                  <CardDescription>
+                    By {article.author.name} • {new Date(article.createdAt).toLocaleDateString()}
+                  </CardDescription>
+                </CardHeader>
+                {article.excerpt && (
+                  <CardContent>
+                    <p className="text-sm text-muted-foreground line-clamp-3">{article.excerpt}</p>
+                  </CardContent>
+                )}
+              </Card>
+            </Link>
+          ))}
+        </div>
+      ) : (
+        <p className="text-sm text-muted-foreground">No articles in this category yet</p>
+      )}
+
+      {can('category:edit') && (
+        <CategoryAccess
+          categoryId={category.id}
+          visibility={category.visibility}
+          categoryQueryKey={['categories', slug]}
+        />
+      )}
+    </div>
+  );
+}
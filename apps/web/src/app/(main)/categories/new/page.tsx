@@ -11,13 +11,15 @@ import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { CategoryVisibility, VISIBILITY_OPTIONS } from '@/components/categories/category-access';
 
 export default function NewCategoryPage() {
   const router = useRouter();
   const queryClient = useQueryClient();
-  const { user, isAuthenticated } = useAuth();
+  const { isAuthenticated, can } = useAuth();
   const [name, setName] = useState('');
   const [description, setDescription] = useState('');
+  const [visibility, setVisibility] = useState<CategoryVisibility>('PUBLIC');
   const [error, setError] = useState('');
 
   const createMutation = useMutation({
@@ -25,6 +27,7 @@ export default function NewCategoryPage() {
       return api.post('/categories', {
         name,
         description: description || undefined,
+        visibility,
       });
     },
     onSuccess: (response) => {
@@ -40,7 +43,7 @@ export default function NewCategoryPage() {
     },
   });
 
-  const canCreate = isAuthenticated && user && ['ADMIN', 'EDITOR'].includes(user.role);
+  const canCreate = isAuthenticated && can('category:create');
 
   if (!canCreate) {
     return (
@@ -117,6 +120,25 @@ export default function NewCategoryPage() {
               />
             </div>
 
+            <div className="space-y-2">
+              <Label htmlFor="visibility">Visibility</Label>
+              <select
+                id="visibility"
+                value={visibility}
+                onChange={(e) => setVisibility(e.target.value as CategoryVisibility)}
+                className="w-full text-sm border rounded px-2 py-2"
+              >
+                {VISIBILITY_OPTIONS.map((option) => (
+                  <option key={option.value} value={option.value}>
+                    {option.label} — {option.hint}
+                  </option>
+                ))}
+              </select>
+              <p className="text-xs text-muted-foreground">
+                Grant people access to a restricted category from its page once it is created.
+              </p>
+            </div>
+
             <div className="flex justify-end space-x-2">
               <Link href="/categories">
                 <Button type="button" variant="outline">
@@ -2,7 +2,7 @@
 
 import { useQuery } from '@tanstack/react-query';
 import Link from 'next/link';
-import { FolderOpen, Plus } from 'lucide-react';
+import { FolderOpen, Lock, Plus } from 'lucide-react';
 import { api } from '@/lib/api';
 import { useAuth } from '@/lib/auth';
 import { Button } from '@/components/ui/button';
@@ -13,6 +13,7 @@ interface Category {
   name: string;
   slug: string;
   description: string | null;
+  visibility: 'PUBLIC' | 'AUTHENTICATED' | 'RESTRICTED';
   _count: {
     articles: number;
   };
@@ -23,8 +24,8 @@ interface CategoriesResponse {
 }
 
 export default function CategoriesPage() {
-  const { user, isAuthenticated } = useAuth();
-  const canCreate = isAuthenticated && user && ['ADMIN', 'EDITOR'].includes(user.role);
+  const { isAuthenticated, can } = useAuth();
+  const canCreate = isAuthenticated && can('category:create');
 
   const { data, isLoading } = useQuery({
     queryKey: ['categories'],
@@ -75,7 +76,15 @@ export default function CategoriesPage() {
                       <FolderOpen className="h-6 w-6 text-primary" />
                     </div>
                     <div className="flex-1">
-                      <CardTitle className="text-lg">{category.name}</CardTitle>
+                      <CardTitle className="text-lg flex items-center">
+                        {category.name}
+                        {category.visibility !== 'PUBLIC' && (
+                          <Lock
+                            className="ml-2 h-4 w-4 text-muted-foreground"
+                            aria-label="Limited visibility"
+                          />
+                        )}
+                      </CardTitle>
                       <CardDescription>
                         {category._count.articles} articles
                       </CardDescription>
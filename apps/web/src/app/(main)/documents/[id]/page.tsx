@@ -1,12 +1,25 @@
 'use client';
 
-import { useQuery } from '@tanstack/react-query';
+import { useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { useParams } from 'next/navigation';
 import Link from 'next/link';
-import { ArrowLeft, Download, FileText, File, FileSpreadsheet, Calendar, User } from 'lucide-react';
+import {
+  ArrowLeft,
+  Download,
+  FileText,
+  File,
+  FileSpreadsheet,
+  Calendar,
+  User,
+  Upload,
+} from 'lucide-react';
 import { api } from '@/lib/api';
+import { useAuth } from '@/lib/auth';
 import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { ReviewPanel } from '@/components/review/review-panel';
 
 interface Document {
   id: string;
@@ -15,6 +28,13 @@ interface Document {
   fileName: string;
   mimeType: string;
   fileSize: number;
+  pageCount: number | null;
+  wordCount: number | null;
+  preview: string | null;
+  status: string;
+  thumbnailUrl: string | null;
+  currentVersion: number;
+  authorId: string;
   createdAt: string;
   updatedAt: string;
   uploadedBy: {
@@ -31,6 +51,20 @@ interface Document {
   }>;
 }
 
+interface DocumentVersion {
+  id: string;
+  version: number;
+  fileName: string;
+  fileSize: number;
+  changeNote: string | null;
+  createdAt: string;
+  // Null once the uploader's account is deleted
+  uploadedBy: {
+    id: string;
+    name: string;
+  } | null;
+}
+
 function getFileIcon(mimeType: string) {
   if (mimeType.includes('pdf')) return FileText;
   if (mimeType.includes('spreadsheet') || mimeType.includes('excel')) return FileSpreadsheet;
@@ -46,6 +80,10 @@ function formatFileSize(bytes: number) {
 export default function DocumentDetailPage() {
   const params = useParams();
   const id = params.id as string;
+  const queryClient = useQueryClient();
+  const { user, can, isLoading: authLoading } = useAuth();
+  const [versionFile, setVersionFile] = useState<globalThis.File | null>(null);
+  const [changeNote, setChangeNote] = useState('');
 
   const { data: document, isLoading } = useQuery({
     queryKey: ['document', id],
@@ -53,8 +91,41 @@ export default function DocumentDetailPage() {
       const response = await api.get<{ document: Document }>(`/documents/${id}`);
       return response.data?.document;
     },
+    // Documents in restricted categories only load once the token is in place
+    enabled: !authLoading,
   });
 
+  const { data: versions } = useQuery({
+    queryKey: ['document', id, 'versions'],
+    queryFn: async () => {
+      const response = await api.get<{ versions: DocumentVersion[] }>(`/documents/${id}/versions`);
+      return response.data?.versions || [];
+    },
+  });
+
+  const uploadVersionMutation = useMutation({
+    mutationFn: async () => {
+      const formData = new FormData();
+      formData.append('file', versionFile!);
+      if (changeNote) formData.append('changeNote', changeNote);
+      return api.uploadFile(`/documents/${id}/versions`, formData);
+    },
+    onSuccess: () => {
+      setVersionFile(null);
+      setChangeNote('');
+      queryClient.invalidateQueries({ queryKey: ['document', id] });
+    },
+  });
+
+  const handleVersionDownload = async (versionId: string) => {
+    const response = await api.get<{ downloadUrl: string }>(
+      `/documents/${id}/versions/${versionId}/download`
+    );
+    if (response.success && response.data?.downloadUrl) {
+      window.open(response.data.downloadUrl, '_blank');
+    }
+  };
+
   const handleDownload = async () => {
     const response = await api.get<{ downloadUrl: string }>(`/documents/${id}/download`);
     if (response.success && response.data?.downloadUrl) {
@@ -62,7 +133,7 @@ export default function DocumentDetailPage() {
     }
   };
 
-  if (isLoading) {
+  if (authLoading || isLoading) {
     return (
       <div className="container py-8 max-w-2xl">
         <div className="animate-pulse space-y-4">
@@ -93,6 +164,9 @@ export default function DocumentDetailPage() {
   }
 
   const FileIcon = getFileIcon(document.mimeType);
+  const canUploadVersion =
+    !!user &&
+    ((user.id === document.authorId && can('document:upload')) || can('document:edit-any'));
 
   return (
     <div className="container py-8 max-w-2xl">
@@ -112,9 +186,7 @@ export default function DocumentDetailPage() {
             </div>
             <div className="flex-1">
               <CardTitle className="text-2xl">{document.title}</CardTitle>
-              <p className="text-sm text-muted-foreground mt-1">
-                {document.fileName}
-              </p>
+              <p className="text-sm text-muted-foreground mt-1">{document.fileName}</p>
             </div>
           </div>
         </CardHeader>
@@ -129,16 +201,45 @@ export default function DocumentDetailPage() {
           <div className="grid grid-cols-2 gap-4">
             <div>
               <h3 className="text-sm font-medium mb-1">File Size</h3>
-              <p className="text-sm text-muted-foreground">
-                {formatFileSize(document.fileSize)}
-              </p>
+              <p className="text-sm text-muted-foreground">{formatFileSize(document.fileSize)}</p>
             </div>
             <div>
               <h3 className="text-sm font-medium mb-1">File Type</h3>
               <p className="text-sm text-muted-foreground">{document.mimeType}</p>
             </div>
+            {document.pageCount !== null && (
+              <div>
+                <h3 className="text-sm font-medium mb-1">Pages</h3>
+                <p className="text-sm text-muted-foreground">{document.pageCount}</p>
+              </div>
+            )}
+            {document.wordCount !== null && (
+              <div>
+                <h3 className="text-sm font-medium mb-1">Words</h3>
+                <p className="text-sm text-muted-foreground">
+                  {document.wordCount.toLocaleString()}
+                </p>
+              </div>
+            )}
           </div>
 
+          {document.preview && (
+            <div>
+              <h3 className="text-sm font-medium mb-2">Preview</h3>
+              {document.thumbnailUrl && (
+                // eslint-disable-next-line @next/next/no-img-element -- signed S3 URL, not optimizable
+                <img
+                  src={document.thumbnailUrl}
+                  alt={`${document.title} thumbnail`}
+                  className="float-right ml-4 mb-2 w-32 rounded border"
+                />
+              )}
+              <pre className="text-xs text-muted-foreground whitespace-pre-wrap font-sans bg-muted/50 rounded-md p-4 max-h-80 overflow-y-auto">
+                {document.preview}
+              </pre>
+            </div>
+          )}
+
           <div className="flex items-center space-x-6 text-sm text-muted-foreground">
             <div className="flex items-center">
               <User className="mr-1 h-4 w-4" />
@@ -172,6 +273,89 @@ export default function DocumentDetailPage() {
           </Button>
         </CardContent>
       </Card>
+
+      {user && document.status !== 'PUBLISHED' && (
+        <div className="mt-6">
+          <ReviewPanel
+            contentType="DOCUMENT"
+            contentId={document.id}
+            contentStatus={document.status}
+            authorId={document.authorId}
+            contentQueryKey={['document', id]}
+          />
+        </div>
+      )}
+
+      <Card className="mt-6">
+        <CardHeader>
+          <CardTitle className="text-lg">Versions</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {versions && versions.length > 0 ? (
+            <div className="space-y-2">
+              {versions.map((version) => (
+                <div
+                  key={version.id}
+                  className="flex items-center justify-between p-3 border rounded-lg"
+                >
+                  <div className="min-w-0">
+                    <p className="text-sm font-medium">
+                      Version {version.version}
+                      {version.version === document.currentVersion && ' (current)'}
+                    </p>
+                    <p className="text-xs text-muted-foreground truncate">
+                      {version.fileName} · {formatFileSize(version.fileSize)} ·{' '}
+                      {version.uploadedBy?.name ?? 'Deleted user'} ·{' '}
+                      {new Date(version.createdAt).toLocaleDateString()}
+                    </p>
+                    {version.changeNote && <p className="text-xs mt-1">{version.changeNote}</p>}
+                  </div>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => handleVersionDownload(version.id)}
+                  >
+                    <Download className="h-4 w-4" />
+                  </Button>
+                </div>
+              ))}
+            </div>
+          ) : (
+            <p className="text-sm text-muted-foreground">No earlier versions</p>
+          )}
+
+          {canUploadVersion && (
+            <form
+              onSubmit={(e) => {
+                e.preventDefault();
+                if (versionFile) uploadVersionMutation.mutate();
+              }}
+              className="space-y-2 pt-4 border-t"
+            >
+              <h3 className="text-sm font-medium">Upload new version</h3>
+              <Input
+                type="file"
+                accept=".pdf,.doc,.docx,.xls,.xlsx,.txt,.md"
+                onChange={(e) => setVersionFile(e.target.files?.[0] || null)}
+              />
+              <Input
+                placeholder="What changed? (optional)"
+                value={changeNote}
+                onChange={(e) => setChangeNote(e.target.value)}
+                maxLength={500}
+              />
+              <Button
+                type="submit"
+                variant="outline"
+                disabled={!versionFile || uploadVersionMutation.isPending}
+              >
+                <Upload className="mr-2 h-4 w-4" />
+                {uploadVersionMutation.isPending ? 'Uploading...' : 'Upload Version'}
+              </Button>
+            </form>
+          )}
+        </CardContent>
+      </Card>
     </div>
   );
 }
@@ -0,0 +1,222 @@
+'use client';
+
+import { useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { useParams, useRouter } from 'next/navigation';
+import Link from 'next/link';
+import { ArrowLeft, Trash2, Users } from 'lucide-react';
+import { api } from '@/lib/api';
+import { useAuth } from '@/lib/auth';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
+
+type GroupRole = 'OWNER' | 'MEMBER';
+
+interface Member {
+  id: string;
+  name: string;
+  avatarUrl: string | null;
+  role: GroupRole;
+}
+
+interface Group {
+  id: string;
+  name: string;
+  description: string | null;
+  members: Member[];
+  canManage: boolean;
+}
+
+export default function GroupPage() {
+  const params = useParams();
+  const id = params.id as string;
+  const router = useRouter();
+  const queryClient = useQueryClient();
+  const { user, isAuthenticated, isLoading: authLoading } = useAuth();
+  const [email, setEmail] = useState('');
+  const [error, setError] = useState('');
+
+  const { data: group, isLoading } = useQuery({
+    queryKey: ['groups', id],
+    queryFn: async () => {
+      const response = await api.get<{ group: Group }>(`/groups/${id}`);
+      return response.data?.group || null;
+    },
+    enabled: isAuthenticated,
+  });
+
+  const onSettled = (response: { success: boolean; error?: { message: string } }) => {
+    if (!response.success) {
+      setError(response.error?.message || 'Something went wrong');
+      return;
+    }
+    setError('');
+    queryClient.invalidateQueries({ queryKey: ['groups'] });
+  };
+
+  const addMutation = useMutation({
+    mutationFn: async () => api.post(`/groups/${id}/members`, { email }),
+    onSuccess: (response) => {
+      if (response.success) setEmail('');
+      onSettled(response);
+    },
+  });
+
+  const roleMutation = useMutation({
+    mutationFn: async ({ userId, role }: { userId: string; role: GroupRole }) =>
+      api.put(`/groups/${id}/members/${userId}`, { role }),
+    onSuccess: onSettled,
+  });
+
+  const removeMutation = useMutation({
+    mutationFn: async (userId: string) => api.delete(`/groups/${id}/members/${userId}`),
+    onSuccess: onSettled,
+  });
+
+  if (!authLoading && !isAuthenticated) {
+    router.push('/login');
+    return null;
+  }
+
+  if (authLoading || isLoading) {
+    return (
+      <div className="container py-8 max-w-3xl">
+        <div className="animate-pulse space-y-4">
+          <div className="h-8 bg-muted rounded w-1/3" />
+          <div className="h-4 bg-muted rounded w-1/2" />
+        </div>
+      </div>
+    );
+  }
+
+  if (!group) {
+    return (
+      <div className="container py-8 max-w-3xl">
+        <Card>
+          <CardContent className="flex flex-col items-center justify-center py-12">
+            <Users className="h-12 w-12 text-muted-foreground mb-4" />
+            <p className="text-muted-foreground">Group not found</p>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  const getInitials = (name: string) => {
+    return name
+      .split(' ')
+      .map((n) => n[0])
+      .join('')
+      .toUpperCase()
+      .slice(0, 2);
+  };
+
+  return (
+    <div className="container py-8 max-w-3xl space-y-8">
+      <div>
+        <Link
+          href="/groups"
+          className="inline-flex items-center text-sm text-muted-foreground hover:text-foreground mb-6"
+        >
+          <ArrowLeft className="mr-2 h-4 w-4" />
+          Back to Groups
+        </Link>
+        <h1 className="text-3xl font-bold tracking-tight">{group.name}</h1>
+        {group.description && <p className="text-muted-foreground mt-2">{group.description}</p>}
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Members</CardTitle>
+          <CardDescription>
+            Owners can add and remove members and promote others to owner.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {error && (
+            <div className="p-3 text-sm text-destructive bg-destructive/10 rounded-md">{error}</div>
+          )}
+
+          {group.canManage && (
+            <form
+              onSubmit={(e) => {
+                e.preventDefault();
+                addMutation.mutate();
+              }}
+              className="flex items-center space-x-2"
+            >
+              <Input
+                type="email"
+                value={email}
+                onChange={(e) => setEmail(e.target.value)}
+                placeholder="colleague@example.com"
+                required
+              />
+              <Button type="submit" disabled={!email || addMutation.isPending}>
+                Add
+              </Button>
+            </form>
+          )}
+
+          {group.members.length > 0 ? (
+            <div className="space-y-2">
+              {group.members.map((member) => (
+                <div
+                  key={member.id}
+                  className="flex items-center justify-between p-3 border rounded-lg"
+                >
+                  <div className="flex items-center space-x-3 min-w-0">
+                    <Avatar className="h-8 w-8">
+                      {member.avatarUrl && <AvatarImage src={member.avatarUrl} alt={member.name} />}
+                      <AvatarFallback>{getInitials(member.name)}</AvatarFallback>
+                    </Avatar>
+                    <p className="text-sm font-medium truncate">{member.name}</p>
+                  </div>
+                  <div className="flex items-center space-x-2">
+                    {group.canManage ? (
+                      <select
+                        value={member.role}
+                        onChange={(e) =>
+                          roleMutation.mutate({
+                            userId: member.id,
+                            role: e.target.value as GroupRole,
+                          })
+                        }
+                        disabled={roleMutation.isPending}
+                        className="text-sm border rounded px-2 py-1"
+                      >
+                        <option value="MEMBER">Member</option>
+                        <option value="OWNER">Owner</option>
+                      </select>
+                    ) : (
+                      <span className="text-xs text-muted-foreground">
+                        {member.role === 'OWNER' ? 'Owner' : 'Member'}
+                      </span>
+                    )}
+                    {(group.canManage || member.id === user?.id) && (
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => removeMutation.mutate(member.id)}
+                        disabled={removeMutation.isPending}
+                        aria-label={
+                          member.id === user?.id ? 'Leave group' : `Remove ${member.name}`
+                        }
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    )}
+                  </div>
+                </div>
+              ))}
+            </div>
+          ) : (
+            <p className="text-sm text-muted-foreground">This group has no members yet</p>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,91 @@
+'use client';
+
+import { useQuery } from '@tanstack/react-query';
+import { useRouter } from 'next/navigation';
+import Link from 'next/link';
+import { Users } from 'lucide-react';
+import { api } from '@/lib/api';
+import { useAuth } from '@/lib/auth';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+
+interface Group {
+  id: string;
+  name: string;
+  description: string | null;
+  myRole: 'OWNER' | 'MEMBER' | null;
+  _count: { memberships: number };
+}
+
+export default function GroupsPage() {
+  const router = useRouter();
+  const { isAuthenticated, isLoading: authLoading } = useAuth();
+
+  const { data: groups, isLoading } = useQuery({
+    queryKey: ['groups'],
+    queryFn: async () => {
+      const response = await api.get<{ groups: Group[] }>('/groups');
+      return response.data?.groups || [];
+    },
+    enabled: isAuthenticated,
+  });
+
+  if (!authLoading && !isAuthenticated) {
+    router.push('/login');
+    return null;
+  }
+
+  return (
+    <div className="container py-8">
+      <div className="mb-8">
+        <h1 className="text-3xl font-bold tracking-tight">Groups</h1>
+        <p className="text-muted-foreground">
+          Teams that share category access and review work together
+        </p>
+      </div>
+
+      {authLoading || isLoading ? (
+        <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-3">
+          {[1, 2, 3].map((i) => (
+            <Card key={i} className="animate-pulse">
+              <CardHeader>
+                <div className="h-6 bg-muted rounded w-3/4" />
+                <div className="h-4 bg-muted rounded w-1/2 mt-2" />
+              </CardHeader>
+            </Card>
+          ))}
+        </div>
+      ) : groups && groups.length > 0 ? (
+        <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-3">
+          {groups.map((group) => (
+            <Link key={group.id} href={`/groups/${group.id}`}>
+              <Card className="h-full hover:bg-muted/50 transition-colors cursor-pointer">
+                <CardHeader>
+                  <CardTitle className="text-lg">{group.name}</CardTitle>
+                  <CardDescription>
+                    {group._count.memberships} members
+                    {group.myRole &&
+                      ` · You are ${group.myRole === 'OWNER' ? 'an owner' : 'a member'}`}
+                  </CardDescription>
+                </CardHeader>
+                {group.description && (
+                  <CardContent>
+                    <p className="text-sm text-muted-foreground line-clamp-2">
+                      {group.description}
+                    </p>
+                  </CardContent>
+                )}
+              </Card>
+            </Link>
+          ))}
+        </div>
+      ) : (
+        <Card>
+          <CardContent className="flex flex-col items-center justify-center py-12">
+            <Users className="h-12 w-12 text-muted-foreground mb-4" />
+            <p className="text-muted-foreground">No groups yet</p>
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+}
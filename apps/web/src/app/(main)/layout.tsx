@@ -1,4 +1,6 @@
 import { Header } from '@/components/layout/header';
+import { EmailVerificationBanner } from '@/components/layout/email-verification-banner';
+import { TwoFactorSetupBanner } from '@/components/layout/two-factor-setup-banner';
 
 export default function MainLayout({
   children,
@@ -8,6 +10,8 @@ export default function MainLayout({
   return (
     <div className="min-h-screen flex flex-col">
       <Header />
+      <EmailVerificationBanner />
+      <TwoFactorSetupBanner />
       <main className="flex-1">{children}</main>
       <footer className="border-t py-6">
         <div className="container text-center text-sm text-muted-foreground">
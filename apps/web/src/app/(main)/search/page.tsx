@@ -3,68 +3,87 @@
 import { useState } from 'react';
 import { useQuery } from '@tanstack/react-query';
 import Link from 'next/link';
-import { Search, FileText, FolderOpen } from 'lucide-react';
+import { Search, FileText, FolderOpen, ChevronLeft, ChevronRight } from 'lucide-react';
+import type { ContentType, SearchResult } from '@kbase/types';
 import { api } from '@/lib/api';
+import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 
-interface Article {
-  id: string;
-  title: string;
-  slug: string;
-  excerpt: string | null;
-  createdAt: string;
-  author: {
-    name: string;
-  };
+const PAGE_SIZE = 10;
+
+const typeFilters: Array<{ id: ContentType | 'all'; label: string }> = [
+  { id: 'all', label: 'All' },
+  { id: 'article', label: 'Articles' },
+  { id: 'document', label: 'Documents' },
+];
+
+// Render <mark> segments from the API as React nodes instead of injecting HTML
+function Highlighted({ text }: { text: string }) {
+  const parts = text.split(/<mark>(.*?)<\/mark>/g);
+  return (
+    <>
+      {parts.map((part, i) =>
+        i % 2 === 1 ? (
+          <mark key={i} className="bg-yellow-200 text-foreground rounded px-0.5">
+            {part}
+          </mark>
+        ) : (
+          <span key={i}>{part}</span>
+        )
+      )}
+    </>
+  );
 }
 
-interface Document {
-  id: string;
-  title: string;
-  description: string | null;
-  fileName: string;
-  createdAt: string;
+function resultHref(result: SearchResult) {
+  return result.type === 'article'
+    ? `/articles/${result.slug || result.id}`
+    : `/documents/${result.id}`;
 }
 
 export default function SearchPage() {
   const [query, setQuery] = useState('');
   const [debouncedQuery, setDebouncedQuery] = useState('');
+  const [type, setType] = useState<ContentType | 'all'>('all');
+  const [page, setPage] = useState(1);
 
   const handleSearch = (value: string) => {
     setQuery(value);
     // Simple debounce
     setTimeout(() => {
       setDebouncedQuery(value);
+      setPage(1);
     }, 300);
   };
 
-  const { data: articles, isLoading: articlesLoading } = useQuery({
-    queryKey: ['search', 'articles', debouncedQuery],
-    queryFn: async () => {
-      if (!debouncedQuery.trim()) return [];
-      const response = await api.get<{ articles: Article[] }>(
-        `/articles?search=${encodeURIComponent(debouncedQuery)}`
-      );
-      return response.data?.articles || [];
-    },
-    enabled: debouncedQuery.length > 0,
-  });
+  const handleTypeChange = (value: ContentType | 'all') => {
+    setType(value);
+    setPage(1);
+  };
 
-  const { data: documents, isLoading: documentsLoading } = useQuery({
-    queryKey: ['search', 'documents', debouncedQuery],
+  const { data, isLoading } = useQuery({
+    queryKey: ['search', debouncedQuery, type, page],
     queryFn: async () => {
-      if (!debouncedQuery.trim()) return [];
-      const response = await api.get<{ documents: Document[] }>(
-        `/documents?search=${encodeURIComponent(debouncedQuery)}`
-      );
-      return response.data?.documents || [];
+      const params = new URLSearchParams({
+        q: debouncedQuery.trim(),
+        page: String(page),
+        limit: String(PAGE_SIZE),
+      });
+      if (type !== 'all') params.set('type', type);
+
+      const response = await api.get<{ results: SearchResult[] }>(`/search?${params}`);
+      return {
+        results: response.data?.results || [],
+        total: response.meta?.total || 0,
+        totalPages: response.meta?.totalPages || 0,
+      };
     },
-    enabled: debouncedQuery.length > 0,
+    enabled: debouncedQuery.trim().length > 0,
   });
 
-  const isLoading = articlesLoading || documentsLoading;
-  const hasResults = (articles && articles.length > 0) || (documents && documents.length > 0);
+  const results = data?.results || [];
+  const hasResults = results.length > 0;
 
   return (
     <div className="container py-8 max-w-4xl">
@@ -81,6 +100,18 @@ export default function SearchPage() {
             autoFocus
           />
         </div>
+        <div className="flex items-center space-x-2 mt-4">
+          {typeFilters.map((filter) => (
+            <Button
+              key={filter.id}
+              variant={type === filter.id ? 'default' : 'outline'}
+              size="sm"
+              onClick={() => handleTypeChange(filter.id)}
+            >
+              {filter.label}
+            </Button>
+          ))}
+        </div>
       </div>
 
       {!debouncedQuery && (
@@ -107,76 +138,78 @@ export default function SearchPage() {
 
       {!isLoading && debouncedQuery && !hasResults && (
         <div className="text-center py-12">
-          <p className="text-muted-foreground">
-            No results found for &quot;{debouncedQuery}&quot;
-          </p>
+          <p className="text-muted-foreground">No results found for &quot;{debouncedQuery}&quot;</p>
         </div>
       )}
 
       {!isLoading && hasResults && (
-        <div className="space-y-8">
-          {articles && articles.length > 0 && (
-            <section>
-              <h2 className="text-xl font-semibold mb-4 flex items-center">
-                <FileText className="mr-2 h-5 w-5" />
-                Articles ({articles.length})
-              </h2>
-              <div className="space-y-3">
-                {articles.map((article) => (
-                  <Link key={article.id} href={`/articles/${article.slug}`}>
-                    <Card className="hover:bg-muted/50 transition-colors cursor-pointer">
-                      <CardHeader className="pb-2">
-                        <CardTitle className="text-lg">{article.title}</CardTitle>
-                        <CardDescription>
-                          By {article.author.name} •{' '}
-                          {new Date(article.createdAt).toLocaleDateString()}
-                        </CardDescription>
-                      </CardHeader>
-                      {article.excerpt && (
-                        <CardContent className="pt-0">
-                          <p className="text-sm text-muted-foreground line-clamp-2">
-                            {article.excerpt}
-                          </p>
-                        </CardContent>
-                      )}
-                    </Card>
-                  </Link>
-                ))}
-              </div>
-            </section>
-          )}
+        <section>
+          <p className="text-sm text-muted-foreground mb-4">
+            {data?.total} result{data?.total === 1 ? '' : 's'}
+          </p>
+          <div className="space-y-3">
+            {results.map((result) => {
+              const Icon = result.type === 'article' ? FileText : FolderOpen;
+              const title = result.highlights?.title?.[0];
+              const snippets = result.highlights?.content;
 
-          {documents && documents.length > 0 && (
-            <section>
-              <h2 className="text-xl font-semibold mb-4 flex items-center">
-                <FolderOpen className="mr-2 h-5 w-5" />
-                Documents ({documents.length})
-              </h2>
-              <div className="space-y-3">
-                {documents.map((doc) => (
-                  <Link key={doc.id} href={`/documents/${doc.id}`}>
-                    <Card className="hover:bg-muted/50 transition-colors cursor-pointer">
-                      <CardHeader className="pb-2">
-                        <CardTitle className="text-lg">{doc.title}</CardTitle>
-                        <CardDescription>
-                          {doc.fileName} •{' '}
-                          {new Date(doc.createdAt).toLocaleDateString()}
-                        </CardDescription>
-                      </CardHeader>
-                      {doc.description && (
-                        <CardContent className="pt-0">
-                          <p className="text-sm text-muted-foreground line-clamp-2">
-                            {doc.description}
-                          </p>
-                        </CardContent>
+              return (
+                <Link key={`${result.type}-${result.id}`} href={resultHref(result)}>
+                  <Card className="hover:bg-muted/50 transition-colors cursor-pointer">
+                    <CardHeader className="pb-2">
+                      <CardTitle className="text-lg flex items-center">
+                        <Icon className="mr-2 h-4 w-4 text-muted-foreground shrink-0" />
+                        {title ? <Highlighted text={title} /> : result.title}
+                      </CardTitle>
+                      <CardDescription className="capitalize">{result.type}</CardDescription>
+                    </CardHeader>
+                    <CardContent className="pt-0">
+                      {snippets && snippets.length > 0 ? (
+                        <div className="space-y-1">
+                          {snippets.map((snippet, i) => (
+                            <p key={i} className="text-sm text-muted-foreground">
+                              …<Highlighted text={snippet} />…
+                            </p>
+                          ))}
+                        </div>
+                      ) : (
+                        <p className="text-sm text-muted-foreground line-clamp-2">
+                          {result.excerpt}
+                        </p>
                       )}
-                    </Card>
-                  </Link>
-                ))}
-              </div>
-            </section>
+                    </CardContent>
+                  </Card>
+                </Link>
+              );
+            })}
+          </div>
+
+          {data && data.totalPages > 1 && (
+            <div className="flex items-center justify-between mt-6">
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => setPage((p) => p - 1)}
+                disabled={page <= 1}
+              >
+                <ChevronLeft className="mr-1 h-4 w-4" />
+                Previous
+              </Button>
+              <span className="text-sm text-muted-foreground">
+                Page {page} of {data.totalPages}
+              </span>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => setPage((p) => p + 1)}
+                disabled={page >= data.totalPages}
+              >
+                Next
+                <ChevronRight className="ml-1 h-4 w-4" />
+              </Button>
+            </div>
           )}
-        </div>
+        </section>
       )}
     </div>
   );
@@ -1,22 +1,29 @@
 'use client';
 
-import { useState } from 'react';
+import { useEffect, useState } from 'react';
 import { useRouter } from 'next/navigation';
-import { Loader2, User, Lock, Bell } from 'lucide-react';
+import { Loader2, User, Lock, Bell, ShieldCheck, KeyRound } from 'lucide-react';
 import { useAuth } from '@/lib/auth';
 import { api } from '@/lib/api';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { TwoFactorSettings } from '@/components/settings/two-factor-settings';
+import { ApiTokens } from '@/components/settings/api-tokens';
+import { AvatarUpload } from '@/components/settings/avatar-upload';
 
 export default function SettingsPage() {
   const router = useRouter();
-  const { user, isAuthenticated } = useAuth();
-  const [activeTab, setActiveTab] = useState<'profile' | 'password' | 'notifications'>('profile');
+  const { user, isAuthenticated, refreshUser } = useAuth();
+  const [activeTab, setActiveTab] = useState<
+    'profile' | 'password' | 'security' | 'tokens' | 'notifications'
+  >('profile');
 
   // Profile state
   const [name, setName] = useState(user?.name || '');
+  const [email, setEmail] = useState(user?.email || '');
+  const [emailPassword, setEmailPassword] = useState('');
   const [profileError, setProfileError] = useState('');
   const [profileSuccess, setProfileSuccess] = useState('');
   const [isUpdatingProfile, setIsUpdatingProfile] = useState(false);
@@ -29,19 +36,40 @@ export default function SettingsPage() {
   const [passwordSuccess, setPasswordSuccess] = useState('');
   const [isUpdatingPassword, setIsUpdatingPassword] = useState(false);
 
+  // The 2FA setup banner links straight to /settings#security
+  useEffect(() => {
+    if (window.location.hash === '#security') setActiveTab('security');
+  }, []);
+
   if (!isAuthenticated) {
     router.push('/login');
     return null;
   }
 
+  const emailChanged = !!email && email !== user?.email;
+
   const handleUpdateProfile = async (e: React.FormEvent) => {
     e.preventDefault();
     setProfileError('');
     setProfileSuccess('');
     setIsUpdatingProfile(true);
 
-    // Profile update would go here - for now just show success
-    setProfileSuccess('Profile updated successfully');
+    const response = await api.put<{ message: string }>('/auth/me', {
+      name,
+      email: emailChanged ? email : undefined,
+      currentPassword: emailChanged ? emailPassword : undefined,
+    });
+
+    if (response.success) {
+      setProfileSuccess(response.data?.message || 'Profile updated successfully');
+      setEmailPassword('');
+      // The address only changes once confirmed, so the field goes back to the current one
+      setEmail(user?.email || '');
+      await refreshUser();
+    } else {
+      setProfileError(response.error?.message || 'Failed to update profile');
+    }
+
     setIsUpdatingProfile(false);
   };
 
@@ -82,6 +110,8 @@ export default function SettingsPage() {
   const tabs = [
     { id: 'profile' as const, label: 'Profile', icon: User },
     { id: 'password' as const, label: 'Password', icon: Lock },
+    { id: 'security' as const, label: 'Security', icon: ShieldCheck },
+    { id: 'tokens' as const, label: 'API Tokens', icon: KeyRound },
     { id: 'notifications' as const, label: 'Notifications', icon: Bell },
   ];
 
@@ -130,20 +160,44 @@ export default function SettingsPage() {
                     </div>
                   )}
 
+                  <div className="space-y-2">
+                    <Label>Picture</Label>
+                    <AvatarUpload />
+                  </div>
+
                   <div className="space-y-2">
                     <Label htmlFor="email">Email</Label>
                     <Input
                       id="email"
                       type="email"
-                      value={user?.email || ''}
-                      disabled
-                      className="bg-muted"
+                      value={email}
+                      onChange={(e) => setEmail(e.target.value)}
                     />
-                    <p className="text-xs text-muted-foreground">
-                      Email cannot be changed
-                    </p>
+                    {user?.pendingEmail ? (
+                      <p className="text-xs text-muted-foreground">
+                        Waiting for you to confirm {user.pendingEmail}. Check that inbox for
+                        the link.
+                      </p>
+                    ) : (
+                      <p className="text-xs text-muted-foreground">
+                        A new address is used once you confirm it from that inbox
+                      </p>
+                    )}
                   </div>
 
+                  {emailChanged && (
+                    <div className="space-y-2">
+                      <Label htmlFor="emailPassword">Current password</Label>
+                      <Input
+                        id="emailPassword"
+                        type="password"
+                        value={emailPassword}
+                        onChange={(e) => setEmailPassword(e.target.value)}
+                        required
+                      />
+                    </div>
+                  )}
+
                   <div className="space-y-2">
                     <Label htmlFor="name">Name</Label>
                     <Input
@@ -233,6 +287,10 @@ export default function SettingsPage() {
             </Card>
           )}
 
+          {activeTab === 'security' && <TwoFactorSettings />}
+
+          {activeTab === 'tokens' && <ApiTokens />}
+
           {activeTab === 'notifications' && (
             <Card>
               <CardHeader>
@@ -0,0 +1,359 @@
+'use client';
+
+import { useState } from 'react';
+import { useRouter } from 'next/navigation';
+import dynamic from 'next/dynamic';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { FileText, Loader2, Pencil, Plus, Trash2 } from 'lucide-react';
+import type { ArticleTemplate } from '@kbase/types';
+import { api } from '@/lib/api';
+import { useAuth } from '@/lib/auth';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+
+const TiptapEditor = dynamic(
+  () => import('@/components/editor/tiptap-editor').then((mod) => mod.TiptapEditor),
+  {
+    ssr: false,
+    loading: () => <div className="h-[300px] border rounded-md animate-pulse bg-muted" />,
+  }
+);
+
+interface Category {
+  id: string;
+  name: string;
+}
+
+interface TemplateForm {
+  name: string;
+  description: string;
+  title: string;
+  content: string;
+  tags: string;
+  categoryId: string;
+}
+
+const EMPTY_FORM: TemplateForm = {
+  name: '',
+  description: '',
+  title: '',
+  content: '',
+  tags: '',
+  categoryId: '',
+};
+
+export default function TemplatesPage() {
+  const router = useRouter();
+  const queryClient = useQueryClient();
+  const { isAuthenticated, isLoading: authLoading, can } = useAuth();
+  const canManage = isAuthenticated && can('template:manage');
+
+  // null while no form is open, 'new' for a template that does not exist yet
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [form, setForm] = useState<TemplateForm>(EMPTY_FORM);
+  const [editorKey, setEditorKey] = useState(0);
+  const [error, setError] = useState('');
+
+  const { data, isLoading } = useQuery({
+    queryKey: ['templates'],
+    queryFn: async () => {
+      const response = await api.get<{
+        templates: ArticleTemplate[];
+        placeholders: Record<string, string>;
+      }>('/templates');
+      return response.data || { templates: [], placeholders: {} };
+    },
+    enabled: canManage,
+  });
+
+  const { data: categories } = useQuery({
+    queryKey: ['categories'],
+    queryFn: async () => {
+      const response = await api.get<{ categories: Category[] }>('/categories');
+      return response.data?.categories || [];
+    },
+    enabled: canManage,
+  });
+
+  const openForm = (template?: ArticleTemplate) => {
+    setEditingId(template?.id ?? 'new');
+    setForm(
+      template
+        ? {
+            name: template.name,
+            description: template.description ?? '',
+            title: template.title,
+            content: template.content,
+            tags: template.tags.join(', '),
+            categoryId: template.categoryId ?? '',
+          }
+        : EMPTY_FORM
+    );
+    setEditorKey((key) => key + 1);
+    setError('');
+  };
+
+  const onChange = (response: { success: boolean; error?: { message: string } }) => {
+    if (!response.success) {
+      setError(response.error?.message || 'Something went wrong');
+      return;
+    }
+    setError('');
+    queryClient.invalidateQueries({ queryKey: ['templates'] });
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      const body = {
+        name: form.name,
+        description: form.description || null,
+        title: form.title,
+        content: form.content,
+        tags: form.tags
+          .split(',')
+          .map((t) => t.trim())
+          .filter((t) => t),
+        categoryId: form.categoryId || null,
+      };
+      return editingId === 'new'
+        ? api.post('/templates', body)
+        : api.put(`/templates/${editingId}`, body);
+    },
+    onSuccess: (response) => {
+      if (response.success) setEditingId(null);
+      onChange(response);
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: string) => api.delete(`/templates/${id}`),
+    onSuccess: (response, id) => {
+      if (response.success && editingId === id) setEditingId(null);
+      onChange(response);
+    },
+  });
+
+  if (!authLoading && !isAuthenticated) {
+    router.push('/login');
+    return null;
+  }
+
+  if (!authLoading && !canManage) {
+    return (
+      <div className="container py-8 max-w-2xl">
+        <Card>
+          <CardContent className="flex flex-col items-center justify-center py-12">
+            <p className="text-muted-foreground">
+              You don&apos;t have permission to manage article templates
+            </p>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!form.name.trim() || !form.title.trim() || !form.content.trim()) {
+      setError('Name, title and content are required');
+      return;
+    }
+    saveMutation.mutate();
+  };
+
+  const placeholders = Object.entries(data?.placeholders ?? {});
+
+  return (
+    <div className="container py-8 max-w-3xl">
+      <div className="flex items-start justify-between mb-8">
+        <div>
+          <h1 className="text-3xl font-bold tracking-tight">Article Templates</h1>
+          <p className="text-muted-foreground">
+            Starting points for runbooks, postmortems, how-tos and other recurring articles
+          </p>
+        </div>
+        {editingId === null && (
+          <Button onClick={() => openForm()}>
+            <Plus className="mr-2 h-4 w-4" />
+            New template
+          </Button>
+        )}
+      </div>
+
+      {error && (
+        <div className="mb-4 p-3 text-sm text-destructive bg-destructive/10 rounded-md">
+          {error}
+        </div>
+      )}
+
+      {editingId !== null && (
+        <Card className="mb-8">
+          <CardHeader>
+            <CardTitle>{editingId === 'new' ? 'New template' : 'Edit template'}</CardTitle>
+            {placeholders.length > 0 && (
+              <CardDescription>
+                The title and content may use these placeholders, filled in when an article is
+                created:
+              </CardDescription>
+            )}
+            {placeholders.length > 0 && (
+              <ul className="text-sm text-muted-foreground space-y-1">
+                {placeholders.map(([name, description]) => (
+                  <li key={name}>
+                    <code className="text-xs bg-muted px-1 py-0.5 rounded">{`{{${name}}}`}</code>{' '}
+                    {description}
+                  </li>
+                ))}
+              </ul>
+            )}
+          </CardHeader>
+          <CardContent>
+            <form onSubmit={handleSubmit} className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="name">Name *</Label>
+                <Input
+                  id="name"
+                  value={form.name}
+                  onChange={(e) => setForm({ ...form, name: e.target.value })}
+                  placeholder="e.g. Postmortem"
+                  required
+                />
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="description">Description</Label>
+                <Input
+                  id="description"
+                  value={form.description}
+                  onChange={(e) => setForm({ ...form, description: e.target.value })}
+                  placeholder="When to use this template"
+                />
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="title">Article title *</Label>
+                <Input
+                  id="title"
+                  value={form.title}
+                  onChange={(e) => setForm({ ...form, title: e.target.value })}
+                  placeholder="e.g. Postmortem: {{date}}"
+                  required
+                />
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="category">Default category</Label>
+                <select
+                  id="category"
+                  value={form.categoryId}
+                  onChange={(e) => setForm({ ...form, categoryId: e.target.value })}
+                  className="flex h-10 w-full rounded-md border border-input bg-background px-3 py-2 text-sm ring-offset-background focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2"
+                >
+                  <option value="">None</option>
+                  {categories?.map((category) => (
+                    <option key={category.id} value={category.id}>
+                      {category.name}
+                    </option>
+                  ))}
+                </select>
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="tags">Default tags</Label>
+                <Input
+                  id="tags"
+                  value={form.tags}
+                  onChange={(e) => setForm({ ...form, tags: e.target.value })}
+                  placeholder="Comma-separated tags (e.g., incident, postmortem)"
+                />
+              </div>
+
+              <div className="space-y-2">
+                <Label>Content *</Label>
+                <TiptapEditor
+                  key={editorKey}
+                  content={form.content}
+                  onChange={(content) => setForm((current) => ({ ...current, content }))}
+                  placeholder="Headings and prompts every article of this kind should have..."
+                />
+              </div>
+
+              <div className="flex justify-end space-x-2">
+                <Button type="button" variant="outline" onClick={() => setEditingId(null)}>
+                  Cancel
+                </Button>
+                <Button type="submit" disabled={saveMutation.isPending}>
+                  {saveMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                  Save template
+                </Button>
+              </div>
+            </form>
+          </CardContent>
+        </Card>
+      )}
+
+      {authLoading || isLoading ? (
+        <div className="space-y-4">
+          {[1, 2, 3].map((i) => (
+            <Card key={i} className="animate-pulse">
+              <CardHeader>
+                <div className="h-6 bg-muted rounded w-1/3" />
+                <div className="h-4 bg-muted rounded w-2/3 mt-2" />
+              </CardHeader>
+            </Card>
+          ))}
+        </div>
+      ) : data?.templates.length ? (
+        <div className="space-y-4">
+          {data.templates.map((template) => (
+            <div
+              key={template.id}
+              className="flex items-center justify-between p-4 border rounded-lg"
+            >
+              <div className="min-w-0">
+                <p className="font-medium">{template.name}</p>
+                <p className="text-sm text-muted-foreground truncate">
+                  {[
+                    template.description,
+                    template.category?.name,
+                    template.tags.length > 0 && `Tags: ${template.tags.join(', ')}`,
+                  ]
+                    .filter(Boolean)
+                    .join(' · ') || template.title}
+                </p>
+              </div>
+              <div className="flex items-center space-x-2">
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => openForm(template)}
+                  aria-label={`Edit ${template.name}`}
+                >
+                  <Pencil className="h-4 w-4" />
+                </Button>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => deleteMutation.mutate(template.id)}
+                  disabled={deleteMutation.isPending}
+                  aria-label={`Delete ${template.name}`}
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            </div>
+          ))}
+        </div>
+      ) : (
+        <Card>
+          <CardContent className="flex flex-col items-center justify-center py-12">
+            <FileText className="h-12 w-12 text-muted-foreground mb-4" />
+            <p className="text-muted-foreground">No templates yet</p>
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,183 @@
+'use client';
+
+import { useQuery } from '@tanstack/react-query';
+import { useParams } from 'next/navigation';
+import Link from 'next/link';
+import { FileText, BookOpen, UserX } from 'lucide-react';
+import { formatDate, formatFileSize } from '@kbase/utils';
+import { api } from '@/lib/api';
+import { useAuth } from '@/lib/auth';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
+
+interface Profile {
+  id: string;
+  name: string;
+  avatarUrl: string | null;
+  role: 'ADMIN' | 'EDITOR' | 'VIEWER';
+  createdAt: string;
+  _count: { articles: number; documents: number };
+}
+
+interface ProfileArticle {
+  id: string;
+  title: string;
+  slug: string;
+  excerpt: string | null;
+  publishedAt: string | null;
+  category: { id: string; name: string; slug: string } | null;
+}
+
+interface ProfileDocument {
+  id: string;
+  title: string;
+  description: string | null;
+  fileName: string;
+  fileSize: number;
+  createdAt: string;
+  category: { id: string; name: string; slug: string } | null;
+}
+
+interface ProfileResponse {
+  user: Profile;
+  articles: ProfileArticle[];
+  documents: ProfileDocument[];
+}
+
+export default function UserProfilePage() {
+  const params = useParams();
+  const id = params.id as string;
+  const { isLoading: authLoading, isAuthenticated } = useAuth();
+
+  // Signing in can reveal content in restricted categories, so refetch when it changes
+  const { data, isLoading } = useQuery({
+    queryKey: ['users', id, isAuthenticated],
+    queryFn: async () => {
+      const response = await api.get<ProfileResponse>(`/users/${id}`);
+      return response.data || null;
+    },
+    enabled: !authLoading,
+  });
+
+  if (authLoading || isLoading) {
+    return (
+      <div className="container py-8 max-w-4xl">
+        <div className="flex items-center space-x-4 mb-8 animate-pulse">
+          <div className="h-20 w-20 bg-muted rounded-full" />
+          <div className="flex-1">
+            <div className="h-6 bg-muted rounded w-1/3 mb-2" />
+            <div className="h-4 bg-muted rounded w-1/4" />
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  if (!data) {
+    return (
+      <div className="container py-8 max-w-4xl">
+        <Card>
+          <CardContent className="flex flex-col items-center justify-center py-12">
+            <UserX className="h-12 w-12 text-muted-foreground mb-4" />
+            <p className="text-muted-foreground">User not found</p>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  const { user, articles, documents } = data;
+  const initials = user.name
+    .split(' ')
+    .map((n) => n[0])
+    .join('')
+    .toUpperCase()
+    .slice(0, 2);
+
+  return (
+    <div className="container py-8 max-w-4xl">
+      <div className="flex items-center space-x-4 mb-8">
+        <Avatar className="h-20 w-20">
+          {user.avatarUrl && <AvatarImage src={user.avatarUrl} alt={user.name} />}
+          <AvatarFallback className="text-2xl">{initials}</AvatarFallback>
+        </Avatar>
+        <div>
+          <h1 className="text-3xl font-bold tracking-tight">{user.name}</h1>
+          <p className="text-muted-foreground">
+            Member since {formatDate(user.createdAt)} · {user._count.articles} articles ·{' '}
+            {user._count.documents} documents
+          </p>
+        </div>
+      </div>
+
+      <div className="grid gap-8 md:grid-cols-2">
+        <Card>
+          <CardHeader>
+            <CardTitle>Articles</CardTitle>
+            <CardDescription>Published articles by {user.name}</CardDescription>
+          </CardHeader>
+          <CardContent>
+            {articles.length > 0 ? (
+              <div className="space-y-3">
+                {articles.map((article) => (
+                  <Link
+                    key={article.id}
+                    href={`/articles/${article.slug}`}
+                    className="block p-3 border rounded-lg hover:bg-muted/50 transition-colors"
+                  >
+                    <p className="font-medium">{article.title}</p>
+                    {article.excerpt && (
+                      <p className="text-sm text-muted-foreground line-clamp-2">
+                        {article.excerpt}
+                      </p>
+                    )}
+                    <p className="text-xs text-muted-foreground mt-1">
+                      {article.publishedAt && formatDate(article.publishedAt)}
+                      {article.category && ` · ${article.category.name}`}
+                    </p>
+                  </Link>
+                ))}
+              </div>
+            ) : (
+              <div className="flex flex-col items-center justify-center py-8">
+                <BookOpen className="h-8 w-8 text-muted-foreground mb-2" />
+                <p className="text-sm text-muted-foreground">No published articles</p>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Documents</CardTitle>
+            <CardDescription>Published documents by {user.name}</CardDescription>
+          </CardHeader>
+          <CardContent>
+            {documents.length > 0 ? (
+              <div className="space-y-3">
+                {documents.map((document) => (
+                  <Link
+                    key={document.id}
+                    href={`/documents/${document.id}`}
+                    className="block p-3 border rounded-lg hover:bg-muted/50 transition-colors"
+                  >
+                    <p className="font-medium">{document.title}</p>
+                    <p className="text-xs text-muted-foreground mt-1">
+                      {document.fileName} · {formatFileSize(document.fileSize)}
+                      {document.category && ` · ${document.category.name}`}
+                    </p>
+                  </Link>
+                ))}
+              </div>
+            ) : (
+              <div className="flex flex-col items-center justify-center py-8">
+                <FileText className="h-8 w-8 text-muted-foreground mb-2" />
+                <p className="text-sm text-muted-foreground">No published documents</p>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,204 @@
+'use client';
+
+import { useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { History, RotateCcw } from 'lucide-react';
+import { api } from '@/lib/api';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+
+interface Revision {
+  id: string;
+  version: number;
+  title: string;
+  restoredFromId: string | null;
+  createdAt: string;
+  // Null once the editor's account is deleted
+  editor: {
+    id: string;
+    name: string;
+  } | null;
+}
+
+interface DiffChange {
+  value: string;
+  added?: boolean;
+  removed?: boolean;
+}
+
+interface RevisionDiff {
+  title: DiffChange[];
+  excerpt: DiffChange[];
+  content: DiffChange[];
+}
+
+interface RevisionHistoryProps {
+  articleId: string;
+  articleSlug: string;
+}
+
+function DiffText({ changes }: { changes: DiffChange[] }) {
+  return (
+    <>
+      {changes.map((change, i) => (
+        <span
+          key={i}
+          className={
+            change.added
+              ? 'bg-green-100 text-green-900'
+              : change.removed
+                ? 'bg-red-100 text-red-900 line-through'
+                : undefined
+          }
+        >
+          {change.value}
+        </span>
+      ))}
+    </>
+  );
+}
+
+const hasChanges = (changes: DiffChange[]) => changes.some((c) => c.added || c.removed);
+
+export function RevisionHistory({ articleId, articleSlug }: RevisionHistoryProps) {
+  const router = useRouter();
+  const queryClient = useQueryClient();
+  const [selected, setSelected] = useState<string | null>(null);
+
+  const { data: revisions } = useQuery({
+    queryKey: ['revisions', articleId],
+    queryFn: async () => {
+      const response = await api.get<{ revisions: Revision[] }>(`/articles/${articleId}/revisions`);
+      return response.data?.revisions || [];
+    },
+  });
+
+  const latest = revisions?.[0];
+
+  // Compare the selected revision against the latest one
+  const { data: diff, isLoading: diffLoading } = useQuery({
+    queryKey: ['revisions', articleId, 'diff', selected, latest?.id],
+    queryFn: async () => {
+      const response = await api.get<{ diff: RevisionDiff }>(
+        `/articles/${articleId}/revisions/diff?from=${selected}&to=${latest!.id}`
+      );
+      return response.data?.diff;
+    },
+    enabled: !!selected && !!latest,
+  });
+
+  const restoreMutation = useMutation({
+    mutationFn: async (revisionId: string) => {
+      return api.post<{ article: { slug: string } }>(
+        `/articles/${articleId}/revisions/${revisionId}/restore`
+      );
+    },
+    onSuccess: (response) => {
+      setSelected(null);
+      queryClient.invalidateQueries({ queryKey: ['revisions', articleId] });
+      queryClient.invalidateQueries({ queryKey: ['article', articleSlug] });
+
+      // Restoring an older title changes the slug, so move to the new URL
+      const slug = response.data?.article.slug;
+      if (slug && slug !== articleSlug) {
+        router.replace(`/articles/${slug}`);
+      }
+    },
+  });
+
+  const versionOf = (id: string | null) => revisions?.find((r) => r.id === id)?.version;
+
+  return (
+    <Card className="mb-8">
+      <CardHeader>
+        <CardTitle className="flex items-center text-lg">
+          <History className="mr-2 h-5 w-5" />
+          History
+        </CardTitle>
+        <CardDescription>Select a revision to compare it with the current version</CardDescription>
+      </CardHeader>
+      <CardContent>
+        {revisions && revisions.length > 0 ? (
+          <div className="space-y-2">
+            {revisions.map((revision) => (
+              <div
+                key={revision.id}
+                className={`flex items-center justify-between p-3 border rounded-lg ${
+                  selected === revision.id ? 'border-primary' : ''
+                }`}
+              >
+                <button
+                  type="button"
+                  className="text-left flex-1"
+                  onClick={() => setSelected(selected === revision.id ? null : revision.id)}
+                  disabled={revision.id === latest?.id}
+                >
+                  <p className="text-sm font-medium">
+                    Version {revision.version}
+                    {revision.id === latest?.id && ' (current)'}
+                  </p>
+                  <p className="text-xs text-muted-foreground">
+                    {revision.editor?.name ?? 'Deleted user'} ·{' '}
+                    {new Date(revision.createdAt).toLocaleString()}
+                    {revision.restoredFromId &&
+                      ` · restored from version ${versionOf(revision.restoredFromId) ?? '?'}`}
+                  </p>
+                </button>
+                {revision.id !== latest?.id && (
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => restoreMutation.mutate(revision.id)}
+                    disabled={restoreMutation.isPending}
+                  >
+                    <RotateCcw className="mr-2 h-4 w-4" />
+                    Restore
+                  </Button>
+                )}
+              </div>
+            ))}
+          </div>
+        ) : (
+          <p className="text-sm text-muted-foreground">No revisions yet</p>
+        )}
+
+        {selected && (
+          <div className="mt-6 space-y-4">
+            <h3 className="text-sm font-medium">
+              Changes from version {versionOf(selected)} to version {latest?.version}
+            </h3>
+            {diffLoading || !diff ? (
+              <div className="h-24 bg-muted rounded animate-pulse" />
+            ) : (
+              <>
+                {hasChanges(diff.title) && (
+                  <div>
+                    <p className="text-xs text-muted-foreground mb-1">Title</p>
+                    <p className="text-sm">
+                      <DiffText changes={diff.title} />
+                    </p>
+                  </div>
+                )}
+                {hasChanges(diff.excerpt) && (
+                  <div>
+                    <p className="text-xs text-muted-foreground mb-1">Excerpt</p>
+                    <p className="text-sm">
+                      <DiffText changes={diff.excerpt} />
+                    </p>
+                  </div>
+                )}
+                <div>
+                  <p className="text-xs text-muted-foreground mb-1">Content</p>
+                  <pre className="text-xs whitespace-pre-wrap font-mono bg-muted/50 rounded-md p-4 max-h-96 overflow-y-auto">
+                    <DiffText changes={diff.content} />
+                  </pre>
+                </div>
+              </>
+            )}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,234 @@
+'use client';
+
+import { useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { Lock, Trash2, Users } from 'lucide-react';
+import { api } from '@/lib/api';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+
+export type CategoryVisibility = 'PUBLIC' | 'AUTHENTICATED' | 'RESTRICTED';
+
+export const VISIBILITY_OPTIONS: { value: CategoryVisibility; label: string; hint: string }[] = [
+  { value: 'PUBLIC', label: 'Public', hint: 'Anyone, including visitors who are not signed in' },
+  { value: 'AUTHENTICATED', label: 'Signed-in users', hint: 'Every user with an account' },
+  { value: 'RESTRICTED', label: 'Restricted', hint: 'Only people granted access below' },
+];
+
+interface Grant {
+  id: string;
+  user: {
+    id: string;
+    name: string;
+    email: string;
+  } | null;
+  group: {
+    id: string;
+    name: string;
+  } | null;
+}
+
+interface Group {
+  id: string;
+  name: string;
+}
+
+interface CategoryAccessProps {
+  categoryId: string;
+  visibility: CategoryVisibility;
+  // Query to refresh once the visibility changes
+  categoryQueryKey: unknown[];
+}
+
+export function CategoryAccess({ categoryId, visibility, categoryQueryKey }: CategoryAccessProps) {
+  const queryClient = useQueryClient();
+  const [email, setEmail] = useState('');
+  const [groupId, setGroupId] = useState('');
+  const [error, setError] = useState('');
+
+  const { data: grants } = useQuery({
+    queryKey: ['categories', categoryId, 'grants'],
+    queryFn: async () => {
+      const response = await api.get<{ grants: Grant[] }>(`/categories/${categoryId}/grants`);
+      return response.data?.grants || [];
+    },
+  });
+
+  const { data: groups } = useQuery({
+    queryKey: ['groups'],
+    queryFn: async () => {
+      const response = await api.get<{ groups: Group[] }>('/groups');
+      return response.data?.groups || [];
+    },
+  });
+
+  const onSettled = (response: { success: boolean; error?: { message: string } }) => {
+    if (!response.success) {
+      setError(response.error?.message || 'Something went wrong');
+      return;
+    }
+    setError('');
+    queryClient.invalidateQueries({ queryKey: ['categories', categoryId, 'grants'] });
+  };
+
+  const visibilityMutation = useMutation({
+    mutationFn: async (value: CategoryVisibility) =>
+      api.put(`/categories/${categoryId}`, { visibility: value }),
+    onSuccess: (response) => {
+      if (!response.success) {
+        setError(response.error?.message || 'Failed to change visibility');
+        return;
+      }
+      setError('');
+      queryClient.invalidateQueries({ queryKey: categoryQueryKey });
+      queryClient.invalidateQueries({ queryKey: ['categories'], exact: true });
+    },
+  });
+
+  const grantMutation = useMutation({
+    mutationFn: async (target: { email: string } | { groupId: string }) =>
+      api.post(`/categories/${categoryId}/grants`, target),
+    onSuccess: (response) => {
+      if (response.success) {
+        setEmail('');
+        setGroupId('');
+      }
+      onSettled(response);
+    },
+  });
+
+  const revokeMutation = useMutation({
+    mutationFn: async (grantId: string) =>
+      api.delete(`/categories/${categoryId}/grants/${grantId}`),
+    onSuccess: onSettled,
+  });
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center">
+          <Lock className="mr-2 h-5 w-5" />
+          Access
+        </CardTitle>
+        <CardDescription>
+          Subcategories are never more visible than this one. Access granted here also covers
+          everything beneath it.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {error && (
+          <div className="p-3 text-sm text-destructive bg-destructive/10 rounded-md">{error}</div>
+        )}
+
+        <div className="space-y-2">
+          <Label htmlFor="visibility">Who can see this category</Label>
+          <select
+            id="visibility"
+            value={visibility}
+            onChange={(e) => visibilityMutation.mutate(e.target.value as CategoryVisibility)}
+            disabled={visibilityMutation.isPending}
+            className="w-full text-sm border rounded px-2 py-2"
+          >
+            {VISIBILITY_OPTIONS.map((option) => (
+              <option key={option.value} value={option.value}>
+                {option.label} — {option.hint}
+              </option>
+            ))}
+          </select>
+        </div>
+
+        <form
+          onSubmit={(e) => {
+            e.preventDefault();
+            grantMutation.mutate({ email });
+          }}
+          className="flex items-end space-x-2"
+        >
+          <div className="flex-1 space-y-2">
+            <Label htmlFor="grantEmail">Grant access</Label>
+            <Input
+              id="grantEmail"
+              type="email"
+              value={email}
+              onChange={(e) => setEmail(e.target.value)}
+              placeholder="colleague@example.com"
+              required
+            />
+          </div>
+          <Button type="submit" disabled={!email || grantMutation.isPending}>
+            Add
+          </Button>
+        </form>
+
+        {groups && groups.length > 0 && (
+          <form
+            onSubmit={(e) => {
+              e.preventDefault();
+              if (groupId) grantMutation.mutate({ groupId });
+            }}
+            className="flex items-end space-x-2"
+          >
+            <div className="flex-1 space-y-2">
+              <Label htmlFor="grantGroup">Grant access to a group</Label>
+              <select
+                id="grantGroup"
+                value={groupId}
+                onChange={(e) => setGroupId(e.target.value)}
+                className="w-full text-sm border rounded px-2 py-2"
+              >
+                <option value="">Choose a group...</option>
+                {groups.map((group) => (
+                  <option key={group.id} value={group.id}>
+                    {group.name}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <Button type="submit" disabled={!groupId || grantMutation.isPending}>
+              Add
+            </Button>
+          </form>
+        )}
+
+        {grants && grants.length > 0 ? (
+          <div className="space-y-2">
+            {grants.map((grant) => (
+              <div
+                key={grant.id}
+                className="flex items-center justify-between p-3 border rounded-lg"
+              >
+                {grant.group ? (
+                  <div className="min-w-0">
+                    <p className="text-sm font-medium inline-flex items-center">
+                      <Users className="mr-1 h-3 w-3" />
+                      {grant.group.name}
+                    </p>
+                    <p className="text-xs text-muted-foreground">Everyone in this group</p>
+                  </div>
+                ) : (
+                  <div className="min-w-0">
+                    <p className="text-sm font-medium">{grant.user?.name}</p>
+                    <p className="text-xs text-muted-foreground">{grant.user?.email}</p>
+                  </div>
+                )}
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => revokeMutation.mutate(grant.id)}
+                  disabled={revokeMutation.isPending}
+                  aria-label={`Revoke access for ${grant.group?.name ?? grant.user?.name}`}
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            ))}
+          </div>
+        ) : (
+          <p className="text-sm text-muted-foreground">Nobody has been granted access yet</p>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
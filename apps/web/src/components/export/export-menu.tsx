@@ -0,0 +1,76 @@
+'use client';
+
+import { useState } from 'react';
+import { Download, Loader2 } from 'lucide-react';
+import { api } from '@/lib/api';
+import { Button } from '@/components/ui/button';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+
+type ExportFormat = 'md' | 'html' | 'pdf';
+
+const FORMATS: { format: ExportFormat; label: string }[] = [
+  { format: 'md', label: 'Markdown' },
+  { format: 'html', label: 'HTML' },
+  { format: 'pdf', label: 'PDF' },
+];
+
+interface ExportMenuProps {
+  // API path without the query string, e.g. /articles/<id>/export
+  endpoint: string;
+  fileName: (format: ExportFormat) => string;
+  label?: string;
+}
+
+export function ExportMenu({ endpoint, fileName, label = 'Export' }: ExportMenuProps) {
+  const [error, setError] = useState('');
+  const [isExporting, setIsExporting] = useState(false);
+
+  const handleExport = async (format: ExportFormat) => {
+    setError('');
+    setIsExporting(true);
+
+    const blob = await api.download(`${endpoint}?format=${format}`);
+    if (blob) {
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = fileName(format);
+      link.click();
+      URL.revokeObjectURL(url);
+    } else {
+      setError('Export failed');
+    }
+
+    setIsExporting(false);
+  };
+
+  return (
+    <div className="flex items-center space-x-2">
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button variant="ghost" size="sm" disabled={isExporting}>
+            {isExporting ? (
+              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+            ) : (
+              <Download className="mr-2 h-4 w-4" />
+            )}
+            {label}
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="end">
+          {FORMATS.map(({ format, label: formatLabel }) => (
+            <DropdownMenuItem key={format} onClick={() => handleExport(format)}>
+              {formatLabel}
+            </DropdownMenuItem>
+          ))}
+        </DropdownMenuContent>
+      </DropdownMenu>
+      {error && <span className="text-sm text-destructive">{error}</span>}
+    </div>
+  );
+}
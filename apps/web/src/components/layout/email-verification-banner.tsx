@@ -0,0 +1,46 @@
+'use client';
+
+import { useState } from 'react';
+import { useMutation } from '@tanstack/react-query';
+import { MailWarning } from 'lucide-react';
+import { api } from '@/lib/api';
+import { useAuth } from '@/lib/auth';
+import { Button } from '@/components/ui/button';
+
+export function EmailVerificationBanner() {
+  const { user } = useAuth();
+  const [message, setMessage] = useState('');
+
+  const resendMutation = useMutation({
+    mutationFn: async () => api.post('/auth/resend-verification'),
+    onSuccess: (response) => {
+      setMessage(
+        response.success
+          ? `We sent a new link to ${user?.email}`
+          : response.error?.message || 'Could not send the email'
+      );
+    },
+  });
+
+  if (!user || user.emailVerified) return null;
+
+  return (
+    <div className="border-b bg-amber-50 text-amber-900">
+      <div className="container flex items-center justify-between gap-4 py-2 text-sm">
+        <div className="flex items-center">
+          <MailWarning className="mr-2 h-4 w-4 shrink-0" />
+          {message ||
+            'Please verify your email address. You cannot comment, react or edit content until you do.'}
+        </div>
+        <Button
+          size="sm"
+          variant="outline"
+          onClick={() => resendMutation.mutate()}
+          disabled={resendMutation.isPending}
+        >
+          {resendMutation.isPending ? 'Sending...' : 'Resend email'}
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -2,7 +2,18 @@
 
 import Link from 'next/link';
 import { useRouter } from 'next/navigation';
-import { BookOpen, LogOut, Settings, User, Search, Shield } from 'lucide-react';
+import {
+  BookOpen,
+  FileText,
+  LogOut,
+  Settings,
+  User,
+  Search,
+  Shield,
+  Users,
+  UserCircle,
+} from 'lucide-react';
+import { avatarUrlForSize } from '@kbase/utils';
 import { useAuth } from '@/lib/auth';
 import { Button } from '@/components/ui/button';
 import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
@@ -17,7 +28,7 @@ import {
 
 export function Header() {
   const router = useRouter();
-  const { user, isAuthenticated, logout } = useAuth();
+  const { user, isAuthenticated, logout, can } = useAuth();
 
   const handleLogout = async () => {
     await logout();
@@ -77,7 +88,9 @@ export function Header() {
                   className="relative h-8 w-8 rounded-full"
                 >
                   <Avatar className="h-8 w-8">
-                    <AvatarImage src={user.avatarUrl} alt={user.name} />
+                    {user.avatarUrl && (
+                      <AvatarImage src={avatarUrlForSize(user.avatarUrl, 64)} alt={user.name} />
+                    )}
                     <AvatarFallback>{getInitials(user.name)}</AvatarFallback>
                   </Avatar>
                 </Button>
@@ -100,13 +113,38 @@ export function Header() {
                     Dashboard
                   </Link>
                 </DropdownMenuItem>
+                <DropdownMenuItem asChild>
+                  <Link href={`/users/${user.id}`}>
+                    <UserCircle className="mr-2 h-4 w-4" />
+                    Profile
+                  </Link>
+                </DropdownMenuItem>
                 <DropdownMenuItem asChild>
                   <Link href="/settings">
                     <Settings className="mr-2 h-4 w-4" />
                     Settings
                   </Link>
                 </DropdownMenuItem>
-                {user.role === 'ADMIN' && (
+                <DropdownMenuItem asChild>
+                  <Link href="/groups">
+                    <Users className="mr-2 h-4 w-4" />
+                    Groups
+                  </Link>
+                </DropdownMenuItem>
+                {can('template:manage') && (
+                  <DropdownMenuItem asChild>
+                    <Link href="/templates">
+                      <FileText className="mr-2 h-4 w-4" />
+                      Templates
+                    </Link>
+                  </DropdownMenuItem>
+                )}
+                {(can('user:manage') ||
+                  can('role:manage') ||
+                  can('system:manage') ||
+                  can('group:manage') ||
+                  can('audit:view') ||
+                  can('article:import')) && (
                   <DropdownMenuItem asChild>
                     <Link href="/admin">
                       <Shield className="mr-2 h-4 w-4" />
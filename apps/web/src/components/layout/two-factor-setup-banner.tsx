@@ -0,0 +1,28 @@
+'use client';
+
+import Link from 'next/link';
+import { ShieldAlert } from 'lucide-react';
+import { useAuth } from '@/lib/auth';
+import { Button } from '@/components/ui/button';
+
+export function TwoFactorSetupBanner() {
+  const { user } = useAuth();
+
+  if (!user?.twoFactorSetupRequired) return null;
+
+  return (
+    <div className="border-b bg-amber-50 text-amber-900">
+      <div className="container flex items-center justify-between gap-4 py-2 text-sm">
+        <div className="flex items-center">
+          <ShieldAlert className="mr-2 h-4 w-4 shrink-0" />
+          Your role requires two-factor authentication. Set it up to keep using your account.
+        </div>
+        <Link href="/settings#security">
+          <Button size="sm" variant="outline">
+            Set up now
+          </Button>
+        </Link>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,255 @@
+'use client';
+
+import { useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { CheckCircle, ClipboardCheck, Send, XCircle } from 'lucide-react';
+import { api } from '@/lib/api';
+import { useAuth } from '@/lib/auth';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+
+interface Review {
+  id: string;
+  status: 'PENDING' | 'APPROVED' | 'CHANGES_REQUESTED' | 'CANCELLED';
+  requestComment: string | null;
+  decisionComment: string | null;
+  createdAt: string;
+  decidedAt: string | null;
+  requester: { id: string; name: string };
+  reviewer: { id: string; name: string } | null;
+  reviewerGroup: { id: string; name: string } | null;
+}
+
+interface Reviewer {
+  id: string;
+  name: string;
+  role: string;
+}
+
+interface ReviewerGroup {
+  id: string;
+  name: string;
+  _count: { memberships: number };
+}
+
+interface ReviewPanelProps {
+  contentType: 'ARTICLE' | 'DOCUMENT';
+  contentId: string;
+  contentStatus: string;
+  authorId: string;
+  // Query key of the page's content so the status badge refreshes after a decision
+  contentQueryKey: unknown[];
+}
+
+const STATUS_LABELS: Record<Review['status'], string> = {
+  PENDING: 'Awaiting review',
+  APPROVED: 'Approved',
+  CHANGES_REQUESTED: 'Changes requested',
+  CANCELLED: 'Withdrawn',
+};
+
+export function ReviewPanel({
+  contentType,
+  contentId,
+  contentStatus,
+  authorId,
+  contentQueryKey,
+}: ReviewPanelProps) {
+  const queryClient = useQueryClient();
+  const { user, can } = useAuth();
+  // "user:<id>" or "group:<id>", so people and groups can share one select
+  const [assignee, setAssignee] = useState('');
+  const [comment, setComment] = useState('');
+  const [error, setError] = useState('');
+
+  const prefix = contentType === 'ARTICLE' ? 'article' : 'document';
+  const isAuthor =
+    (user?.id === authorId && can(contentType === 'ARTICLE' ? 'article:create' : 'document:upload')) ||
+    can(`${prefix}:edit-any`);
+
+  const { data: reviews } = useQuery({
+    queryKey: ['reviews', contentType, contentId],
+    queryFn: async () => {
+      const response = await api.get<{ reviews: Review[] }>(
+        `/reviews?contentType=${contentType}&contentId=${contentId}`
+      );
+      return response.data?.reviews || [];
+    },
+  });
+
+  const { data: reviewers } = useQuery({
+    queryKey: ['reviews', 'reviewers'],
+    queryFn: async () => {
+      const response = await api.get<{ reviewers: Reviewer[]; groups: ReviewerGroup[] }>(
+        '/reviews/reviewers'
+      );
+      return response.data || { reviewers: [], groups: [] };
+    },
+    enabled: isAuthor && contentStatus === 'DRAFT',
+  });
+
+  const pending = reviews?.find((r) => r.status === 'PENDING');
+
+  const { data: myGroups } = useQuery({
+    queryKey: ['groups', 'mine'],
+    queryFn: async () => {
+      const response = await api.get<{ groups: { id: string }[] }>('/groups?mine=true');
+      return response.data?.groups || [];
+    },
+    enabled: !!pending?.reviewerGroup,
+  });
+
+  const isReviewer =
+    !!pending &&
+    (pending.reviewer?.id === user?.id ||
+      (pending.requester.id !== user?.id &&
+        !!myGroups?.some((group) => group.id === pending.reviewerGroup?.id)) ||
+      can(`${prefix}:publish`));
+
+  const assigneeName = (review: Review) => review.reviewer?.name ?? review.reviewerGroup?.name;
+
+  const onSettled = (response: { success: boolean; error?: { message: string } }) => {
+    if (!response.success) {
+      setError(response.error?.message || 'Something went wrong');
+      return;
+    }
+    setError('');
+    setComment('');
+    queryClient.invalidateQueries({ queryKey: ['reviews', contentType, contentId] });
+    queryClient.invalidateQueries({ queryKey: contentQueryKey });
+  };
+
+  const submitMutation = useMutation({
+    mutationFn: async () =>
+      api.post('/reviews', {
+        contentType,
+        contentId,
+        reviewerId: assignee.startsWith('user:') ? assignee.slice(5) : undefined,
+        reviewerGroupId: assignee.startsWith('group:') ? assignee.slice(6) : undefined,
+        comment: comment || undefined,
+      }),
+    onSuccess: onSettled,
+  });
+
+  const decideMutation = useMutation({
+    mutationFn: async (decision: 'approve' | 'request-changes') =>
+      api.post(`/reviews/${pending!.id}/${decision}`, { comment: comment || undefined }),
+    onSuccess: onSettled,
+  });
+
+  if (!isAuthor && !isReviewer) return null;
+
+  return (
+    <Card className="mb-8">
+      <CardHeader>
+        <CardTitle className="flex items-center text-lg">
+          <ClipboardCheck className="mr-2 h-5 w-5" />
+          Review
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {error && (
+          <div className="p-3 text-sm text-destructive bg-destructive/10 rounded-md">{error}</div>
+        )}
+
+        {isReviewer && pending && (
+          <div className="space-y-2">
+            <p className="text-sm">
+              {pending.requester.name} asked {assigneeName(pending)} to review this.
+            </p>
+            {pending.requestComment && (
+              <p className="text-sm text-muted-foreground">{pending.requestComment}</p>
+            )}
+            <Input
+              placeholder="Comment (required when requesting changes)"
+              value={comment}
+              onChange={(e) => setComment(e.target.value)}
+            />
+            <div className="flex space-x-2">
+              <Button
+                size="sm"
+                onClick={() => decideMutation.mutate('approve')}
+                disabled={decideMutation.isPending}
+              >
+                <CheckCircle className="mr-2 h-4 w-4" />
+                Approve &amp; publish
+              </Button>
+              <Button
+                size="sm"
+                variant="outline"
+                onClick={() => decideMutation.mutate('request-changes')}
+                disabled={decideMutation.isPending || !comment.trim()}
+              >
+                <XCircle className="mr-2 h-4 w-4" />
+                Request changes
+              </Button>
+            </div>
+          </div>
+        )}
+
+        {isAuthor && contentStatus === 'DRAFT' && (
+          <form
+            onSubmit={(e) => {
+              e.preventDefault();
+              if (assignee) submitMutation.mutate();
+            }}
+            className="space-y-2"
+          >
+            <select
+              value={assignee}
+              onChange={(e) => setAssignee(e.target.value)}
+              className="w-full text-sm border rounded px-2 py-2"
+            >
+              <option value="">Choose a reviewer...</option>
+              <optgroup label="People">
+                {reviewers?.reviewers
+                  .filter((r) => r.id !== authorId)
+                  .map((r) => (
+                    <option key={r.id} value={`user:${r.id}`}>
+                      {r.name} ({r.role.toLowerCase()})
+                    </option>
+                  ))}
+              </optgroup>
+              {!!reviewers?.groups.length && (
+                <optgroup label="Groups (anyone in the group can review)">
+                  {reviewers.groups.map((group) => (
+                    <option key={group.id} value={`group:${group.id}`}>
+                      {group.name} ({group._count.memberships})
+                    </option>
+                  ))}
+                </optgroup>
+              )}
+            </select>
+            <Input
+              placeholder="Note for the reviewer (optional)"
+              value={comment}
+              onChange={(e) => setComment(e.target.value)}
+            />
+            <Button type="submit" size="sm" disabled={!assignee || submitMutation.isPending}>
+              <Send className="mr-2 h-4 w-4" />
+              Submit for review
+            </Button>
+          </form>
+        )}
+
+        {reviews && reviews.length > 0 && (
+          <div className="space-y-2">
+            {reviews.map((review) => (
+              <div key={review.id} className="p-3 border rounded-lg text-sm">
+                <p className="font-medium">
+                  {STATUS_LABELS[review.status]} · {assigneeName(review)}
+                </p>
+                <p className="text-xs text-muted-foreground">
+                  Requested by {review.requester.name} on{' '}
+                  {new Date(review.createdAt).toLocaleDateString()}
+                </p>
+                {review.decisionComment && <p className="mt-1">{review.decisionComment}</p>}
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
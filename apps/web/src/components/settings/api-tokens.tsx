@@ -0,0 +1,209 @@
+'use client';
+
+import { useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { KeyRound, Trash2 } from 'lucide-react';
+import { api } from '@/lib/api';
+import { useAuth } from '@/lib/auth';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+
+type Scope = 'read' | 'write' | 'admin';
+
+interface ApiToken {
+  id: string;
+  name: string;
+  tokenPrefix: string;
+  scopes: Scope[];
+  expiresAt: string | null;
+  lastUsedAt: string | null;
+  createdAt: string;
+}
+
+const EXPIRY_OPTIONS = [
+  { label: '30 days', days: 30 },
+  { label: '90 days', days: 90 },
+  { label: '1 year', days: 365 },
+  { label: 'Never', days: 0 },
+];
+
+export function ApiTokens() {
+  const queryClient = useQueryClient();
+  const { user } = useAuth();
+  const [name, setName] = useState('');
+  const [scopes, setScopes] = useState<Scope[]>(['read']);
+  const [expiresInDays, setExpiresInDays] = useState(90);
+  const [newToken, setNewToken] = useState('');
+  const [error, setError] = useState('');
+
+  const availableScopes: Scope[] =
+    user?.role === 'ADMIN' ? ['read', 'write', 'admin'] : ['read', 'write'];
+
+  const { data: tokens } = useQuery({
+    queryKey: ['tokens'],
+    queryFn: async () => {
+      const response = await api.get<{ tokens: ApiToken[] }>('/tokens');
+      return response.data?.tokens || [];
+    },
+  });
+
+  const createMutation = useMutation({
+    mutationFn: async () =>
+      api.post<{ token: ApiToken; value: string }>('/tokens', {
+        name,
+        scopes,
+        expiresInDays: expiresInDays || undefined,
+      }),
+    onSuccess: (response) => {
+      if (!response.success) {
+        setError(response.error?.message || 'Failed to create token');
+        return;
+      }
+      setError('');
+      setName('');
+      setNewToken(response.data!.value);
+      queryClient.invalidateQueries({ queryKey: ['tokens'] });
+    },
+  });
+
+  const revokeMutation = useMutation({
+    mutationFn: async (id: string) => api.delete(`/tokens/${id}`),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['tokens'] });
+    },
+  });
+
+  const toggleScope = (scope: Scope) => {
+    setScopes((current) =>
+      current.includes(scope) ? current.filter((s) => s !== scope) : [...current, scope]
+    );
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center">
+          <KeyRound className="mr-2 h-5 w-5" />
+          API tokens
+        </CardTitle>
+        <CardDescription>
+          Personal access tokens for scripts and CI. Send them as{' '}
+          <code className="font-mono">Authorization: Bearer &lt;token&gt;</code>.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {error && (
+          <div className="p-3 text-sm text-destructive bg-destructive/10 rounded-md">{error}</div>
+        )}
+
+        {newToken && (
+          <div className="space-y-2 p-3 border rounded-md">
+            <p className="text-sm font-medium">
+              Copy your new token now. It will not be shown again.
+            </p>
+            <code className="block break-all p-2 bg-muted rounded font-mono text-sm">
+              {newToken}
+            </code>
+            <Button size="sm" variant="outline" onClick={() => setNewToken('')}>
+              Done
+            </Button>
+          </div>
+        )}
+
+        <form
+          onSubmit={(e) => {
+            e.preventDefault();
+            createMutation.mutate();
+          }}
+          className="space-y-4"
+        >
+          <div className="space-y-2">
+            <Label htmlFor="tokenName">Name</Label>
+            <Input
+              id="tokenName"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="e.g. Runbook sync"
+              maxLength={100}
+              required
+            />
+          </div>
+          <div className="space-y-2">
+            <Label>Scopes</Label>
+            <div className="flex space-x-4">
+              {availableScopes.map((scope) => (
+                <label key={scope} className="flex items-center space-x-2 text-sm">
+                  <input
+                    type="checkbox"
+                    checked={scopes.includes(scope)}
+                    onChange={() => toggleScope(scope)}
+                  />
+                  <span>{scope}</span>
+                </label>
+              ))}
+            </div>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="tokenExpiry">Expires</Label>
+            <select
+              id="tokenExpiry"
+              value={expiresInDays}
+              onChange={(e) => setExpiresInDays(Number(e.target.value))}
+              className="w-full text-sm border rounded px-2 py-2"
+            >
+              {EXPIRY_OPTIONS.map((option) => (
+                <option key={option.days} value={option.days}>
+                  {option.label}
+                </option>
+              ))}
+            </select>
+          </div>
+          <Button type="submit" disabled={!name || scopes.length === 0 || createMutation.isPending}>
+            Create token
+          </Button>
+        </form>
+
+        {tokens && tokens.length > 0 && (
+          <div className="space-y-2">
+            {tokens.map((token) => (
+              <div
+                key={token.id}
+                className="flex items-center justify-between p-3 border rounded-lg"
+              >
+                <div className="min-w-0">
+                  <p className="text-sm font-medium">
+                    {token.name}{' '}
+                    <span className="font-mono text-xs text-muted-foreground">
+                      {token.tokenPrefix}…
+                    </span>
+                  </p>
+                  <p className="text-xs text-muted-foreground">
+                    {token.scopes.join(', ')} ·{' '}
+                    {token.expiresAt
+                      ? `expires ${new Date(token.expiresAt).toLocaleDateString()}`
+                      : 'never expires'}{' '}
+                    ·{' '}
+                    {token.lastUsedAt
+                      ? `last used ${new Date(token.lastUsedAt).toLocaleString()}`
+                      : 'never used'}
+                  </p>
+                </div>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => revokeMutation.mutate(token.id)}
+                  disabled={revokeMutation.isPending}
+                  aria-label={`Revoke ${token.name}`}
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,103 @@
+'use client';
+
+import { useRef, useState } from 'react';
+import { Loader2, Upload } from 'lucide-react';
+import { api } from '@/lib/api';
+import { useAuth } from '@/lib/auth';
+import { Button } from '@/components/ui/button';
+import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
+
+const ACCEPTED_TYPES = 'image/jpeg,image/png,image/webp,image/gif';
+
+export function AvatarUpload() {
+  const { user, refreshUser } = useAuth();
+  const fileInput = useRef<HTMLInputElement>(null);
+  const [error, setError] = useState('');
+  const [isUploading, setIsUploading] = useState(false);
+
+  if (!user) return null;
+
+  const initials = user.name
+    .split(' ')
+    .map((n) => n[0])
+    .join('')
+    .toUpperCase()
+    .slice(0, 2);
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    setError('');
+    setIsUploading(true);
+
+    const formData = new FormData();
+    formData.append('avatar', file);
+    const response = await api.uploadFile('/auth/me/avatar', formData);
+
+    if (response.success) {
+      await refreshUser();
+    } else {
+      setError(response.error?.message || 'Upload failed');
+    }
+
+    setIsUploading(false);
+  };
+
+  const handleRemove = async () => {
+    setError('');
+    setIsUploading(true);
+
+    const response = await api.delete('/auth/me/avatar');
+    if (response.success) {
+      await refreshUser();
+    } else {
+      setError(response.error?.message || 'Could not remove the picture');
+    }
+
+    setIsUploading(false);
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center space-x-4">
+        <Avatar className="h-16 w-16">
+          {user.avatarUrl && <AvatarImage src={user.avatarUrl} alt={user.name} />}
+          <AvatarFallback>{initials}</AvatarFallback>
+        </Avatar>
+        <input
+          ref={fileInput}
+          type="file"
+          accept={ACCEPTED_TYPES}
+          onChange={handleFile}
+          className="hidden"
+        />
+        <Button
+          type="button"
+          variant="outline"
+          onClick={() => fileInput.current?.click()}
+          disabled={isUploading}
+        >
+          {isUploading ? (
+            <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+          ) : (
+            <Upload className="mr-2 h-4 w-4" />
+          )}
+          Upload picture
+        </Button>
+        {user.avatarUrl && (
+          <Button type="button" variant="ghost" onClick={handleRemove} disabled={isUploading}>
+            Remove
+          </Button>
+        )}
+      </div>
+      <p className="text-xs text-muted-foreground">
+        JPEG, PNG, WebP or GIF up to 5 MB. Cropped to a square.
+      </p>
+      {error && (
+        <div className="p-3 text-sm text-destructive bg-destructive/10 rounded-md">{error}</div>
+      )}
+    </div>
+  );
+}
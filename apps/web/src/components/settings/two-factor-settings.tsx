@@ -0,0 +1,216 @@
+'use client';
+
+import { useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { ShieldCheck } from 'lucide-react';
+import { api } from '@/lib/api';
+import { useAuth } from '@/lib/auth';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+
+interface TwoFactorStatus {
+  enabled: boolean;
+  enabledAt: string | null;
+  required: boolean;
+  recoveryCodesRemaining: number;
+}
+
+interface Enrollment {
+  secret: string;
+  otpauthUrl: string;
+  qrCode: string;
+}
+
+type MutationResponse = { success: boolean; error?: { message: string } };
+
+export function TwoFactorSettings() {
+  const queryClient = useQueryClient();
+  const { refreshToken, refreshUser } = useAuth();
+  const [enrollment, setEnrollment] = useState<Enrollment | null>(null);
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
+  const [code, setCode] = useState('');
+  const [password, setPassword] = useState('');
+  const [error, setError] = useState('');
+
+  const { data: status } = useQuery({
+    queryKey: ['auth', '2fa'],
+    queryFn: async () => {
+      const response = await api.get<TwoFactorStatus>('/auth/2fa');
+      return response.data;
+    },
+  });
+
+  const handleResult = (response: MutationResponse) => {
+    if (!response.success) {
+      setError(response.error?.message || 'Something went wrong');
+      return false;
+    }
+    setError('');
+    setCode('');
+    setPassword('');
+    queryClient.invalidateQueries({ queryKey: ['auth', '2fa'] });
+    return true;
+  };
+
+  const setupMutation = useMutation({
+    mutationFn: async () => api.post<Enrollment>('/auth/2fa/setup'),
+    onSuccess: (response) => {
+      if (handleResult(response)) setEnrollment(response.data!);
+    },
+  });
+
+  const enableMutation = useMutation({
+    mutationFn: async () => api.post<{ recoveryCodes: string[] }>('/auth/2fa/enable', { code }),
+    onSuccess: async (response) => {
+      if (!handleResult(response)) return;
+      setEnrollment(null);
+      setRecoveryCodes(response.data!.recoveryCodes);
+      // Swap a token that was limited to 2FA setup for a normal one
+      await refreshToken();
+      await refreshUser();
+    },
+  });
+
+  const regenerateMutation = useMutation({
+    mutationFn: async () =>
+      api.post<{ recoveryCodes: string[] }>('/auth/2fa/recovery-codes', { code }),
+    onSuccess: (response) => {
+      if (handleResult(response)) setRecoveryCodes(response.data!.recoveryCodes);
+    },
+  });
+
+  const disableMutation = useMutation({
+    mutationFn: async () => api.post('/auth/2fa/disable', { password, code }),
+    onSuccess: (response) => {
+      if (handleResult(response)) setRecoveryCodes(null);
+    },
+  });
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center">
+          <ShieldCheck className="mr-2 h-5 w-5" />
+          Two-factor authentication
+        </CardTitle>
+        <CardDescription>
+          Require a code from an authenticator app in addition to your password
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {error && (
+          <div className="p-3 text-sm text-destructive bg-destructive/10 rounded-md">{error}</div>
+        )}
+
+        {status?.required && !status.enabled && (
+          <div className="p-3 text-sm bg-amber-50 text-amber-900 rounded-md">
+            Your role requires two-factor authentication. Set it up to keep using your account.
+          </div>
+        )}
+
+        {recoveryCodes && (
+          <div className="space-y-2">
+            <p className="text-sm font-medium">Recovery codes</p>
+            <p className="text-sm text-muted-foreground">
+              Store these somewhere safe. Each one can be used once to sign in if you lose your
+              device. They will not be shown again.
+            </p>
+            <div className="grid grid-cols-2 gap-2 p-4 bg-muted rounded-md font-mono text-sm">
+              {recoveryCodes.map((recoveryCode) => (
+                <span key={recoveryCode}>{recoveryCode}</span>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {status && !status.enabled && !enrollment && (
+          <Button onClick={() => setupMutation.mutate()} disabled={setupMutation.isPending}>
+            Set up two-factor authentication
+          </Button>
+        )}
+
+        {enrollment && (
+          <form
+            onSubmit={(e) => {
+              e.preventDefault();
+              enableMutation.mutate();
+            }}
+            className="space-y-4"
+          >
+            <p className="text-sm">
+              Scan this QR code with your authenticator app, then enter the code it shows.
+            </p>
+            {/* eslint-disable-next-line @next/next/no-img-element -- data URL generated by the API */}
+            <img src={enrollment.qrCode} alt="Two-factor QR code" className="w-48 h-48 border" />
+            <p className="text-xs text-muted-foreground">
+              Can&apos;t scan it? Enter this key instead:{' '}
+              <code className="font-mono">{enrollment.secret}</code>
+            </p>
+            <div className="space-y-2">
+              <Label htmlFor="enableCode">Authentication code</Label>
+              <Input
+                id="enableCode"
+                autoComplete="one-time-code"
+                value={code}
+                onChange={(e) => setCode(e.target.value)}
+                required
+              />
+            </div>
+            <Button type="submit" disabled={enableMutation.isPending}>
+              Enable
+            </Button>
+          </form>
+        )}
+
+        {status?.enabled && (
+          <div className="space-y-4">
+            <p className="text-sm">
+              Enabled on {new Date(status.enabledAt!).toLocaleDateString()} ·{' '}
+              {status.recoveryCodesRemaining} recovery codes left
+            </p>
+            <div className="space-y-2">
+              <Label htmlFor="manageCode">Authentication code</Label>
+              <Input
+                id="manageCode"
+                autoComplete="one-time-code"
+                value={code}
+                onChange={(e) => setCode(e.target.value)}
+              />
+            </div>
+            {!status.required && (
+              <div className="space-y-2">
+                <Label htmlFor="disablePassword">Password (to disable)</Label>
+                <Input
+                  id="disablePassword"
+                  type="password"
+                  value={password}
+                  onChange={(e) => setPassword(e.target.value)}
+                />
+              </div>
+            )}
+            <div className="flex space-x-2">
+              <Button
+                variant="outline"
+                onClick={() => regenerateMutation.mutate()}
+                disabled={!code || regenerateMutation.isPending}
+              >
+                New recovery codes
+              </Button>
+              {!status.required && (
+                <Button
+                  variant="destructive"
+                  onClick={() => disableMutation.mutate()}
+                  disabled={!code || !password || disableMutation.isPending}
+                >
+                  Disable
+                </Button>
+              )}
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
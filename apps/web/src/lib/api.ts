@@ -67,6 +67,22 @@ class ApiClient {
     return this.request<T>(endpoint, { method: 'DELETE' });
   }
 
+  // For endpoints that answer with a file (CSV, zip, ...) instead of JSON
+  async download(endpoint: string): Promise<Blob | null> {
+    const headers: HeadersInit = {};
+
+    if (this.accessToken) {
+      (headers as Record<string, string>)['Authorization'] = `Bearer ${this.accessToken}`;
+    }
+
+    const response = await fetch(`${API_URL}${endpoint}`, {
+      headers,
+      credentials: 'include',
+    });
+
+    return response.ok ? response.blob() : null;
+  }
+
   async uploadFile<T>(endpoint: string, formData: FormData): Promise<ApiResponse<T>> {
     const headers: HeadersInit = {};
 
@@ -8,18 +8,45 @@ interface User {
   email: string;
   name: string;
   role: string;
-  avatarUrl?: string;
+  avatarUrl?: string | null;
   emailVerified?: string;
+  // Set while a change of address waits for the new one to be confirmed
+  pendingEmail?: string | null;
+  twoFactorEnabledAt?: string | null;
+  twoFactorSetupRequired?: boolean;
+  permissions?: string[];
+}
+
+interface LoginResponse {
+  user: User;
+  accessToken: string;
+  refreshToken: string;
+  twoFactorSetupRequired?: boolean;
+}
+
+interface LoginResult {
+  success: boolean;
+  error?: string;
+  // Set when the password was accepted and a 2FA code is needed next
+  twoFactorChallenge?: string;
 }
 
 interface AuthContextType {
   user: User | null;
   isLoading: boolean;
   isAuthenticated: boolean;
-  login: (email: string, password: string) => Promise<{ success: boolean; error?: string }>;
+  login: (email: string, password: string) => Promise<LoginResult>;
+  completeTwoFactorLogin: (challengeToken: string, code: string) => Promise<LoginResult>;
+  // Redeem the code the SSO provider redirected back with
+  completeSsoLogin: (code: string, state: string) => Promise<LoginResult>;
   register: (email: string, password: string, name: string) => Promise<{ success: boolean; error?: string }>;
+  // Set the first password on an account an admin invited, and sign in with it
+  acceptInvitation: (token: string, password: string, name?: string) => Promise<LoginResult>;
   logout: () => Promise<void>;
   refreshToken: () => Promise<boolean>;
+  refreshUser: () => Promise<void>;
+  // Whether the signed-in user's role grants a permission such as 'article:create'
+  can: (permission: string) => boolean;
 }
 
 const AuthContext = createContext<AuthContextType | undefined>(undefined);
@@ -88,24 +115,59 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
     fetchUser();
   }, [fetchUser]);
 
-  const login = async (email: string, password: string) => {
-    const response = await api.post<{
-      user: User;
-      accessToken: string;
-      refreshToken: string;
-    }>('/auth/login', { email, password });
+  const startSession = (data: LoginResponse) => {
+    localStorage.setItem(TOKEN_KEY, data.accessToken);
+    localStorage.setItem(REFRESH_TOKEN_KEY, data.refreshToken);
+    api.setAccessToken(data.accessToken);
+    setUser({ ...data.user, twoFactorSetupRequired: data.twoFactorSetupRequired });
+  };
+
+  const login = async (email: string, password: string): Promise<LoginResult> => {
+    const response = await api.post<
+      LoginResponse | { twoFactorRequired: true; challengeToken: string }
+    >('/auth/login', { email, password });
 
     if (response.success && response.data) {
-      localStorage.setItem(TOKEN_KEY, response.data.accessToken);
-      localStorage.setItem(REFRESH_TOKEN_KEY, response.data.refreshToken);
-      api.setAccessToken(response.data.accessToken);
-      setUser(response.data.user);
+      if ('challengeToken' in response.data) {
+        return { success: false, twoFactorChallenge: response.data.challengeToken };
+      }
+      startSession(response.data);
       return { success: true };
     }
 
     return { success: false, error: response.error?.message || 'Login failed' };
   };
 
+  const completeTwoFactorLogin = async (
+    challengeToken: string,
+    code: string
+  ): Promise<LoginResult> => {
+    const response = await api.post<LoginResponse>('/auth/login/2fa', { challengeToken, code });
+
+    if (response.success && response.data) {
+      startSession(response.data);
+      return { success: true };
+    }
+
+    return { success: false, error: response.error?.message || 'Verification failed' };
+  };
+
+  const completeSsoLogin = async (code: string, state: string): Promise<LoginResult> => {
+    const response = await api.post<
+      LoginResponse | { twoFactorRequired: true; challengeToken: string }
+    >('/auth/oidc/callback', { code, state });
+
+    if (response.success && response.data) {
+      if ('challengeToken' in response.data) {
+        return { success: false, twoFactorChallenge: response.data.challengeToken };
+      }
+      startSession(response.data);
+      return { success: true };
+    }
+
+    return { success: false, error: response.error?.message || 'Single sign-on failed' };
+  };
+
   const register = async (email: string, password: string, name: string) => {
     const response = await api.post<{
       user: User;
@@ -124,6 +186,30 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
     return { success: false, error: response.error?.message || 'Registration failed' };
   };
 
+  const acceptInvitation = async (
+    token: string,
+    password: string,
+    name?: string
+  ): Promise<LoginResult> => {
+    const response = await api.post<LoginResponse>('/auth/accept-invitation', {
+      token,
+      password,
+      name,
+    });
+
+    if (response.success && response.data) {
+      startSession(response.data);
+      return { success: true };
+    }
+
+    return { success: false, error: response.error?.message || 'Could not accept the invitation' };
+  };
+
+  const can = useCallback(
+    (permission: string) => !!user?.permissions?.includes(permission),
+    [user]
+  );
+
   const logout = async () => {
     const refreshTokenValue = localStorage.getItem(REFRESH_TOKEN_KEY);
     await api.post('/auth/logout', { refreshToken: refreshTokenValue });
@@ -140,9 +226,14 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
         isLoading,
         isAuthenticated: !!user,
         login,
+        completeTwoFactorLogin,
+        completeSsoLogin,
         register,
+        acceptInvitation,
         logout,
         refreshToken,
+        refreshUser: fetchUser,
+        can,
       }}
     >
       {children}
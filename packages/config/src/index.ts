@@ -17,15 +17,44 @@ const envSchema = z.object({
   S3_BUCKET: z.string(),
   S3_REGION: z.string().default('us-east-1'),
 
+  // Search
+  SEARCH_PROVIDER: z.enum(['postgres', 'meilisearch', 'memory']).default('postgres'),
+
   // Meilisearch
   MEILISEARCH_HOST: z.string().url(),
   MEILISEARCH_API_KEY: z.string(),
 
+  // Background jobs
+  WORKER_CONCURRENCY: z.coerce.number().min(1).default(2),
+
+  // Email
+  EMAIL_TRANSPORT: z.enum(['smtp', 'outbox']).default('outbox'),
+  EMAIL_FROM: z.string().default('KBase <no-reply@localhost>'),
+  EMAIL_OUTBOX_DIR: z.string().default('.outbox'),
+  SMTP_HOST: z.string().optional(),
+  SMTP_PORT: z.coerce.number().default(587),
+  SMTP_SECURE: z.enum(['true', 'false']).default('false'),
+  SMTP_USER: z.string().optional(),
+  SMTP_PASS: z.string().optional(),
+
+  // Single sign-on (OpenID Connect); enabled when OIDC_ISSUER and OIDC_CLIENT_ID are set
+  OIDC_ISSUER: z.string().url().or(z.literal('')).optional(),
+  OIDC_CLIENT_ID: z.string().optional(),
+  OIDC_CLIENT_SECRET: z.string().optional(),
+  OIDC_REDIRECT_URI: z.string().url().or(z.literal('')).optional(),
+  OIDC_SCOPES: z.string().default('openid email profile'),
+  OIDC_PROVIDER_NAME: z.string().default('Single sign-on'),
+  OIDC_ALLOW_PROVISIONING: z.enum(['true', 'false']).default('true'),
+  OIDC_DEFAULT_ROLE: z.enum(['ADMIN', 'EDITOR', 'VIEWER']).default('VIEWER'),
+  OIDC_GROUPS_CLAIM: z.string().default('groups'),
+  OIDC_ROLE_MAPPING: z.string().optional(),
+
   // API
   API_PORT: z.coerce.number().default(3001),
   API_URL: z.string().url().optional(),
 
   // Frontend
+  APP_URL: z.string().url().optional(),
   NEXT_PUBLIC_API_URL: z.string().url().optional(),
 });
 
@@ -5,6 +5,11 @@ export interface User {
   name: string;
   role: UserRole;
   avatarUrl?: string;
+  emailVerified?: Date | null;
+  permissions?: string[];
+  deactivatedAt?: Date | null;
+  // Set while a change of email waits for the new address to be confirmed
+  pendingEmail?: string | null;
   createdAt: Date;
   updatedAt: Date;
 }
@@ -17,6 +22,40 @@ export interface Session {
   expiresAt: Date;
 }
 
+export interface ApiToken {
+  id: string;
+  name: string;
+  tokenPrefix: string;
+  scopes: ApiTokenScope[];
+  expiresAt?: Date | null;
+  lastUsedAt?: Date | null;
+  createdAt: Date;
+}
+
+export type ApiTokenScope = 'read' | 'write' | 'admin';
+
+// Group Types
+export interface Group {
+  id: string;
+  name: string;
+  slug: string;
+  description?: string;
+  memberships?: GroupMembership[];
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface GroupMembership {
+  id: string;
+  groupId: string;
+  userId: string;
+  user?: User;
+  role: GroupRole;
+  createdAt: Date;
+}
+
+export type GroupRole = 'owner' | 'member';
+
 // Article Types
 export interface Article {
   id: string;
@@ -37,9 +76,86 @@ export interface Article {
   createdAt: Date;
   updatedAt: Date;
   publishedAt?: Date;
+  scheduledPublishAt?: Date;
+  archiveAt?: Date;
+}
+
+export type ContentStatus = 'draft' | 'in_review' | 'published' | 'archived';
+
+export interface ArticleRevision {
+  id: string;
+  articleId: string;
+  version: number;
+  title: string;
+  content: string;
+  excerpt?: string;
+  // Null once the editor's account is deleted
+  editorId: string | null;
+  editor?: User | null;
+  restoredFromId?: string;
+  createdAt: Date;
+}
+
+// Skeleton a new article can start from; tags are names, like those sent with a new article
+export interface ArticleTemplate {
+  id: string;
+  name: string;
+  description?: string;
+  title: string;
+  content: string;
+  tags: string[];
+  categoryId?: string;
+  category?: Pick<Category, 'id' | 'name' | 'slug'>;
+  createdById?: string;
+  createdBy?: Pick<User, 'id' | 'name'>;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface DiffChange {
+  value: string;
+  added?: boolean;
+  removed?: boolean;
+}
+
+export interface RevisionDiff {
+  title: DiffChange[];
+  excerpt: DiffChange[];
+  content: DiffChange[];
 }
 
-export type ContentStatus = 'draft' | 'published' | 'archived';
+export type ArticleImportStatus = 'created' | 'skipped' | 'failed';
+
+// One line of an import report; a dry run reports what would have been created
+export interface ArticleImportResult {
+  file: string;
+  status: ArticleImportStatus;
+  title?: string;
+  slug?: string;
+  articleId?: string;
+  message?: string;
+}
+
+export interface ArticleImportReport {
+  dryRun: boolean;
+  results: ArticleImportResult[];
+  summary: Record<ArticleImportStatus, number>;
+}
+
+// A Confluence import reports pages in `results`, plus the tree and files around them
+export interface ConfluenceImportReport extends ArticleImportReport {
+  space: string;
+  categories: { name: string; slug: string; status: 'created' | 'existing' }[];
+  attachments: {
+    file: string;
+    page: string;
+    status: ArticleImportStatus;
+    documentId?: string;
+    message?: string;
+  }[];
+  // Macros with no equivalent here; their rendered output is kept as plain content
+  unmappedMacros: { name: string; count: number; pages: string[] }[];
+}
 
 // Document Types
 export interface Document {
@@ -50,6 +166,12 @@ export interface Document {
   fileUrl: string;
   fileSize: number;
   mimeType: string;
+  extractedText?: string;
+  pageCount?: number;
+  wordCount?: number;
+  thumbnailUrl?: string;
+  currentVersion: number;
+  versions?: DocumentVersion[];
   authorId: string;
   author?: User;
   categoryId?: string;
@@ -60,10 +182,27 @@ export interface Document {
   dislikesCount: number;
   commentsCount: number;
   downloadsCount: number;
+  scheduledPublishAt?: Date;
+  archiveAt?: Date;
   createdAt: Date;
   updatedAt: Date;
 }
 
+export interface DocumentVersion {
+  id: string;
+  documentId: string;
+  version: number;
+  fileName: string;
+  fileUrl: string;
+  fileSize: number;
+  mimeType: string;
+  changeNote?: string;
+  // Null once the uploader's account is deleted
+  uploadedById: string | null;
+  uploadedBy?: User | null;
+  createdAt: Date;
+}
+
 // Category & Tag Types
 export interface Category {
   id: string;
@@ -71,12 +210,15 @@ export interface Category {
   slug: string;
   description?: string;
   parentId?: string;
+  visibility: CategoryVisibility;
   parent?: Category;
   children?: Category[];
   createdAt: Date;
   updatedAt: Date;
 }
 
+export type CategoryVisibility = 'public' | 'authenticated' | 'restricted';
+
 export interface Tag {
   id: string;
   name: string;
@@ -101,6 +243,27 @@ export interface Comment {
 
 export type ContentType = 'article' | 'document';
 
+// Review Types
+export interface Review {
+  id: string;
+  contentType: ContentType;
+  articleId?: string;
+  documentId?: string;
+  requesterId: string;
+  requester?: User;
+  reviewerId?: string;
+  reviewer?: User;
+  reviewerGroupId?: string;
+  reviewerGroup?: Group;
+  status: ReviewStatus;
+  requestComment?: string;
+  decisionComment?: string;
+  createdAt: Date;
+  decidedAt?: Date;
+}
+
+export type ReviewStatus = 'pending' | 'approved' | 'changes_requested' | 'cancelled';
+
 // Reaction Types
 export interface Reaction {
   id: string;
@@ -114,6 +277,22 @@ export interface Reaction {
 
 export type ReactionType = 'like' | 'dislike';
 
+// Audit Types
+export interface AuditEvent {
+  id: string;
+  actorId?: string | null;
+  actorEmail?: string | null;
+  actor?: User | null;
+  action: string;
+  targetType?: string | null;
+  targetId?: string | null;
+  ipAddress?: string | null;
+  userAgent?: string | null;
+  before?: unknown;
+  after?: unknown;
+  createdAt: Date;
+}
+
 // API Response Types
 export interface ApiResponse<T> {
   success: boolean;
@@ -140,8 +319,11 @@ export interface SearchResult {
   id: string;
   type: ContentType;
   title: string;
+  slug?: string;
   excerpt: string;
   score: number;
+  // Marked-up fragments under `title` and `content`; a document's content covers its
+  // description and extracted text
   highlights?: Record<string, string[]>;
 }
 
@@ -150,6 +332,8 @@ export interface SearchParams {
   type?: ContentType;
   categoryId?: string;
   tags?: string[];
+  // Categories the caller may not see; content filed under them is left out
+  excludeCategoryIds?: string[];
   page?: number;
   limit?: number;
 }
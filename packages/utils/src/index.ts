@@ -16,6 +16,23 @@ export function truncate(text: string, maxLength: number): string {
   return text.slice(0, maxLength - 3) + '...';
 }
 
+const HTML_ENTITIES: Record<string, string> = {
+  '&amp;': '&',
+  '&lt;': '<',
+  '&gt;': '>',
+  '&quot;': '"',
+  '&#39;': "'",
+  '&nbsp;': ' ',
+};
+
+export function stripHtml(html: string): string {
+  return html
+    .replace(/<[^>]+>/g, ' ')
+    .replace(/&(amp|lt|gt|quot|#39|nbsp);/g, (entity) => HTML_ENTITIES[entity])
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
 export function formatDate(date: Date | string): string {
   const d = typeof date === 'string' ? new Date(date) : date;
   return d.toLocaleDateString('en-US', {
@@ -89,3 +106,13 @@ export function pick<T extends Record<string, unknown>, K extends keyof T>(
   });
   return result;
 }
+
+// Avatars are stored square at each of these sizes, largest first
+export const AVATAR_SIZES = [256, 64] as const;
+
+export type AvatarSize = (typeof AVATAR_SIZES)[number];
+
+// The stored avatarUrl is the largest size; the others sit next to it
+export function avatarUrlForSize(avatarUrl: string, size: AvatarSize): string {
+  return avatarUrl.replace(/-\d+\.webp$/, `-${size}.webp`);
+}